@@ -1,6 +1,9 @@
 import jwt from 'jsonwebtoken';
 import { Response, NextFunction } from 'express';
 import User from '../models/User.js';
+import Session from '../models/Session.js';
+import { verifyChallengeToken } from '../utils/twoFactor.js';
+import { getRolePermissions, Permission } from '../utils/permissions.js';
 import { AuthenticatedRequest, JWTPayload, ApiResponse } from '../types/index.js';
 
 export const authenticate = async (
@@ -20,6 +23,18 @@ export const authenticate = async (
     }
 
     const decoded = jwt.verify(token, process.env.JWT_SECRET as string) as JWTPayload;
+
+    // Every token must map to a live session so logout and admin revocation take effect immediately
+    const session = decoded.jti ? await Session.findOne({ jti: decoded.jti }) : null;
+
+    if (!session || session.revokedAt) {
+      res.status(401).json({
+        success: false,
+        message: 'Session has been revoked.',
+      });
+      return;
+    }
+
     const user = await User.findById(decoded.userId).select('-password');
 
     if (!user) {
@@ -39,6 +54,7 @@ export const authenticate = async (
     }
 
     req.user = user;
+    req.session = session;
     next();
   } catch (error) {
     if (error instanceof jwt.JsonWebTokenError) {
@@ -65,8 +81,22 @@ export const authenticate = async (
   }
 };
 
-export const authorize = (...roles: string[]) => {
-  return (req: AuthenticatedRequest, res: Response<ApiResponse>, next: NextFunction): void => {
+// Resolve the current user's permissions once per request
+const loadPermissions = async (req: AuthenticatedRequest): Promise<string[]> => {
+  if (!req.permissions) {
+    req.permissions = await getRolePermissions(req.user!.role);
+  }
+  return req.permissions;
+};
+
+// Inline check for handlers whose rules depend on the resource (e.g. own profile)
+export const hasPermission = async (req: AuthenticatedRequest, permission: Permission): Promise<boolean> => {
+  return (await loadPermissions(req)).includes(permission);
+};
+
+// Every route declares the permissions it needs; the user's role must grant all of them
+export const requirePermission = (...permissions: Permission[]) => {
+  return async (req: AuthenticatedRequest, res: Response<ApiResponse>, next: NextFunction): Promise<void> => {
     if (!req.user) {
       res.status(401).json({
         success: false,
@@ -75,14 +105,60 @@ export const authorize = (...roles: string[]) => {
       return;
     }
 
-    if (!roles.includes(req.user.role)) {
-      res.status(403).json({
+    try {
+      const granted = await loadPermissions(req);
+
+      if (!permissions.every(permission => granted.includes(permission))) {
+        res.status(403).json({
+          success: false,
+          message: 'Insufficient permissions.',
+        });
+        return;
+      }
+
+      next();
+    } catch (error) {
+      console.error('Authorization error:', error);
+      res.status(500).json({
         success: false,
-        message: 'Insufficient permissions.',
+        message: 'Internal server error.',
+      });
+    }
+  };
+};
+
+// Accepts either a normal access token or, for users whose role requires
+// two-factor authentication but who have not enrolled yet, the enrolment
+// challenge token returned by /api/auth/login
+export const authenticateTwoFactorEnrolment = async (
+  req: AuthenticatedRequest, 
+  res: Response<ApiResponse>, 
+  next: NextFunction
+): Promise<void> => {
+  if (!req.body?.challengeToken) {
+    return authenticate(req, res, next);
+  }
+
+  try {
+    const challenge = verifyChallengeToken(req.body.challengeToken, '2fa-enrol');
+    const user = challenge ? await User.findOne({ _id: challenge.userId, isActive: true }).select('-password') : null;
+
+    if (!user || user.twoFactor?.enabled) {
+      res.status(401).json({
+        success: false,
+        message: 'Invalid or expired challenge token.',
       });
       return;
     }
 
+    req.user = user;
+    req.enrolmentChallenge = true;
     next();
-  };
+  } catch (error) {
+    console.error('Authentication error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error.',
+    });
+  }
 };
\ No newline at end of file
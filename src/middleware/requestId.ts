@@ -0,0 +1,11 @@
+import { randomUUID } from 'crypto';
+import { Response, NextFunction } from 'express';
+import { AuthenticatedRequest } from '../types/index.js';
+
+// Tag every request with an id (honouring one set by a proxy) and echo it back
+export const requestId = (req: AuthenticatedRequest, res: Response, next: NextFunction): void => {
+  const incoming = req.get('X-Request-Id');
+  req.requestId = incoming && /^[\w.-]{1,100}$/.test(incoming) ? incoming : randomUUID();
+  res.set('X-Request-Id', req.requestId);
+  next();
+};
@@ -1,6 +1,23 @@
-import { body, param, query, validationResult } from 'express-validator';
+import { body, param, query, validationResult, Meta } from 'express-validator';
 import { Request, Response, NextFunction } from 'express';
 import { ApiResponse } from '../types/index.js';
+import { checkPasswordStrength, describePasswordProblems } from '../utils/passwordPolicy.js';
+import { isPermission, roleExists } from '../utils/permissions.js';
+import { OBSERVATION_TYPES, isAcceptedUnit } from '../utils/observations.js';
+import { isIcd10Code, normaliseIcd10Code } from '../utils/icd10.js';
+import { PATIENT_DOCUMENT_TYPES } from '../utils/uploads.js';
+import { LAB_PANEL_CODES } from '../utils/labOrders.js';
+import { IMMUNIZATION_ROUTES, IMMUNIZATION_SITES, findScheduledVaccine } from '../utils/immunizations.js';
+
+// Apply the configurable password strength policy to a body field
+const passwordStrength = (field: string) => body(field)
+  .custom((value: string) => {
+    const problems = checkPasswordStrength(value);
+    if (problems.length > 0) {
+      throw new Error(describePasswordProblems(problems));
+    }
+    return true;
+  });
 
 export const handleValidationErrors = (req: Request, res: Response<ApiResponse>, next: NextFunction): void => {
   const errors = validationResult(req);
@@ -29,9 +46,7 @@ export const validateUserRegistration = [
     .normalizeEmail()
     .withMessage('Please provide a valid email'),
   
-  body('password')
-    .isLength({ min: 6 })
-    .withMessage('Password must be at least 6 characters long'),
+  passwordStrength('password'),
   
   body('firstName')
     .trim()
@@ -45,8 +60,13 @@ export const validateUserRegistration = [
   
   body('role')
     .optional()
-    .isIn(['admin', 'doctor', 'nurse', 'staff'])
-    .withMessage('Invalid role'),
+    .isString()
+    .custom(async (role: string) => {
+      if (!(await roleExists(role))) {
+        throw new Error('Invalid role');
+      }
+      return true;
+    }),
 ];
 
 export const validateUserLogin = [
@@ -60,6 +80,47 @@ export const validateUserLogin = [
     .withMessage('Password is required'),
 ];
 
+export const validatePasswordChange = [
+  body('currentPassword')
+    .notEmpty()
+    .withMessage('Current password is required'),
+  
+  passwordStrength('newPassword'),
+];
+
+export const validateForgotPassword = [
+  body('email')
+    .isEmail()
+    .normalizeEmail()
+    .withMessage('Please provide a valid email'),
+];
+
+export const validatePasswordReset = [
+  body('token')
+    .trim()
+    .notEmpty()
+    .withMessage('Reset token is required'),
+  
+  passwordStrength('newPassword'),
+];
+
+export const validateTwoFactorLogin = [
+  body('challengeToken')
+    .notEmpty()
+    .withMessage('Challenge token is required'),
+  
+  body('code')
+    .if(body('recoveryCode').not().exists())
+    .matches(/^\d{6}$/)
+    .withMessage('A 6-digit code or a recovery code is required'),
+];
+
+export const validateTwoFactorCode = [
+  body('code')
+    .matches(/^\d{6}$/)
+    .withMessage('A 6-digit code is required'),
+];
+
 // Patient validation rules
 export const validatePatientCreation = [
   body('firstName')
@@ -91,12 +152,706 @@ export const validatePatientCreation = [
     .withMessage('Gender must be male, female, or other'),
 ];
 
+export const validateCareTeamMember = [
+  body('user')
+    .isMongoId()
+    .withMessage('Valid user ID is required'),
+  
+  body('role')
+    .optional()
+    .trim()
+    .isLength({ max: 50 })
+    .withMessage('Care team role cannot exceed 50 characters'),
+];
+
+export const validatePatientRestriction = [
+  body('category')
+    .isIn(['psychiatric', 'vip', 'employee', 'other'])
+    .withMessage('Category must be psychiatric, vip, employee or other'),
+  
+  body('reason')
+    .optional()
+    .trim()
+    .isLength({ max: 500 })
+    .withMessage('Reason cannot exceed 500 characters'),
+];
+
+export const validateBreakGlass = [
+  body('reason')
+    .trim()
+    .isLength({ min: 20, max: 1000 })
+    .withMessage('A written justification of 20 to 1000 characters is required'),
+];
+
+export const validateBreakGlassReview = [
+  body('decision')
+    .isIn(['approved', 'flagged'])
+    .withMessage('Decision must be approved or flagged'),
+  
+  body('notes')
+    .optional()
+    .trim()
+    .isLength({ max: 1000 })
+    .withMessage('Notes cannot exceed 1000 characters'),
+];
+
+// Clinical list entry validation rules. Every rule applies when adding an entry;
+// updates only validate the fields they send.
+const entryField = (field: string, isUpdate: boolean) => isUpdate ? body(field).optional() : body(field);
+
+// Optional ICD-10 code, normalised and checked against the bundled code table
+const icd10Code = (field: string) => body(field)
+  .optional()
+  .customSanitizer(normaliseIcd10Code)
+  .custom(isIcd10Code)
+  .withMessage('Unknown ICD-10 code');
+
+export const validateMedicalHistoryEntry = (isUpdate = false) => [
+  // A coded entry may leave its display text to the code's description
+  body('condition')
+    .if((value: unknown, { req }: Meta) => value !== undefined || (!isUpdate && req.body.code === undefined))
+    .trim()
+    .isLength({ min: 1, max: 200 })
+    .withMessage('Condition is required and cannot exceed 200 characters'),
+  
+  icd10Code('code'),
+  
+  body('diagnosedDate')
+    .optional()
+    .isISO8601()
+    .withMessage('Diagnosed date must be a valid date'),
+  
+  body('status')
+    .optional()
+    .isIn(['active', 'resolved', 'chronic'])
+    .withMessage('Status must be active, resolved or chronic'),
+  
+  body('notes')
+    .optional()
+    .trim()
+    .isLength({ max: 1000 })
+    .withMessage('Notes cannot exceed 1000 characters'),
+];
+
+export const validateMedicationEntry = (isUpdate = false) => [
+  entryField('name', isUpdate)
+    .trim()
+    .isLength({ min: 1, max: 200 })
+    .withMessage('Medication name is required and cannot exceed 200 characters'),
+  
+  entryField('dosage', isUpdate)
+    .trim()
+    .notEmpty()
+    .withMessage('Dosage is required'),
+  
+  entryField('frequency', isUpdate)
+    .trim()
+    .notEmpty()
+    .withMessage('Frequency is required'),
+  
+  entryField('startDate', isUpdate)
+    .isISO8601()
+    .withMessage('Start date must be a valid date'),
+  
+  body('endDate')
+    .optional()
+    .isISO8601()
+    .withMessage('End date must be a valid date'),
+  
+  entryField('prescribedBy', isUpdate)
+    .trim()
+    .notEmpty()
+    .withMessage('Prescriber is required'),
+];
+
+// Given when prescribing despite a severe interaction or allergy warning
+export const validateInteractionOverride = [
+  body('interactionOverrideReason')
+    .optional()
+    .trim()
+    .isLength({ min: 10, max: 500 })
+    .withMessage('Override reason must be between 10 and 500 characters'),
+];
+
+export const validateMedicationDiscontinuation = [
+  body('endDate')
+    .optional()
+    .isISO8601()
+    .withMessage('End date must be a valid date'),
+  
+  body('reason')
+    .optional()
+    .trim()
+    .isLength({ max: 500 })
+    .withMessage('Reason cannot exceed 500 characters'),
+];
+
+export const validateAllergyEntry = (isUpdate = false) => [
+  entryField('allergen', isUpdate)
+    .trim()
+    .isLength({ min: 1, max: 200 })
+    .withMessage('Allergen is required and cannot exceed 200 characters'),
+  
+  body('severity')
+    .optional()
+    .isIn(['mild', 'moderate', 'severe'])
+    .withMessage('Severity must be mild, moderate or severe'),
+  
+  body('reaction')
+    .optional()
+    .trim()
+    .isLength({ max: 500 })
+    .withMessage('Reaction cannot exceed 500 characters'),
+];
+
+// Observation validation rules
+const observationRange = [
+  query('from')
+    .optional()
+    .isISO8601()
+    .withMessage('From must be a valid date'),
+  
+  query('to')
+    .optional()
+    .isISO8601()
+    .withMessage('To must be a valid date'),
+];
+
+export const validateObservationRecording = [
+  body('readings')
+    .isArray({ min: 1, max: 20 })
+    .withMessage('Readings must be an array of 1 to 20 measurements'),
+  
+  body('readings.*.type')
+    .isIn(OBSERVATION_TYPES)
+    .withMessage(`Observation type must be one of: ${OBSERVATION_TYPES.join(', ')}`),
+  
+  body('readings.*.value')
+    .isFloat()
+    .withMessage('Reading value must be a number'),
+  
+  body('readings.*')
+    .custom(reading => reading.unit === undefined || isAcceptedUnit(reading.type, reading.unit))
+    .withMessage('Unit is not accepted for this observation type'),
+  
+  body('readings.*.notes')
+    .optional()
+    .trim()
+    .isLength({ max: 500 })
+    .withMessage('Notes cannot exceed 500 characters'),
+  
+  body('observedAt')
+    .optional()
+    .isISO8601()
+    .withMessage('Observed at must be a valid date')
+    .custom(value => new Date(value) <= new Date())
+    .withMessage('Observed at cannot be in the future'),
+  
+  body('appointment')
+    .optional()
+    .isMongoId()
+    .withMessage('Invalid appointment ID'),
+];
+
+export const validateObservationQuery = [
+  query('type')
+    .optional()
+    .isIn(OBSERVATION_TYPES)
+    .withMessage('Unknown observation type'),
+  
+  ...observationRange,
+];
+
+export const validateObservationTrends = [
+  query('types')
+    .optional()
+    .custom((types: string) => types.split(',').every(type => (OBSERVATION_TYPES as string[]).includes(type.trim())))
+    .withMessage('Unknown observation type'),
+  
+  query('interval')
+    .optional()
+    .isIn(['raw', 'day', 'week', 'month'])
+    .withMessage('Interval must be raw, day, week or month'),
+  
+  ...observationRange,
+];
+
+export const validateObservationError = [
+  body('reason')
+    .trim()
+    .isLength({ min: 3, max: 500 })
+    .withMessage('Reason must be between 3 and 500 characters'),
+];
+
+// Patient document validation rules (multipart fields sent alongside the file)
+export const validateDocumentUpload = [
+  body('type')
+    .isIn(PATIENT_DOCUMENT_TYPES)
+    .withMessage(`Document type must be one of: ${PATIENT_DOCUMENT_TYPES.join(', ')}`),
+
+  body('description')
+    .optional()
+    .trim()
+    .isLength({ max: 500 })
+    .withMessage('Description cannot exceed 500 characters'),
+
+  body('documentDate')
+    .optional()
+    .isISO8601()
+    .withMessage('Document date must be a valid date')
+    .custom(value => new Date(value) <= new Date())
+    .withMessage('Document date cannot be in the future'),
+
+  body('appointment')
+    .optional()
+    .isMongoId()
+    .withMessage('Valid appointment ID is required'),
+];
+
+export const validateDocumentQuery = [
+  query('type')
+    .optional()
+    .isIn(PATIENT_DOCUMENT_TYPES)
+    .withMessage(`Document type must be one of: ${PATIENT_DOCUMENT_TYPES.join(', ')}`),
+];
+
+export const validateDocumentDeletion = [
+  body('reason')
+    .trim()
+    .isLength({ min: 3, max: 500 })
+    .withMessage('Reason must be between 3 and 500 characters'),
+];
+
+// Lab order validation rules
+export const validateLabOrderCreation = [
+  body('appointment')
+    .isMongoId()
+    .withMessage('Valid appointment ID is required'),
+
+  body('panels')
+    .isArray({ min: 1, max: 20 })
+    .withMessage('Panels must be a list of 1 to 20 panel codes'),
+
+  body('panels.*')
+    .customSanitizer(value => String(value).trim().toUpperCase())
+    .isIn(LAB_PANEL_CODES)
+    .withMessage('Panel must be a code from the lab catalogue'),
+
+  body('priority')
+    .optional()
+    .isIn(['routine', 'urgent', 'stat'])
+    .withMessage('Priority must be routine, urgent or stat'),
+
+  body('clinicalNotes')
+    .optional()
+    .trim()
+    .isLength({ max: 1000 })
+    .withMessage('Clinical notes cannot exceed 1000 characters'),
+];
+
+export const validateLabOrderQuery = [
+  query('patient')
+    .optional()
+    .isMongoId()
+    .withMessage('Valid patient ID is required'),
+
+  query('appointment')
+    .optional()
+    .isMongoId()
+    .withMessage('Valid appointment ID is required'),
+
+  query('patient')
+    .if(query('appointment').not().exists())
+    .exists()
+    .withMessage('Either patient or appointment is required'),
+
+  query('status')
+    .optional()
+    .isIn(['ordered', 'collected', 'resulted', 'reviewed', 'cancelled'])
+    .withMessage('Invalid status'),
+];
+
+export const validateLabResults = [
+  body('results')
+    .isArray({ min: 1, max: 100 })
+    .withMessage('Results must be a list of 1 to 100 entries'),
+
+  body('results.*.test')
+    .isString()
+    .trim()
+    .notEmpty()
+    .withMessage('Each result needs a test code'),
+
+  body('results.*.value')
+    .isFloat()
+    .withMessage('Each result value must be a number'),
+
+  body('results.*.unit')
+    .optional()
+    .isString()
+    .trim(),
+
+  body('results.*.comment')
+    .optional()
+    .trim()
+    .isLength({ max: 500 })
+    .withMessage('Comment cannot exceed 500 characters'),
+];
+
+export const validateLabReview = [
+  body('comment')
+    .optional()
+    .trim()
+    .isLength({ max: 1000 })
+    .withMessage('Review comment cannot exceed 1000 characters'),
+];
+
+export const validateLabOrderCancellation = [
+  body('reason')
+    .trim()
+    .isLength({ min: 1, max: 500 })
+    .withMessage('Cancellation reason is required and cannot exceed 500 characters'),
+];
+
+// Referral validation rules
+export const validateReferralCreation = [
+  body('patient')
+    .isMongoId()
+    .withMessage('Valid patient ID is required'),
+
+  body('appointment')
+    .optional()
+    .isMongoId()
+    .withMessage('Valid appointment ID is required'),
+
+  body('toDoctor')
+    .optional()
+    .isMongoId()
+    .withMessage('Valid doctor ID is required'),
+
+  body('externalProvider')
+    .if(body('toDoctor').not().exists())
+    .isObject()
+    .withMessage('Either toDoctor or externalProvider is required'),
+
+  body('externalProvider')
+    .if(body('toDoctor').exists())
+    .not()
+    .exists()
+    .withMessage('A referral cannot go to both a doctor and an external provider'),
+
+  body('externalProvider.name')
+    .if(body('externalProvider').exists())
+    .trim()
+    .isLength({ min: 1, max: 200 })
+    .withMessage('Provider name is required and cannot exceed 200 characters'),
+
+  body('externalProvider.email')
+    .optional()
+    .isEmail()
+    .normalizeEmail()
+    .withMessage('Please provide a valid provider email'),
+
+  body('externalProvider.phone')
+    .optional()
+    .trim()
+    .isLength({ max: 30 })
+    .withMessage('Provider phone number cannot exceed 30 characters'),
+
+  body('specialty')
+    .optional()
+    .trim()
+    .isLength({ max: 100 })
+    .withMessage('Specialty cannot exceed 100 characters'),
+
+  body('reason')
+    .trim()
+    .isLength({ min: 1, max: 2000 })
+    .withMessage('Reason is required and cannot exceed 2000 characters'),
+
+  body('clinicalSummary')
+    .optional()
+    .trim()
+    .isLength({ max: 5000 })
+    .withMessage('Clinical summary cannot exceed 5000 characters'),
+
+  body('urgency')
+    .optional()
+    .isIn(['routine', 'urgent', 'emergency'])
+    .withMessage('Urgency must be routine, urgent or emergency'),
+
+  body('documents')
+    .optional()
+    .isArray({ max: 20 })
+    .withMessage('Documents must be a list of at most 20 document IDs'),
+
+  body('documents.*')
+    .isMongoId()
+    .withMessage('Valid document ID is required'),
+];
+
+export const validateReferralQuery = [
+  query('patient')
+    .optional()
+    .isMongoId()
+    .withMessage('Valid patient ID is required'),
+
+  query('direction')
+    .optional()
+    .isIn(['incoming', 'outgoing'])
+    .withMessage('Direction must be incoming or outgoing'),
+
+  query('status')
+    .optional()
+    .isIn(['sent', 'accepted', 'declined', 'completed', 'cancelled'])
+    .withMessage('Invalid status'),
+];
+
+export const validateReferralResponse = [
+  body('note')
+    .optional()
+    .trim()
+    .isLength({ max: 2000 })
+    .withMessage('Note cannot exceed 2000 characters'),
+];
+
+export const validateReferralReason = [
+  body('reason')
+    .trim()
+    .isLength({ min: 1, max: 500 })
+    .withMessage('Reason is required and cannot exceed 500 characters'),
+];
+
+export const validateReferralBooking = [
+  body('type')
+    .optional()
+    .isIn(['checkup', 'consultation', 'followup', 'emergency', 'procedure'])
+    .withMessage('Invalid appointment type'),
+
+  body('date')
+    .isISO8601()
+    .withMessage('Please provide a valid date'),
+
+  body('time')
+    .matches(/^([0-1]?[0-9]|2[0-3]):[0-5][0-9]$/)
+    .withMessage('Please provide a valid time format (HH:MM)'),
+
+  body('duration')
+    .optional()
+    .isInt({ min: 15, max: 480 })
+    .withMessage('Duration must be between 15 and 480 minutes'),
+
+  body('reason')
+    .optional()
+    .trim()
+    .isLength({ min: 1, max: 500 })
+    .withMessage('Reason cannot exceed 500 characters'),
+];
+
+// Immunization validation rules
+export const validateImmunizationRecording = [
+  body('vaccine')
+    .trim()
+    .isLength({ min: 1, max: 20 })
+    .withMessage('Vaccine code is required and cannot exceed 20 characters'),
+
+  // Required for vaccines outside the schedule, which has no name for them
+  body('vaccineName')
+    .if((value: unknown, { req }: Meta) => value !== undefined || !findScheduledVaccine(req.body.vaccine || ''))
+    .trim()
+    .isLength({ min: 1, max: 200 })
+    .withMessage('Vaccine name is required for vaccines outside the schedule and cannot exceed 200 characters'),
+
+  body('doseNumber')
+    .optional()
+    .isInt({ min: 1, max: 20 })
+    .withMessage('Dose number must be between 1 and 20'),
+
+  body('lotNumber')
+    .trim()
+    .isLength({ min: 1, max: 50 })
+    .withMessage('Lot number is required and cannot exceed 50 characters'),
+
+  body('manufacturer')
+    .optional()
+    .trim()
+    .isLength({ max: 100 })
+    .withMessage('Manufacturer cannot exceed 100 characters'),
+
+  body('site')
+    .isIn(IMMUNIZATION_SITES)
+    .withMessage(`Site must be one of: ${IMMUNIZATION_SITES.join(', ')}`),
+
+  body('route')
+    .optional()
+    .isIn(IMMUNIZATION_ROUTES)
+    .withMessage(`Route must be one of: ${IMMUNIZATION_ROUTES.join(', ')}`),
+
+  body('administeredAt')
+    .optional()
+    .isISO8601()
+    .withMessage('Administration date must be a valid date')
+    .custom(value => new Date(value) <= new Date())
+    .withMessage('Administration date cannot be in the future'),
+
+  body('administeredBy')
+    .optional()
+    .isMongoId()
+    .withMessage('Valid user ID is required'),
+
+  body('appointment')
+    .optional()
+    .isMongoId()
+    .withMessage('Valid appointment ID is required'),
+
+  body('notes')
+    .optional()
+    .trim()
+    .isLength({ max: 500 })
+    .withMessage('Notes cannot exceed 500 characters'),
+];
+
+export const validateImmunizationQuery = [
+  query('vaccine')
+    .optional()
+    .trim()
+    .isLength({ min: 1, max: 20 })
+    .withMessage('Vaccine code cannot exceed 20 characters'),
+];
+
+export const validateImmunizationError = [
+  body('reason')
+    .trim()
+    .isLength({ min: 3, max: 500 })
+    .withMessage('Reason must be between 3 and 500 characters'),
+];
+
 // Appointment validation rules
+// Booking rules shared by creation and PUT, where only the fields sent are validated
+const appointmentBookingRules = (isUpdate: boolean) => [
+  entryField('doctor', isUpdate)
+    .isMongoId()
+    .withMessage('Valid doctor ID is required'),
+  
+  entryField('type', isUpdate)
+    .isIn(['checkup', 'consultation', 'followup', 'emergency', 'procedure'])
+    .withMessage('Invalid appointment type'),
+  
+  entryField('date', isUpdate)
+    .isISO8601()
+    .withMessage('Please provide a valid date'),
+  
+  entryField('time', isUpdate)
+    .matches(/^([0-1]?[0-9]|2[0-3]):[0-5][0-9]$/)
+    .withMessage('Please provide a valid time format (HH:MM)'),
+  
+  entryField('duration', isUpdate)
+    .isInt({ min: 15, max: 480 })
+    .withMessage('Duration must be between 15 and 480 minutes'),
+  
+  entryField('reason', isUpdate)
+    .trim()
+    .isLength({ min: 1, max: 500 })
+    .withMessage('Reason is required and cannot exceed 500 characters'),
+];
+
 export const validateAppointmentCreation = [
   body('patient')
     .isMongoId()
     .withMessage('Valid patient ID is required'),
   
+  ...appointmentBookingRules(false),
+];
+
+export const validateAppointmentUpdate = appointmentBookingRules(true);
+
+// Appointment status transition validation rules
+export const validateAppointmentCancellation = [
+  body('reason')
+    .trim()
+    .isLength({ min: 1, max: 500 })
+    .withMessage('Cancellation reason is required and cannot exceed 500 characters'),
+];
+
+export const validateAppointmentCompletion = [
+  // Required unless a diagnosis code supplies the display text
+  body('diagnosis')
+    .if((value: unknown, { req }: Meta) => value !== undefined || req.body.diagnosisCode === undefined)
+    .trim()
+    .isLength({ min: 1, max: 500 })
+    .withMessage('Diagnosis is required and cannot exceed 500 characters'),
+  
+  icd10Code('diagnosisCode'),
+  
+  body('treatment')
+    .optional()
+    .trim()
+    .isLength({ max: 1000 })
+    .withMessage('Treatment cannot exceed 1000 characters'),
+  
+  body('prescriptions')
+    .optional()
+    .isArray()
+    .withMessage('Prescriptions must be an array'),
+  
+  body('prescriptions.*.medication')
+    .trim()
+    .notEmpty()
+    .withMessage('Prescription medication is required'),
+  
+  body('prescriptions.*.dosage')
+    .trim()
+    .notEmpty()
+    .withMessage('Prescription dosage is required'),
+  
+  body('prescriptions.*.frequency')
+    .trim()
+    .notEmpty()
+    .withMessage('Prescription frequency is required'),
+  
+  body('prescriptions.*.duration')
+    .trim()
+    .notEmpty()
+    .withMessage('Prescription duration is required'),
+  
+  body('followUpRequired')
+    .optional()
+    .isBoolean()
+    .withMessage('Follow-up required must be a boolean'),
+  
+  body('followUpDate')
+    .optional()
+    .isISO8601()
+    .withMessage('Please provide a valid follow-up date'),
+];
+
+export const validateDiagnosisCoding = [
+  icd10Code('diagnosisCode'),
+];
+
+// Encounter note validation rules
+export const validateEncounterNote = ['subjective', 'objective', 'assessment', 'plan'].map(section =>
+  body(section)
+    .optional()
+    .isString()
+    .trim()
+    .isLength({ max: 10000 })
+    .withMessage(`${section[0].toUpperCase()}${section.slice(1)} must be text of at most 10000 characters`)
+);
+
+export const validateAddendum = [
+  body('text')
+    .trim()
+    .isLength({ min: 1, max: 5000 })
+    .withMessage('Addendum text is required and cannot exceed 5000 characters'),
+];
+
+// Appointment series validation rules
+export const validateAppointmentSeries = [
+  body('patient')
+    .isMongoId()
+    .withMessage('Valid patient ID is required'),
+  
   body('doctor')
     .isMongoId()
     .withMessage('Valid doctor ID is required'),
@@ -105,9 +860,9 @@ export const validateAppointmentCreation = [
     .isIn(['checkup', 'consultation', 'followup', 'emergency', 'procedure'])
     .withMessage('Invalid appointment type'),
   
-  body('date')
+  body('startDate')
     .isISO8601()
-    .withMessage('Please provide a valid date'),
+    .withMessage('Please provide a valid start date'),
   
   body('time')
     .matches(/^([0-1]?[0-9]|2[0-3]):[0-5][0-9]$/)
@@ -121,6 +876,139 @@ export const validateAppointmentCreation = [
     .trim()
     .isLength({ min: 1, max: 500 })
     .withMessage('Reason is required and cannot exceed 500 characters'),
+  
+  body('recurrence.frequency')
+    .isIn(['daily', 'weekly', 'monthly'])
+    .withMessage('Recurrence frequency must be daily, weekly, or monthly'),
+  
+  body('recurrence.interval')
+    .optional()
+    .isInt({ min: 1, max: 52 })
+    .withMessage('Recurrence interval must be between 1 and 52'),
+  
+  body('recurrence.count')
+    .optional()
+    .isInt({ min: 1, max: 104 })
+    .withMessage('Recurrence count must be between 1 and 104'),
+  
+  body('recurrence.until')
+    .optional()
+    .isISO8601()
+    .withMessage('Please provide a valid recurrence end date'),
+  
+  body('recurrence')
+    .custom(recurrence => !!recurrence?.count !== !!recurrence?.until)
+    .withMessage('Recurrence requires exactly one of count or until'),
+  
+  body('recurrence.byWeekday.*')
+    .isInt({ min: 0, max: 6 })
+    .withMessage('Weekdays must be between 0 (Sunday) and 6 (Saturday)'),
+];
+
+export const validateSeriesScope = [
+  body('scope')
+    .isIn(['this', 'following', 'all'])
+    .withMessage('Scope must be this, following, or all'),
+];
+
+// Doctor schedule validation rules
+const TIME_FORMAT = /^([0-1]?[0-9]|2[0-3]):[0-5][0-9]$/;
+
+export const validateDoctorSchedule = [
+  body('weeklyHours')
+    .isArray()
+    .withMessage('Weekly hours must be an array')
+    .custom((weeklyHours: Array<{ dayOfWeek: number }>) => {
+      const days = weeklyHours.map(hours => Number(hours.dayOfWeek));
+      return new Set(days).size === days.length;
+    })
+    .withMessage('Each day of the week can only be defined once'),
+  
+  body('weeklyHours.*.dayOfWeek')
+    .isInt({ min: 0, max: 6 })
+    .withMessage('Day of week must be between 0 (Sunday) and 6 (Saturday)'),
+  
+  body('weeklyHours.*.start')
+    .matches(TIME_FORMAT)
+    .withMessage('Please provide a valid start time format (HH:MM)'),
+  
+  body('weeklyHours.*.end')
+    .matches(TIME_FORMAT)
+    .withMessage('Please provide a valid end time format (HH:MM)'),
+  
+  body('weeklyHours.*.slotDuration')
+    .optional()
+    .isInt({ min: 5, max: 480 })
+    .withMessage('Slot duration must be between 5 and 480 minutes'),
+  
+  body('weeklyHours.*.breaks.*.start')
+    .matches(TIME_FORMAT)
+    .withMessage('Please provide a valid break start time format (HH:MM)'),
+  
+  body('weeklyHours.*.breaks.*.end')
+    .matches(TIME_FORMAT)
+    .withMessage('Please provide a valid break end time format (HH:MM)'),
+];
+
+export const validateScheduleException = [
+  body('date')
+    .isISO8601()
+    .withMessage('Please provide a valid date'),
+  
+  body('type')
+    .isIn(['vacation', 'half-day', 'on-call', 'custom'])
+    .withMessage('Invalid exception type'),
+  
+  body('start')
+    .if(body('type').not().equals('vacation'))
+    .matches(TIME_FORMAT)
+    .withMessage('Please provide a valid start time format (HH:MM)'),
+  
+  body('end')
+    .if(body('type').not().equals('vacation'))
+    .matches(TIME_FORMAT)
+    .withMessage('Please provide a valid end time format (HH:MM)'),
+  
+  body('slotDuration')
+    .optional()
+    .isInt({ min: 5, max: 480 })
+    .withMessage('Slot duration must be between 5 and 480 minutes'),
+  
+  body('breaks.*.start')
+    .matches(TIME_FORMAT)
+    .withMessage('Please provide a valid break start time format (HH:MM)'),
+  
+  body('breaks.*.end')
+    .matches(TIME_FORMAT)
+    .withMessage('Please provide a valid break end time format (HH:MM)'),
+  
+  body('reason')
+    .optional()
+    .trim()
+    .isLength({ max: 500 })
+    .withMessage('Reason cannot exceed 500 characters'),
+];
+
+export const validateRole = [
+  body('name')
+    .optional()
+    .trim()
+    .matches(/^[a-z][a-z0-9-]{1,29}$/)
+    .withMessage('Role name must be 2-30 lowercase letters, digits or hyphens'),
+  
+  body('description')
+    .optional()
+    .trim()
+    .isLength({ max: 200 })
+    .withMessage('Description cannot exceed 200 characters'),
+  
+  body('permissions')
+    .isArray()
+    .withMessage('Permissions must be an array'),
+  
+  body('permissions.*')
+    .custom((value: string) => isPermission(value))
+    .withMessage('Unknown permission'),
 ];
 
 // Common validation rules
@@ -130,6 +1018,36 @@ export const validateObjectId = (paramName: string) => [
     .withMessage(`Invalid ${paramName} ID`),
 ];
 
+// Record version history validation rules
+export const validateVersionNumber = [
+  param('version')
+    .isInt({ min: 1 })
+    .withMessage('Version must be a positive integer'),
+];
+
+export const validateVersionDiff = [
+  query('from')
+    .isInt({ min: 1 })
+    .withMessage('From version must be a positive integer'),
+
+  query('to')
+    .isInt({ min: 1 })
+    .withMessage('To version must be a positive integer'),
+];
+
+// ICD-10 lookup validation rules
+export const validateIcd10Search = [
+  query('q')
+    .trim()
+    .isLength({ min: 1, max: 100 })
+    .withMessage('Search query is required and cannot exceed 100 characters'),
+  
+  query('limit')
+    .optional()
+    .isInt({ min: 1, max: 50 })
+    .withMessage('Limit must be between 1 and 50'),
+];
+
 export const validatePagination = [
   query('page')
     .optional()
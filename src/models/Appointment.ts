@@ -1,5 +1,8 @@
 import mongoose, { Schema } from 'mongoose';
 import { IAppointment } from '../types/index.js';
+import { timeToMinutes, minutesToTime } from '../utils/time.js';
+import { versionHistory } from '../utils/versioning.js';
+import { findIcd10Code, isIcd10Code, normaliseIcd10Code } from '../utils/icd10.js';
 
 const appointmentSchema = new Schema<IAppointment>({
   patient: {
@@ -50,10 +53,19 @@ const appointmentSchema = new Schema<IAppointment>({
     type: String,
     trim: true,
   }],
+  // Display text for the diagnosis; free text on visits recorded before coding
   diagnosis: {
     type: String,
     maxlength: [500, 'Diagnosis cannot exceed 500 characters'],
   },
+  diagnosisCode: {
+    type: String,
+    set: (value?: string) => value ? normaliseIcd10Code(value) : value,
+    validate: {
+      validator: isIcd10Code,
+      message: 'Unknown ICD-10 code',
+    },
+  },
   treatment: {
     type: String,
     maxlength: [1000, 'Treatment cannot exceed 1000 characters'],
@@ -84,6 +96,53 @@ const appointmentSchema = new Schema<IAppointment>({
   followUpDate: {
     type: Date,
   },
+  statusHistory: [{
+    from: {
+      type: String,
+      required: true,
+    },
+    to: {
+      type: String,
+      required: true,
+    },
+    changedBy: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: true,
+    },
+    changedAt: {
+      type: Date,
+      default: Date.now,
+    },
+    reason: String,
+  }],
+  confirmedAt: {
+    type: Date,
+  },
+  checkedInAt: {
+    type: Date,
+  },
+  completedAt: {
+    type: Date,
+  },
+  cancelledAt: {
+    type: Date,
+  },
+  cancellationReason: {
+    type: String,
+    maxlength: [500, 'Cancellation reason cannot exceed 500 characters'],
+  },
+  noShowAt: {
+    type: Date,
+  },
+  series: {
+    type: Schema.Types.ObjectId,
+    ref: 'AppointmentSeries',
+  },
+  seriesIndex: {
+    type: Number,
+    min: 0,
+  },
   createdBy: {
     type: Schema.Types.ObjectId,
     ref: 'User',
@@ -103,9 +162,13 @@ appointmentSchema.index({ doctor: 1, date: 1 });
 appointmentSchema.index({ date: 1, time: 1 });
 appointmentSchema.index({ status: 1 });
 appointmentSchema.index({ createdAt: -1 });
+appointmentSchema.index({ series: 1, date: 1 });
+appointmentSchema.index({ diagnosisCode: 1, date: 1 });
 
-// Compound index for preventing double booking
-appointmentSchema.index({ doctor: 1, date: 1, time: 1 }, { unique: true });
+// Compound index for overlap checks. Double booking is prevented by the
+// interval check under a per-doctor-day booking lock rather than a unique
+// index, so cancelled and no-show slots can be rebooked.
+appointmentSchema.index({ doctor: 1, date: 1, status: 1 });
 
 // Virtual for appointment datetime
 appointmentSchema.virtual('datetime').get(function() {
@@ -117,17 +180,22 @@ appointmentSchema.virtual('datetime').get(function() {
 
 // Virtual for end time
 appointmentSchema.virtual('endTime').get(function() {
-  const [hours, minutes] = this.time.split(':');
-  const startMinutes = parseInt(hours) * 60 + parseInt(minutes);
-  const endMinutes = startMinutes + this.duration;
-  const endHours = Math.floor(endMinutes / 60);
-  const endMins = endMinutes % 60;
-  return `${endHours.toString().padStart(2, '0')}:${endMins.toString().padStart(2, '0')}`;
+  return minutesToTime(timeToMinutes(this.time) + this.duration);
+});
+
+// A coded diagnosis without display text shows the code's description
+appointmentSchema.pre('validate', function() {
+  if (this.diagnosisCode && !this.diagnosis) {
+    this.diagnosis = findIcd10Code(this.diagnosisCode)?.description;
+  }
 });
 
 // Ensure virtual fields are serialized
 appointmentSchema.set('toJSON', { virtuals: true });
 
+// Keep every saved state so edits can be reviewed and rolled back
+appointmentSchema.plugin(versionHistory, { resourceType: 'appointment' });
+
 const Appointment = mongoose.model<IAppointment>('Appointment', appointmentSchema);
 
 export default Appointment;
\ No newline at end of file
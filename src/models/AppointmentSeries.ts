@@ -0,0 +1,124 @@
+import mongoose, { Schema } from 'mongoose';
+import { IAppointmentSeries } from '../types/index.js';
+
+const recurrenceSchema = new Schema({
+  frequency: {
+    type: String,
+    enum: ['daily', 'weekly', 'monthly'],
+    required: [true, 'Recurrence frequency is required'],
+  },
+  interval: {
+    type: Number,
+    default: 1,
+    min: [1, 'Interval must be at least 1'],
+    max: [52, 'Interval cannot exceed 52'],
+  },
+  count: {
+    type: Number,
+    min: [1, 'Count must be at least 1'],
+  },
+  until: {
+    type: Date,
+  },
+  byWeekday: [{
+    type: Number,
+    min: 0,
+    max: 6,
+  }],
+}, { _id: false });
+
+const appointmentSeriesSchema = new Schema<IAppointmentSeries>({
+  patient: {
+    type: Schema.Types.ObjectId,
+    ref: 'Patient',
+    required: [true, 'Patient is required'],
+  },
+  doctor: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: [true, 'Doctor is required'],
+  },
+  type: {
+    type: String,
+    enum: ['checkup', 'consultation', 'followup', 'emergency', 'procedure'],
+    required: [true, 'Appointment type is required'],
+  },
+  startDate: {
+    type: Date,
+    required: [true, 'Series start date is required'],
+  },
+  time: {
+    type: String,
+    required: [true, 'Appointment time is required'],
+    match: [/^([0-1]?[0-9]|2[0-3]):[0-5][0-9]$/, 'Please enter a valid time format (HH:MM)'],
+  },
+  duration: {
+    type: Number,
+    required: [true, 'Duration is required'],
+    min: [15, 'Minimum duration is 15 minutes'],
+    max: [480, 'Maximum duration is 8 hours'],
+  },
+  reason: {
+    type: String,
+    required: [true, 'Reason for appointment is required'],
+    maxlength: [500, 'Reason cannot exceed 500 characters'],
+  },
+  notes: {
+    type: String,
+    maxlength: [1000, 'Notes cannot exceed 1000 characters'],
+  },
+  recurrence: {
+    type: recurrenceSchema,
+    required: true,
+  },
+  status: {
+    type: String,
+    enum: ['active', 'ended', 'cancelled'],
+    default: 'active',
+  },
+  parentSeries: {
+    type: Schema.Types.ObjectId,
+    ref: 'AppointmentSeries',
+  },
+  createdBy: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: true,
+  },
+  updatedBy: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+  },
+}, {
+  timestamps: true,
+});
+
+// Indexes for performance
+appointmentSeriesSchema.index({ patient: 1 });
+appointmentSeriesSchema.index({ doctor: 1, status: 1 });
+
+// Virtual for the RFC 5545 style rule, e.g. FREQ=WEEKLY;INTERVAL=1;COUNT=10
+appointmentSeriesSchema.virtual('rrule').get(function() {
+  const { frequency, interval, count, until, byWeekday } = this.recurrence;
+  const weekdays = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+  const parts = [`FREQ=${frequency.toUpperCase()}`, `INTERVAL=${interval}`];
+
+  if (byWeekday && byWeekday.length > 0) {
+    parts.push(`BYDAY=${byWeekday.map(day => weekdays[day]).join(',')}`);
+  }
+  if (count) {
+    parts.push(`COUNT=${count}`);
+  }
+  if (until) {
+    parts.push(`UNTIL=${new Date(until).toISOString().slice(0, 10).replace(/-/g, '')}`);
+  }
+
+  return parts.join(';');
+});
+
+// Ensure virtual fields are serialized
+appointmentSeriesSchema.set('toJSON', { virtuals: true });
+
+const AppointmentSeries = mongoose.model<IAppointmentSeries>('AppointmentSeries', appointmentSeriesSchema);
+
+export default AppointmentSeries;
@@ -0,0 +1,98 @@
+import mongoose, { Schema } from 'mongoose';
+import { IAuditLog } from '../types/index.js';
+
+// Append-only record of every read and write of protected data. Each entry
+// carries the hash of its predecessor so edits or deletions break the chain.
+const auditLogSchema = new Schema<IAuditLog>({
+  sequence: {
+    type: Number,
+    required: true,
+    unique: true,
+  },
+  timestamp: {
+    type: Date,
+    required: true,
+  },
+  actor: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+  },
+  actorRole: {
+    type: String,
+  },
+  action: {
+    type: String,
+    enum: ['read', 'create', 'update', 'delete'],
+    required: true,
+  },
+  resourceType: {
+    type: String,
+    required: true,
+  },
+  resourceId: {
+    type: String,
+  },
+  changes: [{
+    _id: false,
+    field: {
+      type: String,
+      required: true,
+    },
+    before: Schema.Types.Mixed,
+    after: Schema.Types.Mixed,
+  }],
+  method: {
+    type: String,
+    required: true,
+  },
+  path: {
+    type: String,
+    required: true,
+  },
+  statusCode: {
+    type: Number,
+  },
+  ipAddress: {
+    type: String,
+  },
+  userAgent: {
+    type: String,
+  },
+  requestId: {
+    type: String,
+  },
+  prevHash: {
+    type: String,
+    required: true,
+  },
+  hash: {
+    type: String,
+    required: true,
+  },
+});
+
+// Indexes for performance
+auditLogSchema.index({ resourceType: 1, resourceId: 1, timestamp: -1 });
+auditLogSchema.index({ actor: 1, timestamp: -1 });
+auditLogSchema.index({ timestamp: -1 });
+
+// Entries can be inserted but never changed or removed through the application
+const rejectMutation = () => {
+  throw new Error('Audit log entries are immutable');
+};
+
+auditLogSchema.pre('save', function(next) {
+  if (!this.isNew) {
+    return next(new Error('Audit log entries are immutable'));
+  }
+  next();
+});
+
+auditLogSchema.pre(
+  ['updateOne', 'updateMany', 'findOneAndUpdate', 'replaceOne', 'findOneAndReplace', 'deleteOne', 'deleteMany', 'findOneAndDelete'],
+  rejectMutation
+);
+
+const AuditLog = mongoose.model<IAuditLog>('AuditLog', auditLogSchema);
+
+export default AuditLog;
@@ -0,0 +1,26 @@
+import mongoose, { Schema } from 'mongoose';
+import { IBookingLock } from '../types/index.js';
+
+// Short-lived lease serialising bookings for one doctor on one day
+const bookingLockSchema = new Schema<IBookingLock>({
+  key: {
+    type: String,
+    required: true,
+    unique: true,
+  },
+  owner: {
+    type: String,
+    required: true,
+  },
+  expiresAt: {
+    type: Date,
+    required: true,
+  },
+});
+
+// Let MongoDB clean up leases abandoned by crashed requests
+bookingLockSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+const BookingLock = mongoose.model<IBookingLock>('BookingLock', bookingLockSchema);
+
+export default BookingLock;
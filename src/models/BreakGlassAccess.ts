@@ -0,0 +1,76 @@
+import mongoose, { Schema } from 'mongoose';
+import { IBreakGlassAccess } from '../types/index.js';
+
+// One emergency override of patient access controls, kept for review
+const breakGlassAccessSchema = new Schema<IBreakGlassAccess>({
+  user: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: true,
+  },
+  patient: {
+    type: Schema.Types.ObjectId,
+    ref: 'Patient',
+    required: true,
+  },
+  reason: {
+    type: String,
+    required: [true, 'A justification is required'],
+    trim: true,
+    maxlength: [1000, 'Reason cannot exceed 1000 characters'],
+  },
+  expiresAt: {
+    type: Date,
+    required: true,
+  },
+  ipAddress: {
+    type: String,
+  },
+  userAgent: {
+    type: String,
+  },
+  accesses: [{
+    _id: false,
+    method: {
+      type: String,
+      required: true,
+    },
+    path: {
+      type: String,
+      required: true,
+    },
+    accessedAt: {
+      type: Date,
+      default: Date.now,
+    },
+    ipAddress: String,
+  }],
+  reviewStatus: {
+    type: String,
+    enum: ['pending', 'approved', 'flagged'],
+    default: 'pending',
+  },
+  reviewedBy: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+  },
+  reviewedAt: {
+    type: Date,
+  },
+  reviewNotes: {
+    type: String,
+    trim: true,
+    maxlength: [1000, 'Review notes cannot exceed 1000 characters'],
+  },
+}, {
+  timestamps: true,
+});
+
+// Indexes for performance
+breakGlassAccessSchema.index({ user: 1, patient: 1, expiresAt: -1 });
+breakGlassAccessSchema.index({ reviewStatus: 1, createdAt: -1 });
+breakGlassAccessSchema.index({ patient: 1, createdAt: -1 });
+
+const BreakGlassAccess = mongoose.model<IBreakGlassAccess>('BreakGlassAccess', breakGlassAccessSchema);
+
+export default BreakGlassAccess;
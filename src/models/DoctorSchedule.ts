@@ -0,0 +1,106 @@
+import mongoose, { Schema } from 'mongoose';
+import { IDoctorSchedule } from '../types/index.js';
+
+const TIME_PATTERN = /^([0-1]?[0-9]|2[0-3]):[0-5][0-9]$/;
+
+const timeRangeSchema = new Schema({
+  start: {
+    type: String,
+    required: true,
+    match: [TIME_PATTERN, 'Please enter a valid time format (HH:MM)'],
+  },
+  end: {
+    type: String,
+    required: true,
+    match: [TIME_PATTERN, 'Please enter a valid time format (HH:MM)'],
+  },
+  label: {
+    type: String,
+    trim: true,
+  },
+}, { _id: false });
+
+const weeklyHoursSchema = new Schema({
+  dayOfWeek: {
+    type: Number,
+    required: true,
+    min: [0, 'Day of week must be between 0 (Sunday) and 6 (Saturday)'],
+    max: [6, 'Day of week must be between 0 (Sunday) and 6 (Saturday)'],
+  },
+  start: {
+    type: String,
+    required: true,
+    match: [TIME_PATTERN, 'Please enter a valid time format (HH:MM)'],
+  },
+  end: {
+    type: String,
+    required: true,
+    match: [TIME_PATTERN, 'Please enter a valid time format (HH:MM)'],
+  },
+  slotDuration: {
+    type: Number,
+    default: 30,
+    min: [5, 'Minimum slot duration is 5 minutes'],
+    max: [480, 'Maximum slot duration is 8 hours'],
+  },
+  breaks: [timeRangeSchema],
+}, { _id: false });
+
+const scheduleExceptionSchema = new Schema({
+  date: {
+    type: Date,
+    required: [true, 'Exception date is required'],
+  },
+  type: {
+    type: String,
+    enum: ['vacation', 'half-day', 'on-call', 'custom'],
+    required: [true, 'Exception type is required'],
+  },
+  start: {
+    type: String,
+    match: [TIME_PATTERN, 'Please enter a valid time format (HH:MM)'],
+  },
+  end: {
+    type: String,
+    match: [TIME_PATTERN, 'Please enter a valid time format (HH:MM)'],
+  },
+  slotDuration: {
+    type: Number,
+    min: [5, 'Minimum slot duration is 5 minutes'],
+    max: [480, 'Maximum slot duration is 8 hours'],
+  },
+  breaks: [timeRangeSchema],
+  reason: {
+    type: String,
+    maxlength: [500, 'Reason cannot exceed 500 characters'],
+  },
+});
+
+const doctorScheduleSchema = new Schema<IDoctorSchedule>({
+  doctor: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: [true, 'Doctor is required'],
+    unique: true,
+  },
+  weeklyHours: [weeklyHoursSchema],
+  exceptions: [scheduleExceptionSchema],
+  createdBy: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: true,
+  },
+  updatedBy: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+  },
+}, {
+  timestamps: true,
+});
+
+// Indexes for performance
+doctorScheduleSchema.index({ 'exceptions.date': 1 });
+
+const DoctorSchedule = mongoose.model<IDoctorSchedule>('DoctorSchedule', doctorScheduleSchema);
+
+export default DoctorSchedule;
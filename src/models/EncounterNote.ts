@@ -0,0 +1,95 @@
+import mongoose, { Schema } from 'mongoose';
+import { IEncounterNote } from '../types/index.js';
+import { fieldEncryption } from '../utils/fieldEncryption.js';
+
+export const SOAP_SECTIONS = ['subjective', 'objective', 'assessment', 'plan'] as const;
+
+// Everything but the addenda is fixed once a note is signed
+const LOCKED_FIELDS = [...SOAP_SECTIONS, 'appointment', 'patient', 'author', 'signedBy'];
+
+const soapSection = {
+  type: String,
+  trim: true,
+  maxlength: [10000, 'A note section cannot exceed 10000 characters'] as [number, string],
+};
+
+const addendumSchema = new Schema({
+  text: {
+    type: String,
+    required: [true, 'Addendum text is required'],
+    trim: true,
+    maxlength: [5000, 'An addendum cannot exceed 5000 characters'],
+  },
+  author: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: true,
+  },
+  addedAt: {
+    type: Date,
+    required: true,
+    default: Date.now,
+  },
+});
+
+// A clinician's structured record of an encounter, written as a draft and then signed
+const encounterNoteSchema = new Schema<IEncounterNote>({
+  appointment: {
+    type: Schema.Types.ObjectId,
+    ref: 'Appointment',
+    required: [true, 'Appointment is required'],
+  },
+  patient: {
+    type: Schema.Types.ObjectId,
+    ref: 'Patient',
+    required: [true, 'Patient is required'],
+  },
+  author: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: true,
+  },
+  status: {
+    type: String,
+    enum: ['draft', 'signed'],
+    default: 'draft',
+  },
+  subjective: soapSection,
+  objective: soapSection,
+  assessment: soapSection,
+  plan: soapSection,
+  signedAt: {
+    type: Date,
+  },
+  signedBy: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+  },
+  addenda: [addendumSchema],
+  updatedBy: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+  },
+}, {
+  timestamps: true,
+});
+
+encounterNoteSchema.index({ appointment: 1, createdAt: 1 });
+encounterNoteSchema.index({ patient: 1, createdAt: -1 });
+
+// Signed notes can only gain addenda. Registered before encryption so it sees plaintext changes.
+encounterNoteSchema.pre('save', function(next) {
+  const wasSigned = !this.isNew && !!this.signedAt && !this.isModified('signedAt');
+
+  if (wasSigned && (this.status !== 'signed' || LOCKED_FIELDS.some(field => this.isModified(field)))) {
+    return next(new Error('A signed note cannot be changed, add an addendum instead'));
+  }
+  next();
+});
+
+// Note content is as sensitive as the patient record itself
+encounterNoteSchema.plugin(fieldEncryption, { fields: [...SOAP_SECTIONS, 'addenda'] });
+
+const EncounterNote = mongoose.model<IEncounterNote>('EncounterNote', encounterNoteSchema);
+
+export default EncounterNote;
@@ -0,0 +1,105 @@
+import mongoose, { Schema } from 'mongoose';
+import { IImmunization } from '../types/index.js';
+import { IMMUNIZATION_ROUTES, IMMUNIZATION_SITES, findScheduledVaccine } from '../utils/immunizations.js';
+
+// A single vaccine dose given to a patient
+const immunizationSchema = new Schema<IImmunization>({
+  patient: {
+    type: Schema.Types.ObjectId,
+    ref: 'Patient',
+    required: [true, 'Patient is required'],
+  },
+  appointment: {
+    type: Schema.Types.ObjectId,
+    ref: 'Appointment',
+  },
+  // Schedule code; vaccines outside the schedule (e.g. travel vaccines) use their own code
+  vaccine: {
+    type: String,
+    required: [true, 'Vaccine is required'],
+    trim: true,
+    uppercase: true,
+    maxlength: [20, 'Vaccine code cannot exceed 20 characters'],
+  },
+  vaccineName: {
+    type: String,
+    required: [true, 'Vaccine name is required'],
+    trim: true,
+    maxlength: [200, 'Vaccine name cannot exceed 200 characters'],
+  },
+  doseNumber: {
+    type: Number,
+    required: [true, 'Dose number is required'],
+    min: [1, 'Dose number must be at least 1'],
+  },
+  lotNumber: {
+    type: String,
+    required: [true, 'Lot number is required'],
+    trim: true,
+    maxlength: [50, 'Lot number cannot exceed 50 characters'],
+  },
+  manufacturer: {
+    type: String,
+    trim: true,
+    maxlength: [100, 'Manufacturer cannot exceed 100 characters'],
+  },
+  site: {
+    type: String,
+    enum: IMMUNIZATION_SITES,
+    required: [true, 'Administration site is required'],
+  },
+  route: {
+    type: String,
+    enum: IMMUNIZATION_ROUTES,
+  },
+  administeredAt: {
+    type: Date,
+    required: true,
+    default: Date.now,
+  },
+  administeredBy: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: [true, 'Administering user is required'],
+  },
+  notes: {
+    type: String,
+    trim: true,
+    maxlength: [500, 'Notes cannot exceed 500 characters'],
+  },
+  // Doses are never deleted, only marked as entered in error
+  status: {
+    type: String,
+    enum: ['completed', 'entered-in-error'],
+    default: 'completed',
+  },
+  errorReason: {
+    type: String,
+    trim: true,
+    maxlength: [500, 'Reason cannot exceed 500 characters'],
+  },
+  recordedBy: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: true,
+  },
+  updatedBy: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+  },
+}, {
+  timestamps: true,
+});
+
+immunizationSchema.index({ patient: 1, vaccine: 1, administeredAt: -1 });
+
+// Scheduled vaccines take their name from the schedule when none is given
+immunizationSchema.pre('validate', function() {
+  if (this.vaccine && !this.vaccineName) {
+    this.vaccineName = findScheduledVaccine(this.vaccine)?.name as string;
+  }
+});
+
+const Immunization = mongoose.model<IImmunization>('Immunization', immunizationSchema);
+
+export default Immunization;
@@ -0,0 +1,54 @@
+import mongoose, { Schema } from 'mongoose';
+import { IInteractionOverride } from '../types/index.js';
+
+// A prescriber going ahead despite a severe interaction or allergy warning
+const interactionOverrideSchema = new Schema<IInteractionOverride>({
+  patient: {
+    type: Schema.Types.ObjectId,
+    ref: 'Patient',
+    required: true,
+  },
+  appointment: {
+    type: Schema.Types.ObjectId,
+    ref: 'Appointment',
+  },
+  medications: [{
+    type: String,
+    trim: true,
+  }],
+  warnings: [{
+    _id: false,
+    type: {
+      type: String,
+      enum: ['drug-allergy', 'drug-drug', 'duplicate-therapy'],
+      required: true,
+    },
+    severity: {
+      type: String,
+      enum: ['mild', 'moderate', 'severe'],
+      required: true,
+    },
+    medication: String,
+    conflictsWith: String,
+    description: String,
+  }],
+  reason: {
+    type: String,
+    required: [true, 'An override reason is required'],
+    trim: true,
+    maxlength: [500, 'Reason cannot exceed 500 characters'],
+  },
+  overriddenBy: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: true,
+  },
+}, {
+  timestamps: { createdAt: true, updatedAt: false },
+});
+
+interactionOverrideSchema.index({ patient: 1, createdAt: -1 });
+
+const InteractionOverride = mongoose.model<IInteractionOverride>('InteractionOverride', interactionOverrideSchema);
+
+export default InteractionOverride;
@@ -0,0 +1,170 @@
+import mongoose, { Schema } from 'mongoose';
+import { ILabOrder, ILabResult } from '../types/index.js';
+import { LAB_PANEL_CODES } from '../utils/labOrders.js';
+
+const labResultSchema = new Schema<ILabResult>({
+  panel: {
+    type: String,
+    required: true,
+  },
+  test: {
+    type: String,
+    required: true,
+  },
+  name: {
+    type: String,
+    required: true,
+  },
+  value: {
+    type: Number,
+    required: [true, 'Value is required'],
+  },
+  unit: {
+    type: String,
+    required: true,
+  },
+  // The range the flag was judged against when the result was entered
+  referenceRange: {
+    _id: false,
+    low: Number,
+    high: Number,
+  },
+  flag: {
+    type: String,
+    enum: ['normal', 'low', 'high', 'critical-low', 'critical-high'],
+    required: true,
+  },
+  comment: {
+    type: String,
+    trim: true,
+    maxlength: [500, 'Comment cannot exceed 500 characters'],
+  },
+});
+
+// Tests ordered for a patient at a visit, tracked from order through to the doctor's review
+const labOrderSchema = new Schema<ILabOrder>({
+  patient: {
+    type: Schema.Types.ObjectId,
+    ref: 'Patient',
+    required: [true, 'Patient is required'],
+  },
+  appointment: {
+    type: Schema.Types.ObjectId,
+    ref: 'Appointment',
+    required: [true, 'Appointment is required'],
+  },
+  orderedBy: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: true,
+  },
+  panels: {
+    type: [{
+      type: String,
+      enum: LAB_PANEL_CODES,
+    }],
+    validate: {
+      validator: (panels: string[]) => panels.length > 0,
+      message: 'At least one panel is required',
+    },
+  },
+  priority: {
+    type: String,
+    enum: ['routine', 'urgent', 'stat'],
+    default: 'routine',
+  },
+  clinicalNotes: {
+    type: String,
+    trim: true,
+    maxlength: [1000, 'Clinical notes cannot exceed 1000 characters'],
+  },
+  status: {
+    type: String,
+    enum: ['ordered', 'collected', 'resulted', 'reviewed', 'cancelled'],
+    default: 'ordered',
+  },
+  statusHistory: [{
+    from: {
+      type: String,
+      required: true,
+    },
+    to: {
+      type: String,
+      required: true,
+    },
+    changedBy: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: true,
+    },
+    changedAt: {
+      type: Date,
+      default: Date.now,
+    },
+    reason: String,
+  }],
+  results: [labResultSchema],
+  // Derived from the result flags, kept on the order so the review queue can sort by them
+  abnormal: {
+    type: Boolean,
+    default: false,
+  },
+  critical: {
+    type: Boolean,
+    default: false,
+  },
+  collectedAt: {
+    type: Date,
+  },
+  collectedBy: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+  },
+  resultedAt: {
+    type: Date,
+  },
+  resultedBy: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+  },
+  reviewedAt: {
+    type: Date,
+  },
+  reviewedBy: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+  },
+  reviewComment: {
+    type: String,
+    trim: true,
+    maxlength: [1000, 'Review comment cannot exceed 1000 characters'],
+  },
+  cancelledAt: {
+    type: Date,
+  },
+  cancelledBy: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+  },
+  cancellationReason: {
+    type: String,
+    trim: true,
+    maxlength: [500, 'Cancellation reason cannot exceed 500 characters'],
+  },
+}, {
+  timestamps: true,
+});
+
+labOrderSchema.index({ patient: 1, createdAt: -1 });
+labOrderSchema.index({ appointment: 1 });
+labOrderSchema.index({ orderedBy: 1, status: 1, resultedAt: 1 });
+
+labOrderSchema.pre('validate', function(next) {
+  this.abnormal = this.results.some(result => result.flag !== 'normal');
+  this.critical = this.results.some(result => result.flag.startsWith('critical'));
+  next();
+});
+
+const LabOrder = mongoose.model<ILabOrder>('LabOrder', labOrderSchema);
+
+export default LabOrder;
@@ -0,0 +1,43 @@
+import mongoose, { Schema } from 'mongoose';
+import { ILoginAttempt } from '../types/index.js';
+
+const loginAttemptSchema = new Schema<ILoginAttempt>({
+  email: {
+    type: String,
+    required: true,
+    lowercase: true,
+    trim: true,
+  },
+  user: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+  },
+  success: {
+    type: Boolean,
+    required: true,
+  },
+  reason: {
+    type: String,
+    enum: ['success', 'invalid-credentials', 'unknown-email', 'locked', 'deactivated'],
+    required: true,
+  },
+  ipAddress: {
+    type: String,
+  },
+  userAgent: {
+    type: String,
+  },
+}, {
+  timestamps: { createdAt: true, updatedAt: false },
+});
+
+// Indexes for performance
+loginAttemptSchema.index({ email: 1, createdAt: -1 });
+loginAttemptSchema.index({ user: 1, createdAt: -1 });
+
+// Keep 90 days of login history
+loginAttemptSchema.index({ createdAt: 1 }, { expireAfterSeconds: 90 * 24 * 60 * 60 });
+
+const LoginAttempt = mongoose.model<ILoginAttempt>('LoginAttempt', loginAttemptSchema);
+
+export default LoginAttempt;
@@ -0,0 +1,84 @@
+import mongoose, { Schema } from 'mongoose';
+import { IObservation } from '../types/index.js';
+import { OBSERVATION_TYPES } from '../utils/observations.js';
+
+// A single vital sign or clinical measurement taken at a point in time
+const observationSchema = new Schema<IObservation>({
+  patient: {
+    type: Schema.Types.ObjectId,
+    ref: 'Patient',
+    required: [true, 'Patient is required'],
+  },
+  appointment: {
+    type: Schema.Types.ObjectId,
+    ref: 'Appointment',
+  },
+  type: {
+    type: String,
+    enum: OBSERVATION_TYPES,
+    required: [true, 'Observation type is required'],
+  },
+  value: {
+    type: Number,
+    required: [true, 'Value is required'],
+  },
+  unit: {
+    type: String,
+    required: true,
+  },
+  // The range the flag was judged against when the reading was taken
+  referenceRange: {
+    _id: false,
+    low: Number,
+    high: Number,
+  },
+  flag: {
+    type: String,
+    enum: ['normal', 'low', 'high', 'critical-low', 'critical-high'],
+  },
+  observedAt: {
+    type: Date,
+    required: true,
+    default: Date.now,
+  },
+  notes: {
+    type: String,
+    trim: true,
+    maxlength: [500, 'Notes cannot exceed 500 characters'],
+  },
+  // Readings are never deleted, only marked as entered in error
+  status: {
+    type: String,
+    enum: ['final', 'entered-in-error'],
+    default: 'final',
+  },
+  errorReason: {
+    type: String,
+    trim: true,
+    maxlength: [500, 'Reason cannot exceed 500 characters'],
+  },
+  recordedBy: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: true,
+  },
+  updatedBy: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+  },
+}, {
+  timestamps: true,
+});
+
+observationSchema.index({ patient: 1, type: 1, observedAt: -1 });
+observationSchema.index({ appointment: 1 });
+
+observationSchema.virtual('abnormal').get(function() {
+  return !!this.flag && this.flag !== 'normal';
+});
+
+observationSchema.set('toJSON', { virtuals: true });
+
+const Observation = mongoose.model<IObservation>('Observation', observationSchema);
+
+export default Observation;
@@ -0,0 +1,36 @@
+import mongoose, { Schema } from 'mongoose';
+import { IPasswordResetToken } from '../types/index.js';
+
+// Single-use password reset tokens, stored as SHA-256 hashes
+const passwordResetTokenSchema = new Schema<IPasswordResetToken>({
+  user: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: true,
+  },
+  tokenHash: {
+    type: String,
+    required: true,
+    unique: true,
+  },
+  expiresAt: {
+    type: Date,
+    required: true,
+  },
+  usedAt: {
+    type: Date,
+  },
+  ipAddress: {
+    type: String,
+  },
+}, {
+  timestamps: true,
+});
+
+// Indexes for performance
+passwordResetTokenSchema.index({ user: 1 });
+passwordResetTokenSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+const PasswordResetToken = mongoose.model<IPasswordResetToken>('PasswordResetToken', passwordResetTokenSchema);
+
+export default PasswordResetToken;
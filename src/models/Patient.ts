@@ -1,5 +1,9 @@
 import mongoose, { Schema } from 'mongoose';
 import { IPatient } from '../types/index.js';
+import { fieldEncryption } from '../utils/fieldEncryption.js';
+import { versionHistory } from '../utils/versioning.js';
+import { findIcd10Code, isIcd10Code, normaliseIcd10Code } from '../utils/icd10.js';
+import { storedFileSchema } from '../utils/uploads.js';
 
 const medicationSchema = new Schema({
   name: {
@@ -30,6 +34,93 @@ const medicationSchema = new Schema({
     type: Boolean,
     default: true,
   },
+  discontinuedReason: {
+    type: String,
+    trim: true,
+    maxlength: 500,
+  },
+  // Set when the entry was promoted from a completed appointment's prescriptions
+  sourceAppointment: {
+    type: Schema.Types.ObjectId,
+    ref: 'Appointment',
+  },
+  recordedBy: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+  },
+  updatedBy: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+  },
+}, {
+  timestamps: true,
+});
+
+const medicalConditionSchema = new Schema({
+  // Display text; entries recorded before coding keep their free text here
+  condition: {
+    type: String,
+    required: true,
+    trim: true,
+  },
+  code: {
+    type: String,
+    set: (value?: string) => value ? normaliseIcd10Code(value) : value,
+    validate: {
+      validator: isIcd10Code,
+      message: 'Unknown ICD-10 code',
+    },
+  },
+  diagnosedDate: {
+    type: Date,
+  },
+  status: {
+    type: String,
+    enum: ['active', 'resolved', 'chronic'],
+    default: 'active',
+  },
+  notes: String,
+  recordedBy: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+  },
+  updatedBy: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+  },
+}, {
+  timestamps: true,
+});
+
+// A coded condition without display text shows the code's description
+medicalConditionSchema.pre('validate', function() {
+  if (this.code && !this.condition) {
+    this.condition = findIcd10Code(this.code)?.description as string;
+  }
+});
+
+const allergySchema = new Schema({
+  allergen: {
+    type: String,
+    required: true,
+    trim: true,
+  },
+  severity: {
+    type: String,
+    enum: ['mild', 'moderate', 'severe'],
+    default: 'moderate',
+  },
+  reaction: String,
+  recordedBy: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+  },
+  updatedBy: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+  },
+}, {
+  timestamps: true,
 });
 
 const addressSchema = new Schema({
@@ -82,6 +173,51 @@ const emergencyContactSchema = new Schema({
   },
 });
 
+// Clinicians besides the primary doctor who may see the patient's clinical record
+const careTeamMemberSchema = new Schema({
+  user: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: true,
+  },
+  role: {
+    type: String,
+    trim: true,
+    maxlength: 50,
+  },
+  addedBy: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+  },
+  addedAt: {
+    type: Date,
+    default: Date.now,
+  },
+});
+
+// Sensitive records only the care team may open without break-glass access
+const restrictionSchema = new Schema({
+  category: {
+    type: String,
+    enum: ['psychiatric', 'vip', 'employee', 'other'],
+    required: true,
+  },
+  reason: {
+    type: String,
+    trim: true,
+    maxlength: 500,
+  },
+  setBy: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: true,
+  },
+  setAt: {
+    type: Date,
+    default: Date.now,
+  },
+}, { _id: false });
+
 const patientSchema = new Schema<IPatient>({
   firstName: {
     type: String,
@@ -98,7 +234,6 @@ const patientSchema = new Schema<IPatient>({
   email: {
     type: String,
     required: [true, 'Email is required'],
-    unique: true,
     trim: true,
     lowercase: true,
     match: [/^\w+([.-]?\w+)*@\w+([.-]?\w+)*(\.\w{2,3})+$/, 'Please enter a valid email'],
@@ -125,34 +260,9 @@ const patientSchema = new Schema<IPatient>({
     type: emergencyContactSchema,
     required: true,
   },
-  medicalHistory: [{
-    condition: {
-      type: String,
-      required: true,
-    },
-    diagnosedDate: {
-      type: Date,
-    },
-    status: {
-      type: String,
-      enum: ['active', 'resolved', 'chronic'],
-      default: 'active',
-    },
-    notes: String,
-  }],
+  medicalHistory: [medicalConditionSchema],
   currentMedications: [medicationSchema],
-  allergies: [{
-    allergen: {
-      type: String,
-      required: true,
-    },
-    severity: {
-      type: String,
-      enum: ['mild', 'moderate', 'severe'],
-      default: 'moderate',
-    },
-    reaction: String,
-  }],
+  allergies: [allergySchema],
   bloodType: {
     type: String,
     enum: ['A+', 'A-', 'B+', 'B-', 'AB+', 'AB-', 'O+', 'O-'],
@@ -169,17 +279,29 @@ const patientSchema = new Schema<IPatient>({
     type: Schema.Types.ObjectId,
     ref: 'User',
   },
+  careTeam: [careTeamMemberSchema],
+  restriction: {
+    type: restrictionSchema,
+  },
   isActive: {
     type: Boolean,
     default: true,
   },
+  // Set by the profile image upload, which serves the file back from this URL
   profileImage: {
     type: String,
   },
+  profileImageFile: {
+    type: storedFileSchema,
+  },
   notes: {
     type: String,
     maxlength: [1000, 'Notes cannot exceed 1000 characters'],
   },
+  // Earliest date a scheduled vaccine falls due, kept current from the recorded doses
+  nextImmunizationDueAt: {
+    type: Date,
+  },
 }, {
   timestamps: true,
 });
@@ -187,7 +309,9 @@ const patientSchema = new Schema<IPatient>({
 // Indexes for performance
 patientSchema.index({ firstName: 1, lastName: 1 });
 patientSchema.index({ primaryDoctor: 1 });
+patientSchema.index({ 'careTeam.user': 1 });
 patientSchema.index({ createdAt: -1 });
+patientSchema.index({ nextImmunizationDueAt: 1 });
 
 // Virtual for full name
 patientSchema.virtual('fullName').get(function() {
@@ -211,6 +335,15 @@ patientSchema.virtual('age').get(function() {
 // Ensure virtual fields are serialized
 patientSchema.set('toJSON', { virtuals: true });
 
+// Sensitive fields are stored encrypted; email stays unique and searchable through its blind index
+patientSchema.plugin(fieldEncryption, {
+  fields: ['email', 'insuranceNumber', 'medicalHistory', 'allergies', 'currentMedications', 'notes'],
+  blindIndexes: [{ field: 'email', unique: true }],
+});
+
+// Keep every saved state so edits can be reviewed and rolled back
+patientSchema.plugin(versionHistory, { resourceType: 'patient' });
+
 const Patient = mongoose.model<IPatient>('Patient', patientSchema);
 
 export default Patient;
\ No newline at end of file
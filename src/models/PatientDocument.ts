@@ -0,0 +1,62 @@
+import mongoose, { Schema } from 'mongoose';
+import { IPatientDocument } from '../types/index.js';
+import { PATIENT_DOCUMENT_TYPES, storedFileSchema } from '../utils/uploads.js';
+
+// An uploaded lab report, letter, scan or image kept on the patient's record
+const patientDocumentSchema = new Schema<IPatientDocument>({
+  patient: {
+    type: Schema.Types.ObjectId,
+    ref: 'Patient',
+    required: [true, 'Patient is required'],
+  },
+  appointment: {
+    type: Schema.Types.ObjectId,
+    ref: 'Appointment',
+  },
+  type: {
+    type: String,
+    enum: PATIENT_DOCUMENT_TYPES,
+    required: [true, 'Document type is required'],
+  },
+  description: {
+    type: String,
+    trim: true,
+    maxlength: [500, 'Description cannot exceed 500 characters'],
+  },
+  // When the document was issued, which may predate the upload
+  documentDate: {
+    type: Date,
+    required: true,
+    default: Date.now,
+  },
+  file: {
+    type: storedFileSchema,
+    required: true,
+  },
+  uploadedBy: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: true,
+  },
+  // Documents are withdrawn rather than deleted, and their files kept
+  deletedAt: {
+    type: Date,
+  },
+  deletedBy: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+  },
+  deletionReason: {
+    type: String,
+    trim: true,
+    maxlength: [500, 'Reason cannot exceed 500 characters'],
+  },
+}, {
+  timestamps: true,
+});
+
+patientDocumentSchema.index({ patient: 1, documentDate: -1 });
+
+const PatientDocument = mongoose.model<IPatientDocument>('PatientDocument', patientDocumentSchema);
+
+export default PatientDocument;
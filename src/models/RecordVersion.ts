@@ -0,0 +1,49 @@
+import mongoose, { Schema } from 'mongoose';
+import { IRecordVersion } from '../types/index.js';
+import { fieldEncryption } from '../utils/fieldEncryption.js';
+
+// Full snapshot of a versioned document after each save, numbered per document
+const recordVersionSchema = new Schema<IRecordVersion>({
+  resourceType: {
+    type: String,
+    required: true,
+  },
+  resourceId: {
+    type: Schema.Types.ObjectId,
+    required: true,
+  },
+  version: {
+    type: Number,
+    required: true,
+  },
+  operation: {
+    type: String,
+    enum: ['baseline', 'create', 'update', 'restore'],
+    required: true,
+  },
+  snapshot: {
+    type: Schema.Types.Mixed,
+    required: true,
+  },
+  changedFields: [{
+    type: String,
+  }],
+  changedBy: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+  },
+  restoredFrom: {
+    type: Number,
+  },
+}, {
+  timestamps: { createdAt: true, updatedAt: false },
+});
+
+recordVersionSchema.index({ resourceType: 1, resourceId: 1, version: -1 }, { unique: true });
+
+// Snapshots carry the same sensitive fields as the records they copy
+recordVersionSchema.plugin(fieldEncryption, { fields: ['snapshot'] });
+
+const RecordVersion = mongoose.model<IRecordVersion>('RecordVersion', recordVersionSchema);
+
+export default RecordVersion;
@@ -0,0 +1,152 @@
+import mongoose, { Schema } from 'mongoose';
+import { IExternalProvider, IReferral } from '../types/index.js';
+import { fieldEncryption } from '../utils/fieldEncryption.js';
+
+const externalProviderSchema = new Schema<IExternalProvider>({
+  name: {
+    type: String,
+    required: [true, 'Provider name is required'],
+    trim: true,
+    maxlength: [200, 'Provider name cannot exceed 200 characters'],
+  },
+  specialty: {
+    type: String,
+    trim: true,
+  },
+  organisation: {
+    type: String,
+    trim: true,
+  },
+  phone: {
+    type: String,
+    trim: true,
+  },
+  email: {
+    type: String,
+    trim: true,
+    lowercase: true,
+  },
+  address: {
+    type: String,
+    trim: true,
+  },
+}, {
+  _id: false,
+});
+
+// A request for another doctor, in the practice or outside it, to see the patient
+const referralSchema = new Schema<IReferral>({
+  patient: {
+    type: Schema.Types.ObjectId,
+    ref: 'Patient',
+    required: [true, 'Patient is required'],
+  },
+  appointment: {
+    type: Schema.Types.ObjectId,
+    ref: 'Appointment',
+  },
+  referredBy: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: true,
+  },
+  toDoctor: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+  },
+  externalProvider: {
+    type: externalProviderSchema,
+  },
+  specialty: {
+    type: String,
+    trim: true,
+    maxlength: [100, 'Specialty cannot exceed 100 characters'],
+  },
+  reason: {
+    type: String,
+    required: [true, 'Reason is required'],
+    trim: true,
+    maxlength: [2000, 'Reason cannot exceed 2000 characters'],
+  },
+  clinicalSummary: {
+    type: String,
+    trim: true,
+    maxlength: [5000, 'Clinical summary cannot exceed 5000 characters'],
+  },
+  urgency: {
+    type: String,
+    enum: ['routine', 'urgent', 'emergency'],
+    default: 'routine',
+  },
+  documents: [{
+    type: Schema.Types.ObjectId,
+    ref: 'PatientDocument',
+  }],
+  status: {
+    type: String,
+    enum: ['sent', 'accepted', 'declined', 'completed', 'cancelled'],
+    default: 'sent',
+  },
+  statusHistory: [{
+    from: {
+      type: String,
+      required: true,
+    },
+    to: {
+      type: String,
+      required: true,
+    },
+    changedBy: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: true,
+    },
+    changedAt: {
+      type: Date,
+      default: Date.now,
+    },
+    reason: String,
+  }],
+  // The receiving doctor's reply when accepting, declining or completing
+  responseNote: {
+    type: String,
+    trim: true,
+    maxlength: [2000, 'Response note cannot exceed 2000 characters'],
+  },
+  acceptedAt: {
+    type: Date,
+  },
+  declinedAt: {
+    type: Date,
+  },
+  completedAt: {
+    type: Date,
+  },
+  cancelledAt: {
+    type: Date,
+  },
+  bookedAppointment: {
+    type: Schema.Types.ObjectId,
+    ref: 'Appointment',
+  },
+}, {
+  timestamps: true,
+});
+
+referralSchema.index({ patient: 1, createdAt: -1 });
+referralSchema.index({ toDoctor: 1, status: 1, createdAt: -1 });
+referralSchema.index({ referredBy: 1, status: 1, createdAt: -1 });
+
+referralSchema.pre('validate', function(next) {
+  if (!this.toDoctor === !this.externalProvider) {
+    return next(new Error('A referral goes to either a doctor in the practice or an external provider'));
+  }
+  next();
+});
+
+// The reason and summary carry clinical detail from the patient record
+referralSchema.plugin(fieldEncryption, { fields: ['reason', 'clinicalSummary'] });
+
+const Referral = mongoose.model<IReferral>('Referral', referralSchema);
+
+export default Referral;
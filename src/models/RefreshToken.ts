@@ -0,0 +1,56 @@
+import mongoose, { Schema } from 'mongoose';
+import { IRefreshToken } from '../types/index.js';
+
+// Single-use refresh tokens, stored as SHA-256 hashes. All tokens descending
+// from one login share a family so a replayed token can revoke the whole chain.
+const refreshTokenSchema = new Schema<IRefreshToken>({
+  user: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: true,
+  },
+  tokenHash: {
+    type: String,
+    required: true,
+    unique: true,
+  },
+  family: {
+    type: String,
+    required: true,
+  },
+  sessionJti: {
+    type: String,
+    required: true,
+  },
+  expiresAt: {
+    type: Date,
+    required: true,
+  },
+  usedAt: {
+    type: Date,
+  },
+  revokedAt: {
+    type: Date,
+  },
+  revokedReason: {
+    type: String,
+    enum: ['logout', 'logout-all', 'admin', 'refresh', 'deactivated', 'reuse-detected', 'password-change', 'password-reset'],
+  },
+  ipAddress: {
+    type: String,
+  },
+  userAgent: {
+    type: String,
+  },
+}, {
+  timestamps: true,
+});
+
+// Indexes for performance
+refreshTokenSchema.index({ family: 1 });
+refreshTokenSchema.index({ user: 1, revokedAt: 1 });
+refreshTokenSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+const RefreshToken = mongoose.model<IRefreshToken>('RefreshToken', refreshTokenSchema);
+
+export default RefreshToken;
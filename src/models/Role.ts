@@ -0,0 +1,46 @@
+import mongoose, { Schema } from 'mongoose';
+import { IRole } from '../types/index.js';
+import { isBuiltInRole, isPermission } from '../utils/permissions.js';
+
+// Admin-defined roles; the built-in roles live in utils/permissions.ts
+const roleSchema = new Schema<IRole>({
+  name: {
+    type: String,
+    required: [true, 'Role name is required'],
+    unique: true,
+    lowercase: true,
+    trim: true,
+    match: [/^[a-z][a-z0-9-]{1,29}$/, 'Role name must be 2-30 lowercase letters, digits or hyphens'],
+    validate: {
+      validator: (name: string) => !isBuiltInRole(name),
+      message: 'Role name is reserved',
+    },
+  },
+  description: {
+    type: String,
+    trim: true,
+    maxlength: [200, 'Description cannot exceed 200 characters'],
+  },
+  permissions: {
+    type: [String],
+    validate: {
+      validator: (permissions: string[]) => permissions.every(isPermission),
+      message: 'Unknown permission',
+    },
+  },
+  createdBy: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: true,
+  },
+  updatedBy: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+  },
+}, {
+  timestamps: true,
+});
+
+const Role = mongoose.model<IRole>('Role', roleSchema);
+
+export default Role;
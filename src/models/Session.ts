@@ -0,0 +1,53 @@
+import mongoose, { Schema } from 'mongoose';
+import { ISession } from '../types/index.js';
+
+// One document per issued access token, keyed by its jti claim
+const sessionSchema = new Schema<ISession>({
+  user: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: true,
+  },
+  jti: {
+    type: String,
+    required: true,
+    unique: true,
+  },
+  family: {
+    type: String,
+  },
+  expiresAt: {
+    type: Date,
+    required: true,
+  },
+  ipAddress: {
+    type: String,
+  },
+  userAgent: {
+    type: String,
+  },
+  revokedAt: {
+    type: Date,
+  },
+  revokedBy: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+  },
+  revokedReason: {
+    type: String,
+    enum: ['logout', 'logout-all', 'admin', 'refresh', 'deactivated', 'reuse-detected', 'password-change', 'password-reset'],
+  },
+}, {
+  timestamps: true,
+});
+
+// Indexes for performance
+sessionSchema.index({ user: 1, revokedAt: 1 });
+sessionSchema.index({ family: 1 });
+
+// Sessions are useless once the token has expired, so let MongoDB drop them
+sessionSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+const Session = mongoose.model<ISession>('Session', sessionSchema);
+
+export default Session;
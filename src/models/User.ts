@@ -1,6 +1,9 @@
 import mongoose, { Schema } from 'mongoose';
 import bcrypt from 'bcryptjs';
 import { IUser } from '../types/index.js';
+import { checkPasswordStrength, describePasswordProblems, getPasswordPolicy } from '../utils/passwordPolicy.js';
+import { roleExists } from '../utils/permissions.js';
+import { storedFileSchema } from '../utils/uploads.js';
 
 const userSchema = new Schema<IUser>({
   username: {
@@ -22,7 +25,6 @@ const userSchema = new Schema<IUser>({
   password: {
     type: String,
     required: [true, 'Password is required'],
-    minlength: [6, 'Password must be at least 6 characters'],
   },
   firstName: {
     type: String,
@@ -38,8 +40,11 @@ const userSchema = new Schema<IUser>({
   },
   role: {
     type: String,
-    enum: ['admin', 'doctor', 'nurse', 'staff'],
     default: 'staff',
+    validate: {
+      validator: roleExists,
+      message: 'Invalid role',
+    },
   },
   isActive: {
     type: Boolean,
@@ -48,20 +53,93 @@ const userSchema = new Schema<IUser>({
   lastLogin: {
     type: Date,
   },
+  // Set by the profile image upload, which serves the file back from this URL
   profileImage: {
     type: String,
   },
+  profileImageFile: {
+    type: storedFileSchema,
+  },
+  passwordChangedAt: {
+    type: Date,
+  },
+  failedLoginAttempts: {
+    type: Number,
+    default: 0,
+  },
+  lastFailedLoginAt: {
+    type: Date,
+  },
+  lockUntil: {
+    type: Date,
+  },
+  twoFactor: {
+    enabled: {
+      type: Boolean,
+      default: false,
+    },
+    secret: {
+      type: String,
+      select: false,
+    },
+    pendingSecret: {
+      type: String,
+      select: false,
+    },
+    recoveryCodes: {
+      type: [String],
+      select: false,
+    },
+    enabledAt: {
+      type: Date,
+    },
+    lastUsedStep: {
+      type: Number,
+      select: false,
+    },
+  },
+  passwordHistory: {
+    type: [{
+      hash: {
+        type: String,
+        required: true,
+      },
+      changedAt: {
+        type: Date,
+        default: Date.now,
+      },
+    }],
+    select: false,
+  },
 }, {
   timestamps: true,
 });
 
+// A changed password is plaintext until the pre-save hook hashes it. The hash it
+// produced is remembered, since a save that fails afterwards leaves it marked as changed.
+const hasNewPlaintextPassword = (user: { password: string; isModified(path: string): boolean; $locals: Record<string, unknown> }): boolean => {
+  return user.isModified('password') && user.password !== user.$locals.passwordHash;
+};
+
+// Check new passwords against the strength policy
+userSchema.pre('validate', function(next) {
+  if (hasNewPlaintextPassword(this)) {
+    const problems = checkPasswordStrength(this.password);
+    if (problems.length > 0) {
+      this.invalidate('password', describePasswordProblems(problems));
+    }
+  }
+  next();
+});
+
 // Hash password before saving
 userSchema.pre('save', async function(next) {
-  if (!this.isModified('password')) return next();
+  if (!hasNewPlaintextPassword(this)) return next();
   
   try {
     const salt = await bcrypt.genSalt(12);
     this.password = await bcrypt.hash(this.password, salt);
+    this.$locals.passwordHash = this.password;
     next();
   } catch (error) {
     next(error as Error);
@@ -73,10 +151,47 @@ userSchema.methods.comparePassword = async function(candidatePassword: string):
   return bcrypt.compare(candidatePassword, this.password);
 };
 
+// Check a candidate against the current and previous passwords.
+// Requires the document to be loaded with +passwordHistory.
+userSchema.methods.isPasswordReused = async function(candidatePassword: string): Promise<boolean> {
+  const hashes = [this.password, ...(this.passwordHistory || []).map((entry: { hash: string }) => entry.hash)];
+
+  for (const hash of hashes) {
+    if (await bcrypt.compare(candidatePassword, hash)) {
+      return true;
+    }
+  }
+
+  return false;
+};
+
+// Replace the password, keeping the previous hash in the history. The new
+// value is hashed by the pre-save hook.
+userSchema.methods.setPassword = function(newPassword: string): void {
+  const { historySize } = getPasswordPolicy();
+
+  if (this.password) {
+    this.passwordHistory = [
+      { hash: this.password, changedAt: new Date() },
+      ...(this.passwordHistory || []),
+    ].slice(0, historySize);
+  }
+
+  this.password = newPassword;
+  this.passwordChangedAt = new Date();
+};
+
 // Remove password from JSON output
 userSchema.methods.toJSON = function() {
   const userObject = this.toObject();
   delete userObject.password;
+  delete userObject.passwordHistory;
+  if (userObject.twoFactor) {
+    userObject.twoFactor = {
+      enabled: userObject.twoFactor.enabled,
+      enabledAt: userObject.twoFactor.enabledAt,
+    };
+  }
   return userObject;
 };
 
@@ -2,31 +2,164 @@ import express, { Request, Response } from 'express';
 import Appointment from '../models/Appointment.js';
 import Patient from '../models/Patient.js';
 import User from '../models/User.js';
-import { authenticate, authorize } from '../middleware/auth.js';
+import { authenticate, hasPermission, requirePermission } from '../middleware/auth.js';
 import { 
   validateAppointmentCreation, 
+  validateAppointmentUpdate,
+  validateAppointmentCancellation, 
+  validateAppointmentCompletion, 
+  validateDiagnosisCoding,
+  validateInteractionOverride,
   validateObjectId, 
+  validateVersionNumber,
+  validateVersionDiff,
   validatePagination,
   handleValidationErrors 
 } from '../middleware/validation.js';
-import { AuthenticatedRequest, ApiResponse } from '../types/index.js';
+import { getDoctorWorkingHours, fitsWorkingHours } from '../utils/schedule.js';
+import { acquireBookingLock, checkSlot, findOverlappingAppointment, NON_BLOCKING_STATUSES } from '../utils/booking.js';
+import { STATUS_TRANSITIONS, STATUS_MANAGED_FIELDS, StatusAction, canTransition, applyTransition } from '../utils/appointmentStatus.js';
+import { timeToMinutes, minutesToTime, rangesOverlap } from '../utils/time.js';
+import { auditTrail, diffChanges, recordAuditChanges } from '../utils/audit.js';
+import { applySnapshot, findVersion, listVersions } from '../utils/versioning.js';
+import { SEVERE_INTERACTION_MESSAGE, PrescribingScreen, recordInteractionOverride, screenPrescribing } from '../utils/drugInteractions.js';
+import { promotePrescriptions, screenPromotion } from '../utils/prescriptions.js';
+import { normaliseIcd10Code } from '../utils/icd10.js';
+import {
+  ACCESS_FIELDS,
+  APPOINTMENT_CLINICAL_FIELDS,
+  BREAK_GLASS_NOTICE,
+  appointmentScopeFilter,
+  getPatientAccess,
+  isAppointmentDoctor,
+  isRestrictedFor,
+  presentAppointment,
+  resolvePatientAccess
+} from '../utils/patientAccess.js';
+import { AuthenticatedRequest, ApiResponse, IAppointment, IPatient } from '../types/index.js';
 
 const router = express.Router();
 
-// Apply authentication to all routes
-router.use(authenticate);
+// Status moves only through the transition endpoints and series membership through
+// the series endpoints, so a restore leaves both as they are
+const APPOINTMENT_RESTORE_EXCLUDED_FIELDS = [...STATUS_MANAGED_FIELDS, 'series', 'seriesIndex', 'createdBy', 'updatedBy'];
+
+// Fields PUT /api/appointments/:id may change. Status, series membership, the patient
+// and authorship are never taken from the request body.
+const APPOINTMENT_UPDATE_FIELDS = [
+  'doctor',
+  'date',
+  'time',
+  'duration',
+  'type',
+  'reason',
+  ...APPOINTMENT_CLINICAL_FIELDS,
+  'followUpRequired',
+  'followUpDate',
+];
+
+// What may still change once an appointment is closed; restores are refused. A
+// completed visit keeps its record as completed, with corrections made as
+// addenda to its encounter note.
+const CLOSED_UPDATE_FIELDS: Partial<Record<IAppointment['status'], string[]>> = {
+  'completed': ['followUpRequired', 'followUpDate'],
+  'cancelled': [],
+  'no-show': [],
+};
+
+// Medications in a prescription list that the appointment does not already carry
+const newPrescriptionNames = (prescriptions: unknown, existing: IAppointment['prescriptions'] = []): string[] => {
+  if (!Array.isArray(prescriptions)) {
+    return [];
+  }
+
+  const existingNames = existing.map(prescription => prescription.medication);
+  return prescriptions
+    .map(prescription => prescription?.medication)
+    .filter((medication): medication is string => !!medication && !existingNames.includes(medication));
+};
+
+// Screen newly prescribed medications against the patient's allergies and medications
+const screenNewPrescriptions = async (
+  req: AuthenticatedRequest,
+  patientId: IAppointment['patient'],
+  medications: string[]
+): Promise<PrescribingScreen | null> => {
+  if (medications.length === 0) {
+    return null;
+  }
+
+  const patient = await Patient.findById(patientId);
+  return patient ? screenPrescribing(patient, medications, req.body.interactionOverrideReason) : null;
+};
+
+const recordOverrideIfAny = async (
+  req: AuthenticatedRequest,
+  appointment: IAppointment,
+  medications: string[],
+  screening: PrescribingScreen | null
+): Promise<void> => {
+  if (screening?.overridden) {
+    await recordInteractionOverride({
+      patient: appointment.patient,
+      appointment: appointment._id,
+      medications,
+      warnings: screening.warnings,
+      reason: req.body.interactionOverrideReason,
+      overriddenBy: req.user!._id,
+    });
+  }
+};
+
+const CLINICAL_WRITE_DENIED_MESSAGE = 'Clinical details of this appointment are not open to you';
+
+interface AppointmentAccess {
+  mode: 'ordinary' | 'break-glass';
+  clinical: boolean;
+}
+
+// How the user may open an appointment, decided as GET /:id does: its doctor always
+// may, anyone else needs access to the patient's record. The clinical fields are for
+// clinical users, and not for a restricted patient outside their care team unless
+// opened under break-glass. Null when the user may not open it at all.
+const resolveAppointmentAccess = async (
+  req: AuthenticatedRequest,
+  appointment: IAppointment
+): Promise<AppointmentAccess | null> => {
+  const access = await getPatientAccess(req);
+  const patient = await Patient.findById(appointment.patient).select(ACCESS_FIELDS);
+
+  if (patient && !isAppointmentDoctor(appointment, access.userId)) {
+    const mode = await resolvePatientAccess(req, patient);
+    return mode && { mode, clinical: access.clinical };
+  }
+
+  return {
+    mode: 'ordinary',
+    clinical: access.clinical && !(patient && isRestrictedFor(patient, access.userId)),
+  };
+};
+
+// Apply authentication and audit logging to all routes
+router.use(authenticate, auditTrail('appointment'));
 
 // @route   GET /api/appointments
-// @desc    Get all appointments with pagination and filtering
-// @access  Private
-router.get('/', validatePagination, handleValidationErrors, async (req: AuthenticatedRequest, res: Response<ApiResponse>) => {
+// @desc    Get all appointments with pagination and filtering (clinical fields need patients:read-clinical)
+// @access  Private (appointments:read, care team or own appointments for clinical users)
+router.get('/', requirePermission('appointments:read'), validatePagination, handleValidationErrors, async (req: AuthenticatedRequest, res: Response<ApiResponse>) => {
   try {
     const page = parseInt(req.query.page as string) || 1;
     const limit = parseInt(req.query.limit as string) || 10;
     const skip = (page - 1) * limit;
+    const access = await getPatientAccess(req);
     
     // Build filter object
     const filter: any = {};
+
+    const scope = await appointmentScopeFilter(access);
+    if (scope.$or) {
+      filter.$and = [scope];
+    }
     
     if (req.query.status) {
       filter.status = req.query.status;
@@ -44,6 +177,16 @@ router.get('/', validatePagination, handleValidationErrors, async (req: Authenti
       filter.patient = req.query.patient;
     }
 
+    if (req.query.series) {
+      filter.series = req.query.series;
+    }
+
+    // A category such as E11 also matches its subcodes
+    if (req.query.diagnosisCode) {
+      const code = normaliseIcd10Code(req.query.diagnosisCode as string).replace(/[^A-Z0-9.]/g, '');
+      filter.diagnosisCode = new RegExp(`^${code.replace('.', '\\.')}`);
+    }
+
     if (req.query.date) {
       const startDate = new Date(req.query.date as string);
       const endDate = new Date(startDate);
@@ -65,7 +208,7 @@ router.get('/', validatePagination, handleValidationErrors, async (req: Authenti
     // Execute query with pagination
     const [appointments, total] = await Promise.all([
       Appointment.find(filter)
-        .populate('patient', 'firstName lastName email phone')
+        .populate('patient', `firstName lastName email phone ${ACCESS_FIELDS}`)
         .populate('doctor', 'firstName lastName email')
         .populate('createdBy', 'firstName lastName')
         .sort({ date: 1, time: 1 })
@@ -76,7 +219,7 @@ router.get('/', validatePagination, handleValidationErrors, async (req: Authenti
 
     res.json({
       success: true,
-      data: appointments,
+      data: appointments.map(appointment => presentAppointment(appointment, access)),
       pagination: {
         currentPage: page,
         totalPages: Math.ceil(total / limit),
@@ -94,12 +237,12 @@ router.get('/', validatePagination, handleValidationErrors, async (req: Authenti
 });
 
 // @route   GET /api/appointments/:id
-// @desc    Get appointment by ID
-// @access  Private
-router.get('/:id', validateObjectId('id'), handleValidationErrors, async (req: AuthenticatedRequest, res: Response<ApiResponse>) => {
+// @desc    Get appointment by ID (clinical fields need patients:read-clinical)
+// @access  Private (appointments:read, care team or own appointments for clinical users)
+router.get('/:id', requirePermission('appointments:read'), validateObjectId('id'), handleValidationErrors, async (req: AuthenticatedRequest, res: Response<ApiResponse>) => {
   try {
     const appointment = await Appointment.findById(req.params.id)
-      .populate('patient', 'firstName lastName email phone dateOfBirth gender')
+      .populate('patient', `firstName lastName email phone dateOfBirth gender ${ACCESS_FIELDS}`)
       .populate('doctor', 'firstName lastName email')
       .populate('createdBy', 'firstName lastName')
       .populate('updatedBy', 'firstName lastName');
@@ -112,9 +255,25 @@ router.get('/:id', validateObjectId('id'), handleValidationErrors, async (req: A
       return;
     }
 
+    // The appointment's doctor may always open it; anyone else needs access to the patient's record
+    const access = await getPatientAccess(req);
+    const patient = appointment.patient as unknown as IPatient | null;
+    const accessMode = patient && !isAppointmentDoctor(appointment, access.userId)
+      ? await resolvePatientAccess(req, patient)
+      : 'ordinary';
+
+    if (!accessMode) {
+      res.status(403).json({
+        success: false,
+        message: 'Patient is not under your care',
+      });
+      return;
+    }
+
     res.json({
       success: true,
-      data: appointment,
+      ...(accessMode === 'break-glass' && { message: BREAK_GLASS_NOTICE }),
+      data: presentAppointment(appointment, access, accessMode === 'break-glass'),
     });
   } catch (error) {
     console.error('Get appointment error:', error);
@@ -127,14 +286,23 @@ router.get('/:id', validateObjectId('id'), handleValidationErrors, async (req: A
 
 // @route   POST /api/appointments
 // @desc    Create new appointment
-// @access  Private (Admin, Doctor, Nurse)
+// @access  Private (appointments:write)
 router.post('/', 
-  authorize('admin', 'doctor', 'nurse'), 
+  requirePermission('appointments:write'),
   validateAppointmentCreation, 
+  validateInteractionOverride,
   handleValidationErrors, 
   async (req: AuthenticatedRequest, res: Response<ApiResponse>) => {
     try {
-      const { patient: patientId, doctor: doctorId, date, time } = req.body;
+      const { patient: patientId, doctor: doctorId, date, time, duration } = req.body;
+
+      if (req.body.prescriptions !== undefined && !(await hasPermission(req, 'prescriptions:write'))) {
+        res.status(403).json({
+          success: false,
+          message: 'Insufficient permissions to write prescriptions',
+        });
+        return;
+      }
 
       // Verify patient exists
       const patient = await Patient.findOne({ _id: patientId, isActive: true });
@@ -146,6 +314,19 @@ router.post('/',
         return;
       }
 
+      const prescribed = newPrescriptionNames(req.body.prescriptions);
+      const screening = prescribed.length > 0
+        ? screenPrescribing(patient, prescribed, req.body.interactionOverrideReason)
+        : null;
+      if (screening?.blocked) {
+        res.status(409).json({
+          success: false,
+          message: SEVERE_INTERACTION_MESSAGE,
+          warnings: screening.warnings,
+        });
+        return;
+      }
+
       // Verify doctor exists and has appropriate role
       const doctor = await User.findOne({ 
         _id: doctorId, 
@@ -160,29 +341,60 @@ router.post('/',
         return;
       }
 
-      // Check for scheduling conflicts
-      const conflictingAppointment = await Appointment.findOne({
-        doctor: doctorId,
-        date: new Date(date),
-        time: time,
-        status: { $nin: ['cancelled', 'no-show'] }
-      });
-
-      if (conflictingAppointment) {
+      // Check the requested slot against the doctor's working schedule
+      const workingHours = await getDoctorWorkingHours(doctorId, new Date(date));
+      if (!fitsWorkingHours(workingHours, time, Number(duration))) {
         res.status(400).json({
           success: false,
-          message: 'Doctor is not available at this time',
+          message: 'Appointment is outside the doctor\'s working hours',
         });
         return;
       }
 
-      // Create appointment
-      const appointment = new Appointment({
-        ...req.body,
-        createdBy: req.user!._id,
-      });
+      // Serialise bookings for this doctor and day so concurrent requests cannot both pass the conflict check
+      const releaseLock = await acquireBookingLock(doctorId, date);
+      if (!releaseLock) {
+        res.status(409).json({
+          success: false,
+          message: 'Another booking for this doctor is in progress, please retry',
+        });
+        return;
+      }
 
-      await appointment.save();
+      let appointment;
+      try {
+        // Check for overlapping appointments
+        const conflictingAppointment = await findOverlappingAppointment({
+          doctor: doctorId,
+          date: new Date(date),
+          time,
+          duration: Number(duration),
+        });
+
+        if (conflictingAppointment) {
+          res.status(400).json({
+            success: false,
+            message: 'Doctor is not available at this time',
+          });
+          return;
+        }
+
+        // New appointments always start as scheduled
+        STATUS_MANAGED_FIELDS.forEach(field => delete req.body[field]);
+
+        // Create appointment
+        appointment = new Appointment({
+          ...req.body,
+          createdBy: req.user!._id,
+        });
+
+        await appointment.save();
+        recordAuditChanges(res, {}, appointment.toObject(), appointment._id);
+      } finally {
+        await releaseLock();
+      }
+
+      await recordOverrideIfAny(req, appointment, prescribed, screening);
 
       // Populate the response
       await appointment.populate([
@@ -195,6 +407,7 @@ router.post('/',
         success: true,
         message: 'Appointment created successfully',
         data: appointment,
+        ...(screening && { warnings: screening.warnings }),
       });
     } catch (error) {
       console.error('Create appointment error:', error);
@@ -208,10 +421,13 @@ router.post('/',
 
 // @route   PUT /api/appointments/:id
 // @desc    Update appointment
-// @access  Private (Admin, Doctor, Nurse)
+// @access  Private (appointments:write)
 router.put('/:id', 
-  authorize('admin', 'doctor', 'nurse'),
+  requirePermission('appointments:write'),
   validateObjectId('id'),
+  validateAppointmentUpdate,
+  validateDiagnosisCoding,
+  validateInteractionOverride,
   handleValidationErrors,
   async (req: AuthenticatedRequest, res: Response<ApiResponse>) => {
     try {
@@ -225,37 +441,150 @@ router.put('/:id',
         return;
       }
 
-      // Check if time/date is being changed and verify availability
-      if (req.body.date || req.body.time || req.body.doctor) {
-        const newDate = req.body.date ? new Date(req.body.date) : appointment.date;
-        const newTime = req.body.time || appointment.time;
-        const newDoctor = req.body.doctor || appointment.doctor;
+      // Only those who may open the appointment may change it
+      const appointmentAccess = await resolveAppointmentAccess(req, appointment);
+      if (!appointmentAccess) {
+        res.status(403).json({
+          success: false,
+          message: 'Patient is not under your care',
+        });
+        return;
+      }
+
+      // Status only moves through the transition endpoints
+      if (STATUS_MANAGED_FIELDS.some(field => req.body[field] !== undefined)) {
+        res.status(400).json({
+          success: false,
+          message: 'Status cannot be updated directly, use the status transition endpoints',
+        });
+        return;
+      }
+
+      const updates: Record<string, any> = {};
+      APPOINTMENT_UPDATE_FIELDS.forEach(field => {
+        if (req.body[field] !== undefined) {
+          updates[field] = req.body[field];
+        }
+      });
 
-        const conflictingAppointment = await Appointment.findOne({
-          _id: { $ne: req.params.id },
-          doctor: newDoctor,
-          date: newDate,
-          time: newTime,
-          status: { $nin: ['cancelled', 'no-show'] }
+      const closedFields = CLOSED_UPDATE_FIELDS[appointment.status];
+      if (closedFields && Object.keys(updates).some(field => !closedFields.includes(field))) {
+        res.status(400).json({
+          success: false,
+          message: appointment.status === 'completed'
+            ? 'Only the follow-up of a completed appointment can be updated, add corrections to its encounter note'
+            : `Cannot update an appointment that is ${appointment.status}`,
         });
+        return;
+      }
 
-        if (conflictingAppointment) {
+      if (!appointmentAccess.clinical && APPOINTMENT_CLINICAL_FIELDS.some(field => updates[field] !== undefined)) {
+        res.status(403).json({
+          success: false,
+          message: CLINICAL_WRITE_DENIED_MESSAGE,
+        });
+        return;
+      }
+
+      if (updates.prescriptions !== undefined && !(await hasPermission(req, 'prescriptions:write'))) {
+        res.status(403).json({
+          success: false,
+          message: 'Insufficient permissions to write prescriptions',
+        });
+        return;
+      }
+
+      const prescribed = newPrescriptionNames(updates.prescriptions, appointment.prescriptions);
+      const screening = await screenNewPrescriptions(req, appointment.patient, prescribed);
+      if (screening?.blocked) {
+        res.status(409).json({
+          success: false,
+          message: SEVERE_INTERACTION_MESSAGE,
+          warnings: screening.warnings,
+        });
+        return;
+      }
+
+      // A new doctor must be bookable, as when creating the appointment
+      if (updates.doctor !== undefined) {
+        const doctor = await User.findOne({ 
+          _id: updates.doctor, 
+          isActive: true,
+          role: { $in: ['doctor', 'admin'] }
+        });
+        if (!doctor) {
           res.status(400).json({
             success: false,
-            message: 'Doctor is not available at this time',
+            message: 'Doctor not found',
           });
           return;
         }
       }
 
-      // Update appointment
-      Object.assign(appointment, req.body);
-      appointment.updatedBy = req.user!._id;
-      await appointment.save();
+      const isRescheduling = !!(updates.date || updates.time || updates.doctor || updates.duration);
+      const newDate = updates.date ? new Date(updates.date) : appointment.date;
+      const newTime = updates.time || appointment.time;
+      const newDoctor = updates.doctor || appointment.doctor;
+      const newDuration = updates.duration ? Number(updates.duration) : appointment.duration;
+
+      // Check if time/date is being changed and verify availability
+      if (isRescheduling) {
+        const workingHours = await getDoctorWorkingHours(newDoctor, newDate);
+        if (!fitsWorkingHours(workingHours, newTime, newDuration)) {
+          res.status(400).json({
+            success: false,
+            message: 'Appointment is outside the doctor\'s working hours',
+          });
+          return;
+        }
+      }
+
+      // Serialise against concurrent bookings on the target doctor's day while rescheduling
+      const releaseLock = isRescheduling ? await acquireBookingLock(newDoctor, newDate) : null;
+      if (isRescheduling && !releaseLock) {
+        res.status(409).json({
+          success: false,
+          message: 'Another booking for this doctor is in progress, please retry',
+        });
+        return;
+      }
+
+      try {
+        if (isRescheduling) {
+          const conflictingAppointment = await findOverlappingAppointment({
+            doctor: newDoctor,
+            date: newDate,
+            time: newTime,
+            duration: newDuration,
+            excludeId: req.params.id,
+          });
+
+          if (conflictingAppointment) {
+            res.status(400).json({
+              success: false,
+              message: 'Doctor is not available at this time',
+            });
+            return;
+          }
+        }
+
+        // Update appointment, keeping a snapshot for the audit trail
+        const before = appointment.toObject();
+        appointment.set(updates);
+        appointment.updatedBy = req.user!._id;
+        await appointment.save();
+        recordAuditChanges(res, before, appointment.toObject());
+      } finally {
+        if (releaseLock) {
+          await releaseLock();
+        }
+      }
+
+      await recordOverrideIfAny(req, appointment, prescribed, screening);
 
       // Populate the response
       await appointment.populate([
-        { path: 'patient', select: 'firstName lastName email phone' },
+        { path: 'patient', select: `firstName lastName email phone ${ACCESS_FIELDS}` },
         { path: 'doctor', select: 'firstName lastName email' },
         { path: 'updatedBy', select: 'firstName lastName' }
       ]);
@@ -263,7 +592,8 @@ router.put('/:id',
       res.json({
         success: true,
         message: 'Appointment updated successfully',
-        data: appointment,
+        data: presentAppointment(appointment, await getPatientAccess(req), appointmentAccess.mode === 'break-glass'),
+        ...(screening && { warnings: screening.warnings }),
       });
     } catch (error) {
       console.error('Update appointment error:', error);
@@ -275,13 +605,354 @@ router.put('/:id',
   }
 );
 
+// Shared handler for the status transition endpoints
+const transitionAppointment = (action: StatusAction) => {
+  return async (req: AuthenticatedRequest, res: Response<ApiResponse>) => {
+    try {
+      const appointment = await Appointment.findById(req.params.id);
+
+      if (!appointment) {
+        res.status(404).json({
+          success: false,
+          message: 'Appointment not found',
+        });
+        return;
+      }
+
+      // Only those who may open the appointment may move it, and completing it records
+      // the clinical outcome, which needs the access that shows it
+      const appointmentAccess = await resolveAppointmentAccess(req, appointment);
+      if (!appointmentAccess || (action === 'complete' && !appointmentAccess.clinical)) {
+        res.status(403).json({
+          success: false,
+          message: appointmentAccess ? CLINICAL_WRITE_DENIED_MESSAGE : 'Patient is not under your care',
+        });
+        return;
+      }
+
+      if (!canTransition(appointment, action)) {
+        res.status(400).json({
+          success: false,
+          message: `Cannot ${action} an appointment that is ${appointment.status}`,
+        });
+        return;
+      }
+
+      const before = appointment.toObject();
+      let patient: IPatient | null = null;
+      let screening: PrescribingScreen | null = null;
+
+      // Completion records the clinical outcome of the visit
+      if (action === 'complete') {
+        const { diagnosis, diagnosisCode, treatment, prescriptions, followUpRequired, followUpDate } = req.body;
+
+        if (prescriptions !== undefined && !(await hasPermission(req, 'prescriptions:write'))) {
+          res.status(403).json({
+            success: false,
+            message: 'Insufficient permissions to write prescriptions',
+          });
+          return;
+        }
+
+        appointment.diagnosis = diagnosis;
+        if (diagnosisCode !== undefined) appointment.diagnosisCode = diagnosisCode;
+        if (treatment !== undefined) appointment.treatment = treatment;
+        if (prescriptions !== undefined) appointment.prescriptions = prescriptions;
+        if (followUpRequired !== undefined) appointment.followUpRequired = followUpRequired;
+        if (followUpDate !== undefined) appointment.followUpDate = followUpDate;
+
+        // Every prescription is about to join the patient's medication list, so all of
+        // them are screened against it as it stands now
+        patient = await Patient.findById(appointment.patient);
+        screening = patient ? screenPromotion(patient, appointment, req.body.interactionOverrideReason) : null;
+        if (screening?.blocked) {
+          res.status(409).json({
+            success: false,
+            message: SEVERE_INTERACTION_MESSAGE,
+            warnings: screening.warnings,
+          });
+          return;
+        }
+      }
+
+      applyTransition(appointment, action, req.user!._id, req.body.reason);
+
+      // The visit's prescriptions carry over to the patient's medication list. Both
+      // documents are validated before either is written, and the medications go
+      // first: promoting again renews the same entries, so a completion that fails
+      // after them can simply be retried.
+      const promoted = patient ? await promotePrescriptions(patient, appointment, req.user!._id) : [];
+      await appointment.validate();
+      if (promoted.length > 0) {
+        await patient!.save();
+      }
+      await appointment.save();
+      recordAuditChanges(res, before, appointment.toObject());
+      await recordOverrideIfAny(req, appointment, promoted.map(med => med.name), screening);
+
+      await appointment.populate([
+        { path: 'patient', select: `firstName lastName email phone ${ACCESS_FIELDS}` },
+        { path: 'doctor', select: 'firstName lastName email' },
+        { path: 'updatedBy', select: 'firstName lastName' }
+      ]);
+
+      res.json({
+        success: true,
+        message: `Appointment ${STATUS_TRANSITIONS[action].to} successfully`,
+        data: presentAppointment(appointment, await getPatientAccess(req), appointmentAccess.mode === 'break-glass'),
+        ...(screening && { warnings: screening.warnings }),
+      });
+    } catch (error) {
+      console.error(`Appointment ${action} error:`, error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error',
+      });
+    }
+  };
+};
+
+// @route   POST /api/appointments/:id/confirm
+// @desc    Confirm a scheduled appointment
+// @access  Private (appointments:confirm)
+router.post('/:id/confirm', 
+  requirePermission(STATUS_TRANSITIONS['confirm'].permission),
+  validateObjectId('id'),
+  handleValidationErrors,
+  transitionAppointment('confirm')
+);
+
+// @route   POST /api/appointments/:id/check-in
+// @desc    Check the patient in and start the visit
+// @access  Private (appointments:check-in)
+router.post('/:id/check-in', 
+  requirePermission(STATUS_TRANSITIONS['check-in'].permission),
+  validateObjectId('id'),
+  handleValidationErrors,
+  transitionAppointment('check-in')
+);
+
+// @route   POST /api/appointments/:id/complete
+// @desc    Complete a visit, recording diagnosis and treatment
+// @access  Private (appointments:complete)
+router.post('/:id/complete', 
+  requirePermission(STATUS_TRANSITIONS['complete'].permission),
+  validateObjectId('id'),
+  validateAppointmentCompletion,
+  validateInteractionOverride,
+  handleValidationErrors,
+  transitionAppointment('complete')
+);
+
+// @route   POST /api/appointments/:id/cancel
+// @desc    Cancel appointment with a reason
+// @access  Private (appointments:cancel)
+router.post('/:id/cancel', 
+  requirePermission(STATUS_TRANSITIONS['cancel'].permission),
+  validateObjectId('id'),
+  validateAppointmentCancellation,
+  handleValidationErrors,
+  transitionAppointment('cancel')
+);
+
+// @route   POST /api/appointments/:id/no-show
+// @desc    Mark the patient as not having attended
+// @access  Private (appointments:no-show)
+router.post('/:id/no-show', 
+  requirePermission(STATUS_TRANSITIONS['no-show'].permission),
+  validateObjectId('id'),
+  handleValidationErrors,
+  transitionAppointment('no-show')
+);
+
 // @route   DELETE /api/appointments/:id
-// @desc    Cancel appointment
-// @access  Private (Admin, Doctor, Nurse)
+// @desc    Cancel appointment (alias of POST /api/appointments/:id/cancel)
+// @access  Private (appointments:cancel)
 router.delete('/:id', 
-  authorize('admin', 'doctor', 'nurse'),
+  requirePermission(STATUS_TRANSITIONS['cancel'].permission),
+  validateObjectId('id'),
+  validateAppointmentCancellation,
+  handleValidationErrors,
+  transitionAppointment('cancel')
+);
+
+// @route   GET /api/appointments/:id/versions
+// @desc    List the saved versions of an appointment, newest first
+// @access  Private (appointments:read, patients:read-clinical, care team or own appointments)
+router.get('/:id/versions', 
+  requirePermission('appointments:read', 'patients:read-clinical'),
   validateObjectId('id'),
   handleValidationErrors,
+  async (req: AuthenticatedRequest, res: Response<ApiResponse>) => {
+    try {
+      const appointment = await Appointment.findById(req.params.id).select('patient doctor');
+
+      if (!appointment) {
+        res.status(404).json({
+          success: false,
+          message: 'Appointment not found',
+        });
+        return;
+      }
+
+      const appointmentAccess = await resolveAppointmentAccess(req, appointment);
+      if (!appointmentAccess) {
+        res.status(403).json({
+          success: false,
+          message: 'Patient is not under your care',
+        });
+        return;
+      }
+
+      const versions = await listVersions('appointment', appointment._id);
+
+      res.json({
+        success: true,
+        ...(appointmentAccess.mode === 'break-glass' && { message: BREAK_GLASS_NOTICE }),
+        data: versions,
+      });
+    } catch (error) {
+      console.error('Get appointment versions error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error',
+      });
+    }
+  }
+);
+
+// @route   GET /api/appointments/:id/versions/diff?from=&to=
+// @desc    Field-level differences between two versions of an appointment
+// @access  Private (appointments:read, patients:read-clinical, care team or own appointments)
+router.get('/:id/versions/diff', 
+  requirePermission('appointments:read', 'patients:read-clinical'),
+  validateObjectId('id'),
+  validateVersionDiff,
+  handleValidationErrors,
+  async (req: AuthenticatedRequest, res: Response<ApiResponse>) => {
+    try {
+      const appointment = await Appointment.findById(req.params.id).select('patient doctor');
+
+      if (!appointment) {
+        res.status(404).json({
+          success: false,
+          message: 'Appointment not found',
+        });
+        return;
+      }
+
+      const appointmentAccess = await resolveAppointmentAccess(req, appointment);
+      if (!appointmentAccess) {
+        res.status(403).json({
+          success: false,
+          message: 'Patient is not under your care',
+        });
+        return;
+      }
+
+      const [from, to] = await Promise.all([
+        findVersion('appointment', appointment._id, parseInt(req.query.from as string)),
+        findVersion('appointment', appointment._id, parseInt(req.query.to as string)),
+      ]);
+
+      if (!from || !to) {
+        res.status(404).json({
+          success: false,
+          message: 'Version not found',
+        });
+        return;
+      }
+
+      const changes = diffChanges(from.snapshot, to.snapshot)
+        .filter(change => appointmentAccess.clinical || !APPOINTMENT_CLINICAL_FIELDS.includes(change.field));
+
+      res.json({
+        success: true,
+        ...(appointmentAccess.mode === 'break-glass' && { message: BREAK_GLASS_NOTICE }),
+        data: {
+          from: from.version,
+          to: to.version,
+          changes,
+        },
+      });
+    } catch (error) {
+      console.error('Diff appointment versions error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error',
+      });
+    }
+  }
+);
+
+// @route   GET /api/appointments/:id/versions/:version
+// @desc    Get a single version of an appointment with its full snapshot
+// @access  Private (appointments:read, patients:read-clinical, care team or own appointments)
+router.get('/:id/versions/:version', 
+  requirePermission('appointments:read', 'patients:read-clinical'),
+  validateObjectId('id'),
+  validateVersionNumber,
+  handleValidationErrors,
+  async (req: AuthenticatedRequest, res: Response<ApiResponse>) => {
+    try {
+      const appointment = await Appointment.findById(req.params.id).select('patient doctor');
+
+      if (!appointment) {
+        res.status(404).json({
+          success: false,
+          message: 'Appointment not found',
+        });
+        return;
+      }
+
+      const appointmentAccess = await resolveAppointmentAccess(req, appointment);
+      if (!appointmentAccess) {
+        res.status(403).json({
+          success: false,
+          message: 'Patient is not under your care',
+        });
+        return;
+      }
+
+      const version = await findVersion('appointment', appointment._id, parseInt(req.params.version));
+
+      if (!version) {
+        res.status(404).json({
+          success: false,
+          message: 'Version not found',
+        });
+        return;
+      }
+
+      const data = version.toJSON();
+      if (!appointmentAccess.clinical) {
+        APPOINTMENT_CLINICAL_FIELDS.forEach(field => delete data.snapshot[field]);
+      }
+
+      res.json({
+        success: true,
+        ...(appointmentAccess.mode === 'break-glass' && { message: BREAK_GLASS_NOTICE }),
+        data,
+      });
+    } catch (error) {
+      console.error('Get appointment version error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error',
+      });
+    }
+  }
+);
+
+// @route   POST /api/appointments/:id/versions/:version/restore
+// @desc    Restore an appointment's details to a prior version, saved as a new version
+// @access  Private (appointments:write, care team or own appointments)
+router.post('/:id/versions/:version/restore', 
+  requirePermission('appointments:write'),
+  validateObjectId('id'),
+  validateVersionNumber,
+  validateInteractionOverride,
+  handleValidationErrors,
   async (req: AuthenticatedRequest, res: Response<ApiResponse>) => {
     try {
       const appointment = await Appointment.findById(req.params.id);
@@ -294,17 +965,120 @@ router.delete('/:id',
         return;
       }
 
-      // Update status to cancelled instead of deleting
-      appointment.status = 'cancelled';
-      appointment.updatedBy = req.user!._id;
-      await appointment.save();
+      // A restore rewrites the clinical fields, so it needs the access that shows them
+      const appointmentAccess = await resolveAppointmentAccess(req, appointment);
+      if (!appointmentAccess?.clinical) {
+        res.status(403).json({
+          success: false,
+          message: 'Patient is not under your care',
+        });
+        return;
+      }
+
+      const version = await findVersion('appointment', appointment._id, parseInt(req.params.version));
+
+      if (!version) {
+        res.status(404).json({
+          success: false,
+          message: 'Version not found',
+        });
+        return;
+      }
+
+      if (CLOSED_UPDATE_FIELDS[appointment.status]) {
+        res.status(400).json({
+          success: false,
+          message: `Cannot restore an appointment that is ${appointment.status}`,
+        });
+        return;
+      }
+
+      const { snapshot } = version;
+
+      if (
+        JSON.stringify(snapshot.prescriptions ?? []) !== JSON.stringify(appointment.toObject().prescriptions ?? []) &&
+        !(await hasPermission(req, 'prescriptions:write'))
+      ) {
+        res.status(403).json({
+          success: false,
+          message: 'Insufficient permissions to write prescriptions',
+        });
+        return;
+      }
+
+      // Prescriptions the restore brings back are screened like ones added through PUT
+      const prescribed = newPrescriptionNames(snapshot.prescriptions, appointment.prescriptions);
+      const screening = await screenNewPrescriptions(req, appointment.patient, prescribed);
+      if (screening?.blocked) {
+        res.status(409).json({
+          success: false,
+          message: SEVERE_INTERACTION_MESSAGE,
+          warnings: screening.warnings,
+        });
+        return;
+      }
+
+      // Restoring an earlier slot is a reschedule and goes through the same checks
+      const slot = {
+        doctor: snapshot.doctor,
+        date: new Date(snapshot.date),
+        time: snapshot.time,
+        duration: snapshot.duration,
+        excludeId: appointment._id,
+      };
+      const isRescheduling = slot.doctor !== appointment.doctor.toString() ||
+        slot.date.getTime() !== appointment.date.getTime() ||
+        slot.time !== appointment.time ||
+        slot.duration !== appointment.duration;
+
+      const releaseLock = isRescheduling ? await acquireBookingLock(slot.doctor, slot.date) : null;
+      if (isRescheduling && !releaseLock) {
+        res.status(409).json({
+          success: false,
+          message: 'Another booking for this doctor is in progress, please retry',
+        });
+        return;
+      }
+
+      try {
+        const problem = isRescheduling ? await checkSlot(slot) : null;
+        if (problem) {
+          res.status(400).json({
+            success: false,
+            message: problem === 'conflict'
+              ? 'Doctor is not available at this time'
+              : 'Appointment is outside the doctor\'s working hours',
+          });
+          return;
+        }
+
+        const before = appointment.toObject();
+        applySnapshot(appointment, version, APPOINTMENT_RESTORE_EXCLUDED_FIELDS);
+        appointment.updatedBy = req.user!._id;
+        await appointment.save();
+        recordAuditChanges(res, before, appointment.toObject());
+      } finally {
+        if (releaseLock) {
+          await releaseLock();
+        }
+      }
+
+      await recordOverrideIfAny(req, appointment, prescribed, screening);
+
+      await appointment.populate([
+        { path: 'patient', select: `firstName lastName email phone ${ACCESS_FIELDS}` },
+        { path: 'doctor', select: 'firstName lastName email' },
+        { path: 'updatedBy', select: 'firstName lastName' }
+      ]);
 
       res.json({
         success: true,
-        message: 'Appointment cancelled successfully',
+        message: `Appointment restored to version ${version.version}`,
+        data: presentAppointment(appointment, await getPatientAccess(req), appointmentAccess.mode === 'break-glass'),
+        ...(screening && { warnings: screening.warnings }),
       });
     } catch (error) {
-      console.error('Cancel appointment error:', error);
+      console.error('Restore appointment version error:', error);
       res.status(500).json({
         success: false,
         message: 'Internal server error',
@@ -315,8 +1089,9 @@ router.delete('/:id',
 
 // @route   GET /api/appointments/doctor/:doctorId/availability
 // @desc    Get doctor availability for a specific date
-// @access  Private
+// @access  Private (appointments:read)
 router.get('/doctor/:doctorId/availability', 
+  requirePermission('appointments:read'),
   validateObjectId('doctorId'),
   handleValidationErrors,
   async (req: AuthenticatedRequest, res: Response<ApiResponse>) => {
@@ -336,36 +1111,35 @@ router.get('/doctor/:doctorId/availability',
       const appointments = await Appointment.find({
         doctor: doctorId,
         date: new Date(date as string),
-        status: { $nin: ['cancelled', 'no-show'] }
+        status: { $nin: NON_BLOCKING_STATUSES }
       }).select('time duration');
 
-      // Generate available time slots (example: 9 AM to 5 PM, 30-minute slots)
-      const workingHours = {
-        start: 9, // 9 AM
-        end: 17,  // 5 PM
-        slotDuration: 30 // 30 minutes
-      };
+      // Generate available time slots from the doctor's working schedule
+      const workingHours = await getDoctorWorkingHours(doctorId, new Date(date as string));
 
       const availableSlots: string[] = [];
-      for (let hour = workingHours.start; hour < workingHours.end; hour++) {
-        for (let minute = 0; minute < 60; minute += workingHours.slotDuration) {
-          const timeSlot = `${hour.toString().padStart(2, '0')}:${minute.toString().padStart(2, '0')}`;
-          
+      if (workingHours) {
+        const dayStart = timeToMinutes(workingHours.start);
+        const dayEnd = timeToMinutes(workingHours.end);
+        const { slotDuration } = workingHours;
+
+        for (let slotStart = dayStart; slotStart + slotDuration <= dayEnd; slotStart += slotDuration) {
+          const slotEnd = slotStart + slotDuration;
+
+          // Skip slots that fall into a break
+          const inBreak = workingHours.breaks.some(brk =>
+            rangesOverlap(slotStart, slotEnd, timeToMinutes(brk.start), timeToMinutes(brk.end))
+          );
+
           // Check if this slot conflicts with existing appointments
           const hasConflict = appointments.some(apt => {
-            const aptStart = apt.time;
-            const [aptHour, aptMinute] = aptStart.split(':').map(Number);
-            const aptStartMinutes = aptHour * 60 + aptMinute;
+            const aptStartMinutes = timeToMinutes(apt.time);
             const aptEndMinutes = aptStartMinutes + apt.duration;
-            
-            const slotStartMinutes = hour * 60 + minute;
-            const slotEndMinutes = slotStartMinutes + workingHours.slotDuration;
-            
-            return (slotStartMinutes < aptEndMinutes && slotEndMinutes > aptStartMinutes);
+            return rangesOverlap(slotStart, slotEnd, aptStartMinutes, aptEndMinutes);
           });
 
-          if (!hasConflict) {
-            availableSlots.push(timeSlot);
+          if (!inBreak && !hasConflict) {
+            availableSlots.push(minutesToTime(slotStart));
           }
         }
       }
@@ -374,6 +1148,8 @@ router.get('/doctor/:doctorId/availability',
         success: true,
         data: {
           date,
+          isWorking: !!workingHours,
+          workingHours,
           availableSlots,
           bookedSlots: appointments.map(apt => ({
             time: apt.time,
@@ -0,0 +1,104 @@
+import express, { Response } from 'express';
+import AuditLog from '../models/AuditLog.js';
+import { authenticate, requirePermission } from '../middleware/auth.js';
+import { validatePagination, handleValidationErrors } from '../middleware/validation.js';
+import { verifyAuditChain } from '../utils/audit.js';
+import { AuthenticatedRequest, ApiResponse } from '../types/index.js';
+
+const router = express.Router();
+
+// Apply authentication and audit permission to all routes
+router.use(authenticate, requirePermission('audit:read'));
+
+// @route   GET /api/audit
+// @desc    Query the audit trail
+// @access  Private (audit:read)
+router.get('/', validatePagination, handleValidationErrors, async (req: AuthenticatedRequest, res: Response<ApiResponse>) => {
+  try {
+    const page = parseInt(req.query.page as string) || 1;
+    const limit = parseInt(req.query.limit as string) || 50;
+    const skip = (page - 1) * limit;
+
+    // Build filter object
+    const filter: any = {};
+
+    if (req.query.actor) {
+      filter.actor = req.query.actor;
+    }
+
+    if (req.query.action) {
+      filter.action = req.query.action;
+    }
+
+    if (req.query.resourceType) {
+      filter.resourceType = req.query.resourceType;
+    }
+
+    if (req.query.resourceId) {
+      filter.resourceId = req.query.resourceId;
+    }
+
+    if (req.query.requestId) {
+      filter.requestId = req.query.requestId;
+    }
+
+    if (req.query.dateFrom || req.query.dateTo) {
+      filter.timestamp = {};
+      if (req.query.dateFrom) filter.timestamp.$gte = new Date(req.query.dateFrom as string);
+      if (req.query.dateTo) filter.timestamp.$lte = new Date(req.query.dateTo as string);
+    }
+
+    // Execute query with pagination
+    const [entries, total] = await Promise.all([
+      AuditLog.find(filter)
+        .populate('actor', 'firstName lastName email')
+        .sort({ sequence: -1 })
+        .skip(skip)
+        .limit(limit),
+      AuditLog.countDocuments(filter)
+    ]);
+
+    res.json({
+      success: true,
+      data: entries,
+      pagination: {
+        currentPage: page,
+        totalPages: Math.ceil(total / limit),
+        totalItems: total,
+        itemsPerPage: limit,
+      },
+    });
+  } catch (error) {
+    console.error('Get audit log error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error',
+    });
+  }
+});
+
+// @route   GET /api/audit/verify
+// @desc    Recompute the hash chain and report the first tampered entry
+// @access  Private (audit:read)
+router.get('/verify', async (req: AuthenticatedRequest, res: Response<ApiResponse>) => {
+  try {
+    const fromSequence = Math.max(parseInt(req.query.from as string) || 1, 1);
+    const result = await verifyAuditChain(fromSequence);
+
+    res.json({
+      success: true,
+      message: result.valid
+        ? `Audit chain intact (${result.checked} entries checked)`
+        : `Audit chain broken at entry ${result.brokenAt}`,
+      data: result,
+    });
+  } catch (error) {
+    console.error('Verify audit log error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error',
+    });
+  }
+});
+
+export default router;
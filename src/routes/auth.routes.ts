@@ -1,16 +1,85 @@
 import express, { Request, Response } from 'express';
-import jwt from 'jsonwebtoken';
+import rateLimit from 'express-rate-limit';
+import { randomBytes } from 'crypto';
 import User from '../models/User.js';
-import { authenticate } from '../middleware/auth.js';
+import Session from '../models/Session.js';
+import PasswordResetToken from '../models/PasswordResetToken.js';
+import { authenticate, authenticateTwoFactorEnrolment } from '../middleware/auth.js';
 import { 
   validateUserRegistration, 
   validateUserLogin, 
+  validatePasswordChange, 
+  validateForgotPassword, 
+  validatePasswordReset, 
+  validateTwoFactorLogin, 
+  validateTwoFactorCode, 
   handleValidationErrors 
 } from '../middleware/validation.js';
-import { AuthenticatedRequest, ApiResponse } from '../types/index.js';
+import { 
+  issueTokenPair, 
+  deliverRefreshToken, 
+  clearRefreshCookie, 
+  readRefreshToken, 
+  consumeRefreshToken, 
+  revokeTokenFamily, 
+  revokeUserSessions, 
+  hashToken 
+} from '../utils/tokens.js';
+import { sendMail } from '../utils/mailer.js';
+import { 
+  getLoginPolicy, 
+  isLocked, 
+  registerFailure, 
+  clearFailures, 
+  delayAfterFailures, 
+  burnPasswordCheck, 
+  recentFailuresForEmail, 
+  recordLoginAttempt 
+} from '../utils/loginThrottle.js';
+import { 
+  isTwoFactorRequired, 
+  signChallengeToken, 
+  verifyChallengeToken, 
+  consumeSecondFactor 
+} from '../utils/twoFactor.js';
+import { generateSecret, verifyTotp, buildOtpauthUri, generateRecoveryCodes } from '../utils/totp.js';
+import { AuthenticatedRequest, ApiResponse, IUser } from '../types/index.js';
 
 const router = express.Router();
 
+// Stricter per-IP limit on credential endpoints than the global API limiter
+const credentialLimiter = rateLimit({
+  windowMs: 15 * 60 * 1000,
+  max: () => parseInt(process.env.LOGIN_RATE_LIMIT_MAX_REQUESTS || '20'), // read per request, after dotenv has loaded
+  message: 'Too many login attempts from this IP, please try again later.',
+  standardHeaders: true,
+  legacyHeaders: false,
+});
+
+// Final login step shared by password-only, two-factor and enrolment logins
+const completeLogin = async (req: Request, res: Response<ApiResponse>, user: IUser, extra: Record<string, any> = {}) => {
+  clearFailures(user);
+  await recordLoginAttempt(req, user.email, 'success', user);
+
+  // Update last login
+  user.lastLogin = new Date();
+  await user.save();
+
+  // Generate access and refresh tokens
+  const { token, refreshToken } = await issueTokenPair(user, req);
+
+  res.json({
+    success: true,
+    message: 'Login successful',
+    data: {
+      user: user.toJSON(),
+      token,
+      ...deliverRefreshToken(req, res, refreshToken),
+      ...extra
+    },
+  });
+};
+
 // @route   POST /api/auth/register
 // @desc    Register a new user
 // @access  Public
@@ -45,23 +114,30 @@ router.post('/register', validateUserRegistration, handleValidationErrors, async
 
     await user.save();
 
-    // Generate JWT token
-    const token = jwt.sign(
-      { 
-        userId: user._id, 
-        email: user.email, 
-        role: user.role 
-      },
-      process.env.JWT_SECRET as string,
-      { expiresIn: process.env.JWT_EXPIRES_IN || '24h' }
-    );
+    // Roles that require two-factor authentication enrol before receiving tokens
+    if (isTwoFactorRequired(user)) {
+      res.status(201).json({
+        success: true,
+        message: 'User registered successfully, two-factor enrolment required',
+        data: {
+          user: user.toJSON(),
+          twoFactorEnrolmentRequired: true,
+          challengeToken: signChallengeToken(user, '2fa-enrol'),
+        },
+      });
+      return;
+    }
+
+    // Generate access and refresh tokens
+    const { token, refreshToken } = await issueTokenPair(user, req);
 
     res.status(201).json({
       success: true,
       message: 'User registered successfully',
       data: {
         user: user.toJSON(),
-        token
+        token,
+        ...deliverRefreshToken(req, res, refreshToken)
       },
     });
   } catch (error) {
@@ -76,14 +152,39 @@ router.post('/register', validateUserRegistration, handleValidationErrors, async
 // @route   POST /api/auth/login
 // @desc    Login user
 // @access  Public
-router.post('/login', validateUserLogin, handleValidationErrors, async (req: Request, res: Response<ApiResponse>) => {
+router.post('/login', credentialLimiter, validateUserLogin, handleValidationErrors, async (req: Request, res: Response<ApiResponse>) => {
   try {
     const { email, password } = req.body;
+    const { maxAttempts } = getLoginPolicy();
 
     // Find user by email
     const user = await User.findOne({ email }).select('+password');
 
-    if (!user) {
+    // Locked accounts and hammered unknown emails get the same answer
+    const recentFailures = user ? user.failedLoginAttempts : await recentFailuresForEmail(email);
+    if (user ? isLocked(user) : recentFailures >= maxAttempts) {
+      await burnPasswordCheck(password);
+      await recordLoginAttempt(req, email, 'locked', user);
+      res.status(429).json({
+        success: false,
+        message: 'Too many failed login attempts, please try again later',
+      });
+      return;
+    }
+
+    // Verify password, spending the same time when the email is unknown
+    let isPasswordValid = false;
+    if (user) {
+      isPasswordValid = await user.comparePassword(password);
+    } else {
+      await burnPasswordCheck(password);
+    }
+
+    if (!user || !isPasswordValid) {
+      const failures = user ? await registerFailure(user) : recentFailures + 1;
+      await recordLoginAttempt(req, email, user ? 'invalid-credentials' : 'unknown-email', user);
+      await delayAfterFailures(failures);
+
       res.status(401).json({
         success: false,
         message: 'Invalid credentials',
@@ -91,8 +192,9 @@ router.post('/login', validateUserLogin, handleValidationErrors, async (req: Req
       return;
     }
 
-    // Check if user is active
+    // Check if user is active, only once the password has proven who is asking
     if (!user.isActive) {
+      await recordLoginAttempt(req, email, 'deactivated', user);
       res.status(401).json({
         success: false,
         message: 'Account is deactivated',
@@ -100,42 +202,123 @@ router.post('/login', validateUserLogin, handleValidationErrors, async (req: Req
       return;
     }
 
-    // Verify password
-    const isPasswordValid = await user.comparePassword(password);
+    // Clinical staff prove a second factor before any tokens are issued
+    if (user.twoFactor?.enabled) {
+      res.json({
+        success: true,
+        message: 'Two-factor authentication required',
+        data: {
+          twoFactorRequired: true,
+          challengeToken: signChallengeToken(user, '2fa-login'),
+        },
+      });
+      return;
+    }
+
+    if (isTwoFactorRequired(user)) {
+      res.json({
+        success: true,
+        message: 'Two-factor enrolment required for your role',
+        data: {
+          twoFactorEnrolmentRequired: true,
+          challengeToken: signChallengeToken(user, '2fa-enrol'),
+        },
+      });
+      return;
+    }
+
+    await completeLogin(req, res, user);
+  } catch (error) {
+    console.error('Login error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error',
+    });
+  }
+});
+
+// @route   POST /api/auth/login/2fa
+// @desc    Complete a login with a TOTP or recovery code
+// @access  Public (requires challenge token from /login)
+router.post('/login/2fa', credentialLimiter, validateTwoFactorLogin, handleValidationErrors, async (req: Request, res: Response<ApiResponse>) => {
+  try {
+    const { challengeToken, code, recoveryCode } = req.body;
 
-    if (!isPasswordValid) {
+    const challenge = verifyChallengeToken(challengeToken, '2fa-login');
+    const user = challenge
+      ? await User.findOne({ _id: challenge.userId, isActive: true })
+        .select('+twoFactor.secret +twoFactor.recoveryCodes +twoFactor.lastUsedStep')
+      : null;
+
+    if (!user || !user.twoFactor.enabled) {
       res.status(401).json({
         success: false,
-        message: 'Invalid credentials',
+        message: 'Invalid or expired challenge token',
       });
       return;
     }
 
-    // Update last login
-    user.lastLogin = new Date();
-    await user.save();
+    // Wrong codes count towards the same lockout as wrong passwords
+    if (isLocked(user)) {
+      await recordLoginAttempt(req, user.email, 'locked', user);
+      res.status(429).json({
+        success: false,
+        message: 'Too many failed login attempts, please try again later',
+      });
+      return;
+    }
 
-    // Generate JWT token
-    const token = jwt.sign(
-      { 
-        userId: user._id, 
-        email: user.email, 
-        role: user.role 
-      },
-      process.env.JWT_SECRET as string,
-      { expiresIn: process.env.JWT_EXPIRES_IN || '24h' }
-    );
+    if (!consumeSecondFactor(user, code, recoveryCode)) {
+      const failures = await registerFailure(user);
+      await recordLoginAttempt(req, user.email, 'invalid-credentials', user);
+      await delayAfterFailures(failures);
+
+      res.status(401).json({
+        success: false,
+        message: 'Invalid authentication code',
+      });
+      return;
+    }
+
+    await completeLogin(req, res, user, recoveryCode ? { recoveryCodesRemaining: user.twoFactor.recoveryCodes.length } : {});
+  } catch (error) {
+    console.error('Two-factor login error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error',
+    });
+  }
+});
+
+// @route   POST /api/auth/2fa/setup
+// @desc    Start two-factor enrolment, returning the secret and otpauth URI
+// @access  Private (or enrolment challenge token)
+router.post('/2fa/setup', authenticateTwoFactorEnrolment, async (req: AuthenticatedRequest, res: Response<ApiResponse>) => {
+  try {
+    const user = await User.findById(req.user!._id);
+
+    if (!user || user.twoFactor.enabled) {
+      res.status(400).json({
+        success: false,
+        message: 'Two-factor authentication is already enabled',
+      });
+      return;
+    }
+
+    const secret = generateSecret();
+    user.twoFactor.pendingSecret = secret;
+    await user.save();
 
     res.json({
       success: true,
-      message: 'Login successful',
+      message: 'Scan the URI with an authenticator app, then confirm with a code',
       data: {
-        user: user.toJSON(),
-        token
+        secret,
+        otpauthUri: buildOtpauthUri(secret, user.email, process.env.TWO_FACTOR_ISSUER || 'Patient Dashboard'),
       },
     });
   } catch (error) {
-    console.error('Login error:', error);
+    console.error('Two-factor setup error:', error);
     res.status(500).json({
       success: false,
       message: 'Internal server error',
@@ -143,6 +326,154 @@ router.post('/login', validateUserLogin, handleValidationErrors, async (req: Req
   }
 });
 
+// @route   POST /api/auth/2fa/enable
+// @desc    Confirm enrolment with a code and receive one-time recovery codes
+// @access  Private (or enrolment challenge token)
+router.post('/2fa/enable', 
+  authenticateTwoFactorEnrolment, 
+  validateTwoFactorCode, 
+  handleValidationErrors, 
+  async (req: AuthenticatedRequest, res: Response<ApiResponse>) => {
+    try {
+      const user = await User.findById(req.user!._id).select('+twoFactor.pendingSecret');
+
+      if (!user || !user.twoFactor.pendingSecret) {
+        res.status(400).json({
+          success: false,
+          message: 'Start two-factor setup first',
+        });
+        return;
+      }
+
+      const step = verifyTotp(user.twoFactor.pendingSecret, req.body.code);
+      if (step === null) {
+        res.status(400).json({
+          success: false,
+          message: 'Invalid authentication code',
+        });
+        return;
+      }
+
+      const recoveryCodes = generateRecoveryCodes();
+      user.twoFactor.enabled = true;
+      user.twoFactor.secret = user.twoFactor.pendingSecret;
+      user.twoFactor.pendingSecret = undefined;
+      user.twoFactor.recoveryCodes = recoveryCodes.map(recoveryCode => hashToken(recoveryCode));
+      user.twoFactor.enabledAt = new Date();
+      user.twoFactor.lastUsedStep = step;
+
+      // Enrolment forced at login finishes that login
+      if (req.enrolmentChallenge) {
+        await completeLogin(req, res, user, { recoveryCodes });
+        return;
+      }
+
+      await user.save();
+
+      res.json({
+        success: true,
+        message: 'Two-factor authentication enabled, store the recovery codes safely',
+        data: { recoveryCodes },
+      });
+    } catch (error) {
+      console.error('Two-factor enable error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error',
+      });
+    }
+  }
+);
+
+// @route   POST /api/auth/2fa/recovery-codes
+// @desc    Replace all recovery codes
+// @access  Private
+router.post('/2fa/recovery-codes', 
+  authenticate, 
+  validateTwoFactorCode, 
+  handleValidationErrors, 
+  async (req: AuthenticatedRequest, res: Response<ApiResponse>) => {
+    try {
+      const user = await User.findById(req.user!._id)
+        .select('+twoFactor.secret +twoFactor.recoveryCodes +twoFactor.lastUsedStep');
+
+      if (!user || !user.twoFactor.enabled || !consumeSecondFactor(user, req.body.code)) {
+        res.status(400).json({
+          success: false,
+          message: 'Invalid authentication code',
+        });
+        return;
+      }
+
+      const recoveryCodes = generateRecoveryCodes();
+      user.twoFactor.recoveryCodes = recoveryCodes.map(recoveryCode => hashToken(recoveryCode));
+      await user.save();
+
+      res.json({
+        success: true,
+        message: 'Recovery codes regenerated',
+        data: { recoveryCodes },
+      });
+    } catch (error) {
+      console.error('Recovery codes error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error',
+      });
+    }
+  }
+);
+
+// @route   POST /api/auth/2fa/disable
+// @desc    Turn off two-factor authentication
+// @access  Private (not available to roles where it is mandatory)
+router.post('/2fa/disable', 
+  authenticate, 
+  validateTwoFactorCode, 
+  handleValidationErrors, 
+  async (req: AuthenticatedRequest, res: Response<ApiResponse>) => {
+    try {
+      if (isTwoFactorRequired(req.user!)) {
+        res.status(403).json({
+          success: false,
+          message: 'Two-factor authentication is mandatory for your role',
+        });
+        return;
+      }
+
+      const user = await User.findById(req.user!._id)
+        .select('+password +twoFactor.secret +twoFactor.recoveryCodes +twoFactor.lastUsedStep');
+
+      if (
+        !user ||
+        !user.twoFactor.enabled ||
+        !(await user.comparePassword(req.body.password || '')) ||
+        !consumeSecondFactor(user, req.body.code)
+      ) {
+        res.status(400).json({
+          success: false,
+          message: 'Invalid password or authentication code',
+        });
+        return;
+      }
+
+      user.twoFactor = { enabled: false, recoveryCodes: [] };
+      await user.save();
+
+      res.json({
+        success: true,
+        message: 'Two-factor authentication disabled',
+      });
+    } catch (error) {
+      console.error('Two-factor disable error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error',
+      });
+    }
+  }
+);
+
 // @route   GET /api/auth/me
 // @desc    Get current user
 // @access  Private
@@ -162,12 +493,20 @@ router.get('/me', authenticate, async (req: AuthenticatedRequest, res: Response<
 });
 
 // @route   POST /api/auth/logout
-// @desc    Logout user (client-side token removal)
+// @desc    Logout user by revoking the current session
 // @access  Private
 router.post('/logout', authenticate, async (req: AuthenticatedRequest, res: Response<ApiResponse>) => {
   try {
-    // In a stateless JWT system, logout is handled client-side
-    // This endpoint can be used for logging purposes
+    // Revoke the refresh token chain this session belongs to, or the bare session for older tokens
+    if (req.session!.family) {
+      await revokeTokenFamily(req.session!.family, 'logout');
+    } else {
+      req.session!.revokedAt = new Date();
+      req.session!.revokedReason = 'logout';
+      await req.session!.save();
+    }
+    clearRefreshCookie(res);
+
     res.json({
       success: true,
       message: 'Logout successful',
@@ -181,26 +520,115 @@ router.post('/logout', authenticate, async (req: AuthenticatedRequest, res: Resp
   }
 });
 
-// @route   POST /api/auth/refresh
-// @desc    Refresh JWT token
+// @route   POST /api/auth/logout-all
+// @desc    Revoke every session of the current user
 // @access  Private
-router.post('/refresh', authenticate, async (req: AuthenticatedRequest, res: Response<ApiResponse>) => {
+router.post('/logout-all', authenticate, async (req: AuthenticatedRequest, res: Response<ApiResponse>) => {
   try {
-    // Generate new token
-    const token = jwt.sign(
-      { 
-        userId: req.user!._id, 
-        email: req.user!.email, 
-        role: req.user!.role 
-      },
-      process.env.JWT_SECRET as string,
-      { expiresIn: process.env.JWT_EXPIRES_IN || '24h' }
+    const revoked = await revokeUserSessions(req.user!._id, 'logout-all', req.user!._id);
+    clearRefreshCookie(res);
+
+    res.json({
+      success: true,
+      message: 'Logged out of all sessions',
+      data: { revoked },
+    });
+  } catch (error) {
+    console.error('Logout all error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error',
+    });
+  }
+});
+
+// @route   GET /api/auth/sessions
+// @desc    List the current user's active sessions
+// @access  Private
+router.get('/sessions', authenticate, async (req: AuthenticatedRequest, res: Response<ApiResponse>) => {
+  try {
+    const sessions = await Session.find({
+      user: req.user!._id,
+      revokedAt: { $exists: false },
+      expiresAt: { $gt: new Date() },
+    })
+    .select('jti ipAddress userAgent createdAt expiresAt')
+    .sort({ createdAt: -1 });
+
+    res.json({
+      success: true,
+      data: sessions.map(session => ({
+        ...session.toObject(),
+        current: session.jti === req.session!.jti,
+      })),
+    });
+  } catch (error) {
+    console.error('Get sessions error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error',
+    });
+  }
+});
+
+// @route   POST /api/auth/refresh
+// @desc    Exchange a refresh token for a new access token and rotated refresh token
+// @access  Public (requires refresh token in body or cookie)
+router.post('/refresh', async (req: Request, res: Response<ApiResponse>) => {
+  try {
+    const rawToken = readRefreshToken(req);
+
+    if (!rawToken) {
+      res.status(401).json({
+        success: false,
+        message: 'Refresh token is required',
+      });
+      return;
+    }
+
+    const result = await consumeRefreshToken(rawToken);
+
+    if ('error' in result) {
+      clearRefreshCookie(res);
+      res.status(401).json({
+        success: false,
+        message: result.error === 'reused'
+          ? 'Refresh token reuse detected, all sessions from this login have been revoked'
+          : result.error === 'expired'
+            ? 'Refresh token expired'
+            : 'Invalid refresh token',
+      });
+      return;
+    }
+
+    const user = await User.findById(result.token.user);
+
+    if (!user || !user.isActive) {
+      await revokeTokenFamily(result.token.family, 'deactivated');
+      clearRefreshCookie(res);
+      res.status(401).json({
+        success: false,
+        message: 'Account is deactivated',
+      });
+      return;
+    }
+
+    // Retire the access token issued alongside the spent refresh token
+    await Session.updateOne(
+      { jti: result.token.sessionJti, revokedAt: { $exists: false } },
+      { $set: { revokedAt: new Date(), revokedReason: 'refresh' } }
     );
 
+    // Rotate within the same family
+    const { token, refreshToken } = await issueTokenPair(user, req, result.token.family);
+
     res.json({
       success: true,
       message: 'Token refreshed successfully',
-      data: { token },
+      data: {
+        token,
+        ...deliverRefreshToken(req, res, refreshToken)
+      },
     });
   } catch (error) {
     console.error('Token refresh error:', error);
@@ -211,4 +639,150 @@ router.post('/refresh', authenticate, async (req: AuthenticatedRequest, res: Res
   }
 });
 
+// @route   POST /api/auth/change-password
+// @desc    Change the current user's password
+// @access  Private
+router.post('/change-password', 
+  authenticate, 
+  validatePasswordChange, 
+  handleValidationErrors, 
+  async (req: AuthenticatedRequest, res: Response<ApiResponse>) => {
+    try {
+      const { currentPassword, newPassword } = req.body;
+      const user = await User.findById(req.user!._id).select('+password +passwordHistory');
+
+      if (!user || !(await user.comparePassword(currentPassword))) {
+        res.status(400).json({
+          success: false,
+          message: 'Current password is incorrect',
+        });
+        return;
+      }
+
+      if (await user.isPasswordReused(newPassword)) {
+        res.status(400).json({
+          success: false,
+          message: 'New password must not match a recently used password',
+        });
+        return;
+      }
+
+      user.setPassword(newPassword);
+      await user.save();
+
+      // Sign out everywhere except the session that made the change
+      await revokeUserSessions(user._id, 'password-change', user._id, req.session!.jti);
+
+      res.json({
+        success: true,
+        message: 'Password changed successfully',
+      });
+    } catch (error) {
+      console.error('Change password error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error',
+      });
+    }
+  }
+);
+
+// @route   POST /api/auth/forgot-password
+// @desc    Send a password reset link to the user's email
+// @access  Public
+router.post('/forgot-password', credentialLimiter, validateForgotPassword, handleValidationErrors, async (req: Request, res: Response<ApiResponse>) => {
+  try {
+    const user = await User.findOne({ email: req.body.email, isActive: true });
+
+    if (user) {
+      const token = randomBytes(32).toString('base64url');
+      const expiryMinutes = parseInt(process.env.PASSWORD_RESET_EXPIRES_MINUTES || '60');
+
+      // Only the most recent reset link stays valid
+      await PasswordResetToken.deleteMany({ user: user._id, usedAt: { $exists: false } });
+      await PasswordResetToken.create({
+        user: user._id,
+        tokenHash: hashToken(token),
+        expiresAt: new Date(Date.now() + expiryMinutes * 60 * 1000),
+        ipAddress: req.ip,
+      });
+
+      const resetUrl = `${process.env.FRONTEND_URL || 'http://localhost:8081'}/reset-password?token=${token}`;
+      await sendMail({
+        to: user.email,
+        subject: 'Reset your Patient Dashboard password',
+        text: `Hello ${user.firstName},\n\nUse the link below to reset your password. It expires in ${expiryMinutes} minutes and can only be used once.\n\n${resetUrl}\n\nIf you did not request a reset, you can ignore this email.`,
+      });
+    }
+
+    // Same response whether or not the email is registered
+    res.json({
+      success: true,
+      message: 'If an account exists for this email, a reset link has been sent',
+    });
+  } catch (error) {
+    console.error('Forgot password error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error',
+    });
+  }
+});
+
+// @route   POST /api/auth/reset-password
+// @desc    Reset password with a single-use reset token
+// @access  Public
+router.post('/reset-password', validatePasswordReset, handleValidationErrors, async (req: Request, res: Response<ApiResponse>) => {
+  try {
+    const { token, newPassword } = req.body;
+
+    const resetToken = await PasswordResetToken.findOneAndUpdate(
+      { tokenHash: hashToken(token), usedAt: { $exists: false }, expiresAt: { $gt: new Date() } },
+      { $set: { usedAt: new Date() } }
+    );
+
+    const user = resetToken
+      ? await User.findOne({ _id: resetToken.user, isActive: true }).select('+password +passwordHistory')
+      : null;
+
+    if (!resetToken || !user) {
+      res.status(400).json({
+        success: false,
+        message: 'Invalid or expired reset token',
+      });
+      return;
+    }
+
+    if (await user.isPasswordReused(newPassword)) {
+      // Release the token so the user can retry with a different password. The
+      // claimed document was returned as it was before the update, so saving it
+      // would not write anything.
+      await PasswordResetToken.updateOne({ _id: resetToken._id }, { $unset: { usedAt: 1 } });
+
+      res.status(400).json({
+        success: false,
+        message: 'New password must not match a recently used password',
+      });
+      return;
+    }
+
+    // Proving control of the mailbox also lifts any lockout on the account
+    user.setPassword(newPassword);
+    clearFailures(user);
+    await user.save();
+    await revokeUserSessions(user._id, 'password-reset');
+
+    res.json({
+      success: true,
+      message: 'Password reset successfully, please log in with your new password',
+    });
+  } catch (error) {
+    console.error('Reset password error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error',
+    });
+  }
+});
+
 export default router;
\ No newline at end of file
@@ -0,0 +1,152 @@
+import express, { Response } from 'express';
+import BreakGlassAccess from '../models/BreakGlassAccess.js';
+import { authenticate, requirePermission } from '../middleware/auth.js';
+import { 
+  validateBreakGlassReview, 
+  validateObjectId, 
+  validatePagination,
+  handleValidationErrors 
+} from '../middleware/validation.js';
+import { AuthenticatedRequest, ApiResponse } from '../types/index.js';
+
+const router = express.Router();
+
+// Apply authentication and review permission to all routes
+router.use(authenticate, requirePermission('break-glass:review'));
+
+// @route   GET /api/break-glass
+// @desc    Review queue of break-glass accesses (pending first by default)
+// @access  Private (break-glass:review)
+router.get('/', validatePagination, handleValidationErrors, async (req: AuthenticatedRequest, res: Response<ApiResponse>) => {
+  try {
+    const page = parseInt(req.query.page as string) || 1;
+    const limit = parseInt(req.query.limit as string) || 10;
+    const skip = (page - 1) * limit;
+
+    // Build filter object
+    const filter: any = { reviewStatus: req.query.status || 'pending' };
+
+    if (req.query.status === 'all') {
+      delete filter.reviewStatus;
+    }
+
+    if (req.query.patient) {
+      filter.patient = req.query.patient;
+    }
+
+    if (req.query.user) {
+      filter.user = req.query.user;
+    }
+
+    // Execute query with pagination
+    const [grants, total] = await Promise.all([
+      BreakGlassAccess.find(filter)
+        .populate('user', 'firstName lastName email role')
+        .populate('patient', 'firstName lastName')
+        .populate('reviewedBy', 'firstName lastName')
+        .sort({ createdAt: -1 })
+        .skip(skip)
+        .limit(limit),
+      BreakGlassAccess.countDocuments(filter)
+    ]);
+
+    res.json({
+      success: true,
+      data: grants,
+      pagination: {
+        currentPage: page,
+        totalPages: Math.ceil(total / limit),
+        totalItems: total,
+        itemsPerPage: limit,
+      },
+    });
+  } catch (error) {
+    console.error('Get break-glass accesses error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error',
+    });
+  }
+});
+
+// @route   GET /api/break-glass/:id
+// @desc    Get a break-glass access with its full access log
+// @access  Private (break-glass:review)
+router.get('/:id', validateObjectId('id'), handleValidationErrors, async (req: AuthenticatedRequest, res: Response<ApiResponse>) => {
+  try {
+    const grant = await BreakGlassAccess.findById(req.params.id)
+      .populate('user', 'firstName lastName email role')
+      .populate('patient', 'firstName lastName')
+      .populate('reviewedBy', 'firstName lastName');
+
+    if (!grant) {
+      res.status(404).json({
+        success: false,
+        message: 'Break-glass access not found',
+      });
+      return;
+    }
+
+    res.json({
+      success: true,
+      data: grant,
+    });
+  } catch (error) {
+    console.error('Get break-glass access error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error',
+    });
+  }
+});
+
+// @route   POST /api/break-glass/:id/review
+// @desc    Approve or flag a break-glass access
+// @access  Private (break-glass:review)
+router.post('/:id/review', 
+  validateObjectId('id'),
+  validateBreakGlassReview,
+  handleValidationErrors,
+  async (req: AuthenticatedRequest, res: Response<ApiResponse>) => {
+    try {
+      const grant = await BreakGlassAccess.findById(req.params.id);
+
+      if (!grant) {
+        res.status(404).json({
+          success: false,
+          message: 'Break-glass access not found',
+        });
+        return;
+      }
+
+      // Nobody signs off on their own emergency access
+      if (grant.user.equals(req.user!._id)) {
+        res.status(403).json({
+          success: false,
+          message: 'You cannot review your own break-glass access',
+        });
+        return;
+      }
+
+      grant.reviewStatus = req.body.decision;
+      grant.reviewNotes = req.body.notes;
+      grant.reviewedBy = req.user!._id;
+      grant.reviewedAt = new Date();
+      await grant.save();
+
+      res.json({
+        success: true,
+        message: `Break-glass access ${grant.reviewStatus}`,
+        data: grant,
+      });
+    } catch (error) {
+      console.error('Review break-glass access error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error',
+      });
+    }
+  }
+);
+
+export default router;
@@ -2,18 +2,37 @@ import express, { Request, Response } from 'express';
 import Patient from '../models/Patient.js';
 import Appointment from '../models/Appointment.js';
 import User from '../models/User.js';
-import { authenticate } from '../middleware/auth.js';
-import { AuthenticatedRequest, ApiResponse, DashboardStats } from '../types/index.js';
+import { authenticate, requirePermission } from '../middleware/auth.js';
+import { validateImmunizationQuery, validatePagination, handleValidationErrors } from '../middleware/validation.js';
+import { ACCESS_FIELDS, getPatientAccess, careTeamFilter, isRestrictedFor, restrictedSummary } from '../utils/patientAccess.js';
+import { findIcd10Code } from '../utils/icd10.js';
+import { evaluateImmunizations, VaccineStatus } from '../utils/immunizations.js';
+import { loadCompletedDoses } from '../utils/immunizationDueDates.js';
+import { AuthenticatedRequest, ApiResponse, DashboardStats, IPatient } from '../types/index.js';
 
 const router = express.Router();
 
 // Apply authentication to all routes
 router.use(authenticate);
 
+// Care-team scoped users only see figures for their own patients and those patients' appointments
+const dashboardScope = async (req: AuthenticatedRequest) => {
+  const access = await getPatientAccess(req);
+
+  if (!access.careTeamOnly) {
+    return { patientFilter: {}, appointmentFilter: {} };
+  }
+
+  const patientFilter = careTeamFilter(access);
+  const patientIds = await Patient.distinct('_id', patientFilter);
+
+  return { patientFilter, appointmentFilter: { patient: { $in: patientIds } } };
+};
+
 // @route   GET /api/dashboard/stats
 // @desc    Get dashboard statistics
-// @access  Private
-router.get('/stats', async (req: AuthenticatedRequest, res: Response<ApiResponse<DashboardStats>>) => {
+// @access  Private (dashboard:read)
+router.get('/stats', requirePermission('dashboard:read'), async (req: AuthenticatedRequest, res: Response<ApiResponse<DashboardStats>>) => {
   try {
     const today = new Date();
     const startOfDay = new Date(today.setHours(0, 0, 0, 0));
@@ -22,6 +41,8 @@ router.get('/stats', async (req: AuthenticatedRequest, res: Response<ApiResponse
     const startOfMonth = new Date(today.getFullYear(), today.getMonth(), 1);
     const endOfMonth = new Date(today.getFullYear(), today.getMonth() + 1, 0);
 
+    const { patientFilter, appointmentFilter } = await dashboardScope(req);
+
     // Get basic counts
     const [
       totalPatients,
@@ -31,19 +52,23 @@ router.get('/stats', async (req: AuthenticatedRequest, res: Response<ApiResponse
       completedAppointments,
       newPatientsThisMonth
     ] = await Promise.all([
-      Patient.countDocuments({ isActive: true }),
+      Patient.countDocuments({ ...patientFilter, isActive: true }),
       User.countDocuments({ role: 'doctor', isActive: true }),
       Appointment.countDocuments({
+        ...appointmentFilter,
         date: { $gte: startOfDay, $lte: endOfDay }
       }),
       Appointment.countDocuments({
+        ...appointmentFilter,
         status: { $in: ['scheduled', 'confirmed'] }
       }),
       Appointment.countDocuments({
+        ...appointmentFilter,
         status: 'completed',
         date: { $gte: startOfDay, $lte: endOfDay }
       }),
       Patient.countDocuments({
+        ...patientFilter,
         isActive: true,
         createdAt: { $gte: startOfMonth, $lte: endOfMonth }
       })
@@ -51,6 +76,7 @@ router.get('/stats', async (req: AuthenticatedRequest, res: Response<ApiResponse
 
     // Get upcoming appointments
     const upcomingAppointments = await Appointment.find({
+      ...appointmentFilter,
       date: { $gte: new Date() },
       status: { $in: ['scheduled', 'confirmed'] }
     })
@@ -60,13 +86,16 @@ router.get('/stats', async (req: AuthenticatedRequest, res: Response<ApiResponse
     .limit(5);
 
     // Get recent patients
-    const recentPatients = await Patient.find({ isActive: true })
+    const recentPatients = await Patient.find({ ...patientFilter, isActive: true })
       .sort({ createdAt: -1 })
       .limit(5)
-      .select('firstName lastName email createdAt');
+      .select(`firstName lastName email createdAt ${ACCESS_FIELDS}`);
 
     // Get appointment statistics by status
     const appointmentStats = await Appointment.aggregate([
+      {
+        $match: appointmentFilter
+      },
       {
         $group: {
           _id: '$status',
@@ -82,6 +111,7 @@ router.get('/stats', async (req: AuthenticatedRequest, res: Response<ApiResponse
     const monthlyTrends = await Appointment.aggregate([
       {
         $match: {
+          ...appointmentFilter,
           date: { $gte: sixMonthsAgo }
         }
       },
@@ -103,7 +133,7 @@ router.get('/stats', async (req: AuthenticatedRequest, res: Response<ApiResponse
     // Get patient demographics
     const patientDemographics = await Patient.aggregate([
       {
-        $match: { isActive: true }
+        $match: { ...patientFilter, isActive: true }
       },
       {
         $group: {
@@ -116,7 +146,7 @@ router.get('/stats', async (req: AuthenticatedRequest, res: Response<ApiResponse
     // Get age distribution
     const ageDistribution = await Patient.aggregate([
       {
-        $match: { isActive: true }
+        $match: { ...patientFilter, isActive: true }
       },
       {
         $addFields: {
@@ -166,11 +196,12 @@ router.get('/stats', async (req: AuthenticatedRequest, res: Response<ApiResponse
         type: apt.type,
         status: apt.status
       })),
+      // Restricted records outside the user's care team are listed by name only
       recentPatients: recentPatients.map(patient => ({
         id: patient._id.toString(),
         name: `${patient.firstName} ${patient.lastName}`,
-        email: patient.email,
-        createdAt: patient.createdAt
+        createdAt: patient.createdAt,
+        ...(isRestrictedFor(patient, req.user!._id) ? { restricted: true } : { email: patient.email })
       })),
       appointmentStats,
       monthlyTrends,
@@ -195,13 +226,14 @@ router.get('/stats', async (req: AuthenticatedRequest, res: Response<ApiResponse
 
 // @route   GET /api/dashboard/recent-activity
 // @desc    Get recent activity feed
-// @access  Private
-router.get('/recent-activity', async (req: AuthenticatedRequest, res: Response<ApiResponse>) => {
+// @access  Private (dashboard:read)
+router.get('/recent-activity', requirePermission('dashboard:read'), async (req: AuthenticatedRequest, res: Response<ApiResponse>) => {
   try {
     const limit = parseInt(req.query.limit as string) || 20;
+    const { patientFilter, appointmentFilter } = await dashboardScope(req);
 
     // Get recent appointments
-    const recentAppointments = await Appointment.find()
+    const recentAppointments = await Appointment.find(appointmentFilter)
       .populate('patient', 'firstName lastName')
       .populate('doctor', 'firstName lastName')
       .populate('createdBy', 'firstName lastName')
@@ -209,7 +241,7 @@ router.get('/recent-activity', async (req: AuthenticatedRequest, res: Response<A
       .limit(Math.floor(limit / 2));
 
     // Get recent patients
-    const recentPatients = await Patient.find({ isActive: true })
+    const recentPatients = await Patient.find({ ...patientFilter, isActive: true })
       .sort({ createdAt: -1 })
       .limit(Math.floor(limit / 2))
       .select('firstName lastName createdAt');
@@ -255,4 +287,178 @@ router.get('/recent-activity', async (req: AuthenticatedRequest, res: Response<A
   }
 });
 
-export default router;
\ No newline at end of file
+// @route   GET /api/dashboard/diagnoses?dateFrom=&dateTo=&limit=
+// @desc    Most frequent coded diagnoses on completed appointments
+// @access  Private (dashboard:read)
+router.get('/diagnoses', requirePermission('dashboard:read'), async (req: AuthenticatedRequest, res: Response<ApiResponse>) => {
+  try {
+    const limit = Math.min(parseInt(req.query.limit as string) || 10, 100);
+    const { appointmentFilter } = await dashboardScope(req);
+
+    // Defaults to the last twelve months
+    const dateFrom = req.query.dateFrom ? new Date(req.query.dateFrom as string) : new Date(new Date().setFullYear(new Date().getFullYear() - 1));
+    const dateTo = req.query.dateTo ? new Date(req.query.dateTo as string) : new Date();
+
+    const match = {
+      ...appointmentFilter,
+      status: 'completed',
+      date: { $gte: dateFrom, $lte: dateTo }
+    };
+
+    const [topDiagnoses, uncoded] = await Promise.all([
+      Appointment.aggregate([
+        {
+          $match: { ...match, diagnosisCode: { $exists: true, $ne: null } }
+        },
+        {
+          $group: {
+            _id: '$diagnosisCode',
+            count: { $sum: 1 },
+            patients: { $addToSet: '$patient' }
+          }
+        },
+        {
+          $sort: { count: -1, _id: 1 }
+        },
+        {
+          $limit: limit
+        }
+      ]),
+      Appointment.countDocuments({ ...match, diagnosisCode: { $exists: false } })
+    ]);
+
+    res.json({
+      success: true,
+      data: {
+        dateFrom,
+        dateTo,
+        diagnoses: topDiagnoses.map(diagnosis => ({
+          code: diagnosis._id,
+          description: findIcd10Code(diagnosis._id)?.description,
+          count: diagnosis.count,
+          patientCount: diagnosis.patients.length
+        })),
+        uncoded
+      }
+    });
+  } catch (error) {
+    console.error('Get diagnosis stats error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error',
+    });
+  }
+});
+
+// Patients are read in batches of this size while looking for overdue vaccines
+const IMMUNIZATION_SCAN_BATCH = 500;
+
+// @route   GET /api/dashboard/immunizations/overdue?vaccine=&page=&limit=
+// @desc    Active patients with overdue vaccines, longest overdue first
+// @access  Private (dashboard:read, patients:read-clinical)
+router.get('/immunizations/overdue',
+  requirePermission('dashboard:read', 'patients:read-clinical'),
+  validateImmunizationQuery,
+  validatePagination,
+  handleValidationErrors,
+  async (req: AuthenticatedRequest, res: Response<ApiResponse>) => {
+    try {
+      const page = parseInt(req.query.page as string) || 1;
+      const limit = parseInt(req.query.limit as string) || 20;
+      const vaccine = req.query.vaccine ? (req.query.vaccine as string).toUpperCase() : undefined;
+      const { patientFilter } = await dashboardScope(req);
+
+      // The schedule depends on each patient's age, so it is evaluated here rather than in the
+      // database. Only patients whose stored due date has passed can have an overdue vaccine;
+      // they are streamed in batches and only the overdue ones are kept.
+      const now = new Date();
+      const overdueByPatient = new Map<string, VaccineStatus[]>();
+
+      const scanBatch = async (batch: IPatient[]) => {
+        const byPatient = await loadCompletedDoses(batch.map(patient => patient._id));
+
+        batch.forEach(patient => {
+          const overdue = evaluateImmunizations(patient, byPatient.get(patient._id.toString()) || [], now)
+            .filter(status => status.status === 'overdue' && (!vaccine || status.code === vaccine));
+
+          if (overdue.length > 0) {
+            overdueByPatient.set(patient._id.toString(), overdue);
+          }
+        });
+      };
+
+      const cursor = Patient.find({ ...patientFilter, isActive: true, nextImmunizationDueAt: { $lte: now } })
+        .select('dateOfBirth')
+        .cursor();
+      let batch: IPatient[] = [];
+
+      for await (const patient of cursor) {
+        batch.push(patient);
+        if (batch.length === IMMUNIZATION_SCAN_BATCH) {
+          await scanBatch(batch);
+          batch = [];
+        }
+      }
+      if (batch.length > 0) {
+        await scanBatch(batch);
+      }
+
+      const overdueCounts: Record<string, number> = {};
+      overdueByPatient.forEach(overdue => overdue.forEach(status => {
+        overdueCounts[status.code] = (overdueCounts[status.code] || 0) + 1;
+      }));
+
+      const ranked = [...overdueByPatient.entries()]
+        .sort(([, a], [, b]) => a[0].dueDate!.getTime() - b[0].dueDate!.getTime());
+      const total = ranked.length;
+      const pageEntries = ranked.slice((page - 1) * limit, page * limit);
+
+      // Contact details are only loaded for the patients on this page
+      const pagePatients = await Patient.find({ _id: { $in: pageEntries.map(([id]) => id) } })
+        .select(`firstName lastName dateOfBirth phone ${ACCESS_FIELDS}`);
+      const patientsById = new Map(pagePatients.map(patient => [patient._id.toString(), patient]));
+
+      const overduePatients = pageEntries
+        .filter(([id]) => patientsById.has(id))
+        .map(([id, overdue]) => {
+          const patient = patientsById.get(id)!;
+          return {
+            patient: isRestrictedFor(patient, req.user!._id)
+              ? restrictedSummary(patient)
+              : {
+                _id: patient._id,
+                firstName: patient.firstName,
+                lastName: patient.lastName,
+                dateOfBirth: patient.dateOfBirth,
+                age: patient.age,
+                phone: patient.phone,
+                primaryDoctor: patient.primaryDoctor,
+              },
+            overdue,
+          };
+        });
+
+      res.json({
+        success: true,
+        data: {
+          patients: overduePatients,
+          byVaccine: overdueCounts,
+        },
+        pagination: {
+          currentPage: page,
+          totalPages: Math.ceil(total / limit),
+          totalItems: total,
+          itemsPerPage: limit,
+        },
+      });
+    } catch (error) {
+      console.error('Get overdue immunizations error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error',
+      });
+    }
+  }
+);
+
+export default router;
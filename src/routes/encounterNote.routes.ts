@@ -0,0 +1,469 @@
+import express, { Response } from 'express';
+import EncounterNote, { SOAP_SECTIONS } from '../models/EncounterNote.js';
+import Appointment from '../models/Appointment.js';
+import Patient from '../models/Patient.js';
+import { authenticate, requirePermission } from '../middleware/auth.js';
+import {
+  validateEncounterNote,
+  validateAddendum,
+  validateObjectId,
+  handleValidationErrors
+} from '../middleware/validation.js';
+import { ACCESS_FIELDS, BREAK_GLASS_NOTICE, resolvePatientAccess } from '../utils/patientAccess.js';
+import { auditTrail, recordAuditChanges } from '../utils/audit.js';
+import { encryptedFieldsOf } from '../utils/fieldEncryption.js';
+import { AuthenticatedRequest, ApiResponse, IAppointment, IEncounterNote } from '../types/index.js';
+
+// Mounted at /api/appointments/:appointmentId/notes
+const router = express.Router({ mergeParams: true });
+
+router.use(authenticate, auditTrail('encounter-note', encryptedFieldsOf(EncounterNote)));
+
+const AUTHOR_FIELDS = 'firstName lastName role';
+
+// Visits that never took place have nothing to document
+const UNDOCUMENTABLE_STATUSES: IAppointment['status'][] = ['cancelled', 'no-show'];
+
+// Load the appointment from the URL and check the user may open its patient's
+// record, answering 404/403 itself
+const loadAppointment = async (
+  req: AuthenticatedRequest,
+  res: Response<ApiResponse>
+): Promise<{ appointment: IAppointment; accessMode: 'ordinary' | 'break-glass' } | null> => {
+  const appointment = await Appointment.findById(req.params.appointmentId).select('patient status');
+
+  if (!appointment) {
+    res.status(404).json({
+      success: false,
+      message: 'Appointment not found',
+    });
+    return null;
+  }
+
+  const patient = await Patient.findById(appointment.patient).select(ACCESS_FIELDS);
+  const accessMode = patient && await resolvePatientAccess(req, patient);
+  if (!accessMode) {
+    res.status(403).json({
+      success: false,
+      message: 'Patient is not under your care',
+    });
+    return null;
+  }
+
+  return { appointment, accessMode };
+};
+
+// Drafts are private to their author until signed
+const visibleTo = (req: AuthenticatedRequest) => ({
+  $or: [{ status: 'signed' }, { author: req.user!._id }],
+});
+
+const findNote = (req: AuthenticatedRequest, appointment: IAppointment) => {
+  return EncounterNote.findOne({
+    _id: req.params.noteId,
+    appointment: appointment._id,
+    ...visibleTo(req),
+  });
+};
+
+const isAuthor = (req: AuthenticatedRequest, note: IEncounterNote): boolean => {
+  return note.author.toString() === req.user!._id.toString();
+};
+
+const pickSections = (body: Record<string, any>): Partial<Pick<IEncounterNote, typeof SOAP_SECTIONS[number]>> => {
+  const sections: Record<string, string> = {};
+  SOAP_SECTIONS.forEach(section => {
+    if (body[section] !== undefined) {
+      sections[section] = body[section];
+    }
+  });
+  return sections;
+};
+
+// Addenda are decrypted when a document is hydrated, so they are populated
+// on documents rather than through the query
+const NOTE_POPULATE = [
+  { path: 'author', select: AUTHOR_FIELDS },
+  { path: 'signedBy', select: AUTHOR_FIELDS },
+  { path: 'addenda.author', select: AUTHOR_FIELDS },
+];
+
+const populateNote = (note: IEncounterNote) => note.populate(NOTE_POPULATE);
+
+// @route   GET /api/appointments/:appointmentId/notes
+// @desc    Signed notes for the visit, plus the user's own drafts
+// @access  Private (patients:read-clinical, care team)
+router.get('/',
+  requirePermission('patients:read', 'patients:read-clinical'),
+  validateObjectId('appointmentId'),
+  handleValidationErrors,
+  async (req: AuthenticatedRequest, res: Response<ApiResponse>) => {
+    try {
+      const loaded = await loadAppointment(req, res);
+      if (!loaded) {
+        return;
+      }
+
+      const notes = await EncounterNote.find({ appointment: loaded.appointment._id, ...visibleTo(req) })
+        .sort({ createdAt: 1 });
+      await EncounterNote.populate(notes, NOTE_POPULATE);
+
+      res.json({
+        success: true,
+        ...(loaded.accessMode === 'break-glass' && { message: BREAK_GLASS_NOTICE }),
+        data: notes,
+      });
+    } catch (error) {
+      console.error('Get encounter notes error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error',
+      });
+    }
+  }
+);
+
+// @route   GET /api/appointments/:appointmentId/notes/:noteId
+// @desc    Get an encounter note with its addenda
+// @access  Private (patients:read-clinical, care team)
+router.get('/:noteId',
+  requirePermission('patients:read', 'patients:read-clinical'),
+  validateObjectId('appointmentId'),
+  validateObjectId('noteId'),
+  handleValidationErrors,
+  async (req: AuthenticatedRequest, res: Response<ApiResponse>) => {
+    try {
+      const loaded = await loadAppointment(req, res);
+      if (!loaded) {
+        return;
+      }
+
+      const note = await findNote(req, loaded.appointment);
+      if (!note) {
+        res.status(404).json({
+          success: false,
+          message: 'Note not found',
+        });
+        return;
+      }
+
+      await populateNote(note);
+
+      res.json({
+        success: true,
+        ...(loaded.accessMode === 'break-glass' && { message: BREAK_GLASS_NOTICE }),
+        data: note,
+      });
+    } catch (error) {
+      console.error('Get encounter note error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error',
+      });
+    }
+  }
+);
+
+// @route   POST /api/appointments/:appointmentId/notes
+// @desc    Start a draft SOAP note for the visit
+// @access  Private (notes:write, patients:read-clinical, care team)
+router.post('/',
+  requirePermission('notes:write', 'patients:read-clinical'),
+  validateObjectId('appointmentId'),
+  validateEncounterNote,
+  handleValidationErrors,
+  async (req: AuthenticatedRequest, res: Response<ApiResponse>) => {
+    try {
+      const loaded = await loadAppointment(req, res);
+      if (!loaded) {
+        return;
+      }
+
+      if (UNDOCUMENTABLE_STATUSES.includes(loaded.appointment.status)) {
+        res.status(400).json({
+          success: false,
+          message: `Cannot write notes for an appointment that is ${loaded.appointment.status}`,
+        });
+        return;
+      }
+
+      const note = await EncounterNote.create({
+        ...pickSections(req.body),
+        appointment: loaded.appointment._id,
+        patient: loaded.appointment.patient,
+        author: req.user!._id,
+      });
+      recordAuditChanges(res, {}, note.toObject(), note._id);
+
+      await populateNote(note);
+
+      res.status(201).json({
+        success: true,
+        message: 'Draft note created successfully',
+        data: note,
+      });
+    } catch (error) {
+      console.error('Create encounter note error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error',
+      });
+    }
+  }
+);
+
+// @route   PUT /api/appointments/:appointmentId/notes/:noteId
+// @desc    Edit a draft note (author only)
+// @access  Private (notes:write, patients:read-clinical, care team)
+router.put('/:noteId',
+  requirePermission('notes:write', 'patients:read-clinical'),
+  validateObjectId('appointmentId'),
+  validateObjectId('noteId'),
+  validateEncounterNote,
+  handleValidationErrors,
+  async (req: AuthenticatedRequest, res: Response<ApiResponse>) => {
+    try {
+      const loaded = await loadAppointment(req, res);
+      if (!loaded) {
+        return;
+      }
+
+      const note = await findNote(req, loaded.appointment);
+      if (!note) {
+        res.status(404).json({
+          success: false,
+          message: 'Note not found',
+        });
+        return;
+      }
+
+      if (note.status === 'signed') {
+        res.status(409).json({
+          success: false,
+          message: 'A signed note cannot be changed, add an addendum instead',
+        });
+        return;
+      }
+
+      if (!isAuthor(req, note)) {
+        res.status(403).json({
+          success: false,
+          message: 'Only the author can edit a draft note',
+        });
+        return;
+      }
+
+      const before = note.toObject();
+      note.set(pickSections(req.body));
+      note.updatedBy = req.user!._id;
+      await note.save();
+      recordAuditChanges(res, before, note.toObject());
+
+      await populateNote(note);
+
+      res.json({
+        success: true,
+        message: 'Draft note updated successfully',
+        data: note,
+      });
+    } catch (error) {
+      console.error('Update encounter note error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error',
+      });
+    }
+  }
+);
+
+// @route   POST /api/appointments/:appointmentId/notes/:noteId/sign
+// @desc    Sign a draft note, locking it against further edits (author only)
+// @access  Private (notes:write, patients:read-clinical, care team)
+router.post('/:noteId/sign',
+  requirePermission('notes:write', 'patients:read-clinical'),
+  validateObjectId('appointmentId'),
+  validateObjectId('noteId'),
+  handleValidationErrors,
+  async (req: AuthenticatedRequest, res: Response<ApiResponse>) => {
+    try {
+      const loaded = await loadAppointment(req, res);
+      if (!loaded) {
+        return;
+      }
+
+      const note = await findNote(req, loaded.appointment);
+      if (!note) {
+        res.status(404).json({
+          success: false,
+          message: 'Note not found',
+        });
+        return;
+      }
+
+      if (note.status === 'signed') {
+        res.status(400).json({
+          success: false,
+          message: 'Note is already signed',
+        });
+        return;
+      }
+
+      if (!isAuthor(req, note)) {
+        res.status(403).json({
+          success: false,
+          message: 'Only the author can sign a note',
+        });
+        return;
+      }
+
+      if (!note.assessment || !note.plan) {
+        res.status(400).json({
+          success: false,
+          message: 'Assessment and plan are required before signing',
+        });
+        return;
+      }
+
+      const before = note.toObject();
+      note.status = 'signed';
+      note.signedAt = new Date();
+      note.signedBy = req.user!._id;
+      note.updatedBy = req.user!._id;
+      await note.save();
+      recordAuditChanges(res, before, note.toObject());
+
+      await populateNote(note);
+
+      res.json({
+        success: true,
+        message: 'Note signed successfully',
+        data: note,
+      });
+    } catch (error) {
+      console.error('Sign encounter note error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error',
+      });
+    }
+  }
+);
+
+// @route   POST /api/appointments/:appointmentId/notes/:noteId/addenda
+// @desc    Append a timestamped correction or addition to a signed note
+// @access  Private (notes:write, patients:read-clinical, care team)
+router.post('/:noteId/addenda',
+  requirePermission('notes:write', 'patients:read-clinical'),
+  validateObjectId('appointmentId'),
+  validateObjectId('noteId'),
+  validateAddendum,
+  handleValidationErrors,
+  async (req: AuthenticatedRequest, res: Response<ApiResponse>) => {
+    try {
+      const loaded = await loadAppointment(req, res);
+      if (!loaded) {
+        return;
+      }
+
+      const note = await findNote(req, loaded.appointment);
+      if (!note) {
+        res.status(404).json({
+          success: false,
+          message: 'Note not found',
+        });
+        return;
+      }
+
+      if (note.status !== 'signed') {
+        res.status(400).json({
+          success: false,
+          message: 'Draft notes are edited directly, addenda are for signed notes',
+        });
+        return;
+      }
+
+      const before = note.toObject();
+      note.addenda.push({
+        text: req.body.text,
+        author: req.user!._id,
+        addedAt: new Date(),
+      });
+      note.updatedBy = req.user!._id;
+      await note.save();
+      recordAuditChanges(res, before, note.toObject());
+
+      await populateNote(note);
+
+      res.status(201).json({
+        success: true,
+        message: 'Addendum added successfully',
+        data: note,
+      });
+    } catch (error) {
+      console.error('Add note addendum error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error',
+      });
+    }
+  }
+);
+
+// @route   DELETE /api/appointments/:appointmentId/notes/:noteId
+// @desc    Discard a draft note (author only); signed notes are permanent
+// @access  Private (notes:write, patients:read-clinical, care team)
+router.delete('/:noteId',
+  requirePermission('notes:write', 'patients:read-clinical'),
+  validateObjectId('appointmentId'),
+  validateObjectId('noteId'),
+  handleValidationErrors,
+  async (req: AuthenticatedRequest, res: Response<ApiResponse>) => {
+    try {
+      const loaded = await loadAppointment(req, res);
+      if (!loaded) {
+        return;
+      }
+
+      const note = await findNote(req, loaded.appointment);
+      if (!note) {
+        res.status(404).json({
+          success: false,
+          message: 'Note not found',
+        });
+        return;
+      }
+
+      if (note.status === 'signed') {
+        res.status(409).json({
+          success: false,
+          message: 'A signed note cannot be deleted, add an addendum instead',
+        });
+        return;
+      }
+
+      if (!isAuthor(req, note)) {
+        res.status(403).json({
+          success: false,
+          message: 'Only the author can discard a draft note',
+        });
+        return;
+      }
+
+      recordAuditChanges(res, note.toObject(), {});
+      await note.deleteOne();
+
+      res.json({
+        success: true,
+        message: 'Draft note discarded successfully',
+      });
+    } catch (error) {
+      console.error('Delete encounter note error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error',
+      });
+    }
+  }
+);
+
+export default router;
@@ -0,0 +1,52 @@
+import express, { Response } from 'express';
+import { authenticate, requirePermission } from '../middleware/auth.js';
+import { validateIcd10Search, handleValidationErrors } from '../middleware/validation.js';
+import { ICD10_VERSION, findIcd10Code, searchIcd10 } from '../utils/icd10.js';
+import { AuthenticatedRequest, ApiResponse } from '../types/index.js';
+
+const router = express.Router();
+
+// Apply authentication to all routes
+router.use(authenticate);
+
+// @route   GET /api/icd10/search?q=&limit=
+// @desc    Typeahead over ICD-10 codes and descriptions
+// @access  Private (patients:read-clinical)
+router.get('/search',
+  requirePermission('patients:read-clinical'),
+  validateIcd10Search,
+  handleValidationErrors,
+  (req: AuthenticatedRequest, res: Response<ApiResponse>) => {
+    const limit = parseInt(req.query.limit as string) || 10;
+
+    res.json({
+      success: true,
+      data: {
+        version: ICD10_VERSION,
+        codes: searchIcd10(req.query.q as string, limit),
+      },
+    });
+  }
+);
+
+// @route   GET /api/icd10/:code
+// @desc    Look up a single ICD-10 code
+// @access  Private (patients:read-clinical)
+router.get('/:code', requirePermission('patients:read-clinical'), (req: AuthenticatedRequest, res: Response<ApiResponse>) => {
+  const code = findIcd10Code(req.params.code);
+
+  if (!code) {
+    res.status(404).json({
+      success: false,
+      message: 'ICD-10 code not found',
+    });
+    return;
+  }
+
+  res.json({
+    success: true,
+    data: code,
+  });
+});
+
+export default router;
@@ -0,0 +1,305 @@
+import express, { Response } from 'express';
+import Immunization from '../models/Immunization.js';
+import Patient from '../models/Patient.js';
+import Appointment from '../models/Appointment.js';
+import User from '../models/User.js';
+import { authenticate, requirePermission } from '../middleware/auth.js';
+import {
+  validateImmunizationRecording,
+  validateImmunizationQuery,
+  validateImmunizationError,
+  validateObjectId,
+  validatePagination,
+  handleValidationErrors
+} from '../middleware/validation.js';
+import { ACCESS_FIELDS, BREAK_GLASS_NOTICE, resolvePatientAccess } from '../utils/patientAccess.js';
+import { evaluateImmunizations, findScheduledVaccine, getImmunizationSchedule } from '../utils/immunizations.js';
+import { refreshImmunizationDueDates } from '../utils/immunizationDueDates.js';
+import { auditTrail, recordAuditChanges } from '../utils/audit.js';
+import { AuthenticatedRequest, ApiResponse, IPatient } from '../types/index.js';
+
+// Mounted at /api/patients/:patientId/immunizations
+const router = express.Router({ mergeParams: true });
+
+router.use(authenticate, auditTrail('immunization'));
+
+// Load the active patient from the URL and check the user may open their record,
+// answering 404/403 itself
+const loadPatient = async (
+  req: AuthenticatedRequest,
+  res: Response<ApiResponse>
+): Promise<{ patient: IPatient; accessMode: 'ordinary' | 'break-glass' } | null> => {
+  const patient = await Patient.findOne({
+    _id: req.params.patientId,
+    isActive: true
+  }).select(`${ACCESS_FIELDS} dateOfBirth`);
+
+  if (!patient) {
+    res.status(404).json({
+      success: false,
+      message: 'Patient not found',
+    });
+    return null;
+  }
+
+  const accessMode = await resolvePatientAccess(req, patient);
+  if (!accessMode) {
+    res.status(403).json({
+      success: false,
+      message: 'Patient is not under your care',
+    });
+    return null;
+  }
+
+  return { patient, accessMode };
+};
+
+// @route   GET /api/patients/:patientId/immunizations
+// @desc    List immunizations, most recent first (filter by vaccine)
+// @access  Private (patients:read-clinical, care team)
+router.get('/',
+  requirePermission('patients:read', 'patients:read-clinical'),
+  validateObjectId('patientId'),
+  validateImmunizationQuery,
+  validatePagination,
+  handleValidationErrors,
+  async (req: AuthenticatedRequest, res: Response<ApiResponse>) => {
+    try {
+      const loaded = await loadPatient(req, res);
+      if (!loaded) {
+        return;
+      }
+
+      const page = parseInt(req.query.page as string) || 1;
+      const limit = parseInt(req.query.limit as string) || 20;
+      const skip = (page - 1) * limit;
+
+      const filter: any = { patient: loaded.patient._id };
+
+      // Doses entered in error stay hidden unless asked for
+      if (req.query.includeErrors !== 'true') {
+        filter.status = 'completed';
+      }
+
+      if (req.query.vaccine) {
+        filter.vaccine = (req.query.vaccine as string).toUpperCase();
+      }
+
+      const [immunizations, total] = await Promise.all([
+        Immunization.find(filter)
+          .populate('administeredBy', 'firstName lastName role')
+          .sort({ administeredAt: -1 })
+          .skip(skip)
+          .limit(limit),
+        Immunization.countDocuments(filter)
+      ]);
+
+      res.json({
+        success: true,
+        ...(loaded.accessMode === 'break-glass' && { message: BREAK_GLASS_NOTICE }),
+        data: immunizations,
+        pagination: {
+          currentPage: page,
+          totalPages: Math.ceil(total / limit),
+          totalItems: total,
+          itemsPerPage: limit,
+        },
+      });
+    } catch (error) {
+      console.error('Get immunizations error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error',
+      });
+    }
+  }
+);
+
+// @route   GET /api/patients/:patientId/immunizations/status
+// @desc    Each scheduled vaccine's status for the patient's age, with what is due and overdue
+// @access  Private (patients:read-clinical, care team)
+router.get('/status',
+  requirePermission('patients:read', 'patients:read-clinical'),
+  validateObjectId('patientId'),
+  handleValidationErrors,
+  async (req: AuthenticatedRequest, res: Response<ApiResponse>) => {
+    try {
+      const loaded = await loadPatient(req, res);
+      if (!loaded) {
+        return;
+      }
+
+      const immunizations = await Immunization.find({ patient: loaded.patient._id, status: 'completed' })
+        .select('vaccine doseNumber administeredAt')
+        .lean();
+
+      const vaccines = evaluateImmunizations(loaded.patient, immunizations);
+
+      res.json({
+        success: true,
+        ...(loaded.accessMode === 'break-glass' && { message: BREAK_GLASS_NOTICE }),
+        data: {
+          age: loaded.patient.age,
+          scheduleVersion: getImmunizationSchedule().version,
+          due: vaccines.filter(vaccine => vaccine.status === 'due'),
+          overdue: vaccines.filter(vaccine => vaccine.status === 'overdue'),
+          vaccines,
+        },
+      });
+    } catch (error) {
+      console.error('Get immunization status error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error',
+      });
+    }
+  }
+);
+
+// @route   POST /api/patients/:patientId/immunizations
+// @desc    Record a vaccine dose (doseNumber defaults to the next dose of that vaccine)
+// @access  Private (patients:write, patients:read-clinical, care team)
+router.post('/',
+  requirePermission('patients:write', 'patients:read-clinical'),
+  validateObjectId('patientId'),
+  validateImmunizationRecording,
+  handleValidationErrors,
+  async (req: AuthenticatedRequest, res: Response<ApiResponse>) => {
+    try {
+      const loaded = await loadPatient(req, res);
+      if (!loaded) {
+        return;
+      }
+
+      const { appointment, administeredBy } = req.body;
+      const vaccine = (req.body.vaccine as string).toUpperCase();
+      const administeredAt = req.body.administeredAt ? new Date(req.body.administeredAt) : new Date();
+
+      if (administeredAt < loaded.patient.dateOfBirth) {
+        res.status(400).json({
+          success: false,
+          message: 'Administration date cannot be before the patient\'s date of birth',
+        });
+        return;
+      }
+
+      if (appointment && !(await Appointment.exists({ _id: appointment, patient: loaded.patient._id }))) {
+        res.status(400).json({
+          success: false,
+          message: 'Appointment not found for this patient',
+        });
+        return;
+      }
+
+      if (administeredBy && !(await User.exists({ _id: administeredBy, isActive: true }))) {
+        res.status(400).json({
+          success: false,
+          message: 'Administering user not found',
+        });
+        return;
+      }
+
+      let doseNumber = req.body.doseNumber !== undefined ? Number(req.body.doseNumber) : undefined;
+      if (doseNumber === undefined) {
+        const previous = await Immunization.findOne({ patient: loaded.patient._id, vaccine, status: 'completed' })
+          .sort({ doseNumber: -1 })
+          .select('doseNumber');
+        doseNumber = (previous?.doseNumber ?? 0) + 1;
+      }
+
+      const immunization = await Immunization.create({
+        patient: loaded.patient._id,
+        appointment,
+        vaccine,
+        vaccineName: req.body.vaccineName || findScheduledVaccine(vaccine)?.name,
+        doseNumber,
+        lotNumber: req.body.lotNumber,
+        manufacturer: req.body.manufacturer,
+        site: req.body.site,
+        route: req.body.route,
+        administeredAt,
+        administeredBy: administeredBy || req.user!._id,
+        notes: req.body.notes,
+        recordedBy: req.user!._id,
+      });
+      recordAuditChanges(res, {}, immunization.toObject());
+      await refreshImmunizationDueDates([loaded.patient]);
+
+      await immunization.populate('administeredBy', 'firstName lastName role');
+
+      res.status(201).json({
+        success: true,
+        message: 'Immunization recorded successfully',
+        data: immunization,
+      });
+    } catch (error) {
+      console.error('Record immunization error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error',
+      });
+    }
+  }
+);
+
+// @route   DELETE /api/patients/:patientId/immunizations/:immunizationId
+// @desc    Mark a dose as entered in error (it is kept, but left out of lists and the schedule)
+// @access  Private (patients:write, patients:read-clinical, care team)
+router.delete('/:immunizationId',
+  requirePermission('patients:write', 'patients:read-clinical'),
+  validateObjectId('patientId'),
+  validateObjectId('immunizationId'),
+  validateImmunizationError,
+  handleValidationErrors,
+  async (req: AuthenticatedRequest, res: Response<ApiResponse>) => {
+    try {
+      const loaded = await loadPatient(req, res);
+      if (!loaded) {
+        return;
+      }
+
+      const immunization = await Immunization.findOne({
+        _id: req.params.immunizationId,
+        patient: loaded.patient._id,
+      });
+
+      if (!immunization) {
+        res.status(404).json({
+          success: false,
+          message: 'Immunization not found',
+        });
+        return;
+      }
+
+      if (immunization.status === 'entered-in-error') {
+        res.status(400).json({
+          success: false,
+          message: 'Immunization is already marked as entered in error',
+        });
+        return;
+      }
+
+      const before = immunization.toObject();
+      immunization.status = 'entered-in-error';
+      immunization.errorReason = req.body.reason;
+      immunization.updatedBy = req.user!._id;
+      await immunization.save();
+      recordAuditChanges(res, before, immunization.toObject());
+      await refreshImmunizationDueDates([loaded.patient]);
+
+      res.json({
+        success: true,
+        message: 'Immunization marked as entered in error',
+        data: immunization,
+      });
+    } catch (error) {
+      console.error('Mark immunization error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error',
+      });
+    }
+  }
+);
+
+export default router;
@@ -0,0 +1,470 @@
+import express, { Response } from 'express';
+import { Types } from 'mongoose';
+import LabOrder from '../models/LabOrder.js';
+import Appointment from '../models/Appointment.js';
+import Patient from '../models/Patient.js';
+import { authenticate, requirePermission } from '../middleware/auth.js';
+import {
+  validateLabOrderCreation,
+  validateLabOrderQuery,
+  validateLabResults,
+  validateLabReview,
+  validateLabOrderCancellation,
+  validateObjectId,
+  validatePagination,
+  handleValidationErrors
+} from '../middleware/validation.js';
+import { ACCESS_FIELDS, BREAK_GLASS_NOTICE, resolvePatientAccess } from '../utils/patientAccess.js';
+import {
+  LAB_CATALOGUE_VERSION,
+  LAB_ORDER_TRANSITIONS,
+  LAB_PANELS,
+  LabOrderAction,
+  applyLabOrderTransition,
+  buildLabResult,
+  canTransitionLabOrder,
+  findLabTest
+} from '../utils/labOrders.js';
+import { auditTrail, recordAuditChanges } from '../utils/audit.js';
+import { AuthenticatedRequest, ApiResponse, IAppointment, ILabOrder, ILabResult } from '../types/index.js';
+
+const router = express.Router();
+
+router.use(authenticate, auditTrail('lab-order'));
+
+const STAFF_FIELDS = 'firstName lastName role';
+
+const ORDER_POPULATE = [
+  { path: 'patient', select: 'firstName lastName dateOfBirth' },
+  { path: 'appointment', select: 'date time type' },
+  { path: 'orderedBy', select: STAFF_FIELDS },
+  { path: 'collectedBy', select: STAFF_FIELDS },
+  { path: 'resultedBy', select: STAFF_FIELDS },
+  { path: 'reviewedBy', select: STAFF_FIELDS },
+  { path: 'cancelledBy', select: STAFF_FIELDS },
+];
+
+// Tests cannot be ordered against visits that never took place
+const UNORDERABLE_STATUSES: IAppointment['status'][] = ['cancelled', 'no-show'];
+
+// Check the user may open the patient's record, answering 404/403 itself
+const checkPatientAccess = async (
+  req: AuthenticatedRequest,
+  res: Response<ApiResponse>,
+  patientId: Types.ObjectId | string
+): Promise<'ordinary' | 'break-glass' | null> => {
+  const patient = await Patient.findOne({
+    _id: patientId,
+    isActive: true
+  }).select(ACCESS_FIELDS);
+
+  if (!patient) {
+    res.status(404).json({
+      success: false,
+      message: 'Patient not found',
+    });
+    return null;
+  }
+
+  const accessMode = await resolvePatientAccess(req, patient);
+  if (!accessMode) {
+    res.status(403).json({
+      success: false,
+      message: 'Patient is not under your care',
+    });
+    return null;
+  }
+
+  return accessMode;
+};
+
+// Load the order from the URL and check the user may open its patient's record,
+// answering 404/403 itself
+const loadOrder = async (
+  req: AuthenticatedRequest,
+  res: Response<ApiResponse>
+): Promise<{ order: ILabOrder; accessMode: 'ordinary' | 'break-glass' } | null> => {
+  const order = await LabOrder.findById(req.params.id);
+
+  if (!order) {
+    res.status(404).json({
+      success: false,
+      message: 'Lab order not found',
+    });
+    return null;
+  }
+
+  const accessMode = await checkPatientAccess(req, res, order.patient);
+  if (!accessMode) {
+    return null;
+  }
+
+  return { order, accessMode };
+};
+
+// Turn submitted results into catalogue results for the order's panels, or
+// describe the first problem found
+const resolveResults = (
+  order: ILabOrder,
+  submitted: Array<{ test: string; value: number; unit?: string; comment?: string }>
+): { results: Omit<ILabResult, '_id'>[] } | { error: string } => {
+  const results: Omit<ILabResult, '_id'>[] = [];
+
+  for (const entry of submitted) {
+    const found = findLabTest(order.panels, entry.test);
+
+    if (!found) {
+      return { error: `Test ${entry.test} is not part of the ordered panels` };
+    }
+
+    if (results.some(result => result.test === found.test.code)) {
+      return { error: `Test ${found.test.code} has more than one result` };
+    }
+
+    if (entry.unit && entry.unit.toLowerCase() !== found.test.unit.toLowerCase()) {
+      return { error: `${found.test.name} must be reported in ${found.test.unit}` };
+    }
+
+    results.push(buildLabResult(found.panel, found.test, Number(entry.value), entry.comment));
+  }
+
+  return { results };
+};
+
+// @route   GET /api/lab-orders/catalogue
+// @desc    Test panels that can be ordered, with units and reference ranges
+// @access  Private (patients:read-clinical)
+router.get('/catalogue', requirePermission('patients:read-clinical'), (req: AuthenticatedRequest, res: Response<ApiResponse>) => {
+  res.json({
+    success: true,
+    data: {
+      version: LAB_CATALOGUE_VERSION,
+      panels: LAB_PANELS,
+    },
+  });
+});
+
+// @route   GET /api/lab-orders/review-queue
+// @desc    Resulted orders awaiting the ordering doctor's review, critical and abnormal first
+// @access  Private (labs:review)
+router.get('/review-queue',
+  requirePermission('labs:review'),
+  validatePagination,
+  handleValidationErrors,
+  async (req: AuthenticatedRequest, res: Response<ApiResponse>) => {
+    try {
+      const page = parseInt(req.query.page as string) || 1;
+      const limit = parseInt(req.query.limit as string) || 20;
+      const skip = (page - 1) * limit;
+
+      const filter = {
+        orderedBy: req.user!._id,
+        status: 'resulted',
+      };
+
+      const [orders, total, abnormal, critical] = await Promise.all([
+        LabOrder.find(filter)
+          .populate(ORDER_POPULATE)
+          .sort({ critical: -1, abnormal: -1, resultedAt: 1 })
+          .skip(skip)
+          .limit(limit),
+        LabOrder.countDocuments(filter),
+        LabOrder.countDocuments({ ...filter, abnormal: true }),
+        LabOrder.countDocuments({ ...filter, critical: true }),
+      ]);
+
+      res.json({
+        success: true,
+        data: {
+          orders,
+          summary: { total, abnormal, critical },
+        },
+        pagination: {
+          currentPage: page,
+          totalPages: Math.ceil(total / limit),
+          totalItems: total,
+          itemsPerPage: limit,
+        },
+      });
+    } catch (error) {
+      console.error('Get lab review queue error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error',
+      });
+    }
+  }
+);
+
+// @route   GET /api/lab-orders?patient=&appointment=&status=
+// @desc    Lab orders for a patient or a visit, newest first
+// @access  Private (patients:read-clinical, care team)
+router.get('/',
+  requirePermission('patients:read', 'patients:read-clinical'),
+  validateLabOrderQuery,
+  validatePagination,
+  handleValidationErrors,
+  async (req: AuthenticatedRequest, res: Response<ApiResponse>) => {
+    try {
+      const page = parseInt(req.query.page as string) || 1;
+      const limit = parseInt(req.query.limit as string) || 20;
+      const skip = (page - 1) * limit;
+
+      const filter: any = {};
+
+      if (req.query.appointment) {
+        const appointment = await Appointment.findById(req.query.appointment).select('patient');
+        if (!appointment) {
+          res.status(404).json({
+            success: false,
+            message: 'Appointment not found',
+          });
+          return;
+        }
+
+        if (req.query.patient && appointment.patient.toString() !== req.query.patient) {
+          res.status(400).json({
+            success: false,
+            message: 'Appointment does not belong to this patient',
+          });
+          return;
+        }
+
+        filter.appointment = appointment._id;
+        filter.patient = appointment.patient;
+      } else {
+        filter.patient = req.query.patient;
+      }
+
+      const accessMode = await checkPatientAccess(req, res, filter.patient);
+      if (!accessMode) {
+        return;
+      }
+
+      if (req.query.status) {
+        filter.status = req.query.status;
+      }
+
+      const [orders, total] = await Promise.all([
+        LabOrder.find(filter)
+          .populate(ORDER_POPULATE)
+          .sort({ createdAt: -1 })
+          .skip(skip)
+          .limit(limit),
+        LabOrder.countDocuments(filter)
+      ]);
+
+      res.json({
+        success: true,
+        ...(accessMode === 'break-glass' && { message: BREAK_GLASS_NOTICE }),
+        data: orders,
+        pagination: {
+          currentPage: page,
+          totalPages: Math.ceil(total / limit),
+          totalItems: total,
+          itemsPerPage: limit,
+        },
+      });
+    } catch (error) {
+      console.error('Get lab orders error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error',
+      });
+    }
+  }
+);
+
+// @route   GET /api/lab-orders/:id
+// @desc    Get a lab order with its results
+// @access  Private (patients:read-clinical, care team)
+router.get('/:id',
+  requirePermission('patients:read', 'patients:read-clinical'),
+  validateObjectId('id'),
+  handleValidationErrors,
+  async (req: AuthenticatedRequest, res: Response<ApiResponse>) => {
+    try {
+      const loaded = await loadOrder(req, res);
+      if (!loaded) {
+        return;
+      }
+
+      await loaded.order.populate(ORDER_POPULATE);
+
+      res.json({
+        success: true,
+        ...(loaded.accessMode === 'break-glass' && { message: BREAK_GLASS_NOTICE }),
+        data: loaded.order,
+      });
+    } catch (error) {
+      console.error('Get lab order error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error',
+      });
+    }
+  }
+);
+
+// @route   POST /api/lab-orders
+// @desc    Order test panels for the patient of an appointment
+// @access  Private (labs:order, care team)
+router.post('/',
+  requirePermission('labs:order'),
+  validateLabOrderCreation,
+  handleValidationErrors,
+  async (req: AuthenticatedRequest, res: Response<ApiResponse>) => {
+    try {
+      const appointment = await Appointment.findById(req.body.appointment).select('patient status');
+
+      if (!appointment) {
+        res.status(404).json({
+          success: false,
+          message: 'Appointment not found',
+        });
+        return;
+      }
+
+      if (UNORDERABLE_STATUSES.includes(appointment.status)) {
+        res.status(400).json({
+          success: false,
+          message: `Cannot order tests for an appointment that is ${appointment.status}`,
+        });
+        return;
+      }
+
+      const accessMode = await checkPatientAccess(req, res, appointment.patient);
+      if (!accessMode) {
+        return;
+      }
+
+      const order = await LabOrder.create({
+        patient: appointment.patient,
+        appointment: appointment._id,
+        orderedBy: req.user!._id,
+        panels: [...new Set(req.body.panels as string[])],
+        priority: req.body.priority,
+        clinicalNotes: req.body.clinicalNotes,
+      });
+      recordAuditChanges(res, {}, order.toObject());
+
+      await order.populate(ORDER_POPULATE);
+
+      res.status(201).json({
+        success: true,
+        message: 'Lab order created successfully',
+        data: order,
+      });
+    } catch (error) {
+      console.error('Create lab order error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error',
+      });
+    }
+  }
+);
+
+// Shared handler for the status transition endpoints
+const transitionLabOrder = (action: LabOrderAction) => {
+  return async (req: AuthenticatedRequest, res: Response<ApiResponse>) => {
+    try {
+      const loaded = await loadOrder(req, res);
+      if (!loaded) {
+        return;
+      }
+
+      const { order } = loaded;
+
+      if (!canTransitionLabOrder(order, action)) {
+        res.status(400).json({
+          success: false,
+          message: `Cannot ${action} a lab order that is ${order.status}`,
+        });
+        return;
+      }
+
+      const before = order.toObject();
+
+      if (action === 'result') {
+        const resolved = resolveResults(order, req.body.results);
+        if ('error' in resolved) {
+          res.status(400).json({
+            success: false,
+            message: resolved.error,
+          });
+          return;
+        }
+
+        resolved.results.forEach(result => order.results.push(result));
+      }
+
+      if (action === 'review') {
+        order.reviewComment = req.body.comment;
+      }
+
+      applyLabOrderTransition(order, action, req.user!._id, req.body.reason);
+      await order.save();
+      recordAuditChanges(res, before, order.toObject());
+
+      await order.populate(ORDER_POPULATE);
+
+      res.json({
+        success: true,
+        message: `Lab order ${LAB_ORDER_TRANSITIONS[action].to} successfully`,
+        data: order,
+      });
+    } catch (error) {
+      console.error(`Lab order ${action} error:`, error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error',
+      });
+    }
+  };
+};
+
+// @route   POST /api/lab-orders/:id/collect
+// @desc    Record that the specimen has been collected
+// @access  Private (labs:collect, care team)
+router.post('/:id/collect',
+  requirePermission(LAB_ORDER_TRANSITIONS['collect'].permission),
+  validateObjectId('id'),
+  handleValidationErrors,
+  transitionLabOrder('collect')
+);
+
+// @route   POST /api/lab-orders/:id/results
+// @desc    Enter results (results: [{ test, value, unit?, comment? }]); each is flagged against its reference range
+// @access  Private (labs:result, care team)
+router.post('/:id/results',
+  requirePermission(LAB_ORDER_TRANSITIONS['result'].permission),
+  validateObjectId('id'),
+  validateLabResults,
+  handleValidationErrors,
+  transitionLabOrder('result')
+);
+
+// @route   POST /api/lab-orders/:id/review
+// @desc    Mark results as reviewed, with an optional comment
+// @access  Private (labs:review, care team)
+router.post('/:id/review',
+  requirePermission(LAB_ORDER_TRANSITIONS['review'].permission),
+  validateObjectId('id'),
+  validateLabReview,
+  handleValidationErrors,
+  transitionLabOrder('review')
+);
+
+// @route   POST /api/lab-orders/:id/cancel
+// @desc    Cancel an order that has not been resulted
+// @access  Private (labs:order, care team)
+router.post('/:id/cancel',
+  requirePermission(LAB_ORDER_TRANSITIONS['cancel'].permission),
+  validateObjectId('id'),
+  validateLabOrderCancellation,
+  handleValidationErrors,
+  transitionLabOrder('cancel')
+);
+
+export default router;
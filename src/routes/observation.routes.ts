@@ -0,0 +1,374 @@
+import express, { Response } from 'express';
+import Observation from '../models/Observation.js';
+import Patient from '../models/Patient.js';
+import Appointment from '../models/Appointment.js';
+import { authenticate, requirePermission } from '../middleware/auth.js';
+import {
+  validateObservationRecording,
+  validateObservationQuery,
+  validateObservationTrends,
+  validateObservationError,
+  validateObjectId,
+  validatePagination,
+  handleValidationErrors
+} from '../middleware/validation.js';
+import { ACCESS_FIELDS, BREAK_GLASS_NOTICE, resolvePatientAccess } from '../utils/patientAccess.js';
+import {
+  OBSERVATION_DEFINITIONS,
+  OBSERVATION_TYPES,
+  TrendInterval,
+  buildTrendSeries,
+  classifyReading,
+  deriveBmi,
+  normaliseReading,
+  referenceRangeOf
+} from '../utils/observations.js';
+import { auditTrail, recordAuditChanges } from '../utils/audit.js';
+import { AuthenticatedRequest, ApiResponse, IPatient, ObservationType } from '../types/index.js';
+
+// Mounted at /api/patients/:patientId/observations
+const router = express.Router({ mergeParams: true });
+
+router.use(authenticate, auditTrail('observation'));
+
+// Load the active patient from the URL and check the user may open their record,
+// answering 404/403 itself
+const loadPatient = async (
+  req: AuthenticatedRequest,
+  res: Response<ApiResponse>
+): Promise<{ patient: IPatient; accessMode: 'ordinary' | 'break-glass' } | null> => {
+  const patient = await Patient.findOne({
+    _id: req.params.patientId,
+    isActive: true
+  }).select(ACCESS_FIELDS);
+
+  if (!patient) {
+    res.status(404).json({
+      success: false,
+      message: 'Patient not found',
+    });
+    return null;
+  }
+
+  const accessMode = await resolvePatientAccess(req, patient);
+  if (!accessMode) {
+    res.status(403).json({
+      success: false,
+      message: 'Patient is not under your care',
+    });
+    return null;
+  }
+
+  return { patient, accessMode };
+};
+
+// observedAt bounds from the from/to query parameters
+const observedAtRange = (req: AuthenticatedRequest): Record<string, Date> | undefined => {
+  const range: Record<string, Date> = {};
+  if (req.query.from) range.$gte = new Date(req.query.from as string);
+  if (req.query.to) range.$lte = new Date(req.query.to as string);
+  return Object.keys(range).length > 0 ? range : undefined;
+};
+
+// @route   GET /api/patients/:patientId/observations
+// @desc    List observations, newest first (filter by type, from/to, abnormal=true)
+// @access  Private (patients:read-clinical, care team)
+router.get('/',
+  requirePermission('patients:read', 'patients:read-clinical'),
+  validateObjectId('patientId'),
+  validateObservationQuery,
+  validatePagination,
+  handleValidationErrors,
+  async (req: AuthenticatedRequest, res: Response<ApiResponse>) => {
+    try {
+      const loaded = await loadPatient(req, res);
+      if (!loaded) {
+        return;
+      }
+
+      const page = parseInt(req.query.page as string) || 1;
+      const limit = parseInt(req.query.limit as string) || 20;
+      const skip = (page - 1) * limit;
+
+      const filter: any = { patient: loaded.patient._id };
+
+      // Readings entered in error stay hidden unless asked for
+      if (req.query.includeErrors !== 'true') {
+        filter.status = 'final';
+      }
+
+      if (req.query.type) {
+        filter.type = req.query.type;
+      }
+
+      if (req.query.abnormal === 'true') {
+        filter.flag = { $exists: true, $ne: 'normal' };
+      }
+
+      const observedAt = observedAtRange(req);
+      if (observedAt) {
+        filter.observedAt = observedAt;
+      }
+
+      const [observations, total] = await Promise.all([
+        Observation.find(filter)
+          .populate('recordedBy', 'firstName lastName role')
+          .sort({ observedAt: -1 })
+          .skip(skip)
+          .limit(limit),
+        Observation.countDocuments(filter)
+      ]);
+
+      res.json({
+        success: true,
+        ...(loaded.accessMode === 'break-glass' && { message: BREAK_GLASS_NOTICE }),
+        data: observations,
+        pagination: {
+          currentPage: page,
+          totalPages: Math.ceil(total / limit),
+          totalItems: total,
+          itemsPerPage: limit,
+        },
+      });
+    } catch (error) {
+      console.error('Get observations error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error',
+      });
+    }
+  }
+);
+
+// @route   GET /api/patients/:patientId/observations/trends?types=&from=&to=&interval=
+// @desc    Time series per observation type, raw or averaged per day, week or month
+// @access  Private (patients:read-clinical, care team)
+router.get('/trends',
+  requirePermission('patients:read', 'patients:read-clinical'),
+  validateObjectId('patientId'),
+  validateObservationTrends,
+  handleValidationErrors,
+  async (req: AuthenticatedRequest, res: Response<ApiResponse>) => {
+    try {
+      const loaded = await loadPatient(req, res);
+      if (!loaded) {
+        return;
+      }
+
+      const types = req.query.types
+        ? [...new Set((req.query.types as string).split(',').map(type => type.trim()))] as ObservationType[]
+        : OBSERVATION_TYPES;
+      const interval = (req.query.interval as TrendInterval) || 'raw';
+
+      const filter: any = {
+        patient: loaded.patient._id,
+        status: 'final',
+        type: { $in: types },
+      };
+
+      const observedAt = observedAtRange(req);
+      if (observedAt) {
+        filter.observedAt = observedAt;
+      }
+
+      const readings = await Observation.find(filter)
+        .select('type value flag observedAt')
+        .sort({ observedAt: 1 })
+        .lean();
+
+      res.json({
+        success: true,
+        ...(loaded.accessMode === 'break-glass' && { message: BREAK_GLASS_NOTICE }),
+        data: {
+          interval,
+          from: observedAt?.$gte,
+          to: observedAt?.$lte,
+          series: buildTrendSeries(readings, types, interval),
+        },
+      });
+    } catch (error) {
+      console.error('Get observation trends error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error',
+      });
+    }
+  }
+);
+
+// @route   GET /api/patients/:patientId/observations/summary
+// @desc    Latest reading of each type with derived values such as BMI
+// @access  Private (patients:read-clinical, care team)
+router.get('/summary',
+  requirePermission('patients:read', 'patients:read-clinical'),
+  validateObjectId('patientId'),
+  handleValidationErrors,
+  async (req: AuthenticatedRequest, res: Response<ApiResponse>) => {
+    try {
+      const loaded = await loadPatient(req, res);
+      if (!loaded) {
+        return;
+      }
+
+      const latestByType = await Observation.aggregate([
+        { $match: { patient: loaded.patient._id, status: 'final' } },
+        { $sort: { observedAt: -1 } },
+        { $group: { _id: '$type', latest: { $first: '$$ROOT' } } },
+      ]);
+
+      const latest: Record<string, any> = {};
+      latestByType.forEach(group => {
+        const { _id, type, value, unit, flag, referenceRange, observedAt } = group.latest;
+        latest[group._id] = { _id, type, value, unit, flag, referenceRange, observedAt };
+      });
+
+      res.json({
+        success: true,
+        ...(loaded.accessMode === 'break-glass' && { message: BREAK_GLASS_NOTICE }),
+        data: {
+          latest,
+          derived: {
+            bmi: deriveBmi(latest.weight, latest.height),
+          },
+        },
+      });
+    } catch (error) {
+      console.error('Get observation summary error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error',
+      });
+    }
+  }
+);
+
+// @route   POST /api/patients/:patientId/observations
+// @desc    Record a set of readings taken together, e.g. a round of vitals
+// @access  Private (patients:write, patients:read-clinical, care team)
+router.post('/',
+  requirePermission('patients:write', 'patients:read-clinical'),
+  validateObjectId('patientId'),
+  validateObservationRecording,
+  handleValidationErrors,
+  async (req: AuthenticatedRequest, res: Response<ApiResponse>) => {
+    try {
+      const loaded = await loadPatient(req, res);
+      if (!loaded) {
+        return;
+      }
+
+      const { readings, appointment, observedAt } = req.body;
+
+      if (appointment && !(await Appointment.exists({ _id: appointment, patient: loaded.patient._id }))) {
+        res.status(400).json({
+          success: false,
+          message: 'Appointment not found for this patient',
+        });
+        return;
+      }
+
+      const documents = [];
+      for (const reading of readings as Array<{ type: ObservationType; value: number; unit?: string; notes?: string }>) {
+        const definition = OBSERVATION_DEFINITIONS[reading.type];
+        const value = normaliseReading(reading.type, Number(reading.value), reading.unit);
+
+        if (value === undefined) {
+          res.status(400).json({
+            success: false,
+            message: `${definition.label} of ${reading.value} ${reading.unit || definition.unit} is outside the plausible range`,
+          });
+          return;
+        }
+
+        documents.push({
+          patient: loaded.patient._id,
+          appointment,
+          type: reading.type,
+          value,
+          unit: definition.unit,
+          referenceRange: referenceRangeOf(reading.type),
+          flag: classifyReading(reading.type, value),
+          observedAt: observedAt || new Date(),
+          notes: reading.notes,
+          recordedBy: req.user!._id,
+        });
+      }
+
+      const observations = await Observation.insertMany(documents);
+      recordAuditChanges(res, {}, { patient: loaded.patient._id, readings: observations.map(obs => obs.toObject()) });
+
+      res.status(201).json({
+        success: true,
+        message: 'Observations recorded successfully',
+        data: observations,
+      });
+    } catch (error) {
+      console.error('Record observations error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error',
+      });
+    }
+  }
+);
+
+// @route   DELETE /api/patients/:patientId/observations/:observationId
+// @desc    Mark a reading as entered in error (it is kept, but left out of lists and trends)
+// @access  Private (patients:write, patients:read-clinical, care team)
+router.delete('/:observationId',
+  requirePermission('patients:write', 'patients:read-clinical'),
+  validateObjectId('patientId'),
+  validateObjectId('observationId'),
+  validateObservationError,
+  handleValidationErrors,
+  async (req: AuthenticatedRequest, res: Response<ApiResponse>) => {
+    try {
+      const loaded = await loadPatient(req, res);
+      if (!loaded) {
+        return;
+      }
+
+      const observation = await Observation.findOne({
+        _id: req.params.observationId,
+        patient: loaded.patient._id,
+      });
+
+      if (!observation) {
+        res.status(404).json({
+          success: false,
+          message: 'Observation not found',
+        });
+        return;
+      }
+
+      if (observation.status === 'entered-in-error') {
+        res.status(400).json({
+          success: false,
+          message: 'Observation is already marked as entered in error',
+        });
+        return;
+      }
+
+      const before = observation.toObject();
+      observation.status = 'entered-in-error';
+      observation.errorReason = req.body.reason;
+      observation.updatedBy = req.user!._id;
+      await observation.save();
+      recordAuditChanges(res, before, observation.toObject());
+
+      res.json({
+        success: true,
+        message: 'Observation marked as entered in error',
+        data: observation,
+      });
+    } catch (error) {
+      console.error('Mark observation error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error',
+      });
+    }
+  }
+);
+
+export default router;
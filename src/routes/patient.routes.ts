@@ -1,37 +1,331 @@
-import express, { Request, Response } from 'express';
+import express, { NextFunction, Request, Response } from 'express';
+import { Types } from 'mongoose';
 import Patient from '../models/Patient.js';
-import { authenticate, authorize } from '../middleware/auth.js';
+import User from '../models/User.js';
+import BreakGlassAccess from '../models/BreakGlassAccess.js';
+import InteractionOverride from '../models/InteractionOverride.js';
+import EncounterNote from '../models/EncounterNote.js';
+import { authenticate, requirePermission } from '../middleware/auth.js';
 import { 
   validatePatientCreation, 
+  validateCareTeamMember,
+  validatePatientRestriction,
+  validateBreakGlass,
   validateObjectId, 
+  validateVersionNumber,
+  validateVersionDiff,
+  validateMedicalHistoryEntry,
+  validateMedicationEntry,
+  validateMedicationDiscontinuation,
+  validateInteractionOverride,
+  validateAllergyEntry,
   validatePagination,
   handleValidationErrors 
 } from '../middleware/validation.js';
-import { AuthenticatedRequest, ApiResponse } from '../types/index.js';
+import {
+  ACCESS_FIELDS,
+  BREAK_GLASS_NOTICE,
+  getPatientAccess,
+  patientProjection,
+  careTeamFilter,
+  isOnCareTeam,
+  isRestrictedFor,
+  restrictedSummary,
+  resolvePatientAccess,
+  breakGlassDurationMs
+} from '../utils/patientAccess.js';
+import { auditTrail, diffChanges, recordAuditChanges } from '../utils/audit.js';
+import { encryptedFieldsOf, isEncryptionPath } from '../utils/fieldEncryption.js';
+import { applySnapshot, findVersion, listVersions } from '../utils/versioning.js';
+import { SEVERE_INTERACTION_MESSAGE, recordInteractionOverride, screenPrescribing } from '../utils/drugInteractions.js';
+import { IMAGE_MIME_TYPES, acceptUpload, sendStoredFile, storeUpload } from '../utils/uploads.js';
+import { refreshImmunizationDueDates } from '../utils/immunizationDueDates.js';
+import { AuthenticatedRequest, ApiResponse, IPatient } from '../types/index.js';
 
 const router = express.Router();
 
-// Apply authentication to all routes
-router.use(authenticate);
+// Access is governed by its own endpoints and the immunization due date follows the
+// recorded doses, so a restore leaves them as they are
+const PATIENT_RESTORE_EXCLUDED_FIELDS = ['careTeam', 'restriction', 'isActive', 'nextImmunizationDueAt'];
+
+type ClinicalList = 'medicalHistory' | 'currentMedications' | 'allergies';
+
+// Fields a client may set on the entries of each clinical list
+const CLINICAL_ENTRY_FIELDS: Record<ClinicalList, string[]> = {
+  medicalHistory: ['condition', 'code', 'diagnosedDate', 'status', 'notes'],
+  currentMedications: ['name', 'dosage', 'frequency', 'startDate', 'endDate', 'prescribedBy'],
+  allergies: ['allergen', 'severity', 'reaction'],
+};
+
+const CLINICAL_ENTRY_NAMES: Record<ClinicalList, string> = {
+  medicalHistory: 'Medical history entry',
+  currentMedications: 'Medication',
+  allergies: 'Allergy',
+};
+
+// Where each list's entry endpoints live under /api/patients/:id
+const CLINICAL_LIST_PATHS: Record<ClinicalList, string> = {
+  medicalHistory: 'medical-history',
+  currentMedications: 'medications',
+  allergies: 'allergies',
+};
+
+const pickEntryFields = (list: ClinicalList, body: Record<string, any>): Record<string, any> => {
+  const fields: Record<string, any> = {};
+  CLINICAL_ENTRY_FIELDS[list].forEach(field => {
+    if (body[field] !== undefined) {
+      fields[field] = body[field];
+    }
+  });
+  return fields;
+};
+
+// Load an active patient for a clinical list change, answering 404/403 itself
+const loadPatientForEntryWrite = async (req: AuthenticatedRequest, res: Response<ApiResponse>): Promise<IPatient | null> => {
+  const patient = await Patient.findOne({ 
+    _id: req.params.id, 
+    isActive: true 
+  });
+
+  if (!patient) {
+    res.status(404).json({
+      success: false,
+      message: 'Patient not found',
+    });
+    return null;
+  }
+
+  if (!(await resolvePatientAccess(req, patient))) {
+    res.status(403).json({
+      success: false,
+      message: 'Patient is not under your care',
+    });
+    return null;
+  }
+
+  return patient;
+};
+
+// Load the patient before an upload is read, so refused requests are answered before
+// their file is buffered. The handler finds the patient on res.locals.patient.
+const loadPatientBeforeUpload = async (req: AuthenticatedRequest, res: Response<ApiResponse>, next: NextFunction) => {
+  try {
+    const patient = await loadPatientForEntryWrite(req, res);
+    if (patient) {
+      res.locals.patient = patient;
+      next();
+    }
+  } catch (error) {
+    console.error('Update patient profile image error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error',
+    });
+  }
+};
+
+const entriesOf = (patient: IPatient, list: ClinicalList): Types.DocumentArray<any> => {
+  return patient[list] as Types.DocumentArray<any>;
+};
+
+// Save a clinical list change with its author, recording it for the audit trail
+const saveEntryChange = async (
+  req: AuthenticatedRequest,
+  res: Response<ApiResponse>,
+  patient: IPatient,
+  before: Record<string, any>
+): Promise<void> => {
+  patient.$locals.changedBy = req.user!._id;
+  await patient.save();
+  recordAuditChanges(res, before, patient.toObject());
+};
+
+// Shared handler adding an entry to one of the patient's clinical lists
+const addClinicalEntry = (list: ClinicalList) => {
+  return async (req: AuthenticatedRequest, res: Response<ApiResponse>) => {
+    try {
+      const patient = await loadPatientForEntryWrite(req, res);
+      if (!patient) {
+        return;
+      }
+
+      const fields = pickEntryFields(list, req.body);
+
+      // New medications are screened against the patient's allergies and current medications
+      const screening = list === 'currentMedications'
+        ? screenPrescribing(patient, [fields.name], req.body.interactionOverrideReason)
+        : null;
+      if (screening?.blocked) {
+        res.status(409).json({
+          success: false,
+          message: SEVERE_INTERACTION_MESSAGE,
+          warnings: screening.warnings,
+        });
+        return;
+      }
+
+      const before = patient.toObject();
+      const entry = entriesOf(patient, list).create({
+        ...fields,
+        recordedBy: req.user!._id,
+        updatedBy: req.user!._id,
+      });
+      entriesOf(patient, list).push(entry);
+      await saveEntryChange(req, res, patient, before);
+
+      if (screening?.overridden) {
+        await recordInteractionOverride({
+          patient: patient._id,
+          medications: [fields.name],
+          warnings: screening.warnings,
+          reason: req.body.interactionOverrideReason,
+          overriddenBy: req.user!._id,
+        });
+      }
+
+      res.status(201).json({
+        success: true,
+        message: `${CLINICAL_ENTRY_NAMES[list]} added successfully`,
+        data: entriesOf(patient, list).id(entry._id),
+        ...(screening && { warnings: screening.warnings }),
+      });
+    } catch (error) {
+      console.error(`Add ${list} entry error:`, error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error',
+      });
+    }
+  };
+};
+
+// Shared handler updating the fields sent for one clinical list entry
+const updateClinicalEntry = (list: ClinicalList) => {
+  return async (req: AuthenticatedRequest, res: Response<ApiResponse>) => {
+    try {
+      const patient = await loadPatientForEntryWrite(req, res);
+      if (!patient) {
+        return;
+      }
+
+      const entry = entriesOf(patient, list).id(req.params.entryId);
+      if (!entry) {
+        res.status(404).json({
+          success: false,
+          message: `${CLINICAL_ENTRY_NAMES[list]} not found`,
+        });
+        return;
+      }
+
+      const fields = pickEntryFields(list, req.body);
+
+      // Switching an active medication to a different drug is screened like adding one
+      const screening = list === 'currentMedications' && entry.isActive && fields.name !== undefined && fields.name !== entry.name
+        ? screenPrescribing(patient, [fields.name], req.body.interactionOverrideReason, req.params.entryId)
+        : null;
+      if (screening?.blocked) {
+        res.status(409).json({
+          success: false,
+          message: SEVERE_INTERACTION_MESSAGE,
+          warnings: screening.warnings,
+        });
+        return;
+      }
+
+      const before = patient.toObject();
+      entry.set(fields);
+      entry.updatedBy = req.user!._id;
+      await saveEntryChange(req, res, patient, before);
+
+      if (screening?.overridden) {
+        await recordInteractionOverride({
+          patient: patient._id,
+          medications: [fields.name],
+          warnings: screening.warnings,
+          reason: req.body.interactionOverrideReason,
+          overriddenBy: req.user!._id,
+        });
+      }
+
+      res.json({
+        success: true,
+        message: `${CLINICAL_ENTRY_NAMES[list]} updated successfully`,
+        data: entriesOf(patient, list).id(req.params.entryId),
+        ...(screening && { warnings: screening.warnings }),
+      });
+    } catch (error) {
+      console.error(`Update ${list} entry error:`, error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error',
+      });
+    }
+  };
+};
+
+// Shared handler removing an entry recorded in error; earlier states stay in the version history
+const removeClinicalEntry = (list: ClinicalList) => {
+  return async (req: AuthenticatedRequest, res: Response<ApiResponse>) => {
+    try {
+      const patient = await loadPatientForEntryWrite(req, res);
+      if (!patient) {
+        return;
+      }
+
+      const entry = entriesOf(patient, list).id(req.params.entryId);
+      if (!entry) {
+        res.status(404).json({
+          success: false,
+          message: `${CLINICAL_ENTRY_NAMES[list]} not found`,
+        });
+        return;
+      }
+
+      const before = patient.toObject();
+      entry.deleteOne();
+      await saveEntryChange(req, res, patient, before);
+
+      res.json({
+        success: true,
+        message: `${CLINICAL_ENTRY_NAMES[list]} removed successfully`,
+      });
+    } catch (error) {
+      console.error(`Remove ${list} entry error:`, error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error',
+      });
+    }
+  };
+};
+
+// Apply authentication and audit logging to all routes
+router.use(authenticate, auditTrail('patient', encryptedFieldsOf(Patient)));
 
 // @route   GET /api/patients
 // @desc    Get all patients with pagination and filtering
-// @access  Private
-router.get('/', validatePagination, handleValidationErrors, async (req: AuthenticatedRequest, res: Response<ApiResponse>) => {
+// @access  Private (patients:read, limited to the care team for clinical users)
+router.get('/', requirePermission('patients:read'), validatePagination, handleValidationErrors, async (req: AuthenticatedRequest, res: Response<ApiResponse>) => {
   try {
     const page = parseInt(req.query.page as string) || 1;
     const limit = parseInt(req.query.limit as string) || 10;
     const skip = (page - 1) * limit;
+    const access = await getPatientAccess(req);
     
     // Build filter object
     const filter: any = { isActive: true };
+
+    if (access.careTeamOnly) {
+      filter.$and = [careTeamFilter(access)];
+    }
     
     if (req.query.search) {
       const searchRegex = new RegExp(req.query.search as string, 'i');
       filter.$or = [
         { firstName: searchRegex },
         { lastName: searchRegex },
-        { email: searchRegex },
+        // Email is encrypted, so it only matches exactly (via its blind index)
+        { email: req.query.search as string },
       ];
     }
 
@@ -46,6 +340,7 @@ router.get('/', validatePagination, handleValidationErrors, async (req: Authenti
     // Execute query with pagination
     const [patients, total] = await Promise.all([
       Patient.find(filter)
+        .select(patientProjection(access))
         .populate('primaryDoctor', 'firstName lastName email')
         .sort({ createdAt: -1 })
         .skip(skip)
@@ -53,9 +348,12 @@ router.get('/', validatePagination, handleValidationErrors, async (req: Authenti
       Patient.countDocuments(filter)
     ]);
 
+    // Restricted records outside the user's care team are listed by name only
+    const data = patients.map(patient => isRestrictedFor(patient, access.userId) ? restrictedSummary(patient) : patient);
+
     res.json({
       success: true,
-      data: patients,
+      data,
       pagination: {
         currentPage: page,
         totalPages: Math.ceil(total / limit),
@@ -73,14 +371,17 @@ router.get('/', validatePagination, handleValidationErrors, async (req: Authenti
 });
 
 // @route   GET /api/patients/:id
-// @desc    Get patient by ID
-// @access  Private
-router.get('/:id', validateObjectId('id'), handleValidationErrors, async (req: AuthenticatedRequest, res: Response<ApiResponse>) => {
+// @desc    Get patient by ID (clinical fields need patients:read-clinical)
+// @access  Private (patients:read, care team for clinical users)
+router.get('/:id', requirePermission('patients:read'), validateObjectId('id'), handleValidationErrors, async (req: AuthenticatedRequest, res: Response<ApiResponse>) => {
   try {
+    const access = await getPatientAccess(req);
     const patient = await Patient.findOne({ 
       _id: req.params.id, 
       isActive: true 
-    }).populate('primaryDoctor', 'firstName lastName email');
+    })
+    .select(patientProjection(access))
+    .populate('primaryDoctor', 'firstName lastName email');
 
     if (!patient) {
       res.status(404).json({
@@ -90,8 +391,18 @@ router.get('/:id', validateObjectId('id'), handleValidationErrors, async (req: A
       return;
     }
 
+    const accessMode = await resolvePatientAccess(req, patient);
+    if (!accessMode) {
+      res.status(403).json({
+        success: false,
+        message: 'Patient is not under your care',
+      });
+      return;
+    }
+
     res.json({
       success: true,
+      ...(accessMode === 'break-glass' && { message: BREAK_GLASS_NOTICE }),
       data: patient,
     });
   } catch (error) {
@@ -105,9 +416,9 @@ router.get('/:id', validateObjectId('id'), handleValidationErrors, async (req: A
 
 // @route   POST /api/patients
 // @desc    Create new patient
-// @access  Private (Admin, Doctor, Nurse)
+// @access  Private (patients:write)
 router.post('/', 
-  authorize('admin', 'doctor', 'nurse'), 
+  requirePermission('patients:write'),
   validatePatientCreation, 
   handleValidationErrors, 
   async (req: AuthenticatedRequest, res: Response<ApiResponse>) => {
@@ -126,8 +437,29 @@ router.post('/',
         return;
       }
 
+      // The care team, restriction and profile image are managed through their own endpoints,
+      // and the immunization due date follows the recorded doses
+      delete req.body.careTeam;
+      delete req.body.restriction;
+      delete req.body.profileImage;
+      delete req.body.profileImageFile;
+      delete req.body.nextImmunizationDueAt;
+
+      // Ciphertext and blind indexes are only ever written by the encryption plugin
+      Object.keys(req.body).filter(isEncryptionPath).forEach(path => delete req.body[path]);
+
       const patient = new Patient(req.body);
+
+      // Scoped clinicians join the care team of patients they register
+      const access = await getPatientAccess(req);
+      if (access.careTeamOnly && !isOnCareTeam(patient, access.userId)) {
+        patient.careTeam.push({ user: access.userId, role: req.user!.role, addedBy: access.userId });
+      }
+
+      patient.$locals.changedBy = req.user!._id;
       await patient.save();
+      recordAuditChanges(res, {}, patient.toObject(), patient._id);
+      await refreshImmunizationDueDates([patient]);
 
       // Populate the response
       await patient.populate('primaryDoctor', 'firstName lastName email');
@@ -149,14 +481,24 @@ router.post('/',
 
 // @route   PUT /api/patients/:id
 // @desc    Update patient
-// @access  Private (Admin, Doctor, Nurse)
+// @access  Private (patients:write, care team)
 router.put('/:id', 
-  authorize('admin', 'doctor', 'nurse'),
+  requirePermission('patients:write'),
   validateObjectId('id'),
   validatePatientCreation,
   handleValidationErrors,
   async (req: AuthenticatedRequest, res: Response<ApiResponse>) => {
     try {
+      // Replacing a clinical list would drop each entry's id, author and history
+      const replacedLists = (Object.keys(CLINICAL_LIST_PATHS) as ClinicalList[]).filter(list => req.body[list] !== undefined);
+      if (replacedLists.length > 0) {
+        res.status(400).json({
+          success: false,
+          message: `${replacedLists.join(', ')} cannot be replaced here, use ${replacedLists.map(list => `/api/patients/:id/${CLINICAL_LIST_PATHS[list]}`).join(', ')}`,
+        });
+        return;
+      }
+
       const patient = await Patient.findOne({ 
         _id: req.params.id, 
         isActive: true 
@@ -170,6 +512,25 @@ router.put('/:id',
         return;
       }
 
+      if (!(await resolvePatientAccess(req, patient))) {
+        res.status(403).json({
+          success: false,
+          message: 'Patient is not under your care',
+        });
+        return;
+      }
+
+      // The care team, restriction and profile image are managed through their own endpoints,
+      // and the immunization due date follows the recorded doses
+      delete req.body.careTeam;
+      delete req.body.restriction;
+      delete req.body.profileImage;
+      delete req.body.profileImageFile;
+      delete req.body.nextImmunizationDueAt;
+
+      // Ciphertext and blind indexes are only ever written by the encryption plugin
+      Object.keys(req.body).filter(isEncryptionPath).forEach(path => delete req.body[path]);
+
       // Check if email is being changed and if it conflicts
       if (req.body.email !== patient.email) {
         const existingPatient = await Patient.findOne({ 
@@ -187,9 +548,16 @@ router.put('/:id',
         }
       }
 
-      // Update patient
+      // Update patient, keeping a snapshot for the audit trail
+      const before = patient.toObject();
       Object.assign(patient, req.body);
+      const dateOfBirthChanged = patient.isModified('dateOfBirth');
+      patient.$locals.changedBy = req.user!._id;
       await patient.save();
+      recordAuditChanges(res, before, patient.toObject());
+      if (dateOfBirthChanged) {
+        await refreshImmunizationDueDates([patient]);
+      }
 
       // Populate the response
       await patient.populate('primaryDoctor', 'firstName lastName email');
@@ -211,9 +579,9 @@ router.put('/:id',
 
 // @route   DELETE /api/patients/:id
 // @desc    Soft delete patient
-// @access  Private (Admin only)
+// @access  Private (patients:delete)
 router.delete('/:id', 
-  authorize('admin'),
+  requirePermission('patients:delete'),
   validateObjectId('id'),
   handleValidationErrors,
   async (req: AuthenticatedRequest, res: Response<ApiResponse>) => {
@@ -232,8 +600,11 @@ router.delete('/:id',
       }
 
       // Soft delete
+      const before = patient.toObject();
       patient.isActive = false;
+      patient.$locals.changedBy = req.user!._id;
       await patient.save();
+      recordAuditChanges(res, before, patient.toObject());
 
       res.json({
         success: true,
@@ -249,10 +620,11 @@ router.delete('/:id',
   }
 );
 
-// @route   GET /api/patients/:id/medical-history
-// @desc    Get patient medical history
-// @access  Private
-router.get('/:id/medical-history', 
+// @route   GET /api/patients/:id/versions
+// @desc    List the saved versions of a patient record, newest first
+// @access  Private (patients:read-clinical, care team)
+router.get('/:id/versions', 
+  requirePermission('patients:read', 'patients:read-clinical'),
   validateObjectId('id'), 
   handleValidationErrors, 
   async (req: AuthenticatedRequest, res: Response<ApiResponse>) => {
@@ -260,7 +632,7 @@ router.get('/:id/medical-history',
       const patient = await Patient.findOne({ 
         _id: req.params.id, 
         isActive: true 
-      }).select('medicalHistory');
+      }).select(ACCESS_FIELDS);
 
       if (!patient) {
         res.status(404).json({
@@ -270,12 +642,24 @@ router.get('/:id/medical-history',
         return;
       }
 
+      const accessMode = await resolvePatientAccess(req, patient);
+      if (!accessMode) {
+        res.status(403).json({
+          success: false,
+          message: 'Patient is not under your care',
+        });
+        return;
+      }
+
+      const versions = await listVersions('patient', patient._id);
+
       res.json({
         success: true,
-        data: patient.medicalHistory,
+        ...(accessMode === 'break-glass' && { message: BREAK_GLASS_NOTICE }),
+        data: versions,
       });
     } catch (error) {
-      console.error('Get medical history error:', error);
+      console.error('Get patient versions error:', error);
       res.status(500).json({
         success: false,
         message: 'Internal server error',
@@ -284,18 +668,20 @@ router.get('/:id/medical-history',
   }
 );
 
-// @route   GET /api/patients/:id/medications
-// @desc    Get patient current medications
-// @access  Private
-router.get('/:id/medications', 
+// @route   GET /api/patients/:id/versions/diff?from=&to=
+// @desc    Field-level differences between two versions of a patient record
+// @access  Private (patients:read-clinical, care team)
+router.get('/:id/versions/diff', 
+  requirePermission('patients:read', 'patients:read-clinical'),
   validateObjectId('id'), 
+  validateVersionDiff,
   handleValidationErrors, 
   async (req: AuthenticatedRequest, res: Response<ApiResponse>) => {
     try {
       const patient = await Patient.findOne({ 
         _id: req.params.id, 
         isActive: true 
-      }).select('currentMedications');
+      }).select(ACCESS_FIELDS);
 
       if (!patient) {
         res.status(404).json({
@@ -305,15 +691,1031 @@ router.get('/:id/medications',
         return;
       }
 
-      // Filter active medications
-      const activeMedications = patient.currentMedications.filter(med => med.isActive);
+      const accessMode = await resolvePatientAccess(req, patient);
+      if (!accessMode) {
+        res.status(403).json({
+          success: false,
+          message: 'Patient is not under your care',
+        });
+        return;
+      }
+
+      const [from, to] = await Promise.all([
+        findVersion('patient', patient._id, parseInt(req.query.from as string)),
+        findVersion('patient', patient._id, parseInt(req.query.to as string)),
+      ]);
+
+      if (!from || !to) {
+        res.status(404).json({
+          success: false,
+          message: 'Version not found',
+        });
+        return;
+      }
 
       res.json({
         success: true,
-        data: activeMedications,
+        ...(accessMode === 'break-glass' && { message: BREAK_GLASS_NOTICE }),
+        data: {
+          from: from.version,
+          to: to.version,
+          changes: diffChanges(from.snapshot, to.snapshot),
+        },
       });
     } catch (error) {
-      console.error('Get medications error:', error);
+      console.error('Diff patient versions error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error',
+      });
+    }
+  }
+);
+
+// @route   GET /api/patients/:id/versions/:version
+// @desc    Get a single version of a patient record with its full snapshot
+// @access  Private (patients:read-clinical, care team)
+router.get('/:id/versions/:version', 
+  requirePermission('patients:read', 'patients:read-clinical'),
+  validateObjectId('id'), 
+  validateVersionNumber,
+  handleValidationErrors, 
+  async (req: AuthenticatedRequest, res: Response<ApiResponse>) => {
+    try {
+      const patient = await Patient.findOne({ 
+        _id: req.params.id, 
+        isActive: true 
+      }).select(ACCESS_FIELDS);
+
+      if (!patient) {
+        res.status(404).json({
+          success: false,
+          message: 'Patient not found',
+        });
+        return;
+      }
+
+      const accessMode = await resolvePatientAccess(req, patient);
+      if (!accessMode) {
+        res.status(403).json({
+          success: false,
+          message: 'Patient is not under your care',
+        });
+        return;
+      }
+
+      const version = await findVersion('patient', patient._id, parseInt(req.params.version));
+
+      if (!version) {
+        res.status(404).json({
+          success: false,
+          message: 'Version not found',
+        });
+        return;
+      }
+
+      res.json({
+        success: true,
+        ...(accessMode === 'break-glass' && { message: BREAK_GLASS_NOTICE }),
+        data: version,
+      });
+    } catch (error) {
+      console.error('Get patient version error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error',
+      });
+    }
+  }
+);
+
+// @route   POST /api/patients/:id/versions/:version/restore
+// @desc    Restore a patient record to a prior version, saved as a new version
+// @access  Private (patients:write, care team)
+router.post('/:id/versions/:version/restore', 
+  requirePermission('patients:write'),
+  validateObjectId('id'),
+  validateVersionNumber,
+  handleValidationErrors,
+  async (req: AuthenticatedRequest, res: Response<ApiResponse>) => {
+    try {
+      const patient = await Patient.findOne({ 
+        _id: req.params.id, 
+        isActive: true 
+      });
+
+      if (!patient) {
+        res.status(404).json({
+          success: false,
+          message: 'Patient not found',
+        });
+        return;
+      }
+
+      if (!(await resolvePatientAccess(req, patient))) {
+        res.status(403).json({
+          success: false,
+          message: 'Patient is not under your care',
+        });
+        return;
+      }
+
+      const version = await findVersion('patient', patient._id, parseInt(req.params.version));
+
+      if (!version) {
+        res.status(404).json({
+          success: false,
+          message: 'Version not found',
+        });
+        return;
+      }
+
+      // The restored email may have been taken by another patient since
+      if (version.snapshot.email !== patient.email) {
+        const existingPatient = await Patient.findOne({ 
+          email: version.snapshot.email,
+          _id: { $ne: req.params.id },
+          isActive: true 
+        });
+
+        if (existingPatient) {
+          res.status(400).json({
+            success: false,
+            message: 'Patient with this email already exists',
+          });
+          return;
+        }
+      }
+
+      const before = patient.toObject();
+      applySnapshot(patient, version, PATIENT_RESTORE_EXCLUDED_FIELDS);
+      const dateOfBirthChanged = patient.isModified('dateOfBirth');
+      patient.$locals.changedBy = req.user!._id;
+      await patient.save();
+      recordAuditChanges(res, before, patient.toObject());
+      if (dateOfBirthChanged) {
+        await refreshImmunizationDueDates([patient]);
+      }
+
+      // Populate the response
+      await patient.populate('primaryDoctor', 'firstName lastName email');
+
+      res.json({
+        success: true,
+        message: `Patient restored to version ${version.version}`,
+        data: patient,
+      });
+    } catch (error) {
+      console.error('Restore patient version error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error',
+      });
+    }
+  }
+);
+
+// @route   GET /api/patients/:id/medical-history
+// @desc    Get patient medical history
+// @access  Private (patients:read-clinical, care team)
+router.get('/:id/medical-history', 
+  requirePermission('patients:read', 'patients:read-clinical'),
+  validateObjectId('id'), 
+  handleValidationErrors, 
+  async (req: AuthenticatedRequest, res: Response<ApiResponse>) => {
+    try {
+      const patient = await Patient.findOne({ 
+        _id: req.params.id, 
+        isActive: true 
+      }).select(`medicalHistory ${ACCESS_FIELDS}`);
+
+      if (!patient) {
+        res.status(404).json({
+          success: false,
+          message: 'Patient not found',
+        });
+        return;
+      }
+
+      const accessMode = await resolvePatientAccess(req, patient);
+      if (!accessMode) {
+        res.status(403).json({
+          success: false,
+          message: 'Patient is not under your care',
+        });
+        return;
+      }
+
+      res.json({
+        success: true,
+        ...(accessMode === 'break-glass' && { message: BREAK_GLASS_NOTICE }),
+        data: patient.medicalHistory,
+      });
+    } catch (error) {
+      console.error('Get medical history error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error',
+      });
+    }
+  }
+);
+
+// @route   POST /api/patients/:id/medical-history
+// @desc    Add a condition to the patient's medical history
+// @access  Private (patients:write, patients:read-clinical, care team)
+router.post('/:id/medical-history', 
+  requirePermission('patients:write', 'patients:read-clinical'),
+  validateObjectId('id'),
+  validateMedicalHistoryEntry(),
+  handleValidationErrors,
+  addClinicalEntry('medicalHistory')
+);
+
+// @route   PUT /api/patients/:id/medical-history/:entryId
+// @desc    Update a medical history entry
+// @access  Private (patients:write, patients:read-clinical, care team)
+router.put('/:id/medical-history/:entryId', 
+  requirePermission('patients:write', 'patients:read-clinical'),
+  validateObjectId('id'),
+  validateObjectId('entryId'),
+  validateMedicalHistoryEntry(true),
+  handleValidationErrors,
+  updateClinicalEntry('medicalHistory')
+);
+
+// @route   DELETE /api/patients/:id/medical-history/:entryId
+// @desc    Remove a medical history entry recorded in error
+// @access  Private (patients:write, patients:read-clinical, care team)
+router.delete('/:id/medical-history/:entryId', 
+  requirePermission('patients:write', 'patients:read-clinical'),
+  validateObjectId('id'),
+  validateObjectId('entryId'),
+  handleValidationErrors,
+  removeClinicalEntry('medicalHistory')
+);
+
+// @route   GET /api/patients/:id/medications?includeInactive=true
+// @desc    Get patient current medications (discontinued ones on request)
+// @access  Private (patients:read-clinical, care team)
+router.get('/:id/medications', 
+  requirePermission('patients:read', 'patients:read-clinical'),
+  validateObjectId('id'), 
+  handleValidationErrors, 
+  async (req: AuthenticatedRequest, res: Response<ApiResponse>) => {
+    try {
+      const patient = await Patient.findOne({ 
+        _id: req.params.id, 
+        isActive: true 
+      }).select(`currentMedications ${ACCESS_FIELDS}`);
+
+      if (!patient) {
+        res.status(404).json({
+          success: false,
+          message: 'Patient not found',
+        });
+        return;
+      }
+
+      const accessMode = await resolvePatientAccess(req, patient);
+      if (!accessMode) {
+        res.status(403).json({
+          success: false,
+          message: 'Patient is not under your care',
+        });
+        return;
+      }
+
+      // Filter active medications unless the full list was asked for
+      const medications = req.query.includeInactive === 'true'
+        ? patient.currentMedications
+        : patient.currentMedications.filter(med => med.isActive);
+
+      res.json({
+        success: true,
+        ...(accessMode === 'break-glass' && { message: BREAK_GLASS_NOTICE }),
+        data: medications,
+      });
+    } catch (error) {
+      console.error('Get medications error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error',
+      });
+    }
+  }
+);
+
+// @route   POST /api/patients/:id/medications
+// @desc    Add a medication the patient is taking
+// @access  Private (patients:write, patients:read-clinical, care team)
+router.post('/:id/medications', 
+  requirePermission('patients:write', 'patients:read-clinical'),
+  validateObjectId('id'),
+  validateMedicationEntry(),
+  validateInteractionOverride,
+  handleValidationErrors,
+  addClinicalEntry('currentMedications')
+);
+
+// @route   PUT /api/patients/:id/medications/:entryId
+// @desc    Update a medication entry
+// @access  Private (patients:write, patients:read-clinical, care team)
+router.put('/:id/medications/:entryId', 
+  requirePermission('patients:write', 'patients:read-clinical'),
+  validateObjectId('id'),
+  validateObjectId('entryId'),
+  validateMedicationEntry(true),
+  validateInteractionOverride,
+  handleValidationErrors,
+  updateClinicalEntry('currentMedications')
+);
+
+// @route   DELETE /api/patients/:id/medications/:entryId
+// @desc    Discontinue a medication, keeping it on the record with its end date
+// @access  Private (patients:write, patients:read-clinical, care team)
+router.delete('/:id/medications/:entryId', 
+  requirePermission('patients:write', 'patients:read-clinical'),
+  validateObjectId('id'),
+  validateObjectId('entryId'),
+  validateMedicationDiscontinuation,
+  handleValidationErrors,
+  async (req: AuthenticatedRequest, res: Response<ApiResponse>) => {
+    try {
+      const patient = await loadPatientForEntryWrite(req, res);
+      if (!patient) {
+        return;
+      }
+
+      const medication = patient.currentMedications.id(req.params.entryId);
+      if (!medication) {
+        res.status(404).json({
+          success: false,
+          message: 'Medication not found',
+        });
+        return;
+      }
+
+      if (!medication.isActive) {
+        res.status(400).json({
+          success: false,
+          message: 'Medication is already discontinued',
+        });
+        return;
+      }
+
+      const before = patient.toObject();
+      medication.isActive = false;
+      medication.endDate = req.body.endDate ? new Date(req.body.endDate) : new Date();
+      medication.discontinuedReason = req.body.reason;
+      medication.updatedBy = req.user!._id;
+      await saveEntryChange(req, res, patient, before);
+
+      res.json({
+        success: true,
+        message: 'Medication discontinued successfully',
+        data: patient.currentMedications.id(req.params.entryId),
+      });
+    } catch (error) {
+      console.error('Discontinue medication error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error',
+      });
+    }
+  }
+);
+
+// @route   GET /api/patients/:id/allergies
+// @desc    Get patient allergies
+// @access  Private (patients:read-clinical, care team)
+router.get('/:id/allergies', 
+  requirePermission('patients:read', 'patients:read-clinical'),
+  validateObjectId('id'), 
+  handleValidationErrors, 
+  async (req: AuthenticatedRequest, res: Response<ApiResponse>) => {
+    try {
+      const patient = await Patient.findOne({ 
+        _id: req.params.id, 
+        isActive: true 
+      }).select(`allergies ${ACCESS_FIELDS}`);
+
+      if (!patient) {
+        res.status(404).json({
+          success: false,
+          message: 'Patient not found',
+        });
+        return;
+      }
+
+      const accessMode = await resolvePatientAccess(req, patient);
+      if (!accessMode) {
+        res.status(403).json({
+          success: false,
+          message: 'Patient is not under your care',
+        });
+        return;
+      }
+
+      res.json({
+        success: true,
+        ...(accessMode === 'break-glass' && { message: BREAK_GLASS_NOTICE }),
+        data: patient.allergies,
+      });
+    } catch (error) {
+      console.error('Get allergies error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error',
+      });
+    }
+  }
+);
+
+// @route   POST /api/patients/:id/allergies
+// @desc    Record an allergy
+// @access  Private (patients:write, patients:read-clinical, care team)
+router.post('/:id/allergies', 
+  requirePermission('patients:write', 'patients:read-clinical'),
+  validateObjectId('id'),
+  validateAllergyEntry(),
+  handleValidationErrors,
+  addClinicalEntry('allergies')
+);
+
+// @route   PUT /api/patients/:id/allergies/:entryId
+// @desc    Update an allergy entry
+// @access  Private (patients:write, patients:read-clinical, care team)
+router.put('/:id/allergies/:entryId', 
+  requirePermission('patients:write', 'patients:read-clinical'),
+  validateObjectId('id'),
+  validateObjectId('entryId'),
+  validateAllergyEntry(true),
+  handleValidationErrors,
+  updateClinicalEntry('allergies')
+);
+
+// @route   DELETE /api/patients/:id/allergies/:entryId
+// @desc    Remove an allergy recorded in error
+// @access  Private (patients:write, patients:read-clinical, care team)
+router.delete('/:id/allergies/:entryId', 
+  requirePermission('patients:write', 'patients:read-clinical'),
+  validateObjectId('id'),
+  validateObjectId('entryId'),
+  handleValidationErrors,
+  removeClinicalEntry('allergies')
+);
+
+// @route   GET /api/patients/:id/interaction-overrides
+// @desc    Prescriptions and medications recorded despite severe interaction warnings
+// @access  Private (patients:read-clinical, care team)
+router.get('/:id/interaction-overrides', 
+  requirePermission('patients:read', 'patients:read-clinical'),
+  validateObjectId('id'), 
+  handleValidationErrors, 
+  async (req: AuthenticatedRequest, res: Response<ApiResponse>) => {
+    try {
+      const patient = await Patient.findOne({ 
+        _id: req.params.id, 
+        isActive: true 
+      }).select(ACCESS_FIELDS);
+
+      if (!patient) {
+        res.status(404).json({
+          success: false,
+          message: 'Patient not found',
+        });
+        return;
+      }
+
+      const accessMode = await resolvePatientAccess(req, patient);
+      if (!accessMode) {
+        res.status(403).json({
+          success: false,
+          message: 'Patient is not under your care',
+        });
+        return;
+      }
+
+      const overrides = await InteractionOverride.find({ patient: patient._id })
+        .sort({ createdAt: -1 })
+        .populate('overriddenBy', 'firstName lastName role');
+
+      res.json({
+        success: true,
+        ...(accessMode === 'break-glass' && { message: BREAK_GLASS_NOTICE }),
+        data: overrides,
+      });
+    } catch (error) {
+      console.error('Get interaction overrides error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error',
+      });
+    }
+  }
+);
+
+// @route   GET /api/patients/:id/encounter-notes
+// @desc    Signed encounter notes across the patient's visits, plus the user's own drafts
+// @access  Private (patients:read-clinical, care team)
+router.get('/:id/encounter-notes', 
+  requirePermission('patients:read', 'patients:read-clinical'),
+  validateObjectId('id'), 
+  validatePagination,
+  handleValidationErrors, 
+  async (req: AuthenticatedRequest, res: Response<ApiResponse>) => {
+    try {
+      const page = parseInt(req.query.page as string) || 1;
+      const limit = parseInt(req.query.limit as string) || 10;
+      const skip = (page - 1) * limit;
+
+      const patient = await Patient.findOne({ 
+        _id: req.params.id, 
+        isActive: true 
+      }).select(ACCESS_FIELDS);
+
+      if (!patient) {
+        res.status(404).json({
+          success: false,
+          message: 'Patient not found',
+        });
+        return;
+      }
+
+      const accessMode = await resolvePatientAccess(req, patient);
+      if (!accessMode) {
+        res.status(403).json({
+          success: false,
+          message: 'Patient is not under your care',
+        });
+        return;
+      }
+
+      const filter = {
+        patient: patient._id,
+        $or: [{ status: 'signed' }, { author: req.user!._id }],
+      };
+
+      const [notes, total] = await Promise.all([
+        EncounterNote.find(filter)
+          .sort({ createdAt: -1 })
+          .skip(skip)
+          .limit(limit),
+        EncounterNote.countDocuments(filter)
+      ]);
+
+      // Addenda are decrypted on hydration, so population happens on the documents
+      await EncounterNote.populate(notes, [
+        { path: 'appointment', select: 'date time type doctor' },
+        { path: 'author', select: 'firstName lastName role' },
+        { path: 'signedBy', select: 'firstName lastName role' },
+        { path: 'addenda.author', select: 'firstName lastName role' },
+      ]);
+
+      res.json({
+        success: true,
+        ...(accessMode === 'break-glass' && { message: BREAK_GLASS_NOTICE }),
+        data: notes,
+        pagination: {
+          currentPage: page,
+          totalPages: Math.ceil(total / limit),
+          totalItems: total,
+          itemsPerPage: limit,
+        },
+      });
+    } catch (error) {
+      console.error('Get encounter notes error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error',
+      });
+    }
+  }
+);
+
+// @route   GET /api/patients/:id/profile-image
+// @desc    Get the patient's profile photo
+// @access  Private (patients:read, care team)
+router.get('/:id/profile-image', 
+  requirePermission('patients:read'),
+  validateObjectId('id'), 
+  handleValidationErrors, 
+  async (req: AuthenticatedRequest, res: Response<ApiResponse>) => {
+    try {
+      const patient = await Patient.findOne({ 
+        _id: req.params.id, 
+        isActive: true 
+      }).select(`${ACCESS_FIELDS} profileImageFile`);
+
+      if (!patient) {
+        res.status(404).json({
+          success: false,
+          message: 'Patient not found',
+        });
+        return;
+      }
+
+      const accessMode = await resolvePatientAccess(req, patient);
+      if (!accessMode) {
+        res.status(403).json({
+          success: false,
+          message: 'Patient is not under your care',
+        });
+        return;
+      }
+
+      if (!patient.profileImageFile) {
+        res.status(404).json({
+          success: false,
+          message: 'Patient has no profile image',
+        });
+        return;
+      }
+
+      await sendStoredFile(res, patient.profileImageFile);
+    } catch (error) {
+      console.error('Get patient profile image error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error',
+      });
+    }
+  }
+);
+
+// @route   PUT /api/patients/:id/profile-image
+// @desc    Upload the patient's profile photo (multipart: file)
+// @access  Private (patients:write, care team)
+router.put('/:id/profile-image', 
+  requirePermission('patients:write'),
+  validateObjectId('id'), 
+  handleValidationErrors, 
+  loadPatientBeforeUpload,
+  acceptUpload('file', IMAGE_MIME_TYPES),
+  async (req: AuthenticatedRequest, res: Response<ApiResponse>) => {
+    try {
+      const patient = res.locals.patient as IPatient;
+
+      // Earlier photos are kept so that restoring an old version of the record still finds its file
+      const before = patient.toObject();
+      patient.profileImageFile = await storeUpload(req.file!, `patients/${patient._id}/profile`);
+      patient.profileImage = `/api/patients/${patient._id}/profile-image`;
+      patient.$locals.changedBy = req.user!._id;
+      await patient.save();
+      recordAuditChanges(res, before, patient.toObject());
+
+      res.json({
+        success: true,
+        message: 'Profile image updated successfully',
+        data: {
+          profileImage: patient.profileImage,
+          profileImageFile: patient.profileImageFile,
+        },
+      });
+    } catch (error) {
+      console.error('Update patient profile image error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error',
+      });
+    }
+  }
+);
+
+// @route   GET /api/patients/:id/care-team
+// @desc    Get the patient's primary doctor and care team
+// @access  Private (patients:read-clinical, care team)
+router.get('/:id/care-team', 
+  requirePermission('patients:read', 'patients:read-clinical'),
+  validateObjectId('id'), 
+  handleValidationErrors, 
+  async (req: AuthenticatedRequest, res: Response<ApiResponse>) => {
+    try {
+      const patient = await Patient.findOne({ 
+        _id: req.params.id, 
+        isActive: true 
+      }).select(ACCESS_FIELDS);
+
+      if (!patient) {
+        res.status(404).json({
+          success: false,
+          message: 'Patient not found',
+        });
+        return;
+      }
+
+      const accessMode = await resolvePatientAccess(req, patient);
+      if (!accessMode) {
+        res.status(403).json({
+          success: false,
+          message: 'Patient is not under your care',
+        });
+        return;
+      }
+
+      await patient.populate([
+        { path: 'primaryDoctor', select: 'firstName lastName email role' },
+        { path: 'careTeam.user', select: 'firstName lastName email role' },
+        { path: 'careTeam.addedBy', select: 'firstName lastName' }
+      ]);
+
+      res.json({
+        success: true,
+        ...(accessMode === 'break-glass' && { message: BREAK_GLASS_NOTICE }),
+        data: {
+          primaryDoctor: patient.primaryDoctor,
+          careTeam: patient.careTeam,
+        },
+      });
+    } catch (error) {
+      console.error('Get care team error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error',
+      });
+    }
+  }
+);
+
+// @route   POST /api/patients/:id/care-team
+// @desc    Add a user to the patient's care team
+// @access  Private (patients:write, care team)
+router.post('/:id/care-team', 
+  requirePermission('patients:write'),
+  validateObjectId('id'),
+  validateCareTeamMember,
+  handleValidationErrors,
+  async (req: AuthenticatedRequest, res: Response<ApiResponse>) => {
+    try {
+      const patient = await Patient.findOne({ 
+        _id: req.params.id, 
+        isActive: true 
+      });
+
+      if (!patient) {
+        res.status(404).json({
+          success: false,
+          message: 'Patient not found',
+        });
+        return;
+      }
+
+      // Break-glass access must not be turned into a standing care-team membership
+      if ((await resolvePatientAccess(req, patient)) !== 'ordinary') {
+        res.status(403).json({
+          success: false,
+          message: 'Patient is not under your care',
+        });
+        return;
+      }
+
+      const member = await User.findOne({ _id: req.body.user, isActive: true });
+      if (!member) {
+        res.status(400).json({
+          success: false,
+          message: 'User not found',
+        });
+        return;
+      }
+
+      if (isOnCareTeam(patient, member._id)) {
+        res.status(400).json({
+          success: false,
+          message: 'User is already on the care team',
+        });
+        return;
+      }
+
+      const before = patient.toObject();
+      patient.careTeam.push({
+        user: member._id,
+        role: req.body.role || member.role,
+        addedBy: req.user!._id,
+      });
+      patient.$locals.changedBy = req.user!._id;
+      await patient.save();
+      recordAuditChanges(res, before, patient.toObject());
+
+      res.status(201).json({
+        success: true,
+        message: 'Care team member added successfully',
+        data: patient.careTeam,
+      });
+    } catch (error) {
+      console.error('Add care team member error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error',
+      });
+    }
+  }
+);
+
+// @route   DELETE /api/patients/:id/care-team/:userId
+// @desc    Remove a user from the patient's care team
+// @access  Private (patients:write, care team)
+router.delete('/:id/care-team/:userId', 
+  requirePermission('patients:write'),
+  validateObjectId('id'),
+  validateObjectId('userId'),
+  handleValidationErrors,
+  async (req: AuthenticatedRequest, res: Response<ApiResponse>) => {
+    try {
+      const patient = await Patient.findOne({ 
+        _id: req.params.id, 
+        isActive: true 
+      });
+
+      if (!patient) {
+        res.status(404).json({
+          success: false,
+          message: 'Patient not found',
+        });
+        return;
+      }
+
+      // Break-glass access must not be turned into a standing care-team membership
+      if ((await resolvePatientAccess(req, patient)) !== 'ordinary') {
+        res.status(403).json({
+          success: false,
+          message: 'Patient is not under your care',
+        });
+        return;
+      }
+
+      const member = patient.careTeam.find(entry => entry.user.toString() === req.params.userId);
+      if (!member) {
+        res.status(404).json({
+          success: false,
+          message: 'User is not on the care team',
+        });
+        return;
+      }
+
+      const before = patient.toObject();
+      patient.careTeam.pull(member._id);
+      patient.$locals.changedBy = req.user!._id;
+      await patient.save();
+      recordAuditChanges(res, before, patient.toObject());
+
+      res.json({
+        success: true,
+        message: 'Care team member removed successfully',
+        data: patient.careTeam,
+      });
+    } catch (error) {
+      console.error('Remove care team member error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error',
+      });
+    }
+  }
+);
+
+// @route   PUT /api/patients/:id/restriction
+// @desc    Mark a patient record as restricted (psychiatric, VIP, employee)
+// @access  Private (patients:restrict)
+router.put('/:id/restriction', 
+  requirePermission('patients:restrict'),
+  validateObjectId('id'),
+  validatePatientRestriction,
+  handleValidationErrors,
+  async (req: AuthenticatedRequest, res: Response<ApiResponse>) => {
+    try {
+      const patient = await Patient.findOne({ 
+        _id: req.params.id, 
+        isActive: true 
+      });
+
+      if (!patient) {
+        res.status(404).json({
+          success: false,
+          message: 'Patient not found',
+        });
+        return;
+      }
+
+      const before = patient.toObject();
+      patient.restriction = {
+        category: req.body.category,
+        reason: req.body.reason,
+        setBy: req.user!._id,
+        setAt: new Date(),
+      };
+      patient.$locals.changedBy = req.user!._id;
+      await patient.save();
+      recordAuditChanges(res, before, patient.toObject());
+
+      res.json({
+        success: true,
+        message: 'Patient record restricted successfully',
+        data: patient.restriction,
+      });
+    } catch (error) {
+      console.error('Restrict patient error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error',
+      });
+    }
+  }
+);
+
+// @route   DELETE /api/patients/:id/restriction
+// @desc    Lift a patient record restriction
+// @access  Private (patients:restrict)
+router.delete('/:id/restriction', 
+  requirePermission('patients:restrict'),
+  validateObjectId('id'),
+  handleValidationErrors,
+  async (req: AuthenticatedRequest, res: Response<ApiResponse>) => {
+    try {
+      const patient = await Patient.findOne({ 
+        _id: req.params.id, 
+        isActive: true 
+      });
+
+      if (!patient) {
+        res.status(404).json({
+          success: false,
+          message: 'Patient not found',
+        });
+        return;
+      }
+
+      const before = patient.toObject();
+      patient.restriction = undefined;
+      patient.$locals.changedBy = req.user!._id;
+      await patient.save();
+      recordAuditChanges(res, before, patient.toObject());
+
+      res.json({
+        success: true,
+        message: 'Patient record restriction lifted successfully',
+      });
+    } catch (error) {
+      console.error('Unrestrict patient error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error',
+      });
+    }
+  }
+);
+
+// @route   POST /api/patients/:id/break-glass
+// @desc    Emergency override granting time-limited access to a record outside the user's care
+// @access  Private (patients:break-glass)
+router.post('/:id/break-glass', 
+  requirePermission('patients:break-glass'),
+  validateObjectId('id'),
+  validateBreakGlass,
+  handleValidationErrors,
+  async (req: AuthenticatedRequest, res: Response<ApiResponse>) => {
+    try {
+      const patient = await Patient.findOne({ 
+        _id: req.params.id, 
+        isActive: true 
+      }).select(ACCESS_FIELDS);
+
+      if (!patient) {
+        res.status(404).json({
+          success: false,
+          message: 'Patient not found',
+        });
+        return;
+      }
+
+      if ((await resolvePatientAccess(req, patient)) === 'ordinary') {
+        res.status(400).json({
+          success: false,
+          message: 'You already have access to this patient record',
+        });
+        return;
+      }
+
+      const grant = await BreakGlassAccess.create({
+        user: req.user!._id,
+        patient: patient._id,
+        reason: req.body.reason,
+        expiresAt: new Date(Date.now() + breakGlassDurationMs()),
+        ipAddress: req.ip,
+        userAgent: req.get('User-Agent'),
+      });
+
+      res.status(201).json({
+        success: true,
+        message: 'Emergency access granted, every access will be logged for review',
+        data: {
+          id: grant._id,
+          patient: grant.patient,
+          expiresAt: grant.expiresAt,
+        },
+      });
+    } catch (error) {
+      console.error('Break-glass error:', error);
       res.status(500).json({
         success: false,
         message: 'Internal server error',
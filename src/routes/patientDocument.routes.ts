@@ -0,0 +1,316 @@
+import express, { NextFunction, Response } from 'express';
+import PatientDocument from '../models/PatientDocument.js';
+import Patient from '../models/Patient.js';
+import Appointment from '../models/Appointment.js';
+import { authenticate, requirePermission } from '../middleware/auth.js';
+import {
+  validateDocumentUpload,
+  validateDocumentQuery,
+  validateDocumentDeletion,
+  validateObjectId,
+  validatePagination,
+  handleValidationErrors
+} from '../middleware/validation.js';
+import { ACCESS_FIELDS, BREAK_GLASS_NOTICE, resolvePatientAccess } from '../utils/patientAccess.js';
+import { DOCUMENT_MIME_TYPES, acceptUpload, sendStoredFile, storeUpload } from '../utils/uploads.js';
+import { auditTrail, recordAuditChanges } from '../utils/audit.js';
+import { AuthenticatedRequest, ApiResponse, IPatient } from '../types/index.js';
+
+// Mounted at /api/patients/:patientId/documents
+const router = express.Router({ mergeParams: true });
+
+router.use(authenticate, auditTrail('patient-document'));
+
+// Load the active patient from the URL and check the user may open their record,
+// answering 404/403 itself
+const loadPatient = async (
+  req: AuthenticatedRequest,
+  res: Response<ApiResponse>
+): Promise<{ patient: IPatient; accessMode: 'ordinary' | 'break-glass' } | null> => {
+  const patient = await Patient.findOne({
+    _id: req.params.patientId,
+    isActive: true
+  }).select(ACCESS_FIELDS);
+
+  if (!patient) {
+    res.status(404).json({
+      success: false,
+      message: 'Patient not found',
+    });
+    return null;
+  }
+
+  const accessMode = await resolvePatientAccess(req, patient);
+  if (!accessMode) {
+    res.status(403).json({
+      success: false,
+      message: 'Patient is not under your care',
+    });
+    return null;
+  }
+
+  return { patient, accessMode };
+};
+
+// loadPatient as middleware for uploads, so refused requests are answered before
+// their file is read. The handler finds the result on res.locals.loaded.
+const loadPatientBeforeUpload = async (req: AuthenticatedRequest, res: Response<ApiResponse>, next: NextFunction) => {
+  try {
+    const loaded = await loadPatient(req, res);
+    if (loaded) {
+      res.locals.loaded = loaded;
+      next();
+    }
+  } catch (error) {
+    console.error('Upload patient document error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error',
+    });
+  }
+};
+
+// A document of the patient that has not been deleted, or null
+const findDocument = (req: AuthenticatedRequest, patient: IPatient) => PatientDocument.findOne({
+  _id: req.params.documentId,
+  patient: patient._id,
+  deletedAt: { $exists: false },
+});
+
+// @route   GET /api/patients/:patientId/documents
+// @desc    List the patient's documents, most recent first (filter by type)
+// @access  Private (patients:read-clinical, care team)
+router.get('/',
+  requirePermission('patients:read', 'patients:read-clinical'),
+  validateObjectId('patientId'),
+  validateDocumentQuery,
+  validatePagination,
+  handleValidationErrors,
+  async (req: AuthenticatedRequest, res: Response<ApiResponse>) => {
+    try {
+      const loaded = await loadPatient(req, res);
+      if (!loaded) {
+        return;
+      }
+
+      const page = parseInt(req.query.page as string) || 1;
+      const limit = parseInt(req.query.limit as string) || 20;
+      const skip = (page - 1) * limit;
+
+      const filter: any = {
+        patient: loaded.patient._id,
+        deletedAt: { $exists: false },
+      };
+
+      if (req.query.type) {
+        filter.type = req.query.type;
+      }
+
+      const [documents, total] = await Promise.all([
+        PatientDocument.find(filter)
+          .populate('uploadedBy', 'firstName lastName role')
+          .sort({ documentDate: -1, createdAt: -1 })
+          .skip(skip)
+          .limit(limit),
+        PatientDocument.countDocuments(filter)
+      ]);
+
+      res.json({
+        success: true,
+        ...(loaded.accessMode === 'break-glass' && { message: BREAK_GLASS_NOTICE }),
+        data: documents,
+        pagination: {
+          currentPage: page,
+          totalPages: Math.ceil(total / limit),
+          totalItems: total,
+          itemsPerPage: limit,
+        },
+      });
+    } catch (error) {
+      console.error('Get patient documents error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error',
+      });
+    }
+  }
+);
+
+// @route   GET /api/patients/:patientId/documents/:documentId
+// @desc    Get a document's details
+// @access  Private (patients:read-clinical, care team)
+router.get('/:documentId',
+  requirePermission('patients:read', 'patients:read-clinical'),
+  validateObjectId('patientId'),
+  validateObjectId('documentId'),
+  handleValidationErrors,
+  async (req: AuthenticatedRequest, res: Response<ApiResponse>) => {
+    try {
+      const loaded = await loadPatient(req, res);
+      if (!loaded) {
+        return;
+      }
+
+      const document = await findDocument(req, loaded.patient)
+        .populate('uploadedBy', 'firstName lastName role')
+        .populate('appointment', 'date time type');
+
+      if (!document) {
+        res.status(404).json({
+          success: false,
+          message: 'Document not found',
+        });
+        return;
+      }
+
+      res.json({
+        success: true,
+        ...(loaded.accessMode === 'break-glass' && { message: BREAK_GLASS_NOTICE }),
+        data: document,
+      });
+    } catch (error) {
+      console.error('Get patient document error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error',
+      });
+    }
+  }
+);
+
+// @route   GET /api/patients/:patientId/documents/:documentId/download
+// @desc    Download the document's file
+// @access  Private (patients:read-clinical, care team)
+router.get('/:documentId/download',
+  requirePermission('patients:read', 'patients:read-clinical'),
+  validateObjectId('patientId'),
+  validateObjectId('documentId'),
+  handleValidationErrors,
+  async (req: AuthenticatedRequest, res: Response<ApiResponse>) => {
+    try {
+      const loaded = await loadPatient(req, res);
+      if (!loaded) {
+        return;
+      }
+
+      const document = await findDocument(req, loaded.patient);
+
+      if (!document) {
+        res.status(404).json({
+          success: false,
+          message: 'Document not found',
+        });
+        return;
+      }
+
+      await sendStoredFile(res, document.file, 'attachment');
+    } catch (error) {
+      console.error('Download patient document error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error',
+      });
+    }
+  }
+);
+
+// @route   POST /api/patients/:patientId/documents
+// @desc    Upload a document (multipart: file, type, description, documentDate, appointment)
+// @access  Private (patients:write, patients:read-clinical, care team)
+router.post('/',
+  requirePermission('patients:write', 'patients:read-clinical'),
+  validateObjectId('patientId'),
+  handleValidationErrors,
+  loadPatientBeforeUpload,
+  acceptUpload('file', DOCUMENT_MIME_TYPES),
+  validateDocumentUpload,
+  handleValidationErrors,
+  async (req: AuthenticatedRequest, res: Response<ApiResponse>) => {
+    try {
+      const loaded = res.locals.loaded as { patient: IPatient };
+      const { type, description, documentDate, appointment } = req.body;
+
+      if (appointment && !(await Appointment.exists({ _id: appointment, patient: loaded.patient._id }))) {
+        res.status(400).json({
+          success: false,
+          message: 'Appointment not found for this patient',
+        });
+        return;
+      }
+
+      const file = await storeUpload(req.file!, `patients/${loaded.patient._id}/documents`);
+
+      const document = await PatientDocument.create({
+        patient: loaded.patient._id,
+        appointment,
+        type,
+        description,
+        documentDate: documentDate || new Date(),
+        file,
+        uploadedBy: req.user!._id,
+      });
+      recordAuditChanges(res, {}, document.toObject());
+
+      res.status(201).json({
+        success: true,
+        message: 'Document uploaded successfully',
+        data: document,
+      });
+    } catch (error) {
+      console.error('Upload patient document error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error',
+      });
+    }
+  }
+);
+
+// @route   DELETE /api/patients/:patientId/documents/:documentId
+// @desc    Withdraw a document uploaded in error (the file is kept)
+// @access  Private (patients:write, patients:read-clinical, care team)
+router.delete('/:documentId',
+  requirePermission('patients:write', 'patients:read-clinical'),
+  validateObjectId('patientId'),
+  validateObjectId('documentId'),
+  validateDocumentDeletion,
+  handleValidationErrors,
+  async (req: AuthenticatedRequest, res: Response<ApiResponse>) => {
+    try {
+      const loaded = await loadPatient(req, res);
+      if (!loaded) {
+        return;
+      }
+
+      const document = await findDocument(req, loaded.patient);
+
+      if (!document) {
+        res.status(404).json({
+          success: false,
+          message: 'Document not found',
+        });
+        return;
+      }
+
+      const before = document.toObject();
+      document.deletedAt = new Date();
+      document.deletedBy = req.user!._id;
+      document.deletionReason = req.body.reason;
+      await document.save();
+      recordAuditChanges(res, before, document.toObject());
+
+      res.json({
+        success: true,
+        message: 'Document deleted successfully',
+      });
+    } catch (error) {
+      console.error('Delete patient document error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error',
+      });
+    }
+  }
+);
+
+export default router;
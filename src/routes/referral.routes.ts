@@ -0,0 +1,532 @@
+import express, { Response } from 'express';
+import { Types } from 'mongoose';
+import Referral from '../models/Referral.js';
+import Patient from '../models/Patient.js';
+import PatientDocument from '../models/PatientDocument.js';
+import Appointment from '../models/Appointment.js';
+import User from '../models/User.js';
+import { authenticate, requirePermission } from '../middleware/auth.js';
+import {
+  validateReferralCreation,
+  validateReferralQuery,
+  validateReferralResponse,
+  validateReferralReason,
+  validateReferralBooking,
+  validateObjectId,
+  validatePagination,
+  handleValidationErrors
+} from '../middleware/validation.js';
+import { ACCESS_FIELDS, BREAK_GLASS_NOTICE, isOnCareTeam, resolvePatientAccess } from '../utils/patientAccess.js';
+import {
+  REFERRAL_TRANSITIONS,
+  ReferralAction,
+  applyReferralTransition,
+  canTransitionReferral,
+  isInternalReferral,
+  isParticipant,
+  mayTakeAction
+} from '../utils/referrals.js';
+import { NON_BLOCKING_STATUSES, acquireBookingLock, findOverlappingAppointment } from '../utils/booking.js';
+import { fitsWorkingHours, getDoctorWorkingHours } from '../utils/schedule.js';
+import { auditTrail, recordAuditChanges } from '../utils/audit.js';
+import { encryptedFieldsOf } from '../utils/fieldEncryption.js';
+import { AuthenticatedRequest, ApiResponse, IReferral } from '../types/index.js';
+
+const router = express.Router();
+
+router.use(authenticate, auditTrail('referral', encryptedFieldsOf(Referral)));
+
+const STAFF_FIELDS = 'firstName lastName role';
+
+const REFERRAL_POPULATE = [
+  { path: 'patient', select: 'firstName lastName dateOfBirth' },
+  { path: 'appointment', select: 'date time type' },
+  { path: 'referredBy', select: STAFF_FIELDS },
+  { path: 'toDoctor', select: STAFF_FIELDS },
+  { path: 'documents', select: 'type description documentDate file.mimeType file.size' },
+  { path: 'bookedAppointment', select: 'date time duration type status' },
+];
+
+// Check the user may open the patient's record, answering 404/403 itself
+const checkPatientAccess = async (
+  req: AuthenticatedRequest,
+  res: Response<ApiResponse>,
+  patientId: Types.ObjectId | string
+): Promise<'ordinary' | 'break-glass' | null> => {
+  const patient = await Patient.findOne({
+    _id: patientId,
+    isActive: true
+  }).select(ACCESS_FIELDS);
+
+  if (!patient) {
+    res.status(404).json({
+      success: false,
+      message: 'Patient not found',
+    });
+    return null;
+  }
+
+  const accessMode = await resolvePatientAccess(req, patient);
+  if (!accessMode) {
+    res.status(403).json({
+      success: false,
+      message: 'Patient is not under your care',
+    });
+    return null;
+  }
+
+  return accessMode;
+};
+
+// Load the referral from the URL. The referring and receiving doctors may always
+// open it, so a colleague can decide before joining the care team; anyone else
+// needs access to the patient. Answers 404/403 itself.
+const loadReferral = async (
+  req: AuthenticatedRequest,
+  res: Response<ApiResponse>
+): Promise<{ referral: IReferral; accessMode: 'ordinary' | 'break-glass' } | null> => {
+  const referral = await Referral.findById(req.params.id);
+
+  if (!referral) {
+    res.status(404).json({
+      success: false,
+      message: 'Referral not found',
+    });
+    return null;
+  }
+
+  if (isParticipant(referral, req.user!._id)) {
+    return { referral, accessMode: 'ordinary' };
+  }
+
+  const accessMode = await checkPatientAccess(req, res, referral.patient);
+  if (!accessMode) {
+    return null;
+  }
+
+  return { referral, accessMode };
+};
+
+// @route   GET /api/referrals?patient=&direction=&status=
+// @desc    A patient's referrals, or the user's incoming (default) or outgoing referrals, newest first
+// @access  Private (patients:read-clinical)
+router.get('/',
+  requirePermission('patients:read', 'patients:read-clinical'),
+  validateReferralQuery,
+  validatePagination,
+  handleValidationErrors,
+  async (req: AuthenticatedRequest, res: Response<ApiResponse>) => {
+    try {
+      const page = parseInt(req.query.page as string) || 1;
+      const limit = parseInt(req.query.limit as string) || 20;
+      const skip = (page - 1) * limit;
+
+      const filter: any = {};
+      let accessMode: 'ordinary' | 'break-glass' | null = 'ordinary';
+
+      if (req.query.patient) {
+        accessMode = await checkPatientAccess(req, res, req.query.patient as string);
+        if (!accessMode) {
+          return;
+        }
+        filter.patient = req.query.patient;
+      } else if (req.query.direction === 'outgoing') {
+        filter.referredBy = req.user!._id;
+      } else {
+        filter.toDoctor = req.user!._id;
+      }
+
+      if (req.query.status) {
+        filter.status = req.query.status;
+      }
+
+      const [referrals, total] = await Promise.all([
+        Referral.find(filter)
+          .populate(REFERRAL_POPULATE)
+          .sort({ createdAt: -1 })
+          .skip(skip)
+          .limit(limit),
+        Referral.countDocuments(filter)
+      ]);
+
+      res.json({
+        success: true,
+        ...(accessMode === 'break-glass' && { message: BREAK_GLASS_NOTICE }),
+        data: referrals,
+        pagination: {
+          currentPage: page,
+          totalPages: Math.ceil(total / limit),
+          totalItems: total,
+          itemsPerPage: limit,
+        },
+      });
+    } catch (error) {
+      console.error('Get referrals error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error',
+      });
+    }
+  }
+);
+
+// @route   GET /api/referrals/:id
+// @desc    Get a referral with its attached documents and status history
+// @access  Private (patients:read-clinical; referring or receiving doctor, or care team)
+router.get('/:id',
+  requirePermission('patients:read', 'patients:read-clinical'),
+  validateObjectId('id'),
+  handleValidationErrors,
+  async (req: AuthenticatedRequest, res: Response<ApiResponse>) => {
+    try {
+      const loaded = await loadReferral(req, res);
+      if (!loaded) {
+        return;
+      }
+
+      await loaded.referral.populate([
+        ...REFERRAL_POPULATE,
+        { path: 'statusHistory.changedBy', select: STAFF_FIELDS },
+      ]);
+
+      res.json({
+        success: true,
+        ...(loaded.accessMode === 'break-glass' && { message: BREAK_GLASS_NOTICE }),
+        data: loaded.referral,
+      });
+    } catch (error) {
+      console.error('Get referral error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error',
+      });
+    }
+  }
+);
+
+// @route   POST /api/referrals
+// @desc    Refer a patient to a doctor in the practice (toDoctor) or an external provider (externalProvider)
+// @access  Private (referrals:write, care team)
+router.post('/',
+  requirePermission('referrals:write'),
+  validateReferralCreation,
+  handleValidationErrors,
+  async (req: AuthenticatedRequest, res: Response<ApiResponse>) => {
+    try {
+      const { patient: patientId, appointment, toDoctor, documents = [] } = req.body;
+
+      const accessMode = await checkPatientAccess(req, res, patientId);
+      if (!accessMode) {
+        return;
+      }
+
+      if (toDoctor) {
+        if (toDoctor === req.user!._id.toString()) {
+          res.status(400).json({
+            success: false,
+            message: 'You cannot refer a patient to yourself',
+          });
+          return;
+        }
+
+        const doctor = await User.exists({ _id: toDoctor, isActive: true, role: { $in: ['doctor', 'admin'] } });
+        if (!doctor) {
+          res.status(400).json({
+            success: false,
+            message: 'Doctor not found',
+          });
+          return;
+        }
+      }
+
+      if (appointment && !(await Appointment.exists({ _id: appointment, patient: patientId }))) {
+        res.status(400).json({
+          success: false,
+          message: 'Appointment not found for this patient',
+        });
+        return;
+      }
+
+      const documentIds = [...new Set(documents as string[])];
+      const attachable = await PatientDocument.countDocuments({
+        _id: { $in: documentIds },
+        patient: patientId,
+        deletedAt: { $exists: false },
+      });
+      if (attachable !== documentIds.length) {
+        res.status(400).json({
+          success: false,
+          message: 'Attached documents must be current documents of this patient',
+        });
+        return;
+      }
+
+      const referral = await Referral.create({
+        patient: patientId,
+        appointment,
+        referredBy: req.user!._id,
+        toDoctor,
+        externalProvider: req.body.externalProvider,
+        specialty: req.body.specialty,
+        reason: req.body.reason,
+        clinicalSummary: req.body.clinicalSummary,
+        urgency: req.body.urgency,
+        documents: documentIds,
+      });
+      recordAuditChanges(res, {}, referral.toObject());
+
+      await referral.populate(REFERRAL_POPULATE);
+
+      res.status(201).json({
+        success: true,
+        message: 'Referral sent successfully',
+        data: referral,
+      });
+    } catch (error) {
+      console.error('Create referral error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error',
+      });
+    }
+  }
+);
+
+// Shared handler for the status transition endpoints
+const transitionReferral = (action: ReferralAction) => {
+  return async (req: AuthenticatedRequest, res: Response<ApiResponse>) => {
+    try {
+      const loaded = await loadReferral(req, res);
+      if (!loaded) {
+        return;
+      }
+
+      const { referral } = loaded;
+
+      if (!mayTakeAction(referral, action, req.user!._id)) {
+        res.status(403).json({
+          success: false,
+          message: REFERRAL_TRANSITIONS[action].actor === 'recipient'
+            ? 'Only the receiving doctor can respond to this referral'
+            : 'Only the referring doctor can cancel this referral',
+        });
+        return;
+      }
+
+      if (!canTransitionReferral(referral, action)) {
+        res.status(400).json({
+          success: false,
+          message: `Cannot ${action} a referral that is ${referral.status}`,
+        });
+        return;
+      }
+
+      const before = referral.toObject();
+
+      if (action === 'decline') {
+        referral.responseNote = req.body.reason;
+      } else if (action !== 'cancel' && req.body.note !== undefined) {
+        referral.responseNote = req.body.note;
+      }
+
+      applyReferralTransition(referral, action, req.user!._id, req.body.reason);
+      await referral.save();
+      recordAuditChanges(res, before, referral.toObject());
+
+      // Accepting brings the receiving doctor onto the care team so they can open the record
+      if (action === 'accept' && isInternalReferral(referral)) {
+        const patient = await Patient.findById(referral.patient);
+        if (patient && !isOnCareTeam(patient, referral.toDoctor!)) {
+          patient.careTeam.push({ user: referral.toDoctor!, role: req.user!.role, addedBy: req.user!._id });
+          patient.$locals.changedBy = req.user!._id;
+          await patient.save();
+        }
+      }
+
+      await referral.populate(REFERRAL_POPULATE);
+
+      res.json({
+        success: true,
+        message: `Referral ${REFERRAL_TRANSITIONS[action].to} successfully`,
+        data: referral,
+      });
+    } catch (error) {
+      console.error(`Referral ${action} error:`, error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error',
+      });
+    }
+  };
+};
+
+// @route   POST /api/referrals/:id/accept
+// @desc    Accept a referral, with an optional note
+// @access  Private (referrals:write; receiving doctor, or referring doctor for external referrals)
+router.post('/:id/accept',
+  requirePermission('referrals:write'),
+  validateObjectId('id'),
+  validateReferralResponse,
+  handleValidationErrors,
+  transitionReferral('accept')
+);
+
+// @route   POST /api/referrals/:id/decline
+// @desc    Decline a referral with a reason
+// @access  Private (referrals:write; receiving doctor, or referring doctor for external referrals)
+router.post('/:id/decline',
+  requirePermission('referrals:write'),
+  validateObjectId('id'),
+  validateReferralReason,
+  handleValidationErrors,
+  transitionReferral('decline')
+);
+
+// @route   POST /api/referrals/:id/complete
+// @desc    Mark an accepted referral as completed, with an optional note
+// @access  Private (referrals:write; receiving doctor, or referring doctor for external referrals)
+router.post('/:id/complete',
+  requirePermission('referrals:write'),
+  validateObjectId('id'),
+  validateReferralResponse,
+  handleValidationErrors,
+  transitionReferral('complete')
+);
+
+// @route   POST /api/referrals/:id/cancel
+// @desc    Withdraw an open referral with a reason
+// @access  Private (referrals:write; referring doctor)
+router.post('/:id/cancel',
+  requirePermission('referrals:write'),
+  validateObjectId('id'),
+  validateReferralReason,
+  handleValidationErrors,
+  transitionReferral('cancel')
+);
+
+// @route   POST /api/referrals/:id/book
+// @desc    Book the appointment for an accepted internal referral with the receiving doctor
+// @access  Private (appointments:write; referring or receiving doctor, or care team)
+router.post('/:id/book',
+  requirePermission('appointments:write'),
+  validateObjectId('id'),
+  validateReferralBooking,
+  handleValidationErrors,
+  async (req: AuthenticatedRequest, res: Response<ApiResponse>) => {
+    try {
+      const loaded = await loadReferral(req, res);
+      if (!loaded) {
+        return;
+      }
+
+      const { referral } = loaded;
+
+      if (!isInternalReferral(referral)) {
+        res.status(400).json({
+          success: false,
+          message: 'External referrals are booked by the receiving provider',
+        });
+        return;
+      }
+
+      if (referral.status !== 'accepted') {
+        res.status(400).json({
+          success: false,
+          message: `Cannot book a referral that is ${referral.status}`,
+        });
+        return;
+      }
+
+      if (referral.bookedAppointment) {
+        const booked = await Appointment.findById(referral.bookedAppointment).select('status');
+        if (booked && !NON_BLOCKING_STATUSES.includes(booked.status)) {
+          res.status(400).json({
+            success: false,
+            message: 'An appointment is already booked for this referral',
+          });
+          return;
+        }
+      }
+
+      const doctorId = referral.toDoctor!;
+      const { date, time } = req.body;
+      const duration = Number(req.body.duration) || 30;
+
+      // Check the requested slot against the receiving doctor's working schedule
+      const workingHours = await getDoctorWorkingHours(doctorId, new Date(date));
+      if (!fitsWorkingHours(workingHours, time, duration)) {
+        res.status(400).json({
+          success: false,
+          message: 'Appointment is outside the doctor\'s working hours',
+        });
+        return;
+      }
+
+      // Serialise bookings for this doctor and day so concurrent requests cannot both pass the conflict check
+      const releaseLock = await acquireBookingLock(doctorId, date);
+      if (!releaseLock) {
+        res.status(409).json({
+          success: false,
+          message: 'Another booking for this doctor is in progress, please retry',
+        });
+        return;
+      }
+
+      let appointment;
+      try {
+        const conflictingAppointment = await findOverlappingAppointment({
+          doctor: doctorId,
+          date: new Date(date),
+          time,
+          duration,
+        });
+
+        if (conflictingAppointment) {
+          res.status(400).json({
+            success: false,
+            message: 'Doctor is not available at this time',
+          });
+          return;
+        }
+
+        appointment = await Appointment.create({
+          patient: referral.patient,
+          doctor: doctorId,
+          type: req.body.type || 'consultation',
+          date,
+          time,
+          duration,
+          reason: req.body.reason || `Referral${referral.specialty ? ` to ${referral.specialty}` : ''}`,
+          createdBy: req.user!._id,
+        });
+      } finally {
+        await releaseLock();
+      }
+
+      const before = referral.toObject();
+      referral.bookedAppointment = appointment._id;
+      await referral.save();
+      recordAuditChanges(res, before, referral.toObject());
+
+      await appointment.populate([
+        { path: 'patient', select: 'firstName lastName email phone' },
+        { path: 'doctor', select: 'firstName lastName email' },
+        { path: 'createdBy', select: 'firstName lastName' }
+      ]);
+
+      res.status(201).json({
+        success: true,
+        message: 'Referral appointment booked successfully',
+        data: appointment,
+      });
+    } catch (error) {
+      console.error('Book referral error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error',
+      });
+    }
+  }
+);
+
+export default router;
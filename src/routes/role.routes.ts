@@ -0,0 +1,190 @@
+import express, { Response } from 'express';
+import Role from '../models/Role.js';
+import User from '../models/User.js';
+import { authenticate, requirePermission } from '../middleware/auth.js';
+import { 
+  validateRole, 
+  validateObjectId, 
+  handleValidationErrors 
+} from '../middleware/validation.js';
+import { BUILT_IN_ROLES, PERMISSIONS, ROLE_PERMISSIONS, isBuiltInRole } from '../utils/permissions.js';
+import { AuthenticatedRequest, ApiResponse } from '../types/index.js';
+
+const router = express.Router();
+
+// Apply authentication and role management permission to all routes
+router.use(authenticate, requirePermission('roles:manage'));
+
+// @route   GET /api/roles
+// @desc    List built-in and custom roles with their permissions
+// @access  Private (roles:manage)
+router.get('/', async (req: AuthenticatedRequest, res: Response<ApiResponse>) => {
+  try {
+    const customRoles = await Role.find().sort({ name: 1 });
+
+    res.json({
+      success: true,
+      data: {
+        builtIn: BUILT_IN_ROLES.map(name => ({ name, permissions: ROLE_PERMISSIONS[name] })),
+        custom: customRoles,
+      },
+    });
+  } catch (error) {
+    console.error('Get roles error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error',
+    });
+  }
+});
+
+// @route   GET /api/roles/permissions
+// @desc    List every permission a role can grant
+// @access  Private (roles:manage)
+router.get('/permissions', (req: AuthenticatedRequest, res: Response<ApiResponse>) => {
+  res.json({
+    success: true,
+    data: PERMISSIONS,
+  });
+});
+
+// @route   POST /api/roles
+// @desc    Create a custom role
+// @access  Private (roles:manage)
+router.post('/', 
+  validateRole, 
+  handleValidationErrors, 
+  async (req: AuthenticatedRequest, res: Response<ApiResponse>) => {
+    try {
+      const { name, description, permissions } = req.body;
+
+      if (!name) {
+        res.status(400).json({
+          success: false,
+          message: 'Role name is required',
+        });
+        return;
+      }
+
+      if (isBuiltInRole(name) || await Role.exists({ name })) {
+        res.status(400).json({
+          success: false,
+          message: 'Role with this name already exists',
+        });
+        return;
+      }
+
+      const role = await Role.create({
+        name,
+        description,
+        permissions: [...new Set(permissions)],
+        createdBy: req.user!._id,
+      });
+
+      res.status(201).json({
+        success: true,
+        message: 'Role created successfully',
+        data: role,
+      });
+    } catch (error) {
+      console.error('Create role error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error',
+      });
+    }
+  }
+);
+
+// @route   PUT /api/roles/:id
+// @desc    Update a custom role's description and permissions
+// @access  Private (roles:manage)
+router.put('/:id', 
+  validateObjectId('id'),
+  validateRole,
+  handleValidationErrors,
+  async (req: AuthenticatedRequest, res: Response<ApiResponse>) => {
+    try {
+      const role = await Role.findById(req.params.id);
+
+      if (!role) {
+        res.status(404).json({
+          success: false,
+          message: 'Role not found',
+        });
+        return;
+      }
+
+      // Users reference roles by name, so renaming would orphan them
+      if (req.body.name && req.body.name !== role.name) {
+        res.status(400).json({
+          success: false,
+          message: 'Role name cannot be changed',
+        });
+        return;
+      }
+
+      if (req.body.description !== undefined) role.description = req.body.description;
+      role.permissions = [...new Set<string>(req.body.permissions)];
+      role.updatedBy = req.user!._id;
+      await role.save();
+
+      res.json({
+        success: true,
+        message: 'Role updated successfully',
+        data: role,
+      });
+    } catch (error) {
+      console.error('Update role error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error',
+      });
+    }
+  }
+);
+
+// @route   DELETE /api/roles/:id
+// @desc    Delete a custom role no user is assigned to
+// @access  Private (roles:manage)
+router.delete('/:id', 
+  validateObjectId('id'),
+  handleValidationErrors,
+  async (req: AuthenticatedRequest, res: Response<ApiResponse>) => {
+    try {
+      const role = await Role.findById(req.params.id);
+
+      if (!role) {
+        res.status(404).json({
+          success: false,
+          message: 'Role not found',
+        });
+        return;
+      }
+
+      const assignedUsers = await User.countDocuments({ role: role.name });
+      if (assignedUsers > 0) {
+        res.status(409).json({
+          success: false,
+          message: `Role is assigned to ${assignedUsers} user(s), reassign them first`,
+        });
+        return;
+      }
+
+      await role.deleteOne();
+
+      res.json({
+        success: true,
+        message: 'Role deleted successfully',
+      });
+    } catch (error) {
+      console.error('Delete role error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error',
+      });
+    }
+  }
+);
+
+export default router;
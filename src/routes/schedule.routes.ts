@@ -0,0 +1,330 @@
+import express, { Response } from 'express';
+import DoctorSchedule from '../models/DoctorSchedule.js';
+import User from '../models/User.js';
+import { authenticate, hasPermission, requirePermission } from '../middleware/auth.js';
+import { 
+  validateDoctorSchedule, 
+  validateScheduleException, 
+  validateObjectId, 
+  handleValidationErrors 
+} from '../middleware/validation.js';
+import { defaultWeeklyHours, resolveWorkingHours } from '../utils/schedule.js';
+import { timeToMinutes, toDateKey } from '../utils/time.js';
+import { AuthenticatedRequest, ApiResponse, TimeRange } from '../types/index.js';
+
+const router = express.Router();
+
+// Apply authentication to all routes
+router.use(authenticate);
+
+// Doctors may change their own schedule; anyone else needs schedules:manage
+const canManageSchedule = async (req: AuthenticatedRequest): Promise<boolean> => {
+  return req.user!._id.toString() === req.params.doctorId || hasPermission(req, 'schedules:manage');
+};
+
+// Start must precede end, and every break must sit inside the working window
+const isValidWindow = (start: string, end: string, breaks: TimeRange[] = []): boolean => {
+  const startMinutes = timeToMinutes(start);
+  const endMinutes = timeToMinutes(end);
+
+  if (startMinutes >= endMinutes) {
+    return false;
+  }
+
+  return breaks.every(brk =>
+    timeToMinutes(brk.start) < timeToMinutes(brk.end) &&
+    timeToMinutes(brk.start) >= startMinutes &&
+    timeToMinutes(brk.end) <= endMinutes
+  );
+};
+
+const findDoctor = (doctorId: string) => User.findOne({
+  _id: doctorId,
+  isActive: true,
+  role: { $in: ['doctor', 'admin'] }
+});
+
+// @route   GET /api/schedules/doctor/:doctorId
+// @desc    Get a doctor's working schedule
+// @access  Private (schedules:read)
+router.get('/doctor/:doctorId', 
+  requirePermission('schedules:read'),
+  validateObjectId('doctorId'), 
+  handleValidationErrors, 
+  async (req: AuthenticatedRequest, res: Response<ApiResponse>) => {
+    try {
+      const doctor = await findDoctor(req.params.doctorId);
+      if (!doctor) {
+        res.status(404).json({
+          success: false,
+          message: 'Doctor not found',
+        });
+        return;
+      }
+
+      const schedule = await DoctorSchedule.findOne({ doctor: req.params.doctorId })
+        .populate('updatedBy', 'firstName lastName');
+
+      if (!schedule) {
+        res.json({
+          success: true,
+          message: 'No schedule configured, default working hours apply',
+          data: {
+            doctor: req.params.doctorId,
+            isDefault: true,
+            weeklyHours: defaultWeeklyHours(),
+            exceptions: [],
+          },
+        });
+        return;
+      }
+
+      res.json({
+        success: true,
+        data: schedule,
+      });
+    } catch (error) {
+      console.error('Get schedule error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error',
+      });
+    }
+  }
+);
+
+// @route   PUT /api/schedules/doctor/:doctorId
+// @desc    Create or replace a doctor's weekly working hours
+// @access  Private (schedules:write, own schedule or schedules:manage)
+router.put('/doctor/:doctorId', 
+  requirePermission('schedules:write'),
+  validateObjectId('doctorId'),
+  validateDoctorSchedule,
+  handleValidationErrors,
+  async (req: AuthenticatedRequest, res: Response<ApiResponse>) => {
+    try {
+      if (!(await canManageSchedule(req))) {
+        res.status(403).json({
+          success: false,
+          message: 'Access denied',
+        });
+        return;
+      }
+
+      const doctor = await findDoctor(req.params.doctorId);
+      if (!doctor) {
+        res.status(404).json({
+          success: false,
+          message: 'Doctor not found',
+        });
+        return;
+      }
+
+      const { weeklyHours } = req.body;
+      const invalidDay = weeklyHours.find((hours: any) => !isValidWindow(hours.start, hours.end, hours.breaks));
+      if (invalidDay) {
+        res.status(400).json({
+          success: false,
+          message: `Invalid working hours for day ${invalidDay.dayOfWeek}: start must precede end and breaks must fall within working hours`,
+        });
+        return;
+      }
+
+      let schedule = await DoctorSchedule.findOne({ doctor: req.params.doctorId });
+      if (schedule) {
+        schedule.weeklyHours = weeklyHours;
+        schedule.updatedBy = req.user!._id;
+      } else {
+        schedule = new DoctorSchedule({
+          doctor: req.params.doctorId,
+          weeklyHours,
+          createdBy: req.user!._id,
+        });
+      }
+
+      await schedule.save();
+
+      res.json({
+        success: true,
+        message: 'Schedule saved successfully',
+        data: schedule,
+      });
+    } catch (error) {
+      console.error('Save schedule error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error',
+      });
+    }
+  }
+);
+
+// @route   POST /api/schedules/doctor/:doctorId/exceptions
+// @desc    Add a date-specific exception (vacation, half-day, on-call shift)
+// @access  Private (schedules:write, own schedule or schedules:manage)
+router.post('/doctor/:doctorId/exceptions', 
+  requirePermission('schedules:write'),
+  validateObjectId('doctorId'),
+  validateScheduleException,
+  handleValidationErrors,
+  async (req: AuthenticatedRequest, res: Response<ApiResponse>) => {
+    try {
+      if (!(await canManageSchedule(req))) {
+        res.status(403).json({
+          success: false,
+          message: 'Access denied',
+        });
+        return;
+      }
+
+      const doctor = await findDoctor(req.params.doctorId);
+      if (!doctor) {
+        res.status(404).json({
+          success: false,
+          message: 'Doctor not found',
+        });
+        return;
+      }
+
+      const { date, type, start, end, slotDuration, breaks, reason } = req.body;
+
+      if (type !== 'vacation' && !isValidWindow(start, end, breaks)) {
+        res.status(400).json({
+          success: false,
+          message: 'Start must precede end and breaks must fall within working hours',
+        });
+        return;
+      }
+
+      let schedule = await DoctorSchedule.findOne({ doctor: req.params.doctorId });
+      if (!schedule) {
+        // Materialise the default weekly hours so the exception has a schedule to live on
+        schedule = new DoctorSchedule({
+          doctor: req.params.doctorId,
+          weeklyHours: defaultWeeklyHours(),
+          createdBy: req.user!._id,
+        });
+      }
+
+      const dateKey = toDateKey(date);
+      if (schedule.exceptions.some(exc => toDateKey(exc.date) === dateKey)) {
+        res.status(400).json({
+          success: false,
+          message: 'An exception already exists for this date',
+        });
+        return;
+      }
+
+      schedule.exceptions.push({
+        date: new Date(dateKey),
+        type,
+        ...(type !== 'vacation' && { start, end, slotDuration, breaks }),
+        reason,
+      });
+      schedule.updatedBy = req.user!._id;
+      await schedule.save();
+
+      res.status(201).json({
+        success: true,
+        message: 'Schedule exception added successfully',
+        data: schedule,
+      });
+    } catch (error) {
+      console.error('Add schedule exception error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error',
+      });
+    }
+  }
+);
+
+// @route   DELETE /api/schedules/doctor/:doctorId/exceptions/:exceptionId
+// @desc    Remove a date-specific exception
+// @access  Private (schedules:write, own schedule or schedules:manage)
+router.delete('/doctor/:doctorId/exceptions/:exceptionId', 
+  requirePermission('schedules:write'),
+  validateObjectId('doctorId'),
+  validateObjectId('exceptionId'),
+  handleValidationErrors,
+  async (req: AuthenticatedRequest, res: Response<ApiResponse>) => {
+    try {
+      if (!(await canManageSchedule(req))) {
+        res.status(403).json({
+          success: false,
+          message: 'Access denied',
+        });
+        return;
+      }
+
+      const schedule = await DoctorSchedule.findOne({ doctor: req.params.doctorId });
+      const exception = schedule?.exceptions.id(req.params.exceptionId);
+
+      if (!schedule || !exception) {
+        res.status(404).json({
+          success: false,
+          message: 'Schedule exception not found',
+        });
+        return;
+      }
+
+      exception.deleteOne();
+      schedule.updatedBy = req.user!._id;
+      await schedule.save();
+
+      res.json({
+        success: true,
+        message: 'Schedule exception removed successfully',
+        data: schedule,
+      });
+    } catch (error) {
+      console.error('Remove schedule exception error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error',
+      });
+    }
+  }
+);
+
+// @route   GET /api/schedules/doctor/:doctorId/hours
+// @desc    Get a doctor's effective working hours for a specific date
+// @access  Private (schedules:read)
+router.get('/doctor/:doctorId/hours', 
+  requirePermission('schedules:read'),
+  validateObjectId('doctorId'),
+  handleValidationErrors,
+  async (req: AuthenticatedRequest, res: Response<ApiResponse>) => {
+    try {
+      const { date } = req.query;
+
+      if (!date) {
+        res.status(400).json({
+          success: false,
+          message: 'Date is required',
+        });
+        return;
+      }
+
+      const schedule = await DoctorSchedule.findOne({ doctor: req.params.doctorId });
+      const workingHours = resolveWorkingHours(schedule, new Date(date as string));
+
+      res.json({
+        success: true,
+        data: {
+          date,
+          isWorking: !!workingHours,
+          workingHours,
+        },
+      });
+    } catch (error) {
+      console.error('Get working hours error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error',
+      });
+    }
+  }
+);
+
+export default router;
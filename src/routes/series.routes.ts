@@ -0,0 +1,555 @@
+import express, { Response } from 'express';
+import AppointmentSeries from '../models/AppointmentSeries.js';
+import Appointment from '../models/Appointment.js';
+import Patient from '../models/Patient.js';
+import User from '../models/User.js';
+import { authenticate, requirePermission } from '../middleware/auth.js';
+import { 
+  validateAppointmentSeries, 
+  validateSeriesScope, 
+  validateAppointmentCancellation, 
+  validateObjectId, 
+  handleValidationErrors 
+} from '../middleware/validation.js';
+import { acquireBookingLock, checkSlot } from '../utils/booking.js';
+import { generateOccurrenceDates } from '../utils/recurrence.js';
+import { applyTransition } from '../utils/appointmentStatus.js';
+import { auditTrail, recordAuditChanges } from '../utils/audit.js';
+import {
+  ACCESS_FIELDS,
+  BREAK_GLASS_NOTICE,
+  getPatientAccess,
+  isAppointmentDoctor,
+  resolvePatientAccess
+} from '../utils/patientAccess.js';
+import { AuthenticatedRequest, ApiResponse, IAppointment, IAppointmentSeries, IPatient } from '../types/index.js';
+
+const router = express.Router();
+
+// Apply authentication and audit logging to all routes
+router.use(authenticate, auditTrail('appointment-series'));
+
+// Fields that can be changed across several occurrences at once
+const SERIES_FIELDS = ['doctor', 'type', 'time', 'duration', 'reason', 'notes'];
+
+// Occurrences in these statuses can still be edited or cancelled
+const OPEN_STATUSES = ['scheduled', 'confirmed'];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+interface OccurrenceReport {
+  seriesIndex?: number;
+  appointmentId?: string;
+  date: Date;
+  time: string;
+  status: 'available' | 'created' | 'updated' | 'outside-working-hours' | 'conflict' | 'locked';
+}
+
+const pickChanges = (body: Record<string, any>, fields: string[]): Record<string, any> => {
+  const changes: Record<string, any> = {};
+  fields.forEach(field => {
+    if (body[field] !== undefined) {
+      changes[field] = field === 'duration' ? Number(body[field]) : body[field];
+    }
+  });
+  return changes;
+};
+
+// End a series just before the given occurrence so it no longer generates it or anything after it
+const truncateSeries = (series: IAppointmentSeries, occurrence: IAppointment): void => {
+  if (series.recurrence.count) {
+    series.recurrence.count = occurrence.seriesIndex!;
+  } else {
+    series.recurrence.until = new Date(new Date(occurrence.date).getTime() - DAY_MS);
+  }
+  series.status = 'ended';
+};
+
+// Check every target's new slot, then apply the changes under the booking lock.
+// Returns the per-occurrence report; nothing is written when the pre-check finds a problem.
+const rescheduleOccurrences = async (
+  occurrences: IAppointment[],
+  changes: Record<string, any>,
+  req: AuthenticatedRequest
+): Promise<{ ok: boolean; report: OccurrenceReport[] }> => {
+  const slotFor = (occurrence: IAppointment) => ({
+    doctor: changes.doctor || occurrence.doctor,
+    date: changes.date ? new Date(changes.date) : occurrence.date,
+    time: changes.time || occurrence.time,
+    duration: changes.duration || occurrence.duration,
+    excludeId: occurrence._id,
+  });
+  const movesSlot = ['doctor', 'date', 'time', 'duration'].some(field => changes[field] !== undefined);
+
+  if (movesSlot) {
+    const precheck: OccurrenceReport[] = [];
+    for (const occurrence of occurrences) {
+      const slot = slotFor(occurrence);
+      const problem = await checkSlot(slot);
+      precheck.push({
+        seriesIndex: occurrence.seriesIndex,
+        appointmentId: occurrence._id.toString(),
+        date: slot.date,
+        time: slot.time,
+        status: problem || 'available',
+      });
+    }
+
+    if (precheck.some(entry => entry.status !== 'available')) {
+      return { ok: false, report: precheck };
+    }
+  }
+
+  const report: OccurrenceReport[] = [];
+  for (const occurrence of occurrences) {
+    const slot = slotFor(occurrence);
+    const entry: OccurrenceReport = {
+      seriesIndex: occurrence.seriesIndex,
+      appointmentId: occurrence._id.toString(),
+      date: slot.date,
+      time: slot.time,
+      status: 'updated',
+    };
+
+    const releaseLock = movesSlot ? await acquireBookingLock(slot.doctor, slot.date) : null;
+    if (movesSlot && !releaseLock) {
+      report.push({ ...entry, status: 'locked' });
+      continue;
+    }
+
+    try {
+      // Re-check under the lock in case a booking slipped in after the pre-check
+      const problem = movesSlot ? await checkSlot(slot) : null;
+      if (problem) {
+        report.push({ ...entry, status: problem });
+        continue;
+      }
+
+      Object.assign(occurrence, changes);
+      occurrence.updatedBy = req.user!._id;
+      await occurrence.save();
+      report.push(entry);
+    } finally {
+      if (releaseLock) {
+        await releaseLock();
+      }
+    }
+  }
+
+  return { ok: true, report };
+};
+
+const loadOccurrence = async (req: AuthenticatedRequest, res: Response<ApiResponse>) => {
+  const series = await AppointmentSeries.findById(req.params.id);
+  const occurrence = series
+    ? await Appointment.findOne({ _id: req.params.appointmentId, series: series._id })
+    : null;
+
+  if (!series || !occurrence) {
+    res.status(404).json({
+      success: false,
+      message: 'Series occurrence not found',
+    });
+    return null;
+  }
+
+  if (!OPEN_STATUSES.includes(occurrence.status)) {
+    res.status(400).json({
+      success: false,
+      message: `Cannot modify an occurrence that is ${occurrence.status}`,
+    });
+    return null;
+  }
+
+  return { series, occurrence };
+};
+
+// @route   POST /api/appointments/series
+// @desc    Create a recurring appointment series (pass preview: true to only report conflicts)
+// @access  Private (appointments:write)
+router.post('/', 
+  requirePermission('appointments:write'),
+  validateAppointmentSeries, 
+  handleValidationErrors, 
+  async (req: AuthenticatedRequest, res: Response<ApiResponse>) => {
+    try {
+      const { patient: patientId, doctor: doctorId, type, startDate, time, duration, reason, notes, recurrence, preview } = req.body;
+
+      // Verify patient exists
+      const patient = await Patient.findOne({ _id: patientId, isActive: true });
+      if (!patient) {
+        res.status(400).json({
+          success: false,
+          message: 'Patient not found',
+        });
+        return;
+      }
+
+      // Verify doctor exists and has appropriate role
+      const doctor = await User.findOne({ 
+        _id: doctorId, 
+        isActive: true,
+        role: { $in: ['doctor', 'admin'] }
+      });
+      if (!doctor) {
+        res.status(400).json({
+          success: false,
+          message: 'Doctor not found',
+        });
+        return;
+      }
+
+      const series = new AppointmentSeries({
+        patient: patientId,
+        doctor: doctorId,
+        type,
+        startDate: new Date(startDate),
+        time,
+        duration: Number(duration),
+        reason,
+        notes,
+        recurrence: {
+          frequency: recurrence.frequency,
+          interval: Number(recurrence.interval) || 1,
+          count: recurrence.count ? Number(recurrence.count) : undefined,
+          until: recurrence.until ? new Date(recurrence.until) : undefined,
+          byWeekday: recurrence.byWeekday,
+        },
+        createdBy: req.user!._id,
+      });
+
+      const dates = generateOccurrenceDates(series.startDate, series.recurrence);
+      const report: OccurrenceReport[] = [];
+
+      if (preview) {
+        for (const [seriesIndex, date] of dates.entries()) {
+          const problem = await checkSlot({ doctor: doctorId, date, time, duration: series.duration });
+          report.push({ seriesIndex, date, time, status: problem || 'available' });
+        }
+
+        res.json({
+          success: true,
+          data: {
+            rrule: series.rrule,
+            occurrences: report,
+          },
+        });
+        return;
+      }
+
+      await series.save();
+
+      for (const [seriesIndex, date] of dates.entries()) {
+        const entry: OccurrenceReport = { seriesIndex, date, time, status: 'created' };
+
+        const releaseLock = await acquireBookingLock(doctorId, date);
+        if (!releaseLock) {
+          report.push({ ...entry, status: 'locked' });
+          continue;
+        }
+
+        try {
+          const problem = await checkSlot({ doctor: doctorId, date, time, duration: series.duration });
+          if (problem) {
+            report.push({ ...entry, status: problem });
+            continue;
+          }
+
+          const appointment = new Appointment({
+            patient: patientId,
+            doctor: doctorId,
+            type,
+            date,
+            time,
+            duration: series.duration,
+            reason,
+            notes,
+            series: series._id,
+            seriesIndex,
+            createdBy: req.user!._id,
+          });
+          await appointment.save();
+          report.push({ ...entry, appointmentId: appointment._id.toString() });
+        } finally {
+          await releaseLock();
+        }
+      }
+
+      const created = report.filter(entry => entry.status === 'created').length;
+
+      if (created === 0) {
+        await series.deleteOne();
+        res.status(409).json({
+          success: false,
+          message: 'No occurrence of the series could be booked',
+          data: { occurrences: report },
+        });
+        return;
+      }
+
+      recordAuditChanges(res, {}, series.toObject(), series._id);
+
+      res.status(201).json({
+        success: true,
+        message: `Appointment series created with ${created} of ${report.length} occurrences booked`,
+        data: {
+          series,
+          occurrences: report,
+        },
+      });
+    } catch (error) {
+      console.error('Create appointment series error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error',
+      });
+    }
+  }
+);
+
+// @route   GET /api/appointments/series/:id
+// @desc    Get an appointment series with its occurrences (notes need patients:read-clinical)
+// @access  Private (appointments:read, care team or own series for clinical users)
+router.get('/:id', requirePermission('appointments:read'), validateObjectId('id'), handleValidationErrors, async (req: AuthenticatedRequest, res: Response<ApiResponse>) => {
+  try {
+    const series = await AppointmentSeries.findById(req.params.id)
+      .populate('patient', `firstName lastName email phone ${ACCESS_FIELDS}`)
+      .populate('doctor', 'firstName lastName email')
+      .populate('createdBy', 'firstName lastName');
+
+    if (!series) {
+      res.status(404).json({
+        success: false,
+        message: 'Appointment series not found',
+      });
+      return;
+    }
+
+    // The series' doctor may always open it; anyone else needs access to the patient's record
+    const access = await getPatientAccess(req);
+    const patient = series.patient as unknown as IPatient | null;
+    const accessMode = patient && !isAppointmentDoctor(series, access.userId)
+      ? await resolvePatientAccess(req, patient)
+      : 'ordinary';
+
+    if (!accessMode) {
+      res.status(403).json({
+        success: false,
+        message: 'Patient is not under your care',
+      });
+      return;
+    }
+
+    const data: Record<string, any> = series.toJSON();
+    if (patient) {
+      ACCESS_FIELDS.split(' ').forEach(field => delete data.patient[field]);
+    }
+    if (!access.clinical) {
+      delete data.notes;
+    }
+
+    const occurrences = await Appointment.find({ series: series._id })
+      .select('date time duration status doctor seriesIndex')
+      .sort({ date: 1, time: 1 });
+
+    res.json({
+      success: true,
+      ...(accessMode === 'break-glass' && { message: BREAK_GLASS_NOTICE }),
+      data: {
+        series: data,
+        occurrences,
+      },
+    });
+  } catch (error) {
+    console.error('Get appointment series error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error',
+    });
+  }
+});
+
+// @route   PUT /api/appointments/series/:id/occurrences/:appointmentId
+// @desc    Edit an occurrence, this and following occurrences, or the entire series
+// @access  Private (appointments:write)
+router.put('/:id/occurrences/:appointmentId', 
+  requirePermission('appointments:write'),
+  validateObjectId('id'),
+  validateObjectId('appointmentId'),
+  validateSeriesScope,
+  handleValidationErrors,
+  async (req: AuthenticatedRequest, res: Response<ApiResponse>) => {
+    try {
+      const loaded = await loadOccurrence(req, res);
+      if (!loaded) {
+        return;
+      }
+
+      const { series, occurrence } = loaded;
+      const scope = req.body.scope === 'following' && occurrence.seriesIndex === 0 ? 'all' : req.body.scope;
+
+      // Moving an occurrence to a different date only makes sense for a single occurrence
+      const changes = pickChanges(req.body, scope === 'this' ? [...SERIES_FIELDS, 'date'] : SERIES_FIELDS);
+      if (Object.keys(changes).length === 0) {
+        res.status(400).json({
+          success: false,
+          message: 'No changes provided',
+        });
+        return;
+      }
+
+      if (changes.doctor) {
+        const doctor = await User.findOne({ 
+          _id: changes.doctor, 
+          isActive: true,
+          role: { $in: ['doctor', 'admin'] }
+        });
+        if (!doctor) {
+          res.status(400).json({
+            success: false,
+            message: 'Doctor not found',
+          });
+          return;
+        }
+      }
+
+      const targets = scope === 'this'
+        ? [occurrence]
+        : await Appointment.find({
+          series: series._id,
+          status: { $in: OPEN_STATUSES },
+          ...(scope === 'following' && { date: { $gte: occurrence.date } }),
+        }).sort({ date: 1 });
+
+      const { ok, report } = await rescheduleOccurrences(targets, changes, req);
+      if (!ok) {
+        res.status(409).json({
+          success: false,
+          message: 'Some occurrences cannot be rescheduled',
+          data: { occurrences: report },
+        });
+        return;
+      }
+
+      let targetSeries = series;
+      if (scope === 'following') {
+        // Split: the original series ends before this occurrence and a new series carries the changes
+        const remainingCount = series.recurrence.count
+          ? series.recurrence.count - occurrence.seriesIndex!
+          : undefined;
+
+        const { patient, doctor, type, time, duration, reason, notes, recurrence } = series.toObject();
+        targetSeries = new AppointmentSeries({
+          patient,
+          doctor,
+          type,
+          time,
+          duration,
+          reason,
+          notes,
+          ...changes,
+          startDate: occurrence.date,
+          recurrence: { ...recurrence, count: remainingCount },
+          parentSeries: series._id,
+          createdBy: req.user!._id,
+        });
+        await targetSeries.save();
+
+        const splitIndex = occurrence.seriesIndex!;
+        for (const target of targets) {
+          target.series = targetSeries._id;
+          target.seriesIndex = (target.seriesIndex ?? splitIndex) - splitIndex;
+          target.updatedBy = req.user!._id;
+          await target.save();
+        }
+
+        truncateSeries(series, occurrence);
+        series.updatedBy = req.user!._id;
+        await series.save();
+      } else if (scope === 'all') {
+        Object.assign(series, changes);
+        series.updatedBy = req.user!._id;
+        await series.save();
+      }
+
+      res.json({
+        success: true,
+        message: 'Series updated successfully',
+        data: {
+          series: targetSeries,
+          occurrences: report,
+        },
+      });
+    } catch (error) {
+      console.error('Update appointment series error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error',
+      });
+    }
+  }
+);
+
+// @route   POST /api/appointments/series/:id/occurrences/:appointmentId/cancel
+// @desc    Cancel an occurrence, this and following occurrences, or the entire series
+// @access  Private (appointments:cancel)
+router.post('/:id/occurrences/:appointmentId/cancel', 
+  requirePermission('appointments:cancel'),
+  validateObjectId('id'),
+  validateObjectId('appointmentId'),
+  validateSeriesScope,
+  validateAppointmentCancellation,
+  handleValidationErrors,
+  async (req: AuthenticatedRequest, res: Response<ApiResponse>) => {
+    try {
+      const loaded = await loadOccurrence(req, res);
+      if (!loaded) {
+        return;
+      }
+
+      const { series, occurrence } = loaded;
+      const scope = req.body.scope === 'following' && occurrence.seriesIndex === 0 ? 'all' : req.body.scope;
+
+      const targets = scope === 'this'
+        ? [occurrence]
+        : await Appointment.find({
+          series: series._id,
+          status: { $in: OPEN_STATUSES },
+          ...(scope === 'following' && { date: { $gte: occurrence.date } }),
+        });
+
+      for (const target of targets) {
+        applyTransition(target, 'cancel', req.user!._id, req.body.reason);
+        await target.save();
+      }
+
+      if (scope === 'following') {
+        truncateSeries(series, occurrence);
+      } else if (scope === 'all') {
+        series.status = 'cancelled';
+      }
+
+      if (scope !== 'this') {
+        series.updatedBy = req.user!._id;
+        await series.save();
+      }
+
+      res.json({
+        success: true,
+        message: `${targets.length} appointment(s) cancelled successfully`,
+        data: {
+          series,
+          cancelled: targets.length,
+        },
+      });
+    } catch (error) {
+      console.error('Cancel appointment series error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error',
+      });
+    }
+  }
+);
+
+export default router;
@@ -1,23 +1,34 @@
-import express, { Request, Response } from 'express';
+import express, { NextFunction, Request, Response } from 'express';
 import User from '../models/User.js';
-import { authenticate, authorize } from '../middleware/auth.js';
+import Session from '../models/Session.js';
+import LoginAttempt from '../models/LoginAttempt.js';
+import { authenticate, hasPermission, requirePermission } from '../middleware/auth.js';
 import { 
   validateObjectId, 
   validatePagination,
   handleValidationErrors 
 } from '../middleware/validation.js';
-import { AuthenticatedRequest, ApiResponse } from '../types/index.js';
+import { revokeUserSessions } from '../utils/tokens.js';
+import { clearFailures } from '../utils/loginThrottle.js';
+import { auditTrail, recordAuditChanges } from '../utils/audit.js';
+import { IMAGE_MIME_TYPES, acceptUpload, sendStoredFile, storeUpload } from '../utils/uploads.js';
+import { getStorage } from '../utils/storage.js';
+import { AuthenticatedRequest, ApiResponse, IUser } from '../types/index.js';
 
 const router = express.Router();
 
-// Apply authentication to all routes
-router.use(authenticate);
+// Apply authentication and audit logging to all routes
+router.use(authenticate, auditTrail('user'));
+
+// The only fields PUT /api/users/:id may change. Passwords, two-factor settings,
+// lockout state and the profile image each have their own endpoints.
+const PROFILE_FIELDS = ['username', 'email', 'firstName', 'lastName'];
 
 // @route   GET /api/users
 // @desc    Get all users with pagination and filtering
-// @access  Private (Admin only)
+// @access  Private (users:read)
 router.get('/', 
-  authorize('admin'), 
+  requirePermission('users:read'),
   validatePagination, 
   handleValidationErrors, 
   async (req: AuthenticatedRequest, res: Response<ApiResponse>) => {
@@ -75,8 +86,8 @@ router.get('/',
 
 // @route   GET /api/users/doctors
 // @desc    Get all doctors
-// @access  Private
-router.get('/doctors', async (req: AuthenticatedRequest, res: Response<ApiResponse>) => {
+// @access  Private (doctors:read)
+router.get('/doctors', requirePermission('doctors:read'), async (req: AuthenticatedRequest, res: Response<ApiResponse>) => {
   try {
     const doctors = await User.find({ 
       role: 'doctor', 
@@ -100,7 +111,7 @@ router.get('/doctors', async (req: AuthenticatedRequest, res: Response<ApiRespon
 
 // @route   GET /api/users/:id
 // @desc    Get user by ID
-// @access  Private
+// @access  Private (own profile or users:read)
 router.get('/:id', validateObjectId('id'), handleValidationErrors, async (req: AuthenticatedRequest, res: Response<ApiResponse>) => {
   try {
     const user = await User.findOne({ 
@@ -117,7 +128,7 @@ router.get('/:id', validateObjectId('id'), handleValidationErrors, async (req: A
     }
 
     // Check if user can access this profile
-    if (req.user!.role !== 'admin' && req.user!._id.toString() !== req.params.id) {
+    if (req.user!._id.toString() !== req.params.id && !(await hasPermission(req, 'users:read'))) {
       res.status(403).json({
         success: false,
         message: 'Access denied',
@@ -140,7 +151,7 @@ router.get('/:id', validateObjectId('id'), handleValidationErrors, async (req: A
 
 // @route   PUT /api/users/:id
 // @desc    Update user
-// @access  Private
+// @access  Private (own profile or users:manage)
 router.put('/:id', validateObjectId('id'), handleValidationErrors, async (req: AuthenticatedRequest, res: Response<ApiResponse>) => {
   try {
     const user = await User.findOne({ 
@@ -157,7 +168,8 @@ router.put('/:id', validateObjectId('id'), handleValidationErrors, async (req: A
     }
 
     // Check permissions
-    if (req.user!.role !== 'admin' && req.user!._id.toString() !== req.params.id) {
+    const canManageUsers = await hasPermission(req, 'users:manage');
+    if (!canManageUsers && req.user!._id.toString() !== req.params.id) {
       res.status(403).json({
         success: false,
         message: 'Access denied',
@@ -165,18 +177,18 @@ router.put('/:id', validateObjectId('id'), handleValidationErrors, async (req: A
       return;
     }
 
-    // Prevent non-admins from changing role
-    if (req.user!.role !== 'admin' && req.body.role) {
-      delete req.body.role;
-    }
-
-    // Prevent password updates through this endpoint
-    delete req.body.password;
+    // Only user managers may change roles
+    const updates: Record<string, any> = {};
+    (canManageUsers ? [...PROFILE_FIELDS, 'role'] : PROFILE_FIELDS).forEach(field => {
+      if (req.body[field] !== undefined) {
+        updates[field] = req.body[field];
+      }
+    });
 
     // Check if email/username is being changed and if it conflicts
-    if (req.body.email && req.body.email !== user.email) {
+    if (updates.email && updates.email !== user.email) {
       const existingUser = await User.findOne({ 
-        email: req.body.email,
+        email: updates.email,
         _id: { $ne: req.params.id },
         isActive: true 
       });
@@ -190,9 +202,9 @@ router.put('/:id', validateObjectId('id'), handleValidationErrors, async (req: A
       }
     }
 
-    if (req.body.username && req.body.username !== user.username) {
+    if (updates.username && updates.username !== user.username) {
       const existingUser = await User.findOne({ 
-        username: req.body.username,
+        username: updates.username,
         _id: { $ne: req.params.id },
         isActive: true 
       });
@@ -206,9 +218,11 @@ router.put('/:id', validateObjectId('id'), handleValidationErrors, async (req: A
       }
     }
 
-    // Update user
-    Object.assign(user, req.body);
+    // Update user, keeping a snapshot for the audit trail
+    const before = user.toObject();
+    user.set(updates);
     await user.save();
+    recordAuditChanges(res, before, user.toObject());
 
     res.json({
       success: true,
@@ -224,11 +238,117 @@ router.put('/:id', validateObjectId('id'), handleValidationErrors, async (req: A
   }
 });
 
+// @route   GET /api/users/:id/profile-image
+// @desc    Get a user's profile photo
+// @access  Private
+router.get('/:id/profile-image', validateObjectId('id'), handleValidationErrors, async (req: AuthenticatedRequest, res: Response<ApiResponse>) => {
+  try {
+    const user = await User.findOne({ 
+      _id: req.params.id, 
+      isActive: true 
+    }).select('profileImageFile');
+
+    if (!user?.profileImageFile) {
+      res.status(404).json({
+        success: false,
+        message: user ? 'User has no profile image' : 'User not found',
+      });
+      return;
+    }
+
+    await sendStoredFile(res, user.profileImageFile);
+  } catch (error) {
+    console.error('Get user profile image error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error',
+    });
+  }
+});
+
+// Check the user may change this profile before an upload is read, so refused
+// requests are answered before their file is buffered. The handler finds the
+// user on res.locals.user.
+const loadUserBeforeUpload = async (req: AuthenticatedRequest, res: Response<ApiResponse>, next: NextFunction) => {
+  try {
+    const canManageUsers = await hasPermission(req, 'users:manage');
+    if (!canManageUsers && req.user!._id.toString() !== req.params.id) {
+      res.status(403).json({
+        success: false,
+        message: 'Access denied',
+      });
+      return;
+    }
+
+    const user = await User.findOne({ 
+      _id: req.params.id, 
+      isActive: true 
+    });
+
+    if (!user) {
+      res.status(404).json({
+        success: false,
+        message: 'User not found',
+      });
+      return;
+    }
+
+    res.locals.user = user;
+    next();
+  } catch (error) {
+    console.error('Update user profile image error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error',
+    });
+  }
+};
+
+// @route   PUT /api/users/:id/profile-image
+// @desc    Upload a user's profile photo (multipart: file)
+// @access  Private (own profile or users:manage)
+router.put('/:id/profile-image', 
+  validateObjectId('id'),
+  handleValidationErrors,
+  loadUserBeforeUpload,
+  acceptUpload('file', IMAGE_MIME_TYPES),
+  async (req: AuthenticatedRequest, res: Response<ApiResponse>) => {
+    try {
+      const user = res.locals.user as IUser;
+      const before = user.toObject();
+      const previousKey = user.profileImageFile?.key;
+      user.profileImageFile = await storeUpload(req.file!, `users/${user._id}/profile`);
+      user.profileImage = `/api/users/${user._id}/profile-image`;
+      await user.save();
+      recordAuditChanges(res, before, user.toObject());
+
+      if (previousKey) {
+        await getStorage().remove(previousKey);
+      }
+
+      res.json({
+        success: true,
+        message: 'Profile image updated successfully',
+        data: {
+          profileImage: user.profileImage,
+          profileImageFile: user.profileImageFile,
+        },
+      });
+    } catch (error) {
+      console.error('Update user profile image error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error',
+      });
+    }
+  }
+);
+
 // @route   DELETE /api/users/:id
 // @desc    Soft delete user
-// @access  Private (Admin only)
+// @access  Private (users:manage)
 router.delete('/:id', 
-  authorize('admin'),
+  requirePermission('users:manage'),
   validateObjectId('id'),
   handleValidationErrors,
   async (req: AuthenticatedRequest, res: Response<ApiResponse>) => {
@@ -256,8 +376,11 @@ router.delete('/:id',
       }
 
       // Soft delete
+      const before = user.toObject();
       user.isActive = false;
       await user.save();
+      recordAuditChanges(res, before, user.toObject());
+      await revokeUserSessions(user._id, 'deactivated', req.user!._id);
 
       res.json({
         success: true,
@@ -273,4 +396,192 @@ router.delete('/:id',
   }
 );
 
+// @route   GET /api/users/:id/sessions
+// @desc    List a user's active sessions
+// @access  Private (users:read)
+router.get('/:id/sessions', 
+  requirePermission('users:read'),
+  validateObjectId('id'),
+  handleValidationErrors,
+  async (req: AuthenticatedRequest, res: Response<ApiResponse>) => {
+    try {
+      const sessions = await Session.find({
+        user: req.params.id,
+        revokedAt: { $exists: false },
+        expiresAt: { $gt: new Date() },
+      })
+      .select('jti ipAddress userAgent createdAt expiresAt')
+      .sort({ createdAt: -1 });
+
+      res.json({
+        success: true,
+        data: sessions,
+      });
+    } catch (error) {
+      console.error('Get user sessions error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error',
+      });
+    }
+  }
+);
+
+// @route   DELETE /api/users/:id/sessions
+// @desc    Revoke all of a user's sessions
+// @access  Private (users:manage)
+router.delete('/:id/sessions', 
+  requirePermission('users:manage'),
+  validateObjectId('id'),
+  handleValidationErrors,
+  async (req: AuthenticatedRequest, res: Response<ApiResponse>) => {
+    try {
+      const user = await User.findById(req.params.id);
+
+      if (!user) {
+        res.status(404).json({
+          success: false,
+          message: 'User not found',
+        });
+        return;
+      }
+
+      const revoked = await revokeUserSessions(user._id, 'admin', req.user!._id);
+
+      res.json({
+        success: true,
+        message: 'User sessions revoked successfully',
+        data: { revoked },
+      });
+    } catch (error) {
+      console.error('Revoke user sessions error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error',
+      });
+    }
+  }
+);
+
+// @route   POST /api/users/:id/unlock
+// @desc    Clear failed login attempts and lift an account lockout
+// @access  Private (users:manage)
+router.post('/:id/unlock', 
+  requirePermission('users:manage'),
+  validateObjectId('id'),
+  handleValidationErrors,
+  async (req: AuthenticatedRequest, res: Response<ApiResponse>) => {
+    try {
+      const user = await User.findById(req.params.id);
+
+      if (!user) {
+        res.status(404).json({
+          success: false,
+          message: 'User not found',
+        });
+        return;
+      }
+
+      const before = user.toObject();
+      clearFailures(user);
+      await user.save();
+      recordAuditChanges(res, before, user.toObject());
+
+      res.json({
+        success: true,
+        message: 'User account unlocked successfully',
+      });
+    } catch (error) {
+      console.error('Unlock user error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error',
+      });
+    }
+  }
+);
+
+// @route   GET /api/users/:id/login-attempts
+// @desc    Get a user's recent login attempts
+// @access  Private (users:read)
+router.get('/:id/login-attempts', 
+  requirePermission('users:read'),
+  validateObjectId('id'),
+  validatePagination,
+  handleValidationErrors,
+  async (req: AuthenticatedRequest, res: Response<ApiResponse>) => {
+    try {
+      const page = parseInt(req.query.page as string) || 1;
+      const limit = parseInt(req.query.limit as string) || 20;
+      const skip = (page - 1) * limit;
+
+      const filter = { user: req.params.id };
+
+      const [attempts, total] = await Promise.all([
+        LoginAttempt.find(filter)
+          .sort({ createdAt: -1 })
+          .skip(skip)
+          .limit(limit),
+        LoginAttempt.countDocuments(filter)
+      ]);
+
+      res.json({
+        success: true,
+        data: attempts,
+        pagination: {
+          currentPage: page,
+          totalPages: Math.ceil(total / limit),
+          totalItems: total,
+          itemsPerPage: limit,
+        },
+      });
+    } catch (error) {
+      console.error('Get login attempts error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error',
+      });
+    }
+  }
+);
+
+// @route   DELETE /api/users/:id/two-factor
+// @desc    Reset a user's two-factor authentication (lost device)
+// @access  Private (users:manage)
+router.delete('/:id/two-factor', 
+  requirePermission('users:manage'),
+  validateObjectId('id'),
+  handleValidationErrors,
+  async (req: AuthenticatedRequest, res: Response<ApiResponse>) => {
+    try {
+      const user = await User.findById(req.params.id);
+
+      if (!user) {
+        res.status(404).json({
+          success: false,
+          message: 'User not found',
+        });
+        return;
+      }
+
+      const before = user.toObject();
+      user.twoFactor = { enabled: false, recoveryCodes: [] };
+      await user.save();
+      recordAuditChanges(res, before, user.toObject());
+      await revokeUserSessions(user._id, 'admin', req.user!._id);
+
+      res.json({
+        success: true,
+        message: 'Two-factor authentication reset, the user must enrol again at next login',
+      });
+    } catch (error) {
+      console.error('Reset two-factor error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error',
+      });
+    }
+  }
+);
+
 export default router;
\ No newline at end of file
@@ -0,0 +1,43 @@
+import dotenv from 'dotenv';
+import mongoose from 'mongoose';
+import connectDB from '../config/database.js';
+import Patient from '../models/Patient.js';
+import { getImmunizationSchedule } from '../utils/immunizations.js';
+import { refreshImmunizationDueDates } from '../utils/immunizationDueDates.js';
+import { IPatient } from '../types/index.js';
+
+// Usage: run once after upgrading, and again whenever the immunization schedule or
+// IMMUNIZATION_SCHEDULE_FILE changes, so the overdue dashboard sees every patient.
+
+dotenv.config();
+
+const BATCH_SIZE = 500;
+
+const run = async (): Promise<void> => {
+  const { version } = getImmunizationSchedule();
+  await connectDB();
+
+  console.log(`💉 Refreshing immunization due dates against schedule ${version}`);
+  const cursor = Patient.find({ isActive: true }).select('dateOfBirth').cursor();
+  let batch: IPatient[] = [];
+  let refreshed = 0;
+
+  for await (const patient of cursor) {
+    batch.push(patient);
+    if (batch.length === BATCH_SIZE) {
+      await refreshImmunizationDueDates(batch);
+      refreshed += batch.length;
+      batch = [];
+    }
+  }
+  await refreshImmunizationDueDates(batch);
+  refreshed += batch.length;
+
+  console.log(`✅ Refreshed ${refreshed} patients`);
+  await mongoose.connection.close();
+};
+
+run().catch(error => {
+  console.error('Immunization due date refresh failed:', error);
+  process.exit(1);
+});
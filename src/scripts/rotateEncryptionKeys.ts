@@ -0,0 +1,40 @@
+import dotenv from 'dotenv';
+import mongoose from 'mongoose';
+import connectDB from '../config/database.js';
+import Patient from '../models/Patient.js';
+import RecordVersion from '../models/RecordVersion.js';
+import EncounterNote from '../models/EncounterNote.js';
+import Referral from '../models/Referral.js';
+import { EncryptedModel } from '../utils/fieldEncryption.js';
+import { getMasterKeys } from '../utils/encryption.js';
+
+// Usage: add the new key to ENCRYPTION_KEYS, point ENCRYPTION_ACTIVE_KEY_VERSION at it,
+// run this command, then retire the old key once it reports nothing left to re-wrap.
+// Also encrypts patient documents written before field encryption was enabled.
+
+dotenv.config();
+
+const run = async (): Promise<void> => {
+  const { activeVersion } = getMasterKeys();
+  await connectDB();
+
+  console.log(`🔑 Re-encrypting patient fields under key version ${activeVersion}`);
+  const result = await (Patient as unknown as EncryptedModel).rotateEncryptionKeys();
+  console.log(`✅ Scanned ${result.scanned} patients: ${result.rewrapped} fields re-wrapped, ${result.encrypted} plaintext fields encrypted`);
+
+  const versions = await (RecordVersion as unknown as EncryptedModel).rotateEncryptionKeys();
+  console.log(`✅ Scanned ${versions.scanned} record versions: ${versions.rewrapped} snapshots re-wrapped`);
+
+  const notes = await (EncounterNote as unknown as EncryptedModel).rotateEncryptionKeys();
+  console.log(`✅ Scanned ${notes.scanned} encounter notes: ${notes.rewrapped} fields re-wrapped`);
+
+  const referrals = await (Referral as unknown as EncryptedModel).rotateEncryptionKeys();
+  console.log(`✅ Scanned ${referrals.scanned} referrals: ${referrals.rewrapped} fields re-wrapped`);
+
+  await mongoose.connection.close();
+};
+
+run().catch(error => {
+  console.error('Key rotation failed:', error);
+  process.exit(1);
+});
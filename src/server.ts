@@ -3,8 +3,6 @@ import cors from 'cors';
 import helmet from 'helmet';
 import rateLimit from 'express-rate-limit';
 import dotenv from 'dotenv';
-import path from 'path';
-import { fileURLToPath } from 'url';
 
 // Import database connection
 import connectDB from './config/database.js';
@@ -13,19 +11,30 @@ import connectDB from './config/database.js';
 import authRoutes from './routes/auth.routes.js';
 import userRoutes from './routes/user.routes.js';
 import patientRoutes from './routes/patient.routes.js';
+import observationRoutes from './routes/observation.routes.js';
+import patientDocumentRoutes from './routes/patientDocument.routes.js';
+import immunizationRoutes from './routes/immunization.routes.js';
 import appointmentRoutes from './routes/appointment.routes.js';
 import dashboardRoutes from './routes/dashboard.routes.js';
+import scheduleRoutes from './routes/schedule.routes.js';
+import seriesRoutes from './routes/series.routes.js';
+import encounterNoteRoutes from './routes/encounterNote.routes.js';
+import roleRoutes from './routes/role.routes.js';
+import breakGlassRoutes from './routes/breakGlass.routes.js';
+import auditRoutes from './routes/audit.routes.js';
+import icd10Routes from './routes/icd10.routes.js';
+import labOrderRoutes from './routes/labOrder.routes.js';
+import referralRoutes from './routes/referral.routes.js';
 
 // Import middleware
 import { errorHandler } from './middleware/errorHandler.js';
 import { notFound } from './middleware/notFound.js';
+import { requestId } from './middleware/requestId.js';
+import { assertMailTransportConfigured } from './utils/mailer.js';
 
 // Load environment variables
 dotenv.config();
 
-const __filename = fileURLToPath(import.meta.url);
-const __dirname = path.dirname(__filename);
-
 const app = express();
 const PORT = process.env.PORT || 3000;
 
@@ -59,16 +68,17 @@ app.use(cors({
   ],
   credentials: true,
   methods: ['GET', 'POST', 'PUT', 'DELETE', 'PATCH', 'OPTIONS'],
-  allowedHeaders: ['Content-Type', 'Authorization', 'X-Requested-With'],
+  allowedHeaders: ['Content-Type', 'Authorization', 'X-Requested-With', 'X-Client-Platform', 'X-Request-Id'],
+  exposedHeaders: ['X-Request-Id'],
 }));
 
+// Correlate logs and audit entries
+app.use(requestId);
+
 // Body parsing middleware
 app.use(express.json({ limit: '10mb' }));
 app.use(express.urlencoded({ extended: true, limit: '10mb' }));
 
-// Static files
-app.use('/uploads', express.static(path.join(__dirname, '../uploads')));
-
 // Health check endpoint
 app.get('/health', (req, res) => {
   res.status(200).json({
@@ -83,9 +93,21 @@ app.get('/health', (req, res) => {
 // API routes
 app.use('/api/auth', authRoutes);
 app.use('/api/users', userRoutes);
+app.use('/api/patients/:patientId/observations', observationRoutes); // must precede /api/patients
+app.use('/api/patients/:patientId/documents', patientDocumentRoutes); // must precede /api/patients
+app.use('/api/patients/:patientId/immunizations', immunizationRoutes); // must precede /api/patients
 app.use('/api/patients', patientRoutes);
+app.use('/api/appointments/series', seriesRoutes); // must precede /api/appointments/:id
+app.use('/api/appointments/:appointmentId/notes', encounterNoteRoutes); // must precede /api/appointments
 app.use('/api/appointments', appointmentRoutes);
 app.use('/api/dashboard', dashboardRoutes);
+app.use('/api/schedules', scheduleRoutes);
+app.use('/api/roles', roleRoutes);
+app.use('/api/break-glass', breakGlassRoutes);
+app.use('/api/audit', auditRoutes);
+app.use('/api/icd10', icd10Routes);
+app.use('/api/lab-orders', labOrderRoutes);
+app.use('/api/referrals', referralRoutes);
 
 // Error handling middleware
 app.use(notFound);
@@ -94,6 +116,7 @@ app.use(errorHandler);
 // Start server
 const startServer = async (): Promise<void> => {
   try {
+    assertMailTransportConfigured();
     await connectDB();
     
     app.listen(PORT, () => {
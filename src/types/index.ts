@@ -8,14 +8,115 @@ export interface IUser extends Document {
   password: string;
   firstName: string;
   lastName: string;
-  role: 'admin' | 'doctor' | 'nurse' | 'staff';
+  role: string; // a built-in role or the name of a custom IRole
   isActive: boolean;
   lastLogin?: Date;
-  profileImage?: string;
+  profileImage?: string; // URL the image is served from
+  profileImageFile?: IStoredFile;
+  passwordChangedAt?: Date;
+  failedLoginAttempts: number;
+  lastFailedLoginAt?: Date;
+  lockUntil?: Date;
+  passwordHistory: Array<{
+    hash: string;
+    changedAt: Date;
+  }>;
+  twoFactor: {
+    enabled: boolean;
+    secret?: string;
+    pendingSecret?: string;
+    recoveryCodes: string[];
+    enabledAt?: Date;
+    lastUsedStep?: number;
+  };
   comparePassword(candidatePassword: string): Promise<boolean>;
+  isPasswordReused(candidatePassword: string): Promise<boolean>;
+  setPassword(newPassword: string): void;
   toJSON(): any;
 }
 
+// An uploaded file held by the storage backend
+export interface IStoredFile {
+  key: string;
+  mimeType: string;
+  size: number;
+  checksum: string; // sha256, hex
+  originalName?: string;
+  uploadedAt: Date;
+}
+
+export interface IRole extends Document {
+  _id: Types.ObjectId;
+  name: string;
+  description?: string;
+  permissions: string[];
+  createdBy: Types.ObjectId;
+  updatedBy?: Types.ObjectId;
+}
+
+export interface ILoginAttempt extends Document {
+  _id: Types.ObjectId;
+  email: string;
+  user?: Types.ObjectId;
+  success: boolean;
+  reason: 'success' | 'invalid-credentials' | 'unknown-email' | 'locked' | 'deactivated';
+  ipAddress?: string;
+  userAgent?: string;
+  createdAt: Date;
+}
+
+export interface IPasswordResetToken extends Document {
+  _id: Types.ObjectId;
+  user: Types.ObjectId;
+  tokenHash: string;
+  expiresAt: Date;
+  usedAt?: Date;
+  ipAddress?: string;
+}
+
+export interface ICareTeamMember {
+  _id: Types.ObjectId;
+  user: Types.ObjectId;
+  role?: string;
+  addedBy?: Types.ObjectId;
+  addedAt: Date;
+}
+
+// Authorship shared by the entries of a patient's clinical lists
+interface IClinicalEntry {
+  _id: Types.ObjectId;
+  recordedBy?: Types.ObjectId;
+  updatedBy?: Types.ObjectId;
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+export interface IMedicalCondition extends IClinicalEntry {
+  condition: string; // display text
+  code?: string; // ICD-10
+  diagnosedDate?: Date;
+  status: 'active' | 'resolved' | 'chronic';
+  notes?: string;
+}
+
+export interface IMedication extends IClinicalEntry {
+  name: string;
+  dosage: string;
+  frequency: string;
+  startDate: Date;
+  endDate?: Date;
+  prescribedBy: string;
+  isActive: boolean;
+  discontinuedReason?: string;
+  sourceAppointment?: Types.ObjectId;
+}
+
+export interface IAllergy extends IClinicalEntry {
+  allergen: string;
+  severity: 'mild' | 'moderate' | 'severe';
+  reaction?: string;
+}
+
 export interface IPatient extends Document {
   _id: Types.ObjectId;
   firstName: string;
@@ -37,37 +138,52 @@ export interface IPatient extends Document {
     phone: string;
     email?: string;
   };
-  medicalHistory: Array<{
-    condition: string;
-    diagnosedDate?: Date;
-    status: 'active' | 'resolved' | 'chronic';
-    notes?: string;
-  }>;
-  currentMedications: Array<{
-    name: string;
-    dosage: string;
-    frequency: string;
-    startDate: Date;
-    endDate?: Date;
-    prescribedBy: string;
-    isActive: boolean;
-  }>;
-  allergies: Array<{
-    allergen: string;
-    severity: 'mild' | 'moderate' | 'severe';
-    reaction?: string;
-  }>;
+  medicalHistory: Types.DocumentArray<IMedicalCondition & Types.Subdocument>;
+  currentMedications: Types.DocumentArray<IMedication & Types.Subdocument>;
+  allergies: Types.DocumentArray<IAllergy & Types.Subdocument>;
   bloodType?: string;
   insuranceProvider?: string;
   insuranceNumber?: string;
   primaryDoctor?: Types.ObjectId;
+  careTeam: Types.DocumentArray<ICareTeamMember & Types.Subdocument>;
+  restriction?: {
+    category: 'psychiatric' | 'vip' | 'employee' | 'other';
+    reason?: string;
+    setBy: Types.ObjectId;
+    setAt: Date;
+  };
   isActive: boolean;
-  profileImage?: string;
+  profileImage?: string; // URL the image is served from
+  profileImageFile?: IStoredFile;
   notes?: string;
+  nextImmunizationDueAt?: Date;
+  encryptedFields?: Record<string, string>;
+  emailBlindIndex?: string;
   fullName: string;
   age: number;
 }
 
+export interface IBreakGlassAccess extends Document {
+  _id: Types.ObjectId;
+  user: Types.ObjectId;
+  patient: Types.ObjectId;
+  reason: string;
+  expiresAt: Date;
+  ipAddress?: string;
+  userAgent?: string;
+  accesses: Array<{
+    method: string;
+    path: string;
+    accessedAt: Date;
+    ipAddress?: string;
+  }>;
+  reviewStatus: 'pending' | 'approved' | 'flagged';
+  reviewedBy?: Types.ObjectId;
+  reviewedAt?: Date;
+  reviewNotes?: string;
+  createdAt: Date;
+}
+
 export interface IAppointment extends Document {
   _id: Types.ObjectId;
   patient: Types.ObjectId;
@@ -80,7 +196,8 @@ export interface IAppointment extends Document {
   reason: string;
   notes?: string;
   symptoms?: string[];
-  diagnosis?: string;
+  diagnosis?: string; // display text
+  diagnosisCode?: string; // ICD-10
   treatment?: string;
   prescriptions?: Array<{
     medication: string;
@@ -91,20 +208,390 @@ export interface IAppointment extends Document {
   }>;
   followUpRequired: boolean;
   followUpDate?: Date;
+  statusHistory: Array<{
+    from: IAppointment['status'];
+    to: IAppointment['status'];
+    changedBy: Types.ObjectId;
+    changedAt: Date;
+    reason?: string;
+  }>;
+  confirmedAt?: Date;
+  checkedInAt?: Date;
+  completedAt?: Date;
+  cancelledAt?: Date;
+  cancellationReason?: string;
+  noShowAt?: Date;
+  series?: Types.ObjectId;
+  seriesIndex?: number;
   createdBy: Types.ObjectId;
   updatedBy?: Types.ObjectId;
   datetime: Date;
   endTime: string;
 }
 
+export interface IRecurrenceRule {
+  frequency: 'daily' | 'weekly' | 'monthly';
+  interval: number;
+  count?: number;
+  until?: Date;
+  byWeekday?: number[];
+}
+
+export interface IAppointmentSeries extends Document {
+  _id: Types.ObjectId;
+  patient: Types.ObjectId;
+  doctor: Types.ObjectId;
+  type: IAppointment['type'];
+  startDate: Date;
+  time: string;
+  duration: number;
+  reason: string;
+  notes?: string;
+  recurrence: IRecurrenceRule;
+  status: 'active' | 'ended' | 'cancelled';
+  parentSeries?: Types.ObjectId;
+  createdBy: Types.ObjectId;
+  updatedBy?: Types.ObjectId;
+  rrule: string;
+}
+
+export interface TimeRange {
+  start: string;
+  end: string;
+  label?: string;
+}
+
+export interface IWeeklyHours {
+  dayOfWeek: number;
+  start: string;
+  end: string;
+  slotDuration: number;
+  breaks: TimeRange[];
+}
+
+export interface IScheduleException {
+  _id: Types.ObjectId;
+  date: Date;
+  type: 'vacation' | 'half-day' | 'on-call' | 'custom';
+  start?: string;
+  end?: string;
+  slotDuration?: number;
+  breaks: TimeRange[];
+  reason?: string;
+}
+
+export interface IDoctorSchedule extends Document {
+  _id: Types.ObjectId;
+  doctor: Types.ObjectId;
+  weeklyHours: IWeeklyHours[];
+  exceptions: Types.DocumentArray<IScheduleException & Types.Subdocument>;
+  createdBy: Types.ObjectId;
+  updatedBy?: Types.ObjectId;
+}
+
+export interface WorkingHours {
+  start: string;
+  end: string;
+  slotDuration: number;
+  breaks: TimeRange[];
+  source: 'weekly' | 'exception' | 'default';
+  exceptionType?: IScheduleException['type'];
+}
+
+export interface IBookingLock extends Document {
+  key: string;
+  owner: string;
+  expiresAt: Date;
+}
+
+export interface ISession extends Document {
+  _id: Types.ObjectId;
+  user: Types.ObjectId;
+  jti: string;
+  family?: string;
+  expiresAt: Date;
+  ipAddress?: string;
+  userAgent?: string;
+  revokedAt?: Date;
+  revokedBy?: Types.ObjectId;
+  revokedReason?: 'logout' | 'logout-all' | 'admin' | 'refresh' | 'deactivated' | 'reuse-detected' | 'password-change' | 'password-reset';
+  createdAt: Date;
+}
+
+export interface IRefreshToken extends Document {
+  _id: Types.ObjectId;
+  user: Types.ObjectId;
+  tokenHash: string;
+  family: string;
+  sessionJti: string;
+  expiresAt: Date;
+  usedAt?: Date;
+  revokedAt?: Date;
+  revokedReason?: ISession['revokedReason'];
+  ipAddress?: string;
+  userAgent?: string;
+}
+
+export interface IRecordVersion extends Document {
+  _id: Types.ObjectId;
+  resourceType: string;
+  resourceId: Types.ObjectId;
+  version: number;
+  operation: 'baseline' | 'create' | 'update' | 'restore';
+  snapshot: Record<string, any>;
+  changedFields: string[];
+  changedBy?: Types.ObjectId;
+  restoredFrom?: number;
+  encryptedFields?: Record<string, string>;
+  createdAt: Date;
+}
+
+export interface InteractionWarning {
+  type: 'drug-allergy' | 'drug-drug' | 'duplicate-therapy';
+  severity: 'mild' | 'moderate' | 'severe';
+  medication: string;
+  conflictsWith: string; // an allergen or another medication
+  description: string;
+}
+
+export interface IInteractionOverride extends Document {
+  _id: Types.ObjectId;
+  patient: Types.ObjectId;
+  appointment?: Types.ObjectId;
+  medications: string[];
+  warnings: InteractionWarning[];
+  reason: string;
+  overriddenBy: Types.ObjectId;
+  createdAt: Date;
+}
+
+export interface IAddendum {
+  _id: Types.ObjectId;
+  text: string;
+  author: Types.ObjectId;
+  addedAt: Date;
+}
+
+export interface IEncounterNote extends Document {
+  _id: Types.ObjectId;
+  appointment: Types.ObjectId;
+  patient: Types.ObjectId;
+  author: Types.ObjectId;
+  status: 'draft' | 'signed';
+  subjective?: string;
+  objective?: string;
+  assessment?: string;
+  plan?: string;
+  signedAt?: Date;
+  signedBy?: Types.ObjectId;
+  addenda: Types.DocumentArray<IAddendum & Types.Subdocument>;
+  updatedBy?: Types.ObjectId;
+  encryptedFields?: Record<string, string>;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export type ObservationType =
+  | 'systolic-bp'
+  | 'diastolic-bp'
+  | 'heart-rate'
+  | 'respiratory-rate'
+  | 'temperature'
+  | 'spo2'
+  | 'glucose'
+  | 'weight'
+  | 'height';
+
+export type ObservationFlag = 'normal' | 'low' | 'high' | 'critical-low' | 'critical-high';
+
+export interface IObservation extends Document {
+  _id: Types.ObjectId;
+  patient: Types.ObjectId;
+  appointment?: Types.ObjectId;
+  type: ObservationType;
+  value: number; // always in the type's standard unit
+  unit: string;
+  referenceRange?: {
+    low?: number;
+    high?: number;
+  };
+  flag?: ObservationFlag;
+  observedAt: Date;
+  notes?: string;
+  status: 'final' | 'entered-in-error';
+  errorReason?: string;
+  recordedBy: Types.ObjectId;
+  updatedBy?: Types.ObjectId;
+  createdAt: Date;
+  abnormal: boolean;
+}
+
+export interface IPatientDocument extends Document {
+  _id: Types.ObjectId;
+  patient: Types.ObjectId;
+  appointment?: Types.ObjectId;
+  type: 'lab-report' | 'referral-letter' | 'imaging' | 'scan' | 'consent-form' | 'discharge-summary' | 'other';
+  description?: string;
+  documentDate: Date;
+  file: IStoredFile;
+  uploadedBy: Types.ObjectId;
+  deletedAt?: Date;
+  deletedBy?: Types.ObjectId;
+  deletionReason?: string;
+  createdAt: Date;
+}
+
+export interface ILabResult {
+  _id: Types.ObjectId;
+  panel: string;
+  test: string;
+  name: string;
+  value: number;
+  unit: string;
+  referenceRange?: { low?: number; high?: number };
+  flag: ObservationFlag;
+  comment?: string;
+}
+
+export interface ILabOrder extends Document {
+  _id: Types.ObjectId;
+  patient: Types.ObjectId;
+  appointment: Types.ObjectId;
+  orderedBy: Types.ObjectId;
+  panels: string[];
+  priority: 'routine' | 'urgent' | 'stat';
+  clinicalNotes?: string;
+  status: 'ordered' | 'collected' | 'resulted' | 'reviewed' | 'cancelled';
+  statusHistory: Array<{
+    from: ILabOrder['status'];
+    to: ILabOrder['status'];
+    changedBy: Types.ObjectId;
+    changedAt: Date;
+    reason?: string;
+  }>;
+  results: Types.DocumentArray<ILabResult & Types.Subdocument>;
+  abnormal: boolean;
+  critical: boolean;
+  collectedAt?: Date;
+  collectedBy?: Types.ObjectId;
+  resultedAt?: Date;
+  resultedBy?: Types.ObjectId;
+  reviewedAt?: Date;
+  reviewedBy?: Types.ObjectId;
+  reviewComment?: string;
+  cancelledAt?: Date;
+  cancelledBy?: Types.ObjectId;
+  cancellationReason?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface IExternalProvider {
+  name: string;
+  specialty?: string;
+  organisation?: string;
+  phone?: string;
+  email?: string;
+  address?: string;
+}
+
+export interface IReferral extends Document {
+  _id: Types.ObjectId;
+  patient: Types.ObjectId;
+  appointment?: Types.ObjectId; // the visit the referral was made from
+  referredBy: Types.ObjectId;
+  // Exactly one of toDoctor (internal) or externalProvider is set
+  toDoctor?: Types.ObjectId;
+  externalProvider?: IExternalProvider;
+  specialty?: string;
+  reason: string;
+  clinicalSummary?: string;
+  urgency: 'routine' | 'urgent' | 'emergency';
+  documents: Types.ObjectId[];
+  status: 'sent' | 'accepted' | 'declined' | 'completed' | 'cancelled';
+  statusHistory: Array<{
+    from: IReferral['status'];
+    to: IReferral['status'];
+    changedBy: Types.ObjectId;
+    changedAt: Date;
+    reason?: string;
+  }>;
+  responseNote?: string;
+  acceptedAt?: Date;
+  declinedAt?: Date;
+  completedAt?: Date;
+  cancelledAt?: Date;
+  bookedAppointment?: Types.ObjectId;
+  encryptedFields?: Record<string, string>;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface IImmunization extends Document {
+  _id: Types.ObjectId;
+  patient: Types.ObjectId;
+  appointment?: Types.ObjectId;
+  vaccine: string; // schedule code, e.g. MMR
+  vaccineName: string;
+  doseNumber: number;
+  lotNumber: string;
+  manufacturer?: string;
+  site: 'left-deltoid' | 'right-deltoid' | 'left-thigh' | 'right-thigh' | 'oral' | 'intranasal' | 'other';
+  route?: 'intramuscular' | 'subcutaneous' | 'intradermal' | 'oral' | 'intranasal';
+  administeredAt: Date;
+  administeredBy: Types.ObjectId;
+  notes?: string;
+  status: 'completed' | 'entered-in-error';
+  errorReason?: string;
+  recordedBy: Types.ObjectId;
+  updatedBy?: Types.ObjectId;
+  createdAt: Date;
+}
+
+export interface AuditChange {
+  field: string;
+  before?: unknown;
+  after?: unknown;
+}
+
+export interface IAuditLog extends Document {
+  _id: Types.ObjectId;
+  sequence: number;
+  timestamp: Date;
+  actor?: Types.ObjectId;
+  actorRole?: string;
+  action: 'read' | 'create' | 'update' | 'delete';
+  resourceType: string;
+  resourceId?: string;
+  changes: AuditChange[];
+  method: string;
+  path: string;
+  statusCode?: number;
+  ipAddress?: string;
+  userAgent?: string;
+  requestId?: string;
+  prevHash: string;
+  hash: string;
+}
+
 export interface AuthenticatedRequest extends Request {
   user?: IUser;
+  session?: ISession;
+  enrolmentChallenge?: boolean;
+  permissions?: string[];
+  requestId?: string;
 }
 
 export interface JWTPayload {
   userId: string;
   email: string;
   role: string;
+  jti: string;
+}
+
+export interface TwoFactorChallengePayload {
+  userId: string;
+  purpose: '2fa-login' | '2fa-enrol';
 }
 
 export interface ApiResponse<T = any> {
@@ -112,6 +599,7 @@ export interface ApiResponse<T = any> {
   message?: string;
   data?: T;
   error?: string;
+  warnings?: InteractionWarning[];
   pagination?: {
     currentPage: number;
     totalPages: number;
@@ -141,8 +629,9 @@ export interface DashboardStats {
   recentPatients: Array<{
     id: string;
     name: string;
-    email: string;
+    email?: string;
     createdAt: Date;
+    restricted?: boolean;
   }>;
   appointmentStats: Array<{
     _id: string;
@@ -0,0 +1,92 @@
+import { Types } from 'mongoose';
+import { IAppointment } from '../types/index.js';
+import { Permission } from './permissions.js';
+
+type AppointmentStatus = IAppointment['status'];
+
+export type StatusAction = 'confirm' | 'check-in' | 'complete' | 'cancel' | 'no-show';
+
+interface StatusTransition {
+  from: AppointmentStatus[];
+  to: AppointmentStatus;
+  permission: Permission;
+  timestampField: 'confirmedAt' | 'checkedInAt' | 'completedAt' | 'cancelledAt' | 'noShowAt';
+}
+
+// The only legal status changes: scheduled → confirmed → in-progress → completed, plus cancel and no-show
+export const STATUS_TRANSITIONS: Record<StatusAction, StatusTransition> = {
+  'confirm': {
+    from: ['scheduled'],
+    to: 'confirmed',
+    permission: 'appointments:confirm',
+    timestampField: 'confirmedAt',
+  },
+  'check-in': {
+    from: ['scheduled', 'confirmed'],
+    to: 'in-progress',
+    permission: 'appointments:check-in',
+    timestampField: 'checkedInAt',
+  },
+  'complete': {
+    from: ['in-progress'],
+    to: 'completed',
+    permission: 'appointments:complete',
+    timestampField: 'completedAt',
+  },
+  'cancel': {
+    from: ['scheduled', 'confirmed'],
+    to: 'cancelled',
+    permission: 'appointments:cancel',
+    timestampField: 'cancelledAt',
+  },
+  'no-show': {
+    from: ['scheduled', 'confirmed'],
+    to: 'no-show',
+    permission: 'appointments:no-show',
+    timestampField: 'noShowAt',
+  },
+};
+
+// Fields only the transition endpoints may write
+export const STATUS_MANAGED_FIELDS = [
+  'status',
+  'statusHistory',
+  'confirmedAt',
+  'checkedInAt',
+  'completedAt',
+  'cancelledAt',
+  'cancellationReason',
+  'noShowAt',
+];
+
+export const canTransition = (appointment: IAppointment, action: StatusAction): boolean => {
+  return STATUS_TRANSITIONS[action].from.includes(appointment.status);
+};
+
+// Move the appointment to the action's target status and record the change.
+// Callers must check canTransition first and save the document afterwards.
+export const applyTransition = (
+  appointment: IAppointment,
+  action: StatusAction,
+  userId: Types.ObjectId,
+  reason?: string
+): void => {
+  const transition = STATUS_TRANSITIONS[action];
+  const now = new Date();
+
+  appointment.statusHistory.push({
+    from: appointment.status,
+    to: transition.to,
+    changedBy: userId,
+    changedAt: now,
+    reason,
+  });
+
+  appointment.status = transition.to;
+  appointment[transition.timestampField] = now;
+  appointment.updatedBy = userId;
+
+  if (action === 'cancel') {
+    appointment.cancellationReason = reason;
+  }
+};
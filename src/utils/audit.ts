@@ -0,0 +1,207 @@
+import { createHash } from 'crypto';
+import { Types } from 'mongoose';
+import { Response, NextFunction } from 'express';
+import AuditLog from '../models/AuditLog.js';
+import { isEncryptionPath } from './fieldEncryption.js';
+import { AuditChange, AuthenticatedRequest, IAuditLog } from '../types/index.js';
+
+type AuditAction = IAuditLog['action'];
+
+type AuditEntry = Pick<
+  IAuditLog,
+  'actor' | 'actorRole' | 'action' | 'resourceType' | 'resourceId' | 'changes' | 'method' | 'path' | 'statusCode' | 'ipAddress' | 'userAgent' | 'requestId'
+>;
+
+const GENESIS_HASH = '0'.repeat(64);
+const APPEND_RETRIES = 10;
+const APPEND_RETRY_DELAY_MS = 20;
+
+// Never copied into the audit trail, only noted as changed
+const REDACTED_FIELDS = ['password', 'passwordHistory', 'twoFactor'];
+
+// Bookkeeping fields that change on every save
+const IGNORED_FIELDS = ['_id', '__v', 'createdAt', 'updatedAt'];
+
+const OBJECT_ID = /^[a-f\d]{24}$/i;
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// Round-trip through JSON so stored values hash the same after being read back
+const toPlain = (value: unknown): unknown => {
+  return value === undefined ? undefined : JSON.parse(JSON.stringify(value));
+};
+
+// Top-level field differences between two snapshots of a document
+export const diffChanges = (before: Record<string, any>, after: Record<string, any>): AuditChange[] => {
+  const fields = new Set([...Object.keys(before), ...Object.keys(after)]);
+  const changes: AuditChange[] = [];
+
+  fields.forEach(field => {
+    if (IGNORED_FIELDS.includes(field) || isEncryptionPath(field)) {
+      return;
+    }
+
+    const previous = toPlain(before[field]);
+    const next = toPlain(after[field]);
+
+    if (JSON.stringify(previous) === JSON.stringify(next)) {
+      return;
+    }
+
+    changes.push({ field, before: previous, after: next });
+  });
+
+  return redactChanges(changes, REDACTED_FIELDS);
+};
+
+// Keep the fact that a field changed but not its values
+const redactChanges = (changes: AuditChange[], fields: string[]): AuditChange[] => {
+  return changes.map(change => fields.includes(change.field)
+    ? { field: change.field, before: '[redacted]', after: '[redacted]' }
+    : change);
+};
+
+// Handlers call this so the audit entry written for the request carries the
+// field-level diff and, for creations, the id of the new resource
+export const recordAuditChanges = (
+  res: Response,
+  before: Record<string, any>,
+  after: Record<string, any>,
+  resourceId?: Types.ObjectId | string
+): void => {
+  res.locals.auditChanges = diffChanges(before, after);
+  if (resourceId) {
+    res.locals.auditResourceId = resourceId.toString();
+  }
+};
+
+const computeHash = (entry: Record<string, any>): string => {
+  const canonical = JSON.stringify([
+    entry.sequence,
+    new Date(entry.timestamp).toISOString(),
+    entry.actor?.toString() ?? null,
+    entry.actorRole ?? null,
+    entry.action,
+    entry.resourceType,
+    entry.resourceId ?? null,
+    (entry.changes || []).map((change: AuditChange) => [change.field, change.before ?? null, change.after ?? null]),
+    entry.method,
+    entry.path,
+    entry.statusCode ?? null,
+    entry.ipAddress ?? null,
+    entry.userAgent ?? null,
+    entry.requestId ?? null,
+    entry.prevHash,
+  ]);
+
+  return createHash('sha256').update(canonical).digest('hex');
+};
+
+// Append an entry to the hash chain. Concurrent writers race for the next
+// sequence number; the loser hits the unique index and retries on the new tail.
+export const appendAuditEntry = async (entry: AuditEntry): Promise<IAuditLog> => {
+  for (let attempt = 0; attempt < APPEND_RETRIES; attempt++) {
+    const tail = await AuditLog.findOne().sort({ sequence: -1 }).select('sequence hash');
+
+    const record: Record<string, any> = {
+      ...entry,
+      changes: (entry.changes || []).map(change => ({
+        field: change.field,
+        before: toPlain(change.before),
+        after: toPlain(change.after),
+      })),
+      sequence: (tail?.sequence ?? 0) + 1,
+      timestamp: new Date(),
+      prevHash: tail?.hash ?? GENESIS_HASH,
+    };
+    record.hash = computeHash(record);
+
+    try {
+      return await AuditLog.create(record);
+    } catch (error: any) {
+      if (error?.code !== 11000) {
+        throw error;
+      }
+      await sleep(APPEND_RETRY_DELAY_MS * (attempt + 1));
+    }
+  }
+
+  throw new Error('Could not append audit entry after retries');
+};
+
+const actionFor = (method: string, resourceId?: string): AuditAction => {
+  switch (method) {
+    case 'GET':
+      return 'read';
+    case 'DELETE':
+      return 'delete';
+    case 'POST':
+      // POSTs against an existing resource (transitions, sub-resources) modify it
+      return resourceId ? 'update' : 'create';
+    default:
+      return 'update';
+  }
+};
+
+// Router-level middleware writing one audit entry per request once the response is sent.
+// Changes to redactedFields, such as the resource's encrypted fields, are recorded without their values.
+export const auditTrail = (resourceType: string, redactedFields: string[] = []) => {
+  return (req: AuthenticatedRequest, res: Response, next: NextFunction): void => {
+    const [firstSegment] = req.path.split('/').filter(Boolean);
+    const pathId = firstSegment && OBJECT_ID.test(firstSegment) ? firstSegment : undefined;
+
+    res.on('finish', () => {
+      const resourceId = res.locals.auditResourceId ?? pathId;
+
+      appendAuditEntry({
+        actor: req.user?._id,
+        actorRole: req.user?.role,
+        action: actionFor(req.method, pathId),
+        resourceType,
+        resourceId,
+        changes: redactChanges(res.locals.auditChanges || [], redactedFields),
+        method: req.method,
+        path: req.originalUrl,
+        statusCode: res.statusCode,
+        ipAddress: req.ip,
+        userAgent: req.get('User-Agent'),
+        requestId: req.requestId,
+      }).catch(error => {
+        console.error('Audit log error:', error);
+      });
+    });
+
+    next();
+  };
+};
+
+// Recompute the chain from the start (or a given sequence) and report the first broken link
+export const verifyAuditChain = async (
+  fromSequence = 1
+): Promise<{ valid: boolean; checked: number; brokenAt?: number }> => {
+  const previous = fromSequence > 1
+    ? await AuditLog.findOne({ sequence: fromSequence - 1 }).select('hash')
+    : null;
+  let expectedPrevHash = previous?.hash ?? GENESIS_HASH;
+  let expectedSequence = fromSequence;
+  let checked = 0;
+
+  const cursor = AuditLog.find({ sequence: { $gte: fromSequence } }).sort({ sequence: 1 }).lean().cursor();
+
+  for await (const entry of cursor) {
+    // A gap means an entry was removed; a hash mismatch means one was altered
+    if (
+      entry.sequence !== expectedSequence ||
+      entry.prevHash !== expectedPrevHash ||
+      computeHash(entry) !== entry.hash
+    ) {
+      return { valid: false, checked, brokenAt: expectedSequence };
+    }
+
+    expectedPrevHash = entry.hash;
+    expectedSequence++;
+    checked++;
+  }
+
+  return { valid: true, checked };
+};
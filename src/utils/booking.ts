@@ -0,0 +1,93 @@
+import { randomUUID } from 'crypto';
+import { Types } from 'mongoose';
+import Appointment from '../models/Appointment.js';
+import BookingLock from '../models/BookingLock.js';
+import { IAppointment } from '../types/index.js';
+import { timeToMinutes, rangesOverlap, toDateKey } from './time.js';
+import { getDoctorWorkingHours, fitsWorkingHours } from './schedule.js';
+
+// Statuses that free up the slot they were booked in
+export const NON_BLOCKING_STATUSES = ['cancelled', 'no-show'];
+
+const LOCK_TTL_MS = 10000;
+const LOCK_RETRIES = 5;
+const LOCK_RETRY_DELAY_MS = 50;
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// Acquire the booking lease for a doctor's day. Resolves to a release function,
+// or null when another booking still holds the lease after all retries.
+export const acquireBookingLock = async (
+  doctorId: string | Types.ObjectId,
+  date: Date | string
+): Promise<(() => Promise<void>) | null> => {
+  const key = `${doctorId.toString()}:${toDateKey(date)}`;
+  const owner = randomUUID();
+
+  for (let attempt = 0; attempt < LOCK_RETRIES; attempt++) {
+    try {
+      // Takes over an expired lease or inserts a new one; a live lease makes the upsert hit the unique key
+      await BookingLock.findOneAndUpdate(
+        { key, expiresAt: { $lt: new Date() } },
+        { $set: { owner, expiresAt: new Date(Date.now() + LOCK_TTL_MS) } },
+        { upsert: true }
+      );
+
+      return async () => {
+        await BookingLock.deleteOne({ key, owner });
+      };
+    } catch (error: any) {
+      if (error?.code !== 11000) {
+        throw error;
+      }
+      await sleep(LOCK_RETRY_DELAY_MS * (attempt + 1));
+    }
+  }
+
+  return null;
+};
+
+// Find an active appointment of the doctor whose time range overlaps [time, time + duration)
+export const findOverlappingAppointment = async (options: {
+  doctor: string | Types.ObjectId;
+  date: Date;
+  time: string;
+  duration: number;
+  excludeId?: string | Types.ObjectId;
+}): Promise<IAppointment | null> => {
+  const { doctor, date, time, duration, excludeId } = options;
+
+  const appointments = await Appointment.find({
+    doctor,
+    date,
+    status: { $nin: NON_BLOCKING_STATUSES },
+    ...(excludeId && { _id: { $ne: excludeId } }),
+  }).select('time duration status');
+
+  const start = timeToMinutes(time);
+  const end = start + duration;
+
+  return appointments.find(apt => {
+    const aptStart = timeToMinutes(apt.time);
+    return rangesOverlap(start, end, aptStart, aptStart + apt.duration);
+  }) || null;
+};
+
+export type SlotProblem = 'outside-working-hours' | 'conflict';
+
+// Check a prospective booking against the doctor's schedule and existing appointments
+export const checkSlot = async (options: {
+  doctor: string | Types.ObjectId;
+  date: Date;
+  time: string;
+  duration: number;
+  excludeId?: string | Types.ObjectId;
+}): Promise<SlotProblem | null> => {
+  const workingHours = await getDoctorWorkingHours(options.doctor, options.date);
+  if (!fitsWorkingHours(workingHours, options.time, options.duration)) {
+    return 'outside-working-hours';
+  }
+
+  const conflictingAppointment = await findOverlappingAppointment(options);
+  return conflictingAppointment ? 'conflict' : null;
+};
@@ -0,0 +1,183 @@
+import { Types } from 'mongoose';
+import interactionData from '../data/drugInteractions.json' with { type: 'json' };
+import InteractionOverride from '../models/InteractionOverride.js';
+import { IPatient, InteractionWarning } from '../types/index.js';
+
+type Severity = InteractionWarning['severity'];
+
+interface InteractionRules {
+  // drug name -> the classes it belongs to
+  drugs: Record<string, string[]>;
+  // brand names and plurals -> drug or class name
+  aliases: Record<string, string>;
+  allergyCrossReactions: Array<{ allergen: string; drug: string; severity: Severity; description: string }>;
+  interactions: Array<{ drugs: string[]; severity: Severity; description: string }>;
+}
+
+const rules = interactionData as InteractionRules;
+
+const CLASS_NAMES = new Set(Object.values(rules.drugs).flat());
+
+export const SEVERE_INTERACTION_MESSAGE = 'Severe interaction or allergy conflict found, resubmit with interactionOverrideReason to proceed';
+
+interface ResolvedTerms {
+  // Drug and class names the text mentions
+  named: Set<string>;
+  // ...plus the classes of each named drug
+  expanded: Set<string>;
+}
+
+const normalise = (text: string): string => text.toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim();
+
+// Recognise drug, class and brand names in free text as whole words
+const resolveTerms = (text: string): ResolvedTerms => {
+  const padded = ` ${normalise(text)} `;
+  const mentions = (term: string) => padded.includes(` ${normalise(term)} `);
+  const named = new Set<string>();
+
+  Object.keys(rules.drugs).filter(mentions).forEach(drug => named.add(drug));
+  [...CLASS_NAMES].filter(mentions).forEach(drugClass => named.add(drugClass));
+  Object.entries(rules.aliases).filter(([alias]) => mentions(alias)).forEach(([, target]) => named.add(target));
+
+  const expanded = new Set(named);
+  named.forEach(name => (rules.drugs[name] || []).forEach(drugClass => expanded.add(drugClass)));
+
+  return { named, expanded };
+};
+
+const intersects = (a: Set<string>, b: Set<string>): boolean => [...a].some(term => b.has(term));
+
+const checkAllergy = (medication: string, allergen: string): InteractionWarning | null => {
+  const drug = resolveTerms(medication);
+  const allergy = resolveTerms(allergen);
+
+  // The drug itself (or its class) is what the patient reacts to; unknown names fall back to text
+  const direct = allergy.named.size > 0
+    ? intersects(drug.expanded, allergy.named) || intersects(drug.named, allergy.expanded)
+    : ` ${normalise(medication)} `.includes(` ${normalise(allergen)} `);
+
+  if (direct) {
+    return {
+      type: 'drug-allergy',
+      severity: 'severe',
+      medication,
+      conflictsWith: allergen,
+      description: `Patient has a recorded allergy to ${allergen}`,
+    };
+  }
+
+  const crossReaction = rules.allergyCrossReactions.find(rule => allergy.expanded.has(rule.allergen) && drug.expanded.has(rule.drug));
+
+  return crossReaction
+    ? { type: 'drug-allergy', severity: crossReaction.severity, medication, conflictsWith: allergen, description: crossReaction.description }
+    : null;
+};
+
+const checkPair = (medication: string, other: string): InteractionWarning[] => {
+  const a = resolveTerms(medication);
+  const b = resolveTerms(other);
+  const warnings: InteractionWarning[] = [];
+
+  const sameDrug = a.named.size > 0
+    ? [...a.named].some(name => rules.drugs[name] && b.named.has(name))
+    : normalise(medication) === normalise(other);
+
+  if (sameDrug) {
+    warnings.push({
+      type: 'duplicate-therapy',
+      severity: 'moderate',
+      medication,
+      conflictsWith: other,
+      description: 'The same drug is already being taken',
+    });
+  }
+
+  rules.interactions
+    .filter(rule => {
+      const [first, second] = rule.drugs;
+      return (a.expanded.has(first) && b.expanded.has(second)) || (a.expanded.has(second) && b.expanded.has(first));
+    })
+    .forEach(rule => {
+      warnings.push({
+        type: 'drug-drug',
+        severity: rule.severity,
+        medication,
+        conflictsWith: other,
+        description: rule.description,
+      });
+    });
+
+  return warnings;
+};
+
+// Check medications being prescribed against the patient's allergies, the medications
+// they already take, and each other. Only the candidates are screened, so existing
+// combinations the prescriber is not touching are not re-reported.
+export const screenMedications = (
+  candidates: string[],
+  currentMedications: string[],
+  allergens: string[]
+): InteractionWarning[] => {
+  const warnings: InteractionWarning[] = [];
+
+  candidates.forEach((medication, index) => {
+    allergens.forEach(allergen => {
+      const warning = checkAllergy(medication, allergen);
+      if (warning) {
+        warnings.push(warning);
+      }
+    });
+
+    [...currentMedications, ...candidates.slice(index + 1)].forEach(other => {
+      warnings.push(...checkPair(medication, other));
+    });
+  });
+
+  return warnings;
+};
+
+export interface PrescribingScreen {
+  warnings: InteractionWarning[];
+  // Severe warnings with no override reason given
+  blocked: boolean;
+  // Severe warnings the prescriber chose to override
+  overridden: boolean;
+}
+
+// Screen new medications for a patient; severe findings block unless an override reason is given.
+// Entries being replaced are excluded from the patient's current medications.
+export const screenPrescribing = (
+  patient: IPatient,
+  candidates: string[],
+  overrideReason?: string,
+  excludeMedicationIds: string | string[] = []
+): PrescribingScreen => {
+  const excluded = ([] as string[]).concat(excludeMedicationIds);
+  const currentMedications = (patient.currentMedications || [])
+    .filter(med => med.isActive && !excluded.includes(med._id?.toString()))
+    .map(med => med.name);
+  const allergens = (patient.allergies || []).map(allergy => allergy.allergen);
+
+  const warnings = screenMedications(candidates, currentMedications, allergens);
+  const severe = warnings.some(warning => warning.severity === 'severe');
+
+  return {
+    warnings,
+    blocked: severe && !overrideReason,
+    overridden: severe && !!overrideReason,
+  };
+};
+
+export const recordInteractionOverride = async (options: {
+  patient: Types.ObjectId;
+  appointment?: Types.ObjectId;
+  medications: string[];
+  warnings: InteractionWarning[];
+  reason: string;
+  overriddenBy: Types.ObjectId;
+}): Promise<void> => {
+  await InteractionOverride.create({
+    ...options,
+    warnings: options.warnings.filter(warning => warning.severity === 'severe'),
+  });
+};
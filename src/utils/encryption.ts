@@ -0,0 +1,157 @@
+import { createCipheriv, createDecipheriv, createHmac, randomBytes } from 'crypto';
+
+// Envelope encryption: every value gets its own random data key, which is
+// itself encrypted ("wrapped") with a versioned master key from the environment.
+// Serialised as enc:<keyVersion>:<wrappedKey>:<iv>:<tag>:<ciphertext> (base64 parts).
+
+const PREFIX = 'enc';
+const ALGORITHM = 'aes-256-gcm';
+const IV_LENGTH = 12;
+const KEY_LENGTH = 32;
+
+interface MasterKeys {
+  activeVersion: string;
+  keys: Map<string, Buffer>;
+}
+
+// ENCRYPTION_KEYS="1:<base64 key>,2:<base64 key>"; ENCRYPTION_ACTIVE_KEY_VERSION picks
+// the key for new writes (defaults to the last listed). Old versions stay for decryption.
+export const getMasterKeys = (): MasterKeys => {
+  const keys = new Map<string, Buffer>();
+
+  (process.env.ENCRYPTION_KEYS || '').split(',').map(entry => entry.trim()).filter(Boolean).forEach(entry => {
+    const [version, encoded] = entry.split(':');
+    const key = Buffer.from(encoded || '', 'base64');
+
+    if (!version || key.length !== KEY_LENGTH) {
+      throw new Error(`Invalid encryption key entry "${version}", expected <version>:<base64 32-byte key>`);
+    }
+    keys.set(version, key);
+  });
+
+  if (keys.size === 0) {
+    throw new Error('ENCRYPTION_KEYS is not configured');
+  }
+
+  const activeVersion = process.env.ENCRYPTION_ACTIVE_KEY_VERSION || [...keys.keys()].pop()!;
+  if (!keys.has(activeVersion)) {
+    throw new Error(`Active encryption key version "${activeVersion}" is not in ENCRYPTION_KEYS`);
+  }
+
+  return { activeVersion, keys };
+};
+
+const seal = (key: Buffer, plaintext: Buffer): [Buffer, Buffer, Buffer] => {
+  const iv = randomBytes(IV_LENGTH);
+  const cipher = createCipheriv(ALGORITHM, key, iv);
+  const ciphertext = Buffer.concat([cipher.update(plaintext), cipher.final()]);
+  return [iv, cipher.getAuthTag(), ciphertext];
+};
+
+const open = (key: Buffer, iv: Buffer, tag: Buffer, ciphertext: Buffer): Buffer => {
+  const decipher = createDecipheriv(ALGORITHM, key, iv);
+  decipher.setAuthTag(tag);
+  return Buffer.concat([decipher.update(ciphertext), decipher.final()]);
+};
+
+const wrapKey = (masterKey: Buffer, dataKey: Buffer): string => {
+  return Buffer.concat(seal(masterKey, dataKey)).toString('base64');
+};
+
+const unwrapKey = (masterKey: Buffer, wrapped: string): Buffer => {
+  const raw = Buffer.from(wrapped, 'base64');
+  return open(
+    masterKey,
+    raw.subarray(0, IV_LENGTH),
+    raw.subarray(IV_LENGTH, IV_LENGTH + 16),
+    raw.subarray(IV_LENGTH + 16)
+  );
+};
+
+const parse = (value: string) => {
+  const [prefix, version, wrappedKey, iv, tag, ciphertext] = value.split(':');
+
+  if (prefix !== PREFIX || ciphertext === undefined) {
+    throw new Error('Value is not an encrypted payload');
+  }
+
+  return { version, wrappedKey, iv, tag, ciphertext };
+};
+
+const masterKeyFor = (keys: MasterKeys, version: string): Buffer => {
+  const key = keys.keys.get(version);
+  if (!key) {
+    throw new Error(`Encryption key version "${version}" is not configured`);
+  }
+  return key;
+};
+
+export const isEncrypted = (value: unknown): value is string => {
+  return typeof value === 'string' && value.startsWith(`${PREFIX}:`);
+};
+
+export const keyVersionOf = (value: string): string => parse(value).version;
+
+// Encrypt any JSON-serialisable value under the active master key
+export const encryptValue = (value: unknown): string => {
+  const keys = getMasterKeys();
+  const dataKey = randomBytes(KEY_LENGTH);
+  const [iv, tag, ciphertext] = seal(dataKey, Buffer.from(JSON.stringify(value ?? null), 'utf8'));
+
+  return [
+    PREFIX,
+    keys.activeVersion,
+    wrapKey(masterKeyFor(keys, keys.activeVersion), dataKey),
+    iv.toString('base64'),
+    tag.toString('base64'),
+    ciphertext.toString('base64'),
+  ].join(':');
+};
+
+export const decryptValue = (value: string): unknown => {
+  const keys = getMasterKeys();
+  const payload = parse(value);
+  const dataKey = unwrapKey(masterKeyFor(keys, payload.version), payload.wrappedKey);
+
+  const plaintext = open(
+    dataKey,
+    Buffer.from(payload.iv, 'base64'),
+    Buffer.from(payload.tag, 'base64'),
+    Buffer.from(payload.ciphertext, 'base64')
+  );
+
+  return JSON.parse(plaintext.toString('utf8'));
+};
+
+// Re-wrap the data key under the active master key; the data itself is untouched
+export const rewrapValue = (value: string): string => {
+  const keys = getMasterKeys();
+  const payload = parse(value);
+
+  if (payload.version === keys.activeVersion) {
+    return value;
+  }
+
+  const dataKey = unwrapKey(masterKeyFor(keys, payload.version), payload.wrappedKey);
+
+  return [
+    PREFIX,
+    keys.activeVersion,
+    wrapKey(masterKeyFor(keys, keys.activeVersion), dataKey),
+    payload.iv,
+    payload.tag,
+    payload.ciphertext,
+  ].join(':');
+};
+
+// Deterministic keyed hash of a normalised value, so encrypted fields can still be matched exactly
+export const blindIndex = (value: string): string => {
+  const key = process.env.BLIND_INDEX_KEY;
+  if (!key) {
+    throw new Error('BLIND_INDEX_KEY is not configured');
+  }
+
+  return createHmac('sha256', Buffer.from(key, 'base64'))
+    .update(value.trim().toLowerCase())
+    .digest('hex');
+};
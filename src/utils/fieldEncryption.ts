@@ -0,0 +1,251 @@
+import { Document, Model, Schema } from 'mongoose';
+import { blindIndex, decryptValue, encryptValue, getMasterKeys, isEncrypted, keyVersionOf, rewrapValue } from './encryption.js';
+
+export interface FieldEncryptionOptions {
+  // Paths stored only as ciphertext
+  fields: string[];
+  // Encrypted paths that stay searchable by exact match through a blind index
+  blindIndexes?: Array<{ field: string; unique?: boolean }>;
+}
+
+export interface EncryptedModel {
+  rotateEncryptionKeys(): Promise<{ scanned: number; rewrapped: number; encrypted: number }>;
+}
+
+export const ENCRYPTED_FIELDS_PATH = 'encryptedFields';
+
+export const blindIndexPath = (field: string): string => `${field}BlindIndex`;
+
+const encryptedFieldsBySchema = new WeakMap<Schema, string[]>();
+
+// The paths a model stores only as ciphertext, for anything that must not copy them elsewhere in plaintext
+export const encryptedFieldsOf = (model: Model<any>): string[] => encryptedFieldsBySchema.get(model.schema) || [];
+
+// Storage-only paths that should never surface in responses or diffs
+export const isEncryptionPath = (path: string): boolean => {
+  return path === ENCRYPTED_FIELDS_PATH || path.endsWith('BlindIndex');
+};
+
+const toPlain = (value: unknown): unknown => JSON.parse(JSON.stringify(value));
+
+// Put a decrypted value on the document as if it had been loaded from the database.
+// Array subdocuments created by set() count as new and fully modified, which hides
+// later edits and bumps their timestamps on every save, so both are cleared.
+const setLoadedValue = (doc: Document, field: string, value: unknown): void => {
+  doc.set(field, value);
+
+  const loaded = doc.get(field);
+  if (Array.isArray(loaded)) {
+    loaded.forEach(item => {
+      if (item instanceof Document) {
+        item.isNew = false;
+        item.modifiedPaths().forEach(path => item.unmarkModified(path));
+      }
+    });
+  }
+
+  doc.unmarkModified(field);
+};
+
+// Mongoose plugin encrypting the configured paths on save and decrypting them on
+// load, so route handlers keep reading and writing plaintext documents. Queries
+// on blind-indexed paths are rewritten to match the index instead.
+export const fieldEncryption = (schema: Schema, options: FieldEncryptionOptions): void => {
+  const { fields } = options;
+  const indexed = (options.blindIndexes || []).map(entry => entry.field);
+
+  encryptedFieldsBySchema.set(schema, fields);
+
+  schema.add({
+    [ENCRYPTED_FIELDS_PATH]: {
+      type: Schema.Types.Mixed,
+    },
+  });
+
+  (options.blindIndexes || []).forEach(({ field, unique }) => {
+    schema.add({ [blindIndexPath(field)]: { type: String } });
+    schema.index({ [blindIndexPath(field)]: 1 }, unique ? { unique: true, sparse: true } : {});
+  });
+
+  // Runs after validation, which still sees plaintext. Ciphertext is written per
+  // field so documents loaded with a projection keep their other encrypted fields.
+  schema.pre('save', function(next) {
+    const plaintext: Record<string, unknown> = {};
+
+    try {
+      fields.forEach(field => {
+        if (!this.isNew && !this.isModified(field)) {
+          return;
+        }
+
+        const value = this.get(field);
+        // Copied, so the restored value starts without the change tracking of this save
+        plaintext[field] = value === undefined || value === null ? value : toPlain(value);
+
+        this.set(
+          `${ENCRYPTED_FIELDS_PATH}.${field}`,
+          value === undefined || value === null ? undefined : encryptValue(toPlain(value))
+        );
+
+        if (indexed.includes(field)) {
+          this.set(blindIndexPath(field), typeof value === 'string' ? blindIndex(value) : undefined);
+        }
+
+        this.set(field, undefined);
+
+        // Subdocument changes (e.g. timestamps) would otherwise be written next to the $unset and conflict with it
+        this.modifiedPaths()
+          .filter(path => path.startsWith(`${field}.`))
+          .forEach(path => this.unmarkModified(path));
+      });
+    } catch (error) {
+      return next(error as Error);
+    }
+
+    if (Object.keys(plaintext).length > 0) {
+      this.$locals.plaintext = plaintext;
+    }
+    next();
+  });
+
+  // Put the plaintext back on the in-memory document, whether or not the save succeeded
+  const restorePlaintext = (doc: Document) => {
+    const plaintext = doc.$locals.plaintext as Record<string, unknown> | undefined;
+    if (!plaintext) {
+      return;
+    }
+
+    Object.entries(plaintext).forEach(([field, value]) => {
+      setLoadedValue(doc, field, value);
+    });
+    delete doc.$locals.plaintext;
+  };
+
+  schema.post('save', function(doc: Document) {
+    restorePlaintext(doc);
+  });
+
+  schema.post('save', function(error: Error, doc: Document, next: (err?: Error) => void) {
+    restorePlaintext(doc);
+    next(error);
+  });
+
+  schema.post('init', function(doc: Document) {
+    const encrypted = doc.get(ENCRYPTED_FIELDS_PATH) || {};
+
+    fields.forEach(field => {
+      // Documents written before encryption was enabled still hold plaintext until migrated
+      if (isEncrypted(encrypted[field]) && doc.isSelected(field)) {
+        setLoadedValue(doc, field, decryptValue(encrypted[field]));
+      }
+    });
+  });
+
+  // Fetch the ciphertext whenever a projection asks for (or hides) an encrypted path
+  schema.pre(['find', 'findOne'], function() {
+    const projection = this.projection() as Record<string, unknown> | undefined;
+    if (!projection || Object.keys(projection).length === 0) {
+      return;
+    }
+
+    const inclusive = Object.entries(projection).some(([path, value]) => path !== '_id' && value !== 0 && value !== false);
+
+    fields.forEach(field => {
+      if (inclusive && projection[field]) {
+        this.select(`${ENCRYPTED_FIELDS_PATH}.${field}`);
+      } else if (!inclusive && projection[field] !== undefined) {
+        this.select(`-${ENCRYPTED_FIELDS_PATH}.${field}`);
+      }
+    });
+  });
+
+  // Exact matches on blind-indexed paths become matches on the index
+  const rewriteFilter = (filter: any): any => {
+    if (Array.isArray(filter)) {
+      return filter.map(rewriteFilter);
+    }
+    if (!filter || typeof filter !== 'object' || filter.constructor !== Object) {
+      return filter;
+    }
+
+    const rewritten: Record<string, unknown> = {};
+
+    Object.entries(filter).forEach(([key, value]: [string, any]) => {
+      if (['$or', '$and', '$nor'].includes(key)) {
+        rewritten[key] = rewriteFilter(value);
+      } else if (indexed.includes(key) && typeof value === 'string') {
+        rewritten[blindIndexPath(key)] = blindIndex(value);
+      } else if (indexed.includes(key) && value && typeof value.$ne === 'string') {
+        rewritten[blindIndexPath(key)] = { $ne: blindIndex(value.$ne) };
+      } else if (indexed.includes(key) && value && Array.isArray(value.$in)) {
+        rewritten[blindIndexPath(key)] = { $in: value.$in.map((entry: string) => blindIndex(entry)) };
+      } else {
+        rewritten[key] = value;
+      }
+    });
+
+    return rewritten;
+  };
+
+  if (indexed.length > 0) {
+    schema.pre(
+      ['find', 'findOne', 'countDocuments', 'findOneAndUpdate', 'findOneAndDelete', 'updateOne', 'updateMany', 'deleteOne', 'deleteMany', 'distinct'],
+      function() {
+        this.setQuery(rewriteFilter(this.getFilter()));
+      }
+    );
+  }
+
+  // Keep ciphertext and blind indexes out of API responses
+  const toJSON = schema.get('toJSON') || {};
+  schema.set('toJSON', {
+    ...toJSON,
+    transform: (doc: any, ret: any, opts: any) => {
+      Object.keys(ret).filter(isEncryptionPath).forEach(path => delete ret[path]);
+      return typeof toJSON.transform === 'function' ? toJSON.transform(doc, ret, opts) : ret;
+    },
+  });
+
+  // Re-wrap every value still under an old master key, and encrypt documents
+  // written before encryption was enabled. Works on the raw collection so no
+  // hooks run and untouched paths are left as they are.
+  schema.static('rotateEncryptionKeys', async function(this: Model<any>) {
+    const { activeVersion } = getMasterKeys();
+    const result = { scanned: 0, rewrapped: 0, encrypted: 0 };
+
+    const cursor = this.collection.find({});
+
+    for await (const doc of cursor) {
+      const $set: Record<string, unknown> = {};
+      const $unset: Record<string, ''> = {};
+      result.scanned++;
+
+      fields.forEach(field => {
+        const ciphertext = doc[ENCRYPTED_FIELDS_PATH]?.[field];
+
+        if (isEncrypted(ciphertext)) {
+          if (keyVersionOf(ciphertext) !== activeVersion) {
+            $set[`${ENCRYPTED_FIELDS_PATH}.${field}`] = rewrapValue(ciphertext);
+            result.rewrapped++;
+          }
+        } else if (doc[field] !== undefined && doc[field] !== null) {
+          $set[`${ENCRYPTED_FIELDS_PATH}.${field}`] = encryptValue(doc[field]);
+          $unset[field] = '';
+          if (indexed.includes(field) && typeof doc[field] === 'string') {
+            $set[blindIndexPath(field)] = blindIndex(doc[field]);
+          }
+          result.encrypted++;
+        }
+      });
+
+      if (Object.keys($set).length > 0) {
+        await this.collection.updateOne(
+          { _id: doc._id },
+          Object.keys($unset).length > 0 ? { $set, $unset } : { $set }
+        );
+      }
+    }
+
+    return result;
+  });
+};
@@ -0,0 +1,53 @@
+import icd10Table from '../data/icd10.json' with { type: 'json' };
+
+export interface Icd10Code {
+  code: string;
+  description: string;
+}
+
+export const ICD10_VERSION = icd10Table.version;
+
+const CODES = new Map<string, Icd10Code>(icd10Table.codes.map(entry => [entry.code, entry]));
+
+// Uppercase, with the dot after the three-character category: "e119" and "E11.9" are the same code
+export const normaliseIcd10Code = (value: string): string => {
+  const compact = String(value).trim().toUpperCase().replace(/\./g, '');
+  return compact.length > 3 ? `${compact.slice(0, 3)}.${compact.slice(3)}` : compact;
+};
+
+export const findIcd10Code = (value: string): Icd10Code | undefined => CODES.get(normaliseIcd10Code(value));
+
+export const isIcd10Code = (value: string): boolean => !!findIcd10Code(value);
+
+// Lower is better: the code itself, then codes starting with the query, then
+// descriptions starting with it, then descriptions containing every query word
+const matchRank = (entry: Icd10Code, query: string, code: string, words: string[]): number | undefined => {
+  const description = entry.description.toLowerCase();
+
+  if (entry.code === code) return 0;
+  if (entry.code.startsWith(code)) return 1;
+  if (description.startsWith(query)) return 2;
+
+  const descriptionWords = description.split(/[^a-z0-9']+/);
+  if (words.every(word => descriptionWords.some(candidate => candidate.startsWith(word)))) return 3;
+
+  return undefined;
+};
+
+// Typeahead over codes and descriptions
+export const searchIcd10 = (query: string, limit = 10): Icd10Code[] => {
+  const normalisedQuery = query.trim().toLowerCase();
+  const code = normaliseIcd10Code(query);
+  const words = normalisedQuery.split(/\s+/).filter(Boolean);
+
+  if (words.length === 0) {
+    return [];
+  }
+
+  return [...CODES.values()]
+    .map(entry => ({ entry, rank: matchRank(entry, normalisedQuery, code, words) }))
+    .filter((match): match is { entry: Icd10Code; rank: number } => match.rank !== undefined)
+    .sort((a, b) => a.rank - b.rank || a.entry.code.localeCompare(b.entry.code))
+    .slice(0, limit)
+    .map(match => match.entry);
+};
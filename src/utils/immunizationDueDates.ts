@@ -0,0 +1,44 @@
+import Immunization from '../models/Immunization.js';
+import Patient from '../models/Patient.js';
+import { evaluateImmunizations, nextDueDate } from './immunizations.js';
+import { IImmunization, IPatient } from '../types/index.js';
+
+type RecordedDose = Pick<IImmunization, 'patient' | 'vaccine' | 'doseNumber' | 'administeredAt'>;
+
+// Valid doses of each patient, keyed by patient id
+export const loadCompletedDoses = async (patientIds: IPatient['_id'][]): Promise<Map<string, RecordedDose[]>> => {
+  const immunizations = await Immunization.find({
+    patient: { $in: patientIds },
+    status: 'completed',
+  })
+    .select('patient vaccine doseNumber administeredAt')
+    .lean();
+
+  const byPatient = new Map<string, RecordedDose[]>();
+  immunizations.forEach(immunization => {
+    const key = immunization.patient.toString();
+    byPatient.set(key, [...(byPatient.get(key) || []), immunization]);
+  });
+  return byPatient;
+};
+
+// Store when each patient next has a vaccine due. Called whenever their doses or date
+// of birth change, and for everyone by `npm run refresh-immunizations` after the
+// schedule itself changes.
+export const refreshImmunizationDueDates = async (patients: IPatient[]): Promise<void> => {
+  if (patients.length === 0) {
+    return;
+  }
+
+  const dosesByPatient = await loadCompletedDoses(patients.map(patient => patient._id));
+
+  await Patient.bulkWrite(patients.map(patient => {
+    const dueAt = nextDueDate(evaluateImmunizations(patient, dosesByPatient.get(patient._id.toString()) || []));
+    return {
+      updateOne: {
+        filter: { _id: patient._id },
+        update: dueAt ? { $set: { nextImmunizationDueAt: dueAt } } : { $unset: { nextImmunizationDueAt: 1 } },
+      },
+    };
+  }));
+};
@@ -0,0 +1,167 @@
+import fs from 'fs';
+import defaultSchedule from '../data/immunizationSchedule.json' with { type: 'json' };
+import { IImmunization } from '../types/index.js';
+
+export const IMMUNIZATION_SITES: IImmunization['site'][] = [
+  'left-deltoid',
+  'right-deltoid',
+  'left-thigh',
+  'right-thigh',
+  'oral',
+  'intranasal',
+  'other',
+];
+
+export const IMMUNIZATION_ROUTES: NonNullable<IImmunization['route']>[] = [
+  'intramuscular',
+  'subcutaneous',
+  'intradermal',
+  'oral',
+  'intranasal',
+];
+
+// Ages are whole years, compared against the patient's age virtual
+export interface ScheduledDose {
+  dose: number;
+  minAge: number;
+  // No longer offered beyond this age
+  maxAge?: number;
+  overdueAge?: number;
+  // Days after the previous dose before this one may be given, and by when it should be
+  minIntervalDays?: number;
+  maxIntervalDays?: number;
+}
+
+export interface ScheduledVaccine {
+  code: string;
+  name: string;
+  doses: ScheduledDose[];
+  // Repeat doses once the series is complete, e.g. annual influenza
+  booster?: { intervalDays: number; graceDays: number };
+}
+
+export interface ImmunizationSchedule {
+  version: string;
+  notice?: string;
+  vaccines: ScheduledVaccine[];
+}
+
+export type ImmunizationStatus = 'complete' | 'up-to-date' | 'not-yet-due' | 'due' | 'overdue' | 'not-applicable';
+
+export interface VaccineStatus {
+  code: string;
+  name: string;
+  status: ImmunizationStatus;
+  dosesGiven: number;
+  seriesDoses: number;
+  nextDose?: number;
+  dueDate?: Date;
+  lastGiven?: Date;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+let schedule: ImmunizationSchedule | null = null;
+
+// The bundled schedule, or the file named by IMMUNIZATION_SCHEDULE_FILE in the same format
+export const getImmunizationSchedule = (): ImmunizationSchedule => {
+  if (!schedule) {
+    const file = process.env.IMMUNIZATION_SCHEDULE_FILE;
+    const loaded = file ? JSON.parse(fs.readFileSync(file, 'utf8')) : defaultSchedule;
+
+    if (!Array.isArray(loaded?.vaccines)) {
+      throw new Error(`Immunization schedule ${file} has no vaccines list`);
+    }
+    schedule = loaded as ImmunizationSchedule;
+  }
+  return schedule;
+};
+
+export const findScheduledVaccine = (code: string): ScheduledVaccine | undefined => {
+  return getImmunizationSchedule().vaccines.find(vaccine => vaccine.code === String(code).trim().toUpperCase());
+};
+
+const addDays = (date: Date, days: number): Date => new Date(date.getTime() + days * DAY_MS);
+
+const addYears = (date: Date, years: number): Date => {
+  const result = new Date(date);
+  result.setFullYear(result.getFullYear() + years);
+  return result;
+};
+
+const maxDate = (...dates: Array<Date | undefined>): Date | undefined => {
+  const defined = dates.filter((date): date is Date => !!date);
+  return defined.length > 0 ? new Date(Math.max(...defined.map(date => date.getTime()))) : undefined;
+};
+
+// Where the patient stands for one vaccine, given its valid doses
+const evaluateVaccine = (
+  vaccine: ScheduledVaccine,
+  age: number,
+  dateOfBirth: Date,
+  doses: Array<Pick<IImmunization, 'doseNumber' | 'administeredAt'>>,
+  now: Date
+): VaccineStatus => {
+  const dosesGiven = doses.reduce((highest, dose) => Math.max(highest, dose.doseNumber), 0);
+  const lastGiven = maxDate(...doses.map(dose => dose.administeredAt));
+  const base = { code: vaccine.code, name: vaccine.name, dosesGiven, seriesDoses: vaccine.doses.length, lastGiven };
+
+  const next = vaccine.doses.find(dose => dose.dose > dosesGiven);
+
+  if (!next) {
+    if (!vaccine.booster || !lastGiven) {
+      return { ...base, status: 'complete' };
+    }
+
+    const dueDate = addDays(lastGiven, vaccine.booster.intervalDays);
+    const status = now < dueDate ? 'up-to-date' : now > addDays(dueDate, vaccine.booster.graceDays) ? 'overdue' : 'due';
+    return { ...base, status, nextDose: dosesGiven + 1, dueDate };
+  }
+
+  if (next.maxAge !== undefined && age > next.maxAge) {
+    return { ...base, status: 'not-applicable' };
+  }
+
+  const intervalFrom = dosesGiven > 0 ? lastGiven : undefined;
+  const dueDate = maxDate(
+    addYears(dateOfBirth, next.minAge),
+    intervalFrom && next.minIntervalDays !== undefined ? addDays(intervalFrom, next.minIntervalDays) : undefined
+  )!;
+
+  if (age < next.minAge || now < dueDate) {
+    return { ...base, status: 'not-yet-due', nextDose: next.dose, dueDate };
+  }
+
+  const lateForAge = next.overdueAge !== undefined && age >= next.overdueAge;
+  const lateForInterval = !!intervalFrom && next.maxIntervalDays !== undefined && now > addDays(intervalFrom, next.maxIntervalDays);
+  const overdue = (next.overdueAge !== undefined || next.maxIntervalDays !== undefined)
+    && (next.overdueAge === undefined || lateForAge)
+    && (next.maxIntervalDays === undefined || !intervalFrom || lateForInterval);
+
+  return { ...base, status: overdue ? 'overdue' : 'due', nextDose: next.dose, dueDate };
+};
+
+// Every scheduled vaccine's status for a patient of the given age
+export const evaluateImmunizations = (
+  patient: { age: number; dateOfBirth: Date },
+  immunizations: Array<Pick<IImmunization, 'vaccine' | 'doseNumber' | 'administeredAt'>>,
+  now = new Date()
+): VaccineStatus[] => {
+  return getImmunizationSchedule().vaccines.map(vaccine => evaluateVaccine(
+    vaccine,
+    patient.age,
+    patient.dateOfBirth,
+    immunizations.filter(immunization => immunization.vaccine === vaccine.code),
+    now
+  ));
+};
+
+// Earliest date any scheduled vaccine falls due, or undefined once nothing is left to
+// give. A vaccine is only ever due or overdue from this date on, so it bounds which
+// patients an overdue search has to evaluate.
+export const nextDueDate = (statuses: VaccineStatus[]): Date | undefined => {
+  const dueDates = statuses
+    .map(status => status.dueDate)
+    .filter((date): date is Date => !!date);
+  return dueDates.length > 0 ? new Date(Math.min(...dueDates.map(date => date.getTime()))) : undefined;
+};
@@ -0,0 +1,148 @@
+import { Types } from 'mongoose';
+import labCatalogue from '../data/labPanels.json' with { type: 'json' };
+import { ILabOrder, ILabResult, ObservationFlag } from '../types/index.js';
+import { Permission } from './permissions.js';
+
+export interface LabTest {
+  code: string;
+  name: string;
+  unit: string;
+  low?: number;
+  high?: number;
+  criticalLow?: number;
+  criticalHigh?: number;
+}
+
+export interface LabPanel {
+  code: string;
+  name: string;
+  specimen: string;
+  tests: LabTest[];
+}
+
+export const LAB_CATALOGUE_VERSION = labCatalogue.version;
+
+export const LAB_PANELS = labCatalogue.panels as LabPanel[];
+
+const PANELS = new Map<string, LabPanel>(LAB_PANELS.map(panel => [panel.code, panel]));
+
+export const LAB_PANEL_CODES = [...PANELS.keys()];
+
+export const findLabPanel = (code: string): LabPanel | undefined => PANELS.get(String(code).trim().toUpperCase());
+
+// The test with this code among the given panels, with the panel it belongs to
+export const findLabTest = (panelCodes: string[], testCode: string): { panel: LabPanel; test: LabTest } | undefined => {
+  const code = String(testCode).trim().toUpperCase();
+
+  for (const panelCode of panelCodes) {
+    const panel = findLabPanel(panelCode);
+    const test = panel?.tests.find(candidate => candidate.code === code);
+    if (panel && test) {
+      return { panel, test };
+    }
+  }
+
+  return undefined;
+};
+
+export const classifyLabValue = (test: LabTest, value: number): ObservationFlag => {
+  if (test.criticalLow !== undefined && value < test.criticalLow) return 'critical-low';
+  if (test.criticalHigh !== undefined && value > test.criticalHigh) return 'critical-high';
+  if (test.low !== undefined && value < test.low) return 'low';
+  if (test.high !== undefined && value > test.high) return 'high';
+  return 'normal';
+};
+
+// A result with the catalogue's name, unit and reference range copied in, so it
+// still reads as reported if the catalogue changes later
+export const buildLabResult = (
+  panel: LabPanel,
+  test: LabTest,
+  value: number,
+  comment?: string
+): Omit<ILabResult, '_id'> => ({
+  panel: panel.code,
+  test: test.code,
+  name: test.name,
+  value,
+  unit: test.unit,
+  referenceRange: { low: test.low, high: test.high },
+  flag: classifyLabValue(test, value),
+  comment,
+});
+
+type LabOrderStatus = ILabOrder['status'];
+
+export type LabOrderAction = 'collect' | 'result' | 'review' | 'cancel';
+
+interface LabOrderTransition {
+  from: LabOrderStatus[];
+  to: LabOrderStatus;
+  permission: Permission;
+  timestampField: 'collectedAt' | 'resultedAt' | 'reviewedAt' | 'cancelledAt';
+  userField: 'collectedBy' | 'resultedBy' | 'reviewedBy' | 'cancelledBy';
+}
+
+// The only legal status changes: ordered → collected → resulted → reviewed, plus cancel before resulting
+export const LAB_ORDER_TRANSITIONS: Record<LabOrderAction, LabOrderTransition> = {
+  'collect': {
+    from: ['ordered'],
+    to: 'collected',
+    permission: 'labs:collect',
+    timestampField: 'collectedAt',
+    userField: 'collectedBy',
+  },
+  'result': {
+    from: ['collected'],
+    to: 'resulted',
+    permission: 'labs:result',
+    timestampField: 'resultedAt',
+    userField: 'resultedBy',
+  },
+  'review': {
+    from: ['resulted'],
+    to: 'reviewed',
+    permission: 'labs:review',
+    timestampField: 'reviewedAt',
+    userField: 'reviewedBy',
+  },
+  'cancel': {
+    from: ['ordered', 'collected'],
+    to: 'cancelled',
+    permission: 'labs:order',
+    timestampField: 'cancelledAt',
+    userField: 'cancelledBy',
+  },
+};
+
+export const canTransitionLabOrder = (order: ILabOrder, action: LabOrderAction): boolean => {
+  return LAB_ORDER_TRANSITIONS[action].from.includes(order.status);
+};
+
+// Move the order to the action's target status and record the change.
+// Callers must check canTransitionLabOrder first and save the document afterwards.
+export const applyLabOrderTransition = (
+  order: ILabOrder,
+  action: LabOrderAction,
+  userId: Types.ObjectId,
+  reason?: string
+): void => {
+  const transition = LAB_ORDER_TRANSITIONS[action];
+  const now = new Date();
+
+  order.statusHistory.push({
+    from: order.status,
+    to: transition.to,
+    changedBy: userId,
+    changedAt: now,
+    reason,
+  });
+
+  order.status = transition.to;
+  order[transition.timestampField] = now;
+  order[transition.userField] = userId;
+
+  if (action === 'cancel') {
+    order.cancellationReason = reason;
+  }
+};
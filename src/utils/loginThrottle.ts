@@ -0,0 +1,100 @@
+import bcrypt from 'bcryptjs';
+import { Request } from 'express';
+import LoginAttempt from '../models/LoginAttempt.js';
+import User from '../models/User.js';
+import { ILoginAttempt, IUser } from '../types/index.js';
+
+// Lockout policy, configurable through environment variables
+export const getLoginPolicy = () => ({
+  maxAttempts: parseInt(process.env.LOGIN_MAX_ATTEMPTS || '5'),
+  lockoutMinutes: parseInt(process.env.LOGIN_LOCKOUT_MINUTES || '15'),
+  baseDelayMs: parseInt(process.env.LOGIN_BASE_DELAY_MS || '500'),
+  maxDelayMs: parseInt(process.env.LOGIN_MAX_DELAY_MS || '8000'),
+});
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// Exponential back-off applied to failed login responses
+export const delayAfterFailures = async (failures: number): Promise<void> => {
+  const { baseDelayMs, maxDelayMs } = getLoginPolicy();
+  if (failures <= 0) {
+    return;
+  }
+  await sleep(Math.min(baseDelayMs * 2 ** (failures - 1), maxDelayMs));
+};
+
+// Compared against when the email is unknown so response timing does not reveal it
+let dummyHash: string | null = null;
+export const burnPasswordCheck = async (password: string): Promise<void> => {
+  dummyHash = dummyHash || await bcrypt.hash('not-a-real-password', 12);
+  await bcrypt.compare(password, dummyHash);
+};
+
+// Recent failures for an email, used to delay unknown addresses exactly like real accounts
+export const recentFailuresForEmail = async (email: string): Promise<number> => {
+  const { lockoutMinutes } = getLoginPolicy();
+  return LoginAttempt.countDocuments({
+    email,
+    success: false,
+    createdAt: { $gte: new Date(Date.now() - lockoutMinutes * 60 * 1000) },
+  });
+};
+
+export const isLocked = (user: IUser): boolean => {
+  return !!user.lockUntil && user.lockUntil > new Date();
+};
+
+// Count a failed attempt against the account, locking it once the limit is reached.
+// The count is incremented in the database so concurrent failures are all counted,
+// and the lock follows from the count the increment returned.
+export const registerFailure = async (user: IUser): Promise<number> => {
+  const { maxAttempts, lockoutMinutes } = getLoginPolicy();
+  const now = new Date();
+
+  // An expired lock starts a fresh round of attempts. Matching on the lock itself
+  // lets only one of several concurrent failures reset the count.
+  if (user.lockUntil && user.lockUntil <= now) {
+    await User.updateOne(
+      { _id: user._id, lockUntil: user.lockUntil },
+      { $set: { failedLoginAttempts: 0 }, $unset: { lockUntil: 1 } }
+    );
+  }
+
+  const updated = await User.findOneAndUpdate(
+    { _id: user._id },
+    { $inc: { failedLoginAttempts: 1 }, $set: { lastFailedLoginAt: now } },
+    { new: true }
+  ).select('failedLoginAttempts');
+  const failures = updated?.failedLoginAttempts ?? 0;
+
+  if (failures >= maxAttempts) {
+    await User.updateOne(
+      { _id: user._id },
+      { $set: { lockUntil: new Date(now.getTime() + lockoutMinutes * 60 * 1000) } }
+    );
+  }
+
+  return failures;
+};
+
+export const clearFailures = (user: IUser): void => {
+  user.failedLoginAttempts = 0;
+  user.lastFailedLoginAt = undefined;
+  user.lockUntil = undefined;
+};
+
+export const recordLoginAttempt = async (
+  req: Request,
+  email: string,
+  reason: ILoginAttempt['reason'],
+  user?: IUser | null
+): Promise<void> => {
+  await LoginAttempt.create({
+    email,
+    user: user?._id,
+    success: reason === 'success',
+    reason,
+    ipAddress: req.ip,
+    userAgent: req.get('User-Agent'),
+  });
+};
@@ -0,0 +1,52 @@
+import fs from 'fs/promises';
+import path from 'path';
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+}
+
+export interface MailTransport {
+  send(message: MailMessage): Promise<void>;
+}
+
+// Prints messages to stdout; the default for local development
+export const consoleTransport: MailTransport = {
+  async send(message) {
+    console.log(`📧 Mail to ${message.to}: ${message.subject}\n${message.text}`);
+  },
+};
+
+// Writes each message as a JSON file into MAIL_OUTBOX_DIR
+export const fileTransport: MailTransport = {
+  async send(message) {
+    const outbox = process.env.MAIL_OUTBOX_DIR || 'mail-outbox';
+    await fs.mkdir(outbox, { recursive: true });
+    const fileName = `${Date.now()}-${message.to.replace(/[^a-zA-Z0-9@.]/g, '_')}.json`;
+    await fs.writeFile(
+      path.join(outbox, fileName),
+      JSON.stringify({ ...message, sentAt: new Date().toISOString() }, null, 2)
+    );
+  },
+};
+
+let customTransport: MailTransport | null = null;
+
+// Plug in another transport (SMTP, provider SDK) at startup
+export const setMailTransport = (custom: MailTransport): void => {
+  customTransport = custom;
+};
+
+// Messages carry reset links, so production must not fall back to printing them
+// into the logs. Called at startup, after any custom transport has been set.
+export const assertMailTransportConfigured = (): void => {
+  if (process.env.NODE_ENV === 'production' && !customTransport && process.env.MAIL_TRANSPORT !== 'file') {
+    throw new Error('No mail transport configured for production: set MAIL_TRANSPORT=file or call setMailTransport');
+  }
+};
+
+export const sendMail = (message: MailMessage): Promise<void> => {
+  const transport = customTransport || (process.env.MAIL_TRANSPORT === 'file' ? fileTransport : consoleTransport);
+  return transport.send(message);
+};
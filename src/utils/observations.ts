@@ -0,0 +1,209 @@
+import { IObservation, ObservationFlag, ObservationType } from '../types/index.js';
+
+interface Limits {
+  low?: number;
+  high?: number;
+}
+
+interface ObservationDefinition {
+  label: string;
+  unit: string; // values are stored in this unit
+  conversions?: Record<string, (value: number) => number>; // other accepted units
+  normal?: Limits; // adult reference range
+  critical?: Limits;
+  plausible: { min: number; max: number }; // anything outside is a data entry error
+}
+
+export const OBSERVATION_DEFINITIONS: Record<ObservationType, ObservationDefinition> = {
+  'systolic-bp': {
+    label: 'Systolic blood pressure',
+    unit: 'mmHg',
+    normal: { low: 90, high: 120 },
+    critical: { low: 70, high: 180 },
+    plausible: { min: 30, max: 300 },
+  },
+  'diastolic-bp': {
+    label: 'Diastolic blood pressure',
+    unit: 'mmHg',
+    normal: { low: 60, high: 80 },
+    critical: { low: 40, high: 120 },
+    plausible: { min: 10, max: 200 },
+  },
+  'heart-rate': {
+    label: 'Heart rate',
+    unit: 'bpm',
+    normal: { low: 60, high: 100 },
+    critical: { low: 40, high: 130 },
+    plausible: { min: 10, max: 300 },
+  },
+  'respiratory-rate': {
+    label: 'Respiratory rate',
+    unit: 'breaths/min',
+    normal: { low: 12, high: 20 },
+    critical: { low: 8, high: 30 },
+    plausible: { min: 1, max: 80 },
+  },
+  temperature: {
+    label: 'Body temperature',
+    unit: '°C',
+    conversions: { '°F': value => (value - 32) * 5 / 9 },
+    normal: { low: 36.1, high: 37.8 },
+    critical: { low: 35, high: 40 },
+    plausible: { min: 25, max: 45 },
+  },
+  spo2: {
+    label: 'Oxygen saturation',
+    unit: '%',
+    normal: { low: 95, high: 100 },
+    critical: { low: 90 },
+    plausible: { min: 40, max: 100 },
+  },
+  glucose: {
+    label: 'Blood glucose',
+    unit: 'mg/dL',
+    conversions: { 'mmol/L': value => value * 18.016 },
+    normal: { low: 70, high: 140 },
+    critical: { low: 54, high: 400 },
+    plausible: { min: 10, max: 2000 },
+  },
+  weight: {
+    label: 'Body weight',
+    unit: 'kg',
+    conversions: { lb: value => value * 0.45359237 },
+    plausible: { min: 0.2, max: 650 },
+  },
+  height: {
+    label: 'Height',
+    unit: 'cm',
+    conversions: { in: value => value * 2.54 },
+    plausible: { min: 20, max: 275 },
+  },
+};
+
+export const OBSERVATION_TYPES = Object.keys(OBSERVATION_DEFINITIONS) as ObservationType[];
+
+export const isAcceptedUnit = (type: ObservationType, unit: string): boolean => {
+  const definition = OBSERVATION_DEFINITIONS[type];
+  return !!definition && (unit === definition.unit || !!definition.conversions?.[unit]);
+};
+
+const round = (value: number, places = 2): number => {
+  const factor = 10 ** places;
+  return Math.round(value * factor) / factor;
+};
+
+// Convert a reading to the type's standard unit; undefined when it is implausible
+export const normaliseReading = (type: ObservationType, value: number, unit?: string): number | undefined => {
+  const definition = OBSERVATION_DEFINITIONS[type];
+  const convert = unit && unit !== definition.unit ? definition.conversions?.[unit] : undefined;
+  const normalised = round(convert ? convert(value) : value);
+
+  const { min, max } = definition.plausible;
+  return normalised >= min && normalised <= max ? normalised : undefined;
+};
+
+export const classifyReading = (type: ObservationType, value: number): ObservationFlag | undefined => {
+  const { normal, critical } = OBSERVATION_DEFINITIONS[type];
+  if (!normal) {
+    return undefined;
+  }
+
+  if (critical?.low !== undefined && value < critical.low) return 'critical-low';
+  if (critical?.high !== undefined && value > critical.high) return 'critical-high';
+  if (normal.low !== undefined && value < normal.low) return 'low';
+  if (normal.high !== undefined && value > normal.high) return 'high';
+  return 'normal';
+};
+
+export const referenceRangeOf = (type: ObservationType): Limits | undefined => OBSERVATION_DEFINITIONS[type].normal;
+
+const bmiCategory = (bmi: number): string => {
+  if (bmi < 18.5) return 'underweight';
+  if (bmi < 25) return 'normal';
+  if (bmi < 30) return 'overweight';
+  return 'obese';
+};
+
+// BMI from the most recent weight and height readings
+export const deriveBmi = (weight?: IObservation, height?: IObservation) => {
+  if (!weight || !height) {
+    return null;
+  }
+
+  const metres = height.value / 100;
+  const bmi = round(weight.value / (metres * metres), 1);
+
+  return {
+    value: bmi,
+    unit: 'kg/m²',
+    category: bmiCategory(bmi),
+    weightObservedAt: weight.observedAt,
+    heightObservedAt: height.observedAt,
+  };
+};
+
+export type TrendInterval = 'raw' | 'day' | 'week' | 'month';
+
+type TrendReading = Pick<IObservation, 'type' | 'value' | 'flag' | 'observedAt'>;
+
+// Start (UTC) of the day, Monday-based week or month a reading falls in
+const periodStart = (date: Date, interval: Exclude<TrendInterval, 'raw'>): Date => {
+  const start = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+
+  if (interval === 'week') {
+    start.setUTCDate(start.getUTCDate() - ((start.getUTCDay() + 6) % 7));
+  } else if (interval === 'month') {
+    start.setUTCDate(1);
+  }
+
+  return start;
+};
+
+const bucketReadings = (readings: TrendReading[], interval: Exclude<TrendInterval, 'raw'>) => {
+  const buckets = new Map<number, number[]>();
+
+  readings.forEach(reading => {
+    const key = periodStart(reading.observedAt, interval).getTime();
+    buckets.set(key, [...(buckets.get(key) || []), reading.value]);
+  });
+
+  return [...buckets.entries()].map(([key, values]) => ({
+    period: new Date(key),
+    mean: round(values.reduce((sum, value) => sum + value, 0) / values.length),
+    min: Math.min(...values),
+    max: Math.max(...values),
+    count: values.length,
+  }));
+};
+
+// One series per type from readings sorted oldest first, raw or averaged per period,
+// with summary statistics over the whole range
+export const buildTrendSeries = (readings: TrendReading[], types: ObservationType[], interval: TrendInterval) => {
+  return types.map(type => {
+    const definition = OBSERVATION_DEFINITIONS[type];
+    const series = readings.filter(reading => reading.type === type);
+    const values = series.map(reading => reading.value);
+    const first = series[0];
+    const latest = series[series.length - 1];
+
+    return {
+      type,
+      label: definition.label,
+      unit: definition.unit,
+      referenceRange: definition.normal,
+      points: interval === 'raw'
+        ? series.map(reading => ({ observedAt: reading.observedAt, value: reading.value, flag: reading.flag }))
+        : bucketReadings(series, interval),
+      stats: latest
+        ? {
+          count: values.length,
+          min: Math.min(...values),
+          max: Math.max(...values),
+          mean: round(values.reduce((sum, value) => sum + value, 0) / values.length),
+          latest: { value: latest.value, observedAt: latest.observedAt, flag: latest.flag },
+          change: round(latest.value - first.value),
+        }
+        : null,
+    };
+  });
+};
@@ -0,0 +1,37 @@
+// Password strength policy, configurable through environment variables
+export const getPasswordPolicy = () => ({
+  minLength: parseInt(process.env.PASSWORD_MIN_LENGTH || '8'),
+  requireUppercase: process.env.PASSWORD_REQUIRE_UPPERCASE !== 'false',
+  requireLowercase: process.env.PASSWORD_REQUIRE_LOWERCASE !== 'false',
+  requireNumber: process.env.PASSWORD_REQUIRE_NUMBER !== 'false',
+  requireSymbol: process.env.PASSWORD_REQUIRE_SYMBOL !== 'false',
+  historySize: parseInt(process.env.PASSWORD_HISTORY_SIZE || '5'),
+});
+
+// Returns the list of unmet requirements; empty when the password is acceptable
+export const checkPasswordStrength = (password: string): string[] => {
+  const policy = getPasswordPolicy();
+  const problems: string[] = [];
+
+  if (typeof password !== 'string' || password.length < policy.minLength) {
+    problems.push(`at least ${policy.minLength} characters`);
+  }
+  if (policy.requireUppercase && !/[A-Z]/.test(password)) {
+    problems.push('an uppercase letter');
+  }
+  if (policy.requireLowercase && !/[a-z]/.test(password)) {
+    problems.push('a lowercase letter');
+  }
+  if (policy.requireNumber && !/[0-9]/.test(password)) {
+    problems.push('a number');
+  }
+  if (policy.requireSymbol && !/[^A-Za-z0-9]/.test(password)) {
+    problems.push('a symbol');
+  }
+
+  return problems;
+};
+
+export const describePasswordProblems = (problems: string[]): string => {
+  return `Password must contain ${problems.join(', ')}`;
+};
@@ -0,0 +1,181 @@
+import { Types } from 'mongoose';
+import BreakGlassAccess from '../models/BreakGlassAccess.js';
+import Patient from '../models/Patient.js';
+import { hasPermission } from '../middleware/auth.js';
+import { AuthenticatedRequest, IAppointment, IPatient } from '../types/index.js';
+
+export interface PatientAccess {
+  userId: Types.ObjectId;
+  clinical: boolean;
+  careTeamOnly: boolean;
+}
+
+// Fields visible without patients:read-clinical
+export const DEMOGRAPHIC_FIELDS = [
+  'firstName',
+  'lastName',
+  'email',
+  'phone',
+  'dateOfBirth',
+  'gender',
+  'address',
+  'emergencyContact',
+  'primaryDoctor',
+  'isActive',
+  'profileImage',
+  'profileImageFile',
+  'createdAt',
+  'updatedAt',
+].join(' ');
+
+// Clinical users are limited to their own patients unless they hold patients:read-all;
+// demographics-only users see every patient without the clinical fields
+export const getPatientAccess = async (req: AuthenticatedRequest): Promise<PatientAccess> => {
+  const clinical = await hasPermission(req, 'patients:read-clinical');
+  const readAll = await hasPermission(req, 'patients:read-all');
+
+  return {
+    userId: req.user!._id,
+    clinical,
+    careTeamOnly: clinical && !readAll,
+  };
+};
+
+// Fields every access check reads, whatever else a route selects
+export const ACCESS_FIELDS = 'primaryDoctor careTeam restriction';
+
+export const BREAK_GLASS_NOTICE = 'Accessed under break-glass override, this access has been logged for review';
+
+export const patientProjection = (access: PatientAccess): string => {
+  return access.clinical ? '' : `${DEMOGRAPHIC_FIELDS} ${ACCESS_FIELDS}`;
+};
+
+// Query condition restricting patients to the user's care team, if they are scoped
+export const careTeamFilter = (access: PatientAccess): Record<string, unknown> => {
+  if (!access.careTeamOnly) {
+    return {};
+  }
+
+  return {
+    $or: [
+      { primaryDoctor: access.userId },
+      { 'careTeam.user': access.userId },
+    ],
+  };
+};
+
+// primaryDoctor and careTeam.user may or may not be populated
+const refId = (ref: any): string | undefined => (ref?._id ?? ref)?.toString();
+
+export const isOnCareTeam = (patient: IPatient, userId: Types.ObjectId): boolean => {
+  const id = userId.toString();
+  return refId(patient.primaryDoctor) === id || (patient.careTeam || []).some(member => refId(member.user) === id);
+};
+
+export const canAccessPatient = (access: PatientAccess, patient: IPatient): boolean => {
+  return !access.careTeamOnly || isOnCareTeam(patient, access.userId);
+};
+
+// Restricted records are closed to everyone outside the care team, whatever their permissions
+export const isRestrictedFor = (patient: IPatient, userId: Types.ObjectId): boolean => {
+  return !!patient.restriction?.category && !isOnCareTeam(patient, userId);
+};
+
+// How a restricted record appears to users outside its care team
+export const restrictedSummary = (patient: IPatient) => ({
+  _id: patient._id,
+  firstName: patient.firstName,
+  lastName: patient.lastName,
+  dateOfBirth: patient.dateOfBirth,
+  restricted: true,
+});
+
+// Appointment fields that belong to the patient's clinical record
+export const APPOINTMENT_CLINICAL_FIELDS = ['symptoms', 'diagnosis', 'diagnosisCode', 'treatment', 'notes', 'prescriptions'];
+
+// Query condition restricting appointments to the user's care-team patients and
+// to those booked with them, if they are scoped
+export const appointmentScopeFilter = async (access: PatientAccess): Promise<Record<string, unknown>> => {
+  if (!access.careTeamOnly) {
+    return {};
+  }
+
+  const patientIds = await Patient.distinct('_id', careTeamFilter(access));
+  return {
+    $or: [
+      { patient: { $in: patientIds } },
+      { doctor: access.userId },
+    ],
+  };
+};
+
+// Also takes an appointment series, whose doctor holds every occurrence
+export const isAppointmentDoctor = (appointment: Pick<IAppointment, 'doctor'>, userId: Types.ObjectId): boolean => {
+  return refId(appointment.doctor) === userId.toString();
+};
+
+// An appointment as the user may see it, from one loaded with the patient populated
+// including ACCESS_FIELDS (left out of the result). Restricted patients outside the
+// user's care team appear by name only. The clinical fields are kept for clinical
+// users who may open the patient's record (breakGlass when they opened it under a
+// grant) or whose appointment it is.
+export const presentAppointment = (
+  appointment: IAppointment,
+  access: PatientAccess,
+  breakGlass = false
+): Record<string, any> => {
+  const data = appointment.toJSON();
+  const patient = appointment.patient as unknown as IPatient | null;
+  const restricted = !breakGlass && !!patient && isRestrictedFor(patient, access.userId);
+  const clinical = access.clinical && !restricted && (
+    breakGlass ||
+    isAppointmentDoctor(appointment, access.userId) ||
+    (!!patient && canAccessPatient(access, patient))
+  );
+
+  if (patient) {
+    if (restricted) {
+      data.patient = restrictedSummary(patient);
+    } else {
+      ACCESS_FIELDS.split(' ').forEach(field => delete data.patient[field]);
+    }
+  }
+
+  if (!clinical) {
+    APPOINTMENT_CLINICAL_FIELDS.forEach(field => delete data[field]);
+  }
+
+  return data;
+};
+
+export const breakGlassDurationMs = (): number => parseInt(process.env.BREAK_GLASS_DURATION_MINUTES || '60') * 60 * 1000;
+
+// Decide how the current request may open a patient record: ordinarily, under an
+// active break-glass grant (each such access is logged on the grant), or not at all
+export const resolvePatientAccess = async (
+  req: AuthenticatedRequest,
+  patient: IPatient
+): Promise<'ordinary' | 'break-glass' | null> => {
+  const access = await getPatientAccess(req);
+
+  if (canAccessPatient(access, patient) && !isRestrictedFor(patient, access.userId)) {
+    return 'ordinary';
+  }
+
+  const grant = await BreakGlassAccess.findOneAndUpdate(
+    { user: access.userId, patient: patient._id, expiresAt: { $gt: new Date() } },
+    {
+      $push: {
+        accesses: {
+          method: req.method,
+          path: req.originalUrl,
+          accessedAt: new Date(),
+          ipAddress: req.ip,
+        },
+      },
+    },
+    { sort: { expiresAt: -1 } }
+  );
+
+  return grant ? 'break-glass' : null;
+};
@@ -0,0 +1,122 @@
+import Role from '../models/Role.js';
+
+// Every permission a route can declare. Custom roles may only grant these.
+// patients:read covers demographics; patients:read-clinical adds the clinical
+// record for care-team patients, and patients:read-all lifts the care-team limit.
+export const PERMISSIONS = [
+  'patients:read',
+  'patients:read-clinical',
+  'patients:read-all',
+  'patients:write',
+  'patients:delete',
+  'patients:restrict',
+  'patients:break-glass',
+  'break-glass:review',
+  'appointments:read',
+  'appointments:write',
+  'appointments:confirm',
+  'appointments:check-in',
+  'appointments:complete',
+  'appointments:cancel',
+  'appointments:no-show',
+  'prescriptions:write',
+  'notes:write',
+  'labs:order',
+  'labs:collect',
+  'labs:result',
+  'labs:review',
+  'referrals:write',
+  'schedules:read',
+  'schedules:write',
+  'schedules:manage',
+  'doctors:read',
+  'users:read',
+  'users:manage',
+  'roles:manage',
+  'audit:read',
+  'dashboard:read',
+] as const;
+
+export type Permission = typeof PERMISSIONS[number];
+
+export const BUILT_IN_ROLES = ['admin', 'doctor', 'nurse', 'staff'] as const;
+
+export type BuiltInRole = typeof BUILT_IN_ROLES[number];
+
+// The single source of truth for what each built-in role may do
+export const ROLE_PERMISSIONS: Record<BuiltInRole, readonly Permission[]> = {
+  admin: PERMISSIONS,
+  doctor: [
+    'patients:read',
+    'patients:read-clinical',
+    'patients:write',
+    'patients:break-glass',
+    'appointments:read',
+    'appointments:write',
+    'appointments:confirm',
+    'appointments:check-in',
+    'appointments:complete',
+    'appointments:cancel',
+    'appointments:no-show',
+    'prescriptions:write',
+    'notes:write',
+    'labs:order',
+    'labs:collect',
+    'labs:result',
+    'labs:review',
+    'referrals:write',
+    'schedules:read',
+    'schedules:write',
+    'doctors:read',
+    'dashboard:read',
+  ],
+  nurse: [
+    'patients:read',
+    'patients:read-clinical',
+    'patients:write',
+    'patients:break-glass',
+    'appointments:read',
+    'appointments:write',
+    'appointments:confirm',
+    'appointments:check-in',
+    'appointments:cancel',
+    'appointments:no-show',
+    'notes:write',
+    'labs:collect',
+    'labs:result',
+    'schedules:read',
+    'doctors:read',
+    'dashboard:read',
+  ],
+  staff: [
+    'patients:read',
+    'appointments:read',
+    'appointments:confirm',
+    'schedules:read',
+    'doctors:read',
+    'dashboard:read',
+  ],
+};
+
+export const isBuiltInRole = (role: string): role is BuiltInRole => {
+  return (BUILT_IN_ROLES as readonly string[]).includes(role);
+};
+
+export const isPermission = (value: string): value is Permission => {
+  return (PERMISSIONS as readonly string[]).includes(value);
+};
+
+// Built-in roles resolve from the table above; anything else is an
+// admin-defined role looked up on every call so edits apply immediately
+export const getRolePermissions = async (role: string): Promise<Permission[]> => {
+  if (isBuiltInRole(role)) {
+    return [...ROLE_PERMISSIONS[role]];
+  }
+
+  const customRole = await Role.findOne({ name: role }).lean();
+  return customRole ? customRole.permissions.filter(isPermission) : [];
+};
+
+export const roleExists = async (role: string): Promise<boolean> => {
+  return isBuiltInRole(role) || (await Role.exists({ name: role })) !== null;
+};
@@ -0,0 +1,107 @@
+import { Types } from 'mongoose';
+import User from '../models/User.js';
+import { PrescribingScreen, screenPrescribing } from './drugInteractions.js';
+import { IAppointment, IMedication, IPatient } from '../types/index.js';
+
+const DURATION_PATTERN = /^\s*(\d+)\s*(d|days?|w|wks?|weeks?|m|mos?|months?|y|yrs?|years?)\b/i;
+
+// End of a course described in free text ("7 days", "2 weeks", "3 months");
+// undefined for open-ended or unrecognised durations such as "ongoing"
+export const courseEndDate = (start: Date, duration: string): Date | undefined => {
+  const match = DURATION_PATTERN.exec(duration || '');
+  if (!match) {
+    return undefined;
+  }
+
+  const amount = parseInt(match[1]);
+  const unit = match[2].toLowerCase()[0];
+  const end = new Date(start);
+
+  if (unit === 'd') {
+    end.setDate(end.getDate() + amount);
+  } else if (unit === 'w') {
+    end.setDate(end.getDate() + amount * 7);
+  } else {
+    end.setMonth(end.getMonth() + (unit === 'm' ? amount : amount * 12));
+    // Clamp to the last day of a shorter month (31 Jan + 1 month is 28/29 Feb)
+    if (end.getDate() !== start.getDate()) {
+      end.setDate(0);
+    }
+  }
+
+  return end;
+};
+
+const sameMedication = (a: string, b: string): boolean => a.trim().toLowerCase() === b.trim().toLowerCase();
+
+// Screen the prescriptions a completion will promote against the patient's allergies
+// and other medications. Active entries they renew are left out, so a repeat course
+// is not reported as duplicate therapy.
+export const screenPromotion = (
+  patient: IPatient,
+  appointment: IAppointment,
+  overrideReason?: string
+): PrescribingScreen | null => {
+  const medications = (appointment.prescriptions || []).map(prescription => prescription.medication);
+  if (medications.length === 0) {
+    return null;
+  }
+
+  const renewed = patient.currentMedications
+    .filter(med => med.isActive && medications.some(medication => sameMedication(med.name, medication)))
+    .map(med => med._id.toString());
+
+  return screenPrescribing(patient, medications, overrideReason, renewed);
+};
+
+// Copy a completed appointment's prescriptions onto the patient's medication list.
+// An active entry for the same medication is updated to the new course; anything
+// else becomes a new entry, so promoting the same visit twice changes nothing more.
+// Every entry links back to the appointment. The caller saves the patient.
+export const promotePrescriptions = async (
+  patient: IPatient,
+  appointment: IAppointment,
+  userId: Types.ObjectId
+): Promise<IMedication[]> => {
+  const prescriptions = appointment.prescriptions || [];
+  if (prescriptions.length === 0) {
+    return [];
+  }
+
+  const doctor = await User.findById(appointment.doctor).select('firstName lastName');
+
+  const startDate = appointment.completedAt || new Date();
+  const prescribedBy = doctor ? `Dr. ${doctor.firstName} ${doctor.lastName}` : 'Unknown prescriber';
+  const promoted: IMedication[] = [];
+
+  prescriptions.forEach(prescription => {
+    const course = {
+      dosage: prescription.dosage,
+      frequency: prescription.frequency,
+      endDate: courseEndDate(startDate, prescription.duration),
+      prescribedBy,
+      sourceAppointment: appointment._id,
+      updatedBy: userId,
+    };
+
+    const existing = patient.currentMedications.find(med => med.isActive && sameMedication(med.name, prescription.medication));
+
+    if (existing) {
+      existing.set(course);
+      promoted.push(existing);
+    } else {
+      const entry = patient.currentMedications.create({
+        ...course,
+        name: prescription.medication,
+        startDate,
+        recordedBy: userId,
+      });
+      patient.currentMedications.push(entry);
+      promoted.push(entry);
+    }
+  });
+
+  patient.$locals.changedBy = userId;
+
+  return promoted;
+};
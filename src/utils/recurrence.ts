@@ -0,0 +1,65 @@
+import { IRecurrenceRule } from '../types/index.js';
+
+// Hard cap on generated occurrences so an open-ended rule cannot flood the calendar
+export const MAX_OCCURRENCES = 104;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const addDays = (date: Date, days: number): Date => new Date(date.getTime() + days * DAY_MS);
+
+// Expand a recurrence rule into occurrence dates (UTC midnight), starting at startDate.
+// Mirrors RRULE semantics: monthly rules skip months without the start day-of-month.
+export const generateOccurrenceDates = (startDate: Date, rule: IRecurrenceRule): Date[] => {
+  const start = new Date(new Date(startDate).toISOString().slice(0, 10));
+  const until = rule.until ? new Date(new Date(rule.until).toISOString().slice(0, 10)) : null;
+  const limit = Math.min(rule.count || MAX_OCCURRENCES, MAX_OCCURRENCES);
+  const interval = rule.interval || 1;
+  const dates: Date[] = [];
+
+  const accept = (date: Date): boolean => {
+    if (until && date > until) {
+      return false;
+    }
+    dates.push(date);
+    return dates.length < limit;
+  };
+
+  if (rule.frequency === 'daily') {
+    let current = start;
+    while (accept(current)) {
+      current = addDays(current, interval);
+    }
+    return dates;
+  }
+
+  if (rule.frequency === 'weekly') {
+    const weekdays = rule.byWeekday && rule.byWeekday.length > 0
+      ? [...new Set(rule.byWeekday)].sort((a, b) => a - b)
+      : [start.getUTCDay()];
+    const weekStart = addDays(start, -start.getUTCDay());
+
+    for (let week = 0; ; week += interval) {
+      for (const weekday of weekdays) {
+        const candidate = addDays(weekStart, week * 7 + weekday);
+        if (candidate < start) {
+          continue;
+        }
+        if (!accept(candidate)) {
+          return dates;
+        }
+      }
+    }
+  }
+
+  // Monthly on the start day-of-month
+  const dayOfMonth = start.getUTCDate();
+  for (let month = 0; ; month += interval) {
+    const candidate = new Date(Date.UTC(start.getUTCFullYear(), start.getUTCMonth() + month, dayOfMonth));
+    if (candidate.getUTCDate() !== dayOfMonth) {
+      continue;
+    }
+    if (!accept(candidate)) {
+      return dates;
+    }
+  }
+};
@@ -0,0 +1,83 @@
+import { Types } from 'mongoose';
+import { IReferral } from '../types/index.js';
+
+type ReferralStatus = IReferral['status'];
+
+export type ReferralAction = 'accept' | 'decline' | 'complete' | 'cancel';
+
+interface ReferralTransition {
+  from: ReferralStatus[];
+  to: ReferralStatus;
+  // Who may take the action: the receiving doctor, or the doctor who made the referral
+  actor: 'recipient' | 'referrer';
+  timestampField: 'acceptedAt' | 'declinedAt' | 'completedAt' | 'cancelledAt';
+}
+
+// The only legal status changes: sent → accepted → completed, or sent → declined, plus cancel while open
+export const REFERRAL_TRANSITIONS: Record<ReferralAction, ReferralTransition> = {
+  'accept': {
+    from: ['sent'],
+    to: 'accepted',
+    actor: 'recipient',
+    timestampField: 'acceptedAt',
+  },
+  'decline': {
+    from: ['sent'],
+    to: 'declined',
+    actor: 'recipient',
+    timestampField: 'declinedAt',
+  },
+  'complete': {
+    from: ['accepted'],
+    to: 'completed',
+    actor: 'recipient',
+    timestampField: 'completedAt',
+  },
+  'cancel': {
+    from: ['sent', 'accepted'],
+    to: 'cancelled',
+    actor: 'referrer',
+    timestampField: 'cancelledAt',
+  },
+};
+
+export const isInternalReferral = (referral: IReferral): boolean => !!referral.toDoctor;
+
+// External providers have no account, so the referring doctor records their replies
+export const respondentOf = (referral: IReferral): Types.ObjectId => referral.toDoctor ?? referral.referredBy;
+
+export const isParticipant = (referral: IReferral, userId: Types.ObjectId): boolean => {
+  return [referral.referredBy, referral.toDoctor].some(participant => participant?.equals(userId));
+};
+
+export const canTransitionReferral = (referral: IReferral, action: ReferralAction): boolean => {
+  return REFERRAL_TRANSITIONS[action].from.includes(referral.status);
+};
+
+export const mayTakeAction = (referral: IReferral, action: ReferralAction, userId: Types.ObjectId): boolean => {
+  const actor = REFERRAL_TRANSITIONS[action].actor === 'recipient' ? respondentOf(referral) : referral.referredBy;
+  return actor.equals(userId);
+};
+
+// Move the referral to the action's target status and record the change.
+// Callers must check canTransitionReferral first and save the document afterwards.
+export const applyReferralTransition = (
+  referral: IReferral,
+  action: ReferralAction,
+  userId: Types.ObjectId,
+  reason?: string
+): void => {
+  const transition = REFERRAL_TRANSITIONS[action];
+  const now = new Date();
+
+  referral.statusHistory.push({
+    from: referral.status,
+    to: transition.to,
+    changedBy: userId,
+    changedAt: now,
+    reason,
+  });
+
+  referral.status = transition.to;
+  referral[transition.timestampField] = now;
+};
@@ -0,0 +1,97 @@
+import { Types } from 'mongoose';
+import DoctorSchedule from '../models/DoctorSchedule.js';
+import { IDoctorSchedule, IWeeklyHours, WorkingHours } from '../types/index.js';
+import { timeToMinutes, rangesOverlap, toDateKey } from './time.js';
+
+// Fallback for doctors without a persisted schedule: Monday to Friday, 9 AM to 5 PM, 30-minute slots
+export const DEFAULT_WORKING_HOURS = {
+  days: [1, 2, 3, 4, 5],
+  start: '09:00',
+  end: '17:00',
+  slotDuration: 30,
+};
+
+// Weekly hours equivalent of the default schedule
+export const defaultWeeklyHours = (): IWeeklyHours[] => DEFAULT_WORKING_HOURS.days.map(dayOfWeek => ({
+  dayOfWeek,
+  start: DEFAULT_WORKING_HOURS.start,
+  end: DEFAULT_WORKING_HOURS.end,
+  slotDuration: DEFAULT_WORKING_HOURS.slotDuration,
+  breaks: [],
+}));
+
+// Resolve the effective working hours of a schedule on a given date.
+// Date-specific exceptions take precedence over the weekly pattern; null means the doctor is not working.
+export const resolveWorkingHours = (schedule: IDoctorSchedule | null, date: Date): WorkingHours | null => {
+  const dayOfWeek = new Date(date).getUTCDay();
+
+  if (!schedule) {
+    if (!DEFAULT_WORKING_HOURS.days.includes(dayOfWeek)) {
+      return null;
+    }
+    return {
+      start: DEFAULT_WORKING_HOURS.start,
+      end: DEFAULT_WORKING_HOURS.end,
+      slotDuration: DEFAULT_WORKING_HOURS.slotDuration,
+      breaks: [],
+      source: 'default',
+    };
+  }
+
+  const dateKey = toDateKey(date);
+  const weekly = schedule.weeklyHours.find(hours => hours.dayOfWeek === dayOfWeek);
+  const exception = schedule.exceptions.find(exc => toDateKey(exc.date) === dateKey);
+
+  if (exception) {
+    if (exception.type === 'vacation' || !exception.start || !exception.end) {
+      return null;
+    }
+    return {
+      start: exception.start,
+      end: exception.end,
+      slotDuration: exception.slotDuration || weekly?.slotDuration || DEFAULT_WORKING_HOURS.slotDuration,
+      breaks: exception.breaks || [],
+      source: 'exception',
+      exceptionType: exception.type,
+    };
+  }
+
+  if (!weekly) {
+    return null;
+  }
+
+  return {
+    start: weekly.start,
+    end: weekly.end,
+    slotDuration: weekly.slotDuration,
+    breaks: weekly.breaks || [],
+    source: 'weekly',
+  };
+};
+
+// Load a doctor's schedule and resolve the working hours for a date
+export const getDoctorWorkingHours = async (
+  doctorId: string | Types.ObjectId,
+  date: Date
+): Promise<WorkingHours | null> => {
+  const schedule = await DoctorSchedule.findOne({ doctor: doctorId });
+  return resolveWorkingHours(schedule, date);
+};
+
+// Check that [time, time + duration) lies inside working hours and does not touch a break
+export const fitsWorkingHours = (hours: WorkingHours | null, time: string, duration: number): boolean => {
+  if (!hours) {
+    return false;
+  }
+
+  const start = timeToMinutes(time);
+  const end = start + duration;
+
+  if (start < timeToMinutes(hours.start) || end > timeToMinutes(hours.end)) {
+    return false;
+  }
+
+  return !hours.breaks.some(brk =>
+    rangesOverlap(start, end, timeToMinutes(brk.start), timeToMinutes(brk.end))
+  );
+};
@@ -0,0 +1,57 @@
+import fs from 'fs/promises';
+import { createReadStream } from 'fs';
+import path from 'path';
+import { Readable } from 'stream';
+
+// Object storage addressed by key, the same model as S3: an S3-compatible backend
+// maps put/get/remove onto PutObject/GetObject/DeleteObject against one bucket
+export interface StorageBackend {
+  put(key: string, body: Buffer, contentType: string): Promise<void>;
+  // Resolves to null when nothing is stored under the key
+  get(key: string): Promise<Readable | null>;
+  remove(key: string): Promise<void>;
+}
+
+const uploadRoot = (): string => path.resolve(process.env.UPLOAD_PATH || 'uploads');
+
+// Keys are generated by the server, but never let one point outside the upload root
+const resolveKey = (key: string): string => {
+  const root = uploadRoot();
+  const file = path.resolve(root, key);
+  if (!file.startsWith(`${root}${path.sep}`)) {
+    throw new Error(`Invalid storage key "${key}"`);
+  }
+  return file;
+};
+
+// Files under UPLOAD_PATH on the local disk; the default
+export const localDiskStorage: StorageBackend = {
+  async put(key, body) {
+    const file = resolveKey(key);
+    await fs.mkdir(path.dirname(file), { recursive: true });
+    await fs.writeFile(file, body);
+  },
+
+  async get(key) {
+    const file = resolveKey(key);
+    try {
+      await fs.access(file);
+    } catch {
+      return null;
+    }
+    return createReadStream(file);
+  },
+
+  async remove(key) {
+    await fs.rm(resolveKey(key), { force: true });
+  },
+};
+
+let customStorage: StorageBackend | null = null;
+
+// Plug in another backend (an S3 or MinIO client) at startup
+export const setStorageBackend = (custom: StorageBackend): void => {
+  customStorage = custom;
+};
+
+export const getStorage = (): StorageBackend => customStorage || localDiskStorage;
@@ -0,0 +1,22 @@
+// Convert an "HH:MM" string into minutes since midnight
+export const timeToMinutes = (time: string): number => {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+};
+
+// Convert minutes since midnight back into an "HH:MM" string
+export const minutesToTime = (totalMinutes: number): string => {
+  const hours = Math.floor(totalMinutes / 60);
+  const minutes = totalMinutes % 60;
+  return `${hours.toString().padStart(2, '0')}:${minutes.toString().padStart(2, '0')}`;
+};
+
+// Half-open interval overlap check: [aStart, aEnd) vs [bStart, bEnd)
+export const rangesOverlap = (aStart: number, aEnd: number, bStart: number, bEnd: number): boolean => {
+  return aStart < bEnd && aEnd > bStart;
+};
+
+// Calendar day key (YYYY-MM-DD) of a date-only value stored as UTC midnight
+export const toDateKey = (date: Date | string): string => {
+  return new Date(date).toISOString().slice(0, 10);
+};
@@ -0,0 +1,183 @@
+import { createHash, randomBytes, randomUUID } from 'crypto';
+import { Request, Response } from 'express';
+import jwt from 'jsonwebtoken';
+import { Types } from 'mongoose';
+import Session from '../models/Session.js';
+import RefreshToken from '../models/RefreshToken.js';
+import { IUser, ISession, IRefreshToken } from '../types/index.js';
+
+type RevokedReason = NonNullable<ISession['revokedReason']>;
+
+export const REFRESH_COOKIE_NAME = 'refreshToken';
+
+const refreshTokenTtlMs = (): number => parseInt(process.env.REFRESH_TOKEN_EXPIRES_DAYS || '30') * 24 * 60 * 60 * 1000;
+
+export const hashToken = (token: string): string => {
+  return createHash('sha256').update(token).digest('hex');
+};
+
+// Sign an access token with a fresh jti and record it in the session store
+export const issueAccessToken = async (user: IUser, req: Request, family?: string): Promise<string> => {
+  const jti = randomUUID();
+
+  const token = jwt.sign(
+    {
+      userId: user._id,
+      email: user.email,
+      role: user.role
+    },
+    process.env.JWT_SECRET as string,
+    {
+      expiresIn: (process.env.JWT_EXPIRES_IN || '15m') as jwt.SignOptions['expiresIn'],
+      jwtid: jti,
+    }
+  );
+
+  const { exp } = jwt.decode(token) as { exp: number };
+
+  await Session.create({
+    user: user._id,
+    jti,
+    family,
+    expiresAt: new Date(exp * 1000),
+    ipAddress: req.ip,
+    userAgent: req.get('User-Agent'),
+  });
+
+  return token;
+};
+
+// Issue a short-lived access token plus a single-use refresh token in the given family
+export const issueTokenPair = async (
+  user: IUser,
+  req: Request,
+  family: string = randomUUID()
+): Promise<{ token: string; refreshToken: string }> => {
+  const token = await issueAccessToken(user, req, family);
+  const { jti } = jwt.decode(token) as { jti: string };
+  const refreshToken = randomBytes(48).toString('base64url');
+
+  await RefreshToken.create({
+    user: user._id,
+    tokenHash: hashToken(refreshToken),
+    family,
+    sessionJti: jti,
+    expiresAt: new Date(Date.now() + refreshTokenTtlMs()),
+    ipAddress: req.ip,
+    userAgent: req.get('User-Agent'),
+  });
+
+  return { token, refreshToken };
+};
+
+// The Expo app identifies itself and receives the refresh token in the body;
+// browsers get it in an httpOnly cookie scoped to the auth routes
+const isMobileClient = (req: Request): boolean => {
+  return req.get('X-Client-Platform') === 'mobile';
+};
+
+export const deliverRefreshToken = (req: Request, res: Response, refreshToken: string): { refreshToken?: string } => {
+  if (isMobileClient(req)) {
+    return { refreshToken };
+  }
+
+  res.cookie(REFRESH_COOKIE_NAME, refreshToken, {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === 'production',
+    sameSite: process.env.NODE_ENV === 'production' ? 'none' : 'lax',
+    path: '/api/auth',
+    maxAge: refreshTokenTtlMs(),
+  });
+  return {};
+};
+
+export const clearRefreshCookie = (res: Response): void => {
+  res.clearCookie(REFRESH_COOKIE_NAME, { path: '/api/auth' });
+};
+
+// Read the refresh token from the request body (mobile) or the cookie header (web)
+export const readRefreshToken = (req: Request): string | undefined => {
+  if (req.body?.refreshToken) {
+    return req.body.refreshToken;
+  }
+
+  const cookie = (req.headers.cookie || '')
+    .split(';')
+    .map(part => part.trim())
+    .find(part => part.startsWith(`${REFRESH_COOKIE_NAME}=`));
+
+  return cookie ? decodeURIComponent(cookie.slice(REFRESH_COOKIE_NAME.length + 1)) : undefined;
+};
+
+// Atomically consume a refresh token. Returns the token document when it was
+// live, or the reason it was rejected; replaying a spent token revokes its family.
+export const consumeRefreshToken = async (
+  rawToken: string
+): Promise<{ token: IRefreshToken } | { error: 'invalid' | 'expired' | 'reused' }> => {
+  const tokenHash = hashToken(rawToken);
+
+  const token = await RefreshToken.findOneAndUpdate(
+    { tokenHash, usedAt: { $exists: false }, revokedAt: { $exists: false } },
+    { $set: { usedAt: new Date() } },
+    { new: true }
+  );
+
+  if (token) {
+    return token.expiresAt < new Date() ? { error: 'expired' } : { token };
+  }
+
+  const spent = await RefreshToken.findOne({ tokenHash });
+  if (!spent) {
+    return { error: 'invalid' };
+  }
+
+  await revokeTokenFamily(spent.family, 'reuse-detected');
+  return { error: 'reused' };
+};
+
+// Revoke every refresh token and access session descending from one login
+export const revokeTokenFamily = async (family: string, reason: RevokedReason): Promise<void> => {
+  const now = new Date();
+
+  await Promise.all([
+    RefreshToken.updateMany(
+      { family, revokedAt: { $exists: false } },
+      { $set: { revokedAt: now, revokedReason: reason } }
+    ),
+    Session.updateMany(
+      { family, revokedAt: { $exists: false } },
+      { $set: { revokedAt: now, revokedReason: reason } }
+    ),
+  ]);
+};
+
+// Revoke every active session and refresh token of a user, optionally keeping one session
+export const revokeUserSessions = async (
+  userId: Types.ObjectId | string,
+  reason: RevokedReason,
+  revokedBy?: Types.ObjectId,
+  exceptJti?: string
+): Promise<number> => {
+  const now = new Date();
+
+  const [result] = await Promise.all([
+    Session.updateMany(
+      {
+        user: userId,
+        revokedAt: { $exists: false },
+        ...(exceptJti && { jti: { $ne: exceptJti } }),
+      },
+      { $set: { revokedAt: now, revokedReason: reason, revokedBy } }
+    ),
+    RefreshToken.updateMany(
+      {
+        user: userId,
+        revokedAt: { $exists: false },
+        ...(exceptJti && { sessionJti: { $ne: exceptJti } }),
+      },
+      { $set: { revokedAt: now, revokedReason: reason } }
+    ),
+  ]);
+
+  return result.modifiedCount;
+};
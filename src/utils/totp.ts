@@ -0,0 +1,108 @@
+import { createHmac, randomBytes, timingSafeEqual } from 'crypto';
+
+// RFC 6238 time-based one-time passwords (HMAC-SHA1, 30-second steps, 6 digits)
+const STEP_SECONDS = 30;
+const DIGITS = 6;
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+
+export const base32Encode = (buffer: Buffer): string => {
+  let bits = 0;
+  let value = 0;
+  let output = '';
+
+  for (const byte of buffer) {
+    value = (value << 8) | byte;
+    bits += 8;
+    while (bits >= 5) {
+      output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+
+  if (bits > 0) {
+    output += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+  }
+
+  return output;
+};
+
+export const base32Decode = (input: string): Buffer => {
+  const clean = input.toUpperCase().replace(/=+$/, '').replace(/\s/g, '');
+  let bits = 0;
+  let value = 0;
+  const bytes: number[] = [];
+
+  for (const char of clean) {
+    const index = BASE32_ALPHABET.indexOf(char);
+    if (index === -1) {
+      throw new Error('Invalid base32 character');
+    }
+    value = (value << 5) | index;
+    bits += 5;
+    if (bits >= 8) {
+      bytes.push((value >>> (bits - 8)) & 255);
+      bits -= 8;
+    }
+  }
+
+  return Buffer.from(bytes);
+};
+
+export const generateSecret = (): string => base32Encode(randomBytes(20));
+
+export const currentStep = (now: number = Date.now()): number => Math.floor(now / 1000 / STEP_SECONDS);
+
+// RFC 4226 HOTP value for a counter
+export const generateHotp = (secret: string, counter: number): string => {
+  const counterBuffer = Buffer.alloc(8);
+  counterBuffer.writeBigUInt64BE(BigInt(counter));
+
+  const hmac = createHmac('sha1', base32Decode(secret)).update(counterBuffer).digest();
+  const offset = hmac[hmac.length - 1] & 0x0f;
+  const binary = ((hmac[offset] & 0x7f) << 24)
+    | (hmac[offset + 1] << 16)
+    | (hmac[offset + 2] << 8)
+    | hmac[offset + 3];
+
+  return (binary % 10 ** DIGITS).toString().padStart(DIGITS, '0');
+};
+
+// Check a code against the current step and one step either side for clock drift.
+// Returns the matching step so callers can reject replays, or null.
+export const verifyTotp = (secret: string, code: string, lastUsedStep?: number): number | null => {
+  const step = currentStep();
+
+  for (const candidate of [step - 1, step, step + 1]) {
+    if (lastUsedStep !== undefined && candidate <= lastUsedStep) {
+      continue;
+    }
+    const expected = Buffer.from(generateHotp(secret, candidate));
+    const given = Buffer.from(String(code).padStart(DIGITS, '0'));
+    if (expected.length === given.length && timingSafeEqual(expected, given)) {
+      return candidate;
+    }
+  }
+
+  return null;
+};
+
+// otpauth:// URI understood by authenticator apps (rendered as a QR code by the client)
+export const buildOtpauthUri = (secret: string, accountName: string, issuer: string): string => {
+  const label = encodeURIComponent(`${issuer}:${accountName}`);
+  const params = new URLSearchParams({
+    secret,
+    issuer,
+    algorithm: 'SHA1',
+    digits: String(DIGITS),
+    period: String(STEP_SECONDS),
+  });
+  return `otpauth://totp/${label}?${params.toString()}`;
+};
+
+// One-time recovery codes in xxxx-xxxx form
+export const generateRecoveryCodes = (count = 10): string[] => {
+  return Array.from({ length: count }, () => {
+    const hex = randomBytes(4).toString('hex');
+    return `${hex.slice(0, 4)}-${hex.slice(4)}`;
+  });
+};
@@ -0,0 +1,60 @@
+import jwt from 'jsonwebtoken';
+import { IUser, TwoFactorChallengePayload } from '../types/index.js';
+import { hashToken } from './tokens.js';
+import { verifyTotp } from './totp.js';
+
+// Roles that must enrol in two-factor authentication before they can sign in
+export const getTwoFactorRequiredRoles = (): string[] => {
+  return (process.env.TWO_FACTOR_REQUIRED_ROLES || 'admin,doctor')
+    .split(',')
+    .map(role => role.trim())
+    .filter(Boolean);
+};
+
+export const isTwoFactorRequired = (user: IUser): boolean => {
+  return getTwoFactorRequiredRoles().includes(user.role);
+};
+
+// Short-lived token proving the password step passed; it is not an access token
+export const signChallengeToken = (user: IUser, purpose: TwoFactorChallengePayload['purpose']): string => {
+  return jwt.sign(
+    { userId: user._id, purpose },
+    process.env.JWT_SECRET as string,
+    { expiresIn: '5m' }
+  );
+};
+
+export const verifyChallengeToken = (
+  token: string,
+  purpose: TwoFactorChallengePayload['purpose']
+): TwoFactorChallengePayload | null => {
+  try {
+    const payload = jwt.verify(token, process.env.JWT_SECRET as string) as TwoFactorChallengePayload;
+    return payload.purpose === purpose ? payload : null;
+  } catch {
+    return null;
+  }
+};
+
+// Verify a TOTP or recovery code against an enrolled user, consuming it on success.
+// Requires the user loaded with +twoFactor.secret +twoFactor.recoveryCodes +twoFactor.lastUsedStep.
+export const consumeSecondFactor = (user: IUser, code?: string, recoveryCode?: string): boolean => {
+  if (code && user.twoFactor.secret) {
+    const step = verifyTotp(user.twoFactor.secret, code, user.twoFactor.lastUsedStep);
+    if (step !== null) {
+      user.twoFactor.lastUsedStep = step;
+      return true;
+    }
+  }
+
+  if (recoveryCode) {
+    const hash = hashToken(recoveryCode.trim().toLowerCase());
+    const index = user.twoFactor.recoveryCodes.indexOf(hash);
+    if (index !== -1) {
+      user.twoFactor.recoveryCodes.splice(index, 1);
+      return true;
+    }
+  }
+
+  return false;
+};
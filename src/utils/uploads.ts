@@ -0,0 +1,171 @@
+import { createHash, randomUUID } from 'crypto';
+import { Request, RequestHandler, Response } from 'express';
+import { Schema } from 'mongoose';
+import multer from 'multer';
+import { getStorage } from './storage.js';
+import { ApiResponse, IPatientDocument, IStoredFile } from '../types/index.js';
+
+export const IMAGE_MIME_TYPES = ['image/jpeg', 'image/png', 'image/webp'];
+
+export const DOCUMENT_MIME_TYPES = ['application/pdf', 'image/jpeg', 'image/png', 'image/tiff', 'application/dicom'];
+
+export const PATIENT_DOCUMENT_TYPES: IPatientDocument['type'][] = [
+  'lab-report',
+  'referral-letter',
+  'imaging',
+  'scan',
+  'consent-form',
+  'discharge-summary',
+  'other',
+];
+
+const EXTENSIONS: Record<string, string> = {
+  'application/pdf': 'pdf',
+  'image/jpeg': 'jpg',
+  'image/png': 'png',
+  'image/webp': 'webp',
+  'image/tiff': 'tif',
+  'application/dicom': 'dcm',
+};
+
+// Metadata stored alongside whatever references an uploaded file
+export const storedFileSchema = new Schema<IStoredFile>({
+  key: {
+    type: String,
+    required: true,
+  },
+  mimeType: {
+    type: String,
+    required: true,
+  },
+  size: {
+    type: Number,
+    required: true,
+  },
+  checksum: {
+    type: String,
+    required: true,
+  },
+  originalName: {
+    type: String,
+    trim: true,
+  },
+  uploadedAt: {
+    type: Date,
+    default: Date.now,
+  },
+}, {
+  _id: false,
+});
+
+const maxFileSize = (): number => parseInt(process.env.MAX_FILE_SIZE || '5242880');
+
+const formatSize = (bytes: number): string => {
+  return bytes >= 1024 * 1024 ? `${+(bytes / 1024 / 1024).toFixed(1)} MB` : `${Math.ceil(bytes / 1024)} KB`;
+};
+
+const startsWith = (buffer: Buffer, signature: number[], offset = 0): boolean => {
+  return buffer.length >= offset + signature.length && signature.every((byte, index) => buffer[offset + index] === byte);
+};
+
+const ascii = (text: string): number[] => [...text].map(char => char.charCodeAt(0));
+
+// Identify a file from its leading bytes; the type declared by the client is not trusted
+export const detectMimeType = (buffer: Buffer): string | undefined => {
+  if (startsWith(buffer, ascii('%PDF-'))) return 'application/pdf';
+  if (startsWith(buffer, [0xff, 0xd8, 0xff])) return 'image/jpeg';
+  if (startsWith(buffer, [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])) return 'image/png';
+  if (startsWith(buffer, ascii('RIFF')) && startsWith(buffer, ascii('WEBP'), 8)) return 'image/webp';
+  if (startsWith(buffer, [0x49, 0x49, 0x2a, 0x00]) || startsWith(buffer, [0x4d, 0x4d, 0x00, 0x2a])) return 'image/tiff';
+  // DICOM files open with a 128-byte preamble
+  if (startsWith(buffer, ascii('DICM'), 128)) return 'application/dicom';
+  return undefined;
+};
+
+// Multipart handler taking a single file from `field` into memory, answering 400
+// itself when it is missing, larger than MAX_FILE_SIZE or not an allowed type.
+// Text fields sent with the file are on req.body afterwards.
+export const acceptUpload = (field: string, allowedTypes: string[]): RequestHandler => {
+  return (req: Request, res: Response<ApiResponse>, next) => {
+    const limit = maxFileSize();
+    const upload = multer({ storage: multer.memoryStorage(), limits: { fileSize: limit, files: 1 } }).single(field);
+
+    upload(req, res, (error: unknown) => {
+      if (error) {
+        res.status(400).json({
+          success: false,
+          message: error instanceof multer.MulterError && error.code === 'LIMIT_FILE_SIZE'
+            ? `File cannot exceed ${formatSize(limit)}`
+            : error instanceof Error ? error.message : 'Invalid upload',
+        });
+        return;
+      }
+
+      if (!req.file) {
+        res.status(400).json({
+          success: false,
+          message: `A file is required in the "${field}" field`,
+        });
+        return;
+      }
+
+      const detected = detectMimeType(req.file.buffer);
+      if (!detected || !allowedTypes.includes(detected)) {
+        res.status(400).json({
+          success: false,
+          message: `File type not allowed, expected one of: ${allowedTypes.join(', ')}`,
+        });
+        return;
+      }
+
+      req.file.mimetype = detected;
+      next();
+    });
+  };
+};
+
+// Write an accepted upload to the storage backend under a fresh key
+export const storeUpload = async (file: Express.Multer.File, prefix: string): Promise<IStoredFile> => {
+  const key = `${prefix}/${randomUUID()}.${EXTENSIONS[file.mimetype]}`;
+  await getStorage().put(key, file.buffer, file.mimetype);
+
+  return {
+    key,
+    mimeType: file.mimetype,
+    size: file.size,
+    checksum: createHash('sha256').update(file.buffer).digest('hex'),
+    originalName: file.originalname,
+    uploadedAt: new Date(),
+  };
+};
+
+// Stream a stored file to the client, answering 404 if the backend has lost it
+export const sendStoredFile = async (
+  res: Response<ApiResponse>,
+  file: IStoredFile,
+  disposition: 'inline' | 'attachment' = 'inline'
+): Promise<void> => {
+  const stream = await getStorage().get(file.key);
+
+  if (!stream) {
+    res.status(404).json({
+      success: false,
+      message: 'File not found',
+    });
+    return;
+  }
+
+  const fileName = (file.originalName || file.key.split('/').pop() || 'file').replace(/[^\w.-]/g, '_');
+
+  res.setHeader('Content-Type', file.mimeType);
+  res.setHeader('Content-Length', file.size);
+  res.setHeader('Content-Disposition', `${disposition}; filename="${fileName}"`);
+  // Patient files must not linger in shared caches
+  res.setHeader('Cache-Control', 'private, no-store');
+
+  stream.on('error', error => {
+    console.error('Stored file stream error:', error);
+    res.destroy(error);
+  });
+  stream.pipe(res);
+};
@@ -0,0 +1,137 @@
+import { Document, Model, Schema, Types } from 'mongoose';
+import RecordVersion from '../models/RecordVersion.js';
+import { isEncryptionPath } from './fieldEncryption.js';
+import { IRecordVersion } from '../types/index.js';
+
+export interface VersionHistoryOptions {
+  resourceType: string;
+}
+
+// Bookkeeping paths that are neither snapshotted nor restored
+const UNVERSIONED_FIELDS = ['_id', '__v', 'createdAt', 'updatedAt'];
+
+const APPEND_RETRIES = 10;
+
+const isVersionedPath = (path: string): boolean => !UNVERSIONED_FIELDS.includes(path) && !isEncryptionPath(path);
+
+const topLevelPaths = (schema: Schema): string[] => {
+  return [...new Set(Object.keys(schema.paths).map(path => path.split('.')[0]))].filter(isVersionedPath);
+};
+
+// Plain, depopulated copy of a document's versioned fields
+const snapshotOf = (doc: Document): Record<string, any> => {
+  const snapshot = doc.toObject({ depopulate: true, virtuals: false, transform: false });
+  Object.keys(snapshot).filter(path => !isVersionedPath(path)).forEach(path => delete snapshot[path]);
+  return JSON.parse(JSON.stringify(snapshot));
+};
+
+// Number versions per document; concurrent saves race for the next number on the unique index
+const appendVersion = async (entry: Omit<Partial<IRecordVersion>, 'version'>): Promise<void> => {
+  for (let attempt = 0; attempt < APPEND_RETRIES; attempt++) {
+    const latest = await RecordVersion.findOne({ resourceType: entry.resourceType, resourceId: entry.resourceId })
+      .sort({ version: -1 })
+      .select('version');
+
+    try {
+      await RecordVersion.create({ ...entry, version: (latest?.version ?? 0) + 1 });
+      return;
+    } catch (error: any) {
+      if (error?.code !== 11000) {
+        throw error;
+      }
+    }
+  }
+
+  throw new Error('Could not append record version after retries');
+};
+
+// Mongoose plugin storing a full snapshot of the document after every save. The
+// author is taken from doc.$locals.changedBy, falling back to updatedBy/createdBy.
+// Records saved before versioning was enabled get their stored state kept as a
+// baseline version the first time they change. Apply after fieldEncryption so
+// snapshots are taken from plaintext.
+export const versionHistory = (schema: Schema, options: VersionHistoryOptions): void => {
+  const { resourceType } = options;
+
+  schema.pre('save', async function() {
+    const changedFields = this.isNew
+      ? []
+      : [...new Set(this.directModifiedPaths().map(path => path.split('.')[0]))].filter(isVersionedPath);
+
+    this.$locals.versionOperation = this.$locals.restoredFrom ? 'restore' : this.isNew ? 'create' : 'update';
+    this.$locals.versionChangedFields = changedFields;
+
+    if (!this.isNew && !(await RecordVersion.exists({ resourceType, resourceId: this._id }))) {
+      const stored = await (this.constructor as Model<any>).findById(this._id);
+      if (stored) {
+        this.$locals.versionBaseline = snapshotOf(stored);
+      }
+    }
+  });
+
+  schema.post('save', async function(doc: Document) {
+    const { versionOperation, versionChangedFields, versionBaseline, restoredFrom, changedBy } = doc.$locals as Record<string, any>;
+    delete doc.$locals.versionOperation;
+    delete doc.$locals.versionChangedFields;
+    delete doc.$locals.versionBaseline;
+    delete doc.$locals.restoredFrom;
+
+    // Saves that touched nothing are not worth a version
+    if (versionOperation === 'update' && versionChangedFields.length === 0) {
+      return;
+    }
+
+    if (versionBaseline) {
+      await appendVersion({
+        resourceType,
+        resourceId: doc._id as Types.ObjectId,
+        operation: 'baseline',
+        snapshot: versionBaseline,
+        changedFields: [],
+      });
+    }
+
+    // Documents loaded with a projection are re-read so the snapshot is complete
+    const complete = topLevelPaths(schema).every(path => doc.isSelected(path));
+    const current = complete ? doc : await (doc.constructor as Model<any>).findById(doc._id);
+
+    await appendVersion({
+      resourceType,
+      resourceId: doc._id as Types.ObjectId,
+      operation: versionOperation,
+      snapshot: snapshotOf(current ?? doc),
+      changedFields: versionChangedFields,
+      changedBy: changedBy ?? doc.get('updatedBy') ?? doc.get('createdBy'),
+      restoredFrom,
+    });
+  });
+};
+
+// Version summaries, newest first, without the snapshots
+export const listVersions = (resourceType: string, resourceId: Types.ObjectId | string) => {
+  return RecordVersion.find({ resourceType, resourceId })
+    .select('-snapshot')
+    .sort({ version: -1 })
+    .populate('changedBy', 'firstName lastName');
+};
+
+export const findVersion = (resourceType: string, resourceId: Types.ObjectId | string, version: number) => {
+  return RecordVersion.findOne({ resourceType, resourceId, version })
+    .populate('changedBy', 'firstName lastName');
+};
+
+// Overwrite the document's versioned fields with a stored snapshot, leaving the
+// excluded fields as they are. The next save is recorded as a restore.
+export const applySnapshot = (
+  doc: Document,
+  version: IRecordVersion,
+  excludedFields: string[] = []
+): void => {
+  topLevelPaths(doc.schema)
+    .filter(path => !excludedFields.includes(path))
+    .forEach(path => {
+      doc.set(path, version.snapshot[path]);
+    });
+
+  doc.$locals.restoredFrom = version.version;
+};
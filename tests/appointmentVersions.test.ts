@@ -0,0 +1,172 @@
+import { afterEach, describe, expect, it, jest } from '@jest/globals';
+import request from 'supertest';
+import { Types } from 'mongoose';
+import Appointment from '../src/models/Appointment.js';
+import BreakGlassAccess from '../src/models/BreakGlassAccess.js';
+import InteractionOverride from '../src/models/InteractionOverride.js';
+import RecordVersion from '../src/models/RecordVersion.js';
+import appointmentRoutes from '../src/routes/appointment.routes.js';
+import { IUser } from '../src/types/index.js';
+import { buildApp } from './helpers/app.js';
+import { byId, mockAuditLog, signIn } from './helpers/auth.js';
+import { loadAppointment, loadPatient, loadStaff } from './helpers/fixtures.js';
+import { QueryHandler, mockQueries, mockSaves } from './helpers/queries.js';
+
+const app = buildApp({ '/api/appointments': appointmentRoutes });
+
+const doctor = loadStaff('doctor', 'doctor');
+const otherDoctor = loadStaff('doctor', 'other');
+const staff = loadStaff('staff', 'frontdesk');
+
+const restriction = { category: 'vip', reason: 'Public figure' };
+const amoxicillin = { medication: 'Amoxicillin', dosage: '500mg', frequency: 'Three times daily', duration: '7 days' };
+
+// An appointment booked with the doctor, whose version 1 carried a diagnosis and a prescription
+const setUp = (patientOverrides: Record<string, unknown> = {}) => {
+  const patient = loadPatient({ primaryDoctor: doctor._id, ...patientOverrides });
+  const appointment = loadAppointment({ patient: patient._id, doctor: doctor._id });
+  const snapshot = {
+    ...JSON.parse(JSON.stringify(appointment.toObject())),
+    diagnosis: 'Acute bronchitis',
+    prescriptions: [amoxicillin],
+  };
+  const version = (number: number, changes: Record<string, unknown> = {}) => RecordVersion.hydrate({
+    _id: new Types.ObjectId(),
+    resourceType: 'appointment',
+    resourceId: appointment._id,
+    version: number,
+    operation: 'update',
+    snapshot: { ...snapshot, ...changes },
+    changedFields: Object.keys(changes),
+  });
+
+  return { patient, appointment, versions: [version(1), version(2, { diagnosis: 'Pneumonia', reason: 'Fever' })] };
+};
+
+const requestAs = async (
+  user: IUser,
+  handlers: Record<string, QueryHandler>,
+  send: (authorization: string) => request.Test
+) => {
+  const { authorization, handlers: sessionHandlers } = signIn(user);
+  const audit = mockAuditLog();
+  mockQueries({ ...sessionHandlers, ...audit.handlers, ...handlers, 'User.findOne': byId(user) });
+
+  const res = await send(authorization);
+  await audit.entry();
+  return res;
+};
+
+describe('appointment versions', () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  const readHandlers = ({ patient, appointment, versions }: ReturnType<typeof setUp>, grant: unknown = null) => ({
+    'Appointment.findOne': () => appointment,
+    'Patient.findOne': () => patient,
+    'BreakGlassAccess.findOneAndUpdate': () => grant,
+    'RecordVersion.find': () => versions,
+    'RecordVersion.findOne': (query: any) => versions.find(version => version.version === query.getFilter().version) || null,
+  });
+
+  it('are closed to users without clinical access', async () => {
+    const res = await requestAs(staff, readHandlers(setUp()), authorization =>
+      request(app).get(`/api/appointments/${new Types.ObjectId()}/versions`).set('Authorization', authorization));
+
+    expect(res.status).toBe(403);
+  });
+
+  it('are closed to clinicians outside the care team', async () => {
+    const scenario = setUp();
+
+    for (const path of ['versions', 'versions/1', 'versions/diff?from=1&to=2']) {
+      const res = await requestAs(otherDoctor, readHandlers(scenario), authorization =>
+        request(app).get(`/api/appointments/${scenario.appointment._id}/${path}`).set('Authorization', authorization));
+
+      expect(res.status).toBe(403);
+      expect(JSON.stringify(res.body)).not.toContain('bronchitis');
+    }
+  });
+
+  it('leave out clinical fields of a restricted patient for the appointment doctor outside the care team', async () => {
+    const scenario = setUp({ primaryDoctor: otherDoctor._id, restriction });
+
+    const version = await requestAs(doctor, readHandlers(scenario), authorization =>
+      request(app).get(`/api/appointments/${scenario.appointment._id}/versions/1`).set('Authorization', authorization));
+    const diff = await requestAs(doctor, readHandlers(scenario), authorization =>
+      request(app).get(`/api/appointments/${scenario.appointment._id}/versions/diff?from=1&to=2`).set('Authorization', authorization));
+
+    expect(version.status).toBe(200);
+    expect(version.body.data.snapshot.reason).toBe('Persistent cough');
+    expect(version.body.data.snapshot.diagnosis).toBeUndefined();
+    expect(version.body.data.snapshot.prescriptions).toBeUndefined();
+    expect(diff.body.data.changes.map((change: { field: string }) => change.field)).toEqual(['reason']);
+  });
+
+  it('open under a break-glass grant and say so', async () => {
+    const scenario = setUp({ restriction });
+    const grant = BreakGlassAccess.hydrate({ _id: new Types.ObjectId(), user: otherDoctor._id });
+
+    const res = await requestAs(otherDoctor, readHandlers(scenario, grant), authorization =>
+      request(app).get(`/api/appointments/${scenario.appointment._id}/versions/1`).set('Authorization', authorization));
+
+    expect(res.status).toBe(200);
+    expect(res.body.message).toMatch(/break-glass/);
+    expect(res.body.data.snapshot.diagnosis).toBe('Acute bronchitis');
+  });
+
+  describe('restore', () => {
+    const restoreHandlers = (scenario: ReturnType<typeof setUp>) => ({
+      ...readHandlers(scenario),
+      'Patient.find': () => [scenario.patient],
+      'User.find': () => [doctor],
+    });
+
+    it('is refused to clinicians outside the care team', async () => {
+      const scenario = setUp();
+      const { updateOne } = mockSaves(Appointment);
+
+      const res = await requestAs(otherDoctor, restoreHandlers(scenario), authorization =>
+        request(app).post(`/api/appointments/${scenario.appointment._id}/versions/1/restore`).set('Authorization', authorization));
+
+      expect(res.status).toBe(403);
+      expect(updateOne).not.toHaveBeenCalled();
+    });
+
+    it('screens the prescriptions it brings back', async () => {
+      const scenario = setUp({ allergies: [{ allergen: 'Penicillin', severity: 'severe' }] });
+      const { updateOne } = mockSaves(Appointment);
+
+      const res = await requestAs(doctor, restoreHandlers(scenario), authorization =>
+        request(app).post(`/api/appointments/${scenario.appointment._id}/versions/1/restore`).set('Authorization', authorization));
+
+      expect(res.status).toBe(409);
+      expect(res.body.warnings[0]).toMatchObject({ type: 'drug-allergy', severity: 'severe', medication: 'Amoxicillin' });
+      expect(updateOne).not.toHaveBeenCalled();
+    });
+
+    it('records an override and answers with the appointment as the user may see it', async () => {
+      const scenario = setUp({ allergies: [{ allergen: 'Penicillin', severity: 'severe' }] });
+      const { updateOne } = mockSaves(Appointment);
+      jest.spyOn(RecordVersion, 'create').mockResolvedValue({} as never);
+      const override = jest.spyOn(InteractionOverride, 'create').mockResolvedValue({} as never);
+
+      const res = await requestAs(doctor, restoreHandlers(scenario), authorization =>
+        request(app)
+          .post(`/api/appointments/${scenario.appointment._id}/versions/1/restore`)
+          .set('Authorization', authorization)
+          .send({ interactionOverrideReason: 'Tolerated amoxicillin last year without reaction' }));
+
+      expect(res.status).toBe(200);
+      expect(updateOne).toHaveBeenCalled();
+      expect(res.body.data.prescriptions[0].medication).toBe('Amoxicillin');
+      expect(res.body.data.patient.careTeam).toBeUndefined();
+      expect(res.body.warnings).toHaveLength(1);
+
+      const [recorded] = override.mock.calls[0] as any[];
+      expect(recorded.medications).toEqual(['Amoxicillin']);
+      expect(recorded.overriddenBy).toEqual(doctor._id);
+    });
+  });
+});
@@ -0,0 +1,114 @@
+import { afterEach, describe, expect, it, jest } from '@jest/globals';
+import mongoose, { Query, Types } from 'mongoose';
+import AuditLog from '../src/models/AuditLog.js';
+import { appendAuditEntry, verifyAuditChain } from '../src/utils/audit.js';
+import { mockQueries } from './helpers/queries.js';
+
+const GENESIS_HASH = '0'.repeat(64);
+
+const entry = (path: string) => ({
+  actor: new Types.ObjectId(),
+  actorRole: 'doctor',
+  action: 'update' as const,
+  resourceType: 'patient',
+  resourceId: new Types.ObjectId().toString(),
+  changes: [{ field: 'phone', before: '555-0100', after: '555-0199' }],
+  method: 'PUT',
+  path,
+  statusCode: 200,
+});
+
+// Append entries the way the audit trail does, with the log kept in memory
+const writeChain = async (count: number): Promise<Record<string, any>[]> => {
+  const log: Record<string, any>[] = [];
+  mockQueries({ 'AuditLog.findOne': () => log[log.length - 1] || null });
+  jest.spyOn(AuditLog, 'create').mockImplementation((async (record: Record<string, any>) => {
+    log.push(JSON.parse(JSON.stringify(record)));
+    return record;
+  }) as never);
+
+  for (let index = 1; index <= count; index++) {
+    await appendAuditEntry(entry(`/api/patients/${index}`));
+  }
+  jest.restoreAllMocks();
+  return log;
+};
+
+// Serve the stored entries to the verification cursor
+const readChain = (log: Record<string, any>[]) => {
+  jest.spyOn(mongoose.Query.prototype, 'cursor').mockImplementation(function(this: Query<unknown, unknown>) {
+    const { $gte } = this.getFilter().sequence;
+    return (async function* () {
+      yield* log.filter(stored => stored.sequence >= $gte);
+    })() as never;
+  });
+  mockQueries({ 'AuditLog.findOne': query => log.find(stored => stored.sequence === query.getFilter().sequence) || null });
+};
+
+describe('audit hash chain', () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('links each entry to the hash of the one before it', async () => {
+    const log = await writeChain(3);
+
+    expect(log.map(stored => stored.sequence)).toEqual([1, 2, 3]);
+    expect(log[0].prevHash).toBe(GENESIS_HASH);
+    expect(log[1].prevHash).toBe(log[0].hash);
+    expect(log[2].prevHash).toBe(log[1].hash);
+  });
+
+  it('retries on the new tail when another writer took the sequence number', async () => {
+    const tails = [{ sequence: 4, hash: 'a'.repeat(64) }, { sequence: 5, hash: 'b'.repeat(64) }];
+    mockQueries({ 'AuditLog.findOne': () => tails.shift() });
+    const create = jest.spyOn(AuditLog, 'create')
+      .mockRejectedValueOnce(Object.assign(new Error('duplicate key'), { code: 11000 }) as never)
+      .mockImplementationOnce((async (record: Record<string, any>) => record) as never);
+
+    const appended = await appendAuditEntry(entry('/api/patients/1'));
+
+    expect(create).toHaveBeenCalledTimes(2);
+    expect(appended).toMatchObject({ sequence: 6, prevHash: 'b'.repeat(64) });
+  });
+
+  it('verifies an untouched chain', async () => {
+    const log = await writeChain(3);
+    readChain(log);
+
+    await expect(verifyAuditChain()).resolves.toEqual({ valid: true, checked: 3 });
+    await expect(verifyAuditChain(2)).resolves.toEqual({ valid: true, checked: 2 });
+  });
+
+  it('reports an altered entry', async () => {
+    const log = await writeChain(3);
+    log[1].changes[0].after = '555-0000';
+    readChain(log);
+
+    await expect(verifyAuditChain()).resolves.toEqual({ valid: false, checked: 1, brokenAt: 2 });
+  });
+
+  it('reports a removed entry', async () => {
+    const log = await writeChain(3);
+    readChain([log[0], log[2]]);
+
+    await expect(verifyAuditChain()).resolves.toEqual({ valid: false, checked: 1, brokenAt: 2 });
+  });
+
+  it('refuses to change or remove stored entries', async () => {
+    const stored = AuditLog.hydrate({
+      _id: new Types.ObjectId(),
+      ...entry('/api/patients/1'),
+      sequence: 1,
+      timestamp: new Date(),
+      prevHash: GENESIS_HASH,
+      hash: 'c'.repeat(64),
+    });
+    stored.statusCode = 500;
+
+    await expect(stored.save()).rejects.toThrow('Audit log entries are immutable');
+    await expect(AuditLog.updateOne({ _id: stored._id }, { statusCode: 500 })).rejects.toThrow('Audit log entries are immutable');
+    await expect(AuditLog.deleteMany({})).rejects.toThrow('Audit log entries are immutable');
+    await expect(AuditLog.findOneAndDelete({ _id: stored._id })).rejects.toThrow('Audit log entries are immutable');
+  });
+});
@@ -0,0 +1,155 @@
+import { afterEach, describe, expect, it, jest } from '@jest/globals';
+import request from 'supertest';
+import { Types } from 'mongoose';
+import Appointment from '../src/models/Appointment.js';
+import appointmentRoutes from '../src/routes/appointment.routes.js';
+import { acquireBookingLock, checkSlot, findOverlappingAppointment } from '../src/utils/booking.js';
+import { buildApp } from './helpers/app.js';
+import { mockAuditLog, signIn } from './helpers/auth.js';
+import { loadAppointment, loadPatient, loadStaff } from './helpers/fixtures.js';
+import { mockQueries, mockSaves } from './helpers/queries.js';
+
+const doctor = new Types.ObjectId();
+// A Monday, stored as UTC midnight like appointment dates
+const monday = new Date('2026-10-19T00:00:00.000Z');
+
+const booked = (time: string, duration: number) => Appointment.hydrate({ _id: new Types.ObjectId(), time, duration, status: 'scheduled' });
+
+describe('booking conflicts', () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('reports an appointment whose range overlaps the new one', async () => {
+    const existing = booked('10:00', 30);
+    mockQueries({ 'Appointment.find': () => [existing] });
+
+    const conflict = await findOverlappingAppointment({ doctor, date: monday, time: '10:15', duration: 30 });
+
+    expect(conflict?._id).toEqual(existing._id);
+  });
+
+  it('allows back-to-back appointments', async () => {
+    mockQueries({ 'Appointment.find': () => [booked('10:00', 30), booked('11:00', 30)] });
+
+    await expect(findOverlappingAppointment({ doctor, date: monday, time: '10:30', duration: 30 })).resolves.toBeNull();
+  });
+
+  it('ignores cancelled and no-show appointments and the one being moved', async () => {
+    const excludeId = new Types.ObjectId();
+    let filter: Record<string, any> = {};
+    mockQueries({
+      'Appointment.find': query => {
+        filter = query.getFilter();
+        return [];
+      },
+    });
+
+    await findOverlappingAppointment({ doctor, date: monday, time: '10:00', duration: 30, excludeId });
+
+    expect(filter.status).toEqual({ $nin: ['cancelled', 'no-show'] });
+    expect(filter._id).toEqual({ $ne: excludeId });
+  });
+
+  it('checks working hours before looking for conflicts', async () => {
+    mockQueries({
+      'DoctorSchedule.findOne': () => null,
+      'Appointment.find': () => [booked('16:30', 30)],
+    });
+
+    await expect(checkSlot({ doctor, date: monday, time: '08:30', duration: 30 })).resolves.toBe('outside-working-hours');
+    await expect(checkSlot({ doctor, date: monday, time: '16:45', duration: 30 })).resolves.toBe('outside-working-hours');
+    await expect(checkSlot({ doctor, date: monday, time: '16:15', duration: 30 })).resolves.toBe('conflict');
+    await expect(checkSlot({ doctor, date: monday, time: '15:00', duration: 60 })).resolves.toBeNull();
+  });
+
+  it('gives up on the booking lock while another booking holds it', async () => {
+    mockQueries({
+      'BookingLock.findOneAndUpdate': () => {
+        throw Object.assign(new Error('duplicate key'), { code: 11000 });
+      },
+    });
+
+    await expect(acquireBookingLock(doctor, monday)).resolves.toBeNull();
+  });
+
+  it('releases only the lease it took', async () => {
+    let released: Record<string, any> = {};
+    mockQueries({
+      'BookingLock.findOneAndUpdate': () => null,
+      'BookingLock.deleteOne': query => {
+        released = query.getFilter();
+        return { deletedCount: 1 };
+      },
+    });
+
+    const release = await acquireBookingLock(doctor, monday);
+    await release!();
+
+    expect(released.key).toBe(`${doctor}:2026-10-19`);
+    expect(released.owner).toEqual(expect.any(String));
+  });
+});
+
+describe('rescheduling an appointment', () => {
+  const app = buildApp({ '/api/appointments': appointmentRoutes });
+  const bookedDoctor = loadStaff('doctor', 'doctor');
+  const nurse = loadStaff('nurse', 'nurse');
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  const putAs = async (body: Record<string, unknown>) => {
+    const patient = loadPatient({ primaryDoctor: bookedDoctor._id });
+    const appointment = loadAppointment({ patient: patient._id, doctor: bookedDoctor._id });
+    const { authorization, handlers } = signIn(bookedDoctor);
+    const audit = mockAuditLog();
+    const doctorLookups: Record<string, any>[] = [];
+    const lookup = jest.fn(() => appointment);
+    const saves = mockSaves(Appointment);
+    mockQueries({
+      ...handlers,
+      ...audit.handlers,
+      'User.findOne': query => {
+        const filter = query.getFilter();
+        if (bookedDoctor._id.equals(filter._id)) {
+          return bookedDoctor;
+        }
+        doctorLookups.push(filter);
+        // Only active doctors and admins match the lookup
+        return nurse._id.equals(filter._id) && filter.role.$in.includes(nurse.role) ? nurse : null;
+      },
+      'Appointment.findOne': lookup,
+      'Patient.findOne': () => patient,
+    });
+
+    const res = await request(app)
+      .put(`/api/appointments/${appointment._id}`)
+      .set('Authorization', authorization)
+      .send(body);
+    await audit.entry();
+    return { res, lookup, saves, doctorLookups };
+  };
+
+  it.each([
+    { duration: 'soon' },
+    { duration: 5 },
+    { date: 'next monday' },
+    { time: '25:00' },
+  ])('rejects %o before loading the appointment', async body => {
+    const { res, lookup } = await putAs(body);
+
+    expect(res.status).toBe(400);
+    expect(lookup).not.toHaveBeenCalled();
+  });
+
+  it('only moves the appointment to an active doctor or admin', async () => {
+    const { res, saves, doctorLookups } = await putAs({ doctor: nurse._id.toString() });
+
+    expect(res.status).toBe(400);
+    expect(res.body.message).toBe('Doctor not found');
+    expect(doctorLookups[0]).toMatchObject({ isActive: true, role: { $in: ['doctor', 'admin'] } });
+    expect(saves.updateOne).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,165 @@
+import { afterEach, describe, expect, it, jest } from '@jest/globals';
+import request from 'supertest';
+import { Query, Types } from 'mongoose';
+import BreakGlassAccess from '../src/models/BreakGlassAccess.js';
+import breakGlassRoutes from '../src/routes/breakGlass.routes.js';
+import patientRoutes from '../src/routes/patient.routes.js';
+import { buildApp } from './helpers/app.js';
+import { byId, mockAuditLog, signIn } from './helpers/auth.js';
+import { loadPatient, loadStaff } from './helpers/fixtures.js';
+import { mockQueries, mockSaves } from './helpers/queries.js';
+
+const app = buildApp({ '/api/patients': patientRoutes, '/api/break-glass': breakGlassRoutes });
+
+const doctor = loadStaff('doctor', 'doctor');
+const emergencyDoctor = loadStaff('doctor', 'emergency');
+const admin = loadStaff('admin', 'admin');
+const nurse = loadStaff('nurse', 'nurse');
+
+const reason = 'Unconscious patient brought into the emergency department';
+
+const loadGrant = (overrides: Record<string, unknown> = {}) => BreakGlassAccess.hydrate({
+  _id: new Types.ObjectId(),
+  user: emergencyDoctor._id,
+  patient: new Types.ObjectId(),
+  reason,
+  expiresAt: new Date(Date.now() + 30 * 60 * 1000),
+  accesses: [],
+  reviewStatus: 'pending',
+  ...overrides,
+});
+
+describe('break-glass access', () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+    delete process.env.BREAK_GLASS_DURATION_MINUTES;
+  });
+
+  describe('requesting a grant', () => {
+    const requestGrant = async (user: ReturnType<typeof loadStaff>, patient: ReturnType<typeof loadPatient>, body: Record<string, unknown>) => {
+      const { authorization, handlers } = signIn(user);
+      const audit = mockAuditLog();
+      mockQueries({
+        ...handlers,
+        ...audit.handlers,
+        'User.findOne': byId(user),
+        'Patient.findOne': () => patient,
+        'BreakGlassAccess.findOneAndUpdate': () => null,
+      });
+      const create = jest.spyOn(BreakGlassAccess, 'create').mockImplementation((async (record: Record<string, unknown>) =>
+        loadGrant(record)) as never);
+
+      const res = await request(app).post(`/api/patients/${patient._id}/break-glass`).set('Authorization', authorization).send(body);
+      await audit.entry();
+      return { res, create };
+    };
+
+    it('grants time-limited access with the written justification', async () => {
+      process.env.BREAK_GLASS_DURATION_MINUTES = '30';
+      const patient = loadPatient({ primaryDoctor: doctor._id });
+
+      const { res, create } = await requestGrant(emergencyDoctor, patient, { reason });
+
+      expect(res.status).toBe(201);
+      const [grant] = create.mock.calls[0] as any[];
+      expect(grant).toMatchObject({ user: emergencyDoctor._id, patient: patient._id, reason });
+      expect(grant.expiresAt.getTime() - Date.now()).toBeGreaterThan(29 * 60 * 1000);
+      expect(grant.expiresAt.getTime() - Date.now()).toBeLessThanOrEqual(30 * 60 * 1000);
+    });
+
+    it('requires a justification', async () => {
+      const { res, create } = await requestGrant(emergencyDoctor, loadPatient({ primaryDoctor: doctor._id }), { reason: 'urgent' });
+
+      expect(res.status).toBe(400);
+      expect(create).not.toHaveBeenCalled();
+    });
+
+    it('is refused to users who already have access', async () => {
+      const { res, create } = await requestGrant(doctor, loadPatient({ primaryDoctor: doctor._id }), { reason });
+
+      expect(res.status).toBe(400);
+      expect(create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('using a grant', () => {
+    // Answers the grant lookup as the database would, matching only grants that have not expired
+    const openAs = async (grant: InstanceType<typeof BreakGlassAccess>) => {
+      const patient = loadPatient({ _id: grant.patient, primaryDoctor: doctor._id });
+      const { authorization, handlers } = signIn(emergencyDoctor);
+      const audit = mockAuditLog();
+      const lookups: Query<unknown, unknown>[] = [];
+      mockQueries({
+        ...handlers,
+        ...audit.handlers,
+        'User.findOne': byId(emergencyDoctor),
+        'Patient.findOne': () => patient,
+        'BreakGlassAccess.findOneAndUpdate': query => {
+          lookups.push(query);
+          return grant.expiresAt > query.getFilter().expiresAt.$gt ? grant : null;
+        },
+      });
+
+      const res = await request(app).get(`/api/patients/${patient._id}`).set('Authorization', authorization);
+      await audit.entry();
+      return { res, lookups };
+    };
+
+    it('logs every access made under it', async () => {
+      const grant = loadGrant();
+
+      const { res, lookups } = await openAs(grant);
+
+      expect(res.status).toBe(200);
+      expect(res.body.message).toMatch(/break-glass/);
+      const update = lookups[0].getUpdate() as Record<string, any>;
+      expect(update.$push.accesses).toMatchObject({ method: 'GET', path: `/api/patients/${grant.patient}` });
+    });
+
+    it('stops opening the record once it expires', async () => {
+      const { res } = await openAs(loadGrant({ expiresAt: new Date(Date.now() - 1000) }));
+
+      expect(res.status).toBe(403);
+      expect(res.body.data).toBeUndefined();
+    });
+  });
+
+  describe('review', () => {
+    const reviewAs = async (user: ReturnType<typeof loadStaff>, grant: InstanceType<typeof BreakGlassAccess>, body: Record<string, unknown>) => {
+      const { authorization, handlers } = signIn(user);
+      mockQueries({
+        ...handlers,
+        'User.findOne': byId(user),
+        'BreakGlassAccess.findOne': () => grant,
+      });
+      const saves = mockSaves(BreakGlassAccess);
+
+      const res = await request(app).post(`/api/break-glass/${grant._id}/review`).set('Authorization', authorization).send(body);
+      return { res, saves };
+    };
+
+    it('records the reviewer and decision', async () => {
+      const { res, saves } = await reviewAs(admin, loadGrant(), { decision: 'flagged', notes: 'No emergency on record' });
+
+      expect(res.status).toBe(200);
+      const [, update] = saves.updateOne.mock.calls[0] as any[];
+      expect(update.$set).toMatchObject({ reviewStatus: 'flagged', reviewNotes: 'No emergency on record', reviewedBy: admin._id });
+      expect(update.$set.reviewedAt).toBeInstanceOf(Date);
+    });
+
+    it('cannot be done by the user who broke the glass', async () => {
+      const selfReviewer = loadStaff('admin', 'selfreview');
+      const { res, saves } = await reviewAs(selfReviewer, loadGrant({ user: selfReviewer._id }), { decision: 'approved' });
+
+      expect(res.status).toBe(403);
+      expect(saves.updateOne).not.toHaveBeenCalled();
+    });
+
+    it('needs the review permission', async () => {
+      const { res, saves } = await reviewAs(nurse, loadGrant(), { decision: 'approved' });
+
+      expect(res.status).toBe(403);
+      expect(saves.updateOne).not.toHaveBeenCalled();
+    });
+  });
+});
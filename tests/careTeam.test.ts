@@ -0,0 +1,268 @@
+import { afterEach, describe, expect, it, jest } from '@jest/globals';
+import request from 'supertest';
+import { Query, Types } from 'mongoose';
+import Appointment from '../src/models/Appointment.js';
+import BreakGlassAccess from '../src/models/BreakGlassAccess.js';
+import Patient from '../src/models/Patient.js';
+import RecordVersion from '../src/models/RecordVersion.js';
+import User from '../src/models/User.js';
+import appointmentRoutes from '../src/routes/appointment.routes.js';
+import patientRoutes from '../src/routes/patient.routes.js';
+import { PatientAccess, careTeamFilter, presentAppointment } from '../src/utils/patientAccess.js';
+import { buildApp } from './helpers/app.js';
+import { byId, mockAuditLog, signIn } from './helpers/auth.js';
+import { loadAppointment as loadOpenAppointment, loadPatient as loadValidPatient, loadStaff } from './helpers/fixtures.js';
+import { mockQueries, mockSaves } from './helpers/queries.js';
+
+const app = buildApp({ '/api/patients': patientRoutes, '/api/appointments': appointmentRoutes });
+
+const staffUser = (role: string, name: string) => User.hydrate({
+  _id: new Types.ObjectId(),
+  username: name,
+  email: `${name}@example.com`,
+  firstName: name,
+  lastName: 'Tester',
+  role,
+  isActive: true,
+});
+
+const doctor = staffUser('doctor', 'doctor');
+const otherDoctor = staffUser('doctor', 'other');
+const admin = staffUser('admin', 'admin');
+
+const loadPatient = (overrides: Record<string, unknown> = {}) => Patient.hydrate({
+  _id: new Types.ObjectId(),
+  firstName: 'Pat',
+  lastName: 'Patient',
+  email: 'pat@example.com',
+  phone: '555-0100',
+  dateOfBirth: new Date('1980-05-01'),
+  primaryDoctor: doctor._id,
+  careTeam: [],
+  isActive: true,
+  ...overrides,
+});
+
+const scopedAccess = (user = doctor): PatientAccess => ({ userId: user._id, clinical: true, careTeamOnly: true });
+
+const loadAppointment = (patient: InstanceType<typeof Patient>, bookedWith = doctor) => {
+  const appointment = Appointment.hydrate({
+    _id: new Types.ObjectId(),
+    doctor: bookedWith._id,
+    date: new Date('2026-10-19'),
+    time: '10:00',
+    duration: 30,
+    status: 'completed',
+    diagnosis: 'Hypertension',
+    notes: 'Follow up in three months',
+  });
+  appointment.patient = patient as any;
+  return appointment;
+};
+
+describe('care-team scoping', () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('limits scoped users to patients they are primary doctor or care-team member for', () => {
+    expect(careTeamFilter(scopedAccess())).toEqual({
+      $or: [{ primaryDoctor: doctor._id }, { 'careTeam.user': doctor._id }],
+    });
+    expect(careTeamFilter({ ...scopedAccess(), careTeamOnly: false })).toEqual({});
+  });
+
+  describe('GET /api/patients/:id', () => {
+    const getAs = async (user: InstanceType<typeof User>, patient: InstanceType<typeof Patient>, grant: unknown = null) => {
+      const { authorization, handlers } = signIn(user);
+      const audit = mockAuditLog();
+      const grantLookup = jest.fn((_query: Query<unknown, unknown>) => grant);
+      mockQueries({
+        ...handlers,
+        ...audit.handlers,
+        'User.findOne': byId(user),
+        'Patient.findOne': () => patient,
+        'BreakGlassAccess.findOneAndUpdate': grantLookup,
+      });
+
+      const res = await request(app).get(`/api/patients/${patient._id}`).set('Authorization', authorization);
+      await audit.entry();
+      return { res, grantLookup };
+    };
+
+    it('opens the record for its primary doctor', async () => {
+      const { res, grantLookup } = await getAs(doctor, loadPatient());
+
+      expect(res.status).toBe(200);
+      expect(res.body.message).toBeUndefined();
+      expect(grantLookup).not.toHaveBeenCalled();
+    });
+
+    it('opens the record for a care-team member', async () => {
+      const { res } = await getAs(otherDoctor, loadPatient({ careTeam: [{ user: otherDoctor._id, role: 'consultant' }] }));
+
+      expect(res.status).toBe(200);
+    });
+
+    it('refuses other clinicians without a break-glass grant', async () => {
+      const { res } = await getAs(otherDoctor, loadPatient());
+
+      expect(res.status).toBe(403);
+      expect(res.body.data).toBeUndefined();
+    });
+
+    it('opens the record under a break-glass grant and says so', async () => {
+      const grant = BreakGlassAccess.hydrate({ _id: new Types.ObjectId(), user: otherDoctor._id });
+      const { res, grantLookup } = await getAs(otherDoctor, loadPatient(), grant);
+
+      expect(res.status).toBe(200);
+      expect(res.body.message).toMatch(/break-glass/);
+      const [query] = grantLookup.mock.calls[0];
+      expect(query.getFilter()).toMatchObject({ user: otherDoctor._id, expiresAt: { $gt: expect.any(Date) } });
+    });
+
+    it('closes restricted records to users outside the care team, admins included', async () => {
+      const { res } = await getAs(admin, loadPatient({ restriction: { category: 'vip', reason: 'Public figure' } }));
+
+      expect(res.status).toBe(403);
+    });
+  });
+
+  describe('appointments', () => {
+    it('keeps clinical fields for the doctor the appointment was booked with', () => {
+      const patient = loadPatient({ primaryDoctor: otherDoctor._id });
+
+      const data = presentAppointment(loadAppointment(patient), scopedAccess());
+
+      expect(data.diagnosis).toBe('Hypertension');
+      expect(data.patient.careTeam).toBeUndefined();
+    });
+
+    it('drops clinical fields for scoped clinicians outside the care team', () => {
+      const data = presentAppointment(loadAppointment(loadPatient(), otherDoctor), scopedAccess(staffUser('doctor', 'third')));
+
+      expect(data.diagnosis).toBeUndefined();
+      expect(data.notes).toBeUndefined();
+    });
+
+    it('shows restricted patients by name only to users outside the care team', () => {
+      const patient = loadPatient({ primaryDoctor: otherDoctor._id, restriction: { category: 'vip', reason: 'Public figure' } });
+
+      const data = presentAppointment(loadAppointment(patient), scopedAccess());
+
+      expect(data.patient).toEqual({
+        _id: patient._id,
+        firstName: 'Pat',
+        lastName: 'Patient',
+        dateOfBirth: patient.dateOfBirth,
+        restricted: true,
+      });
+      expect(data.diagnosis).toBeUndefined();
+    });
+
+    it('lists only appointments of care-team patients or booked with the scoped user', async () => {
+      const careTeamPatientId = new Types.ObjectId();
+      const { authorization, handlers } = signIn(doctor);
+      const audit = mockAuditLog();
+      let filter: Record<string, any> = {};
+      mockQueries({
+        ...handlers,
+        ...audit.handlers,
+        'User.findOne': byId(doctor),
+        'Patient.distinct': () => [careTeamPatientId],
+        'Appointment.find': query => {
+          filter = query.getFilter();
+          return [];
+        },
+        'Appointment.countDocuments': () => 0,
+      });
+
+      const res = await request(app).get('/api/appointments').set('Authorization', authorization);
+      await audit.entry();
+
+      expect(res.status).toBe(200);
+      expect(filter.$and).toEqual([{
+        $or: [{ patient: { $in: [careTeamPatientId] } }, { doctor: doctor._id }],
+      }]);
+    });
+  });
+
+  describe('appointment writes', () => {
+    const frontDesk = loadStaff('staff', 'frontdesk');
+
+    const writeAs = async (
+      user: InstanceType<typeof User>,
+      patient: InstanceType<typeof Patient>,
+      send: (authorization: string) => request.Test
+    ) => {
+      const appointment = loadOpenAppointment({ patient: patient._id, doctor: doctor._id, diagnosis: 'Hypertension' });
+      const { authorization, handlers } = signIn(user);
+      const audit = mockAuditLog();
+      const saves = mockSaves(Appointment);
+      jest.spyOn(RecordVersion, 'create').mockResolvedValue({} as never);
+      mockQueries({
+        ...handlers,
+        ...audit.handlers,
+        'User.findOne': byId(user),
+        'Appointment.findOne': () => appointment,
+        'Patient.findOne': () => patient,
+        'BreakGlassAccess.findOneAndUpdate': () => null,
+        'RecordVersion.findOne': () => null,
+        'Patient.find': () => [patient],
+        'User.find': () => [doctor],
+      });
+
+      const res = await send(authorization);
+      await audit.entry();
+      return { res, saves, appointment };
+    };
+
+    it('refuses updates from clinicians outside the care team', async () => {
+      const { res, saves } = await writeAs(otherDoctor, loadValidPatient({ primaryDoctor: doctor._id }), authorization =>
+        request(app)
+          .put(`/api/appointments/${new Types.ObjectId()}`)
+          .set('Authorization', authorization)
+          .send({ reason: 'Rescheduled by phone' }));
+
+      expect(res.status).toBe(403);
+      expect(res.body.message).toBe('Patient is not under your care');
+      expect(saves.updateOne).not.toHaveBeenCalled();
+    });
+
+    it('refuses status changes from clinicians outside the care team', async () => {
+      const { res, saves } = await writeAs(otherDoctor, loadValidPatient({ primaryDoctor: doctor._id }), authorization =>
+        request(app)
+          .post(`/api/appointments/${new Types.ObjectId()}/cancel`)
+          .set('Authorization', authorization)
+          .send({ reason: 'Patient asked to cancel' }));
+
+      expect(res.status).toBe(403);
+      expect(res.body.message).toBe('Patient is not under your care');
+      expect(saves.updateOne).not.toHaveBeenCalled();
+    });
+
+    it('refuses completion by the appointment doctor of a restricted patient outside their care team', async () => {
+      const patient = loadValidPatient({ primaryDoctor: otherDoctor._id, restriction: { category: 'vip', reason: 'Public figure' } });
+      const { res, saves } = await writeAs(doctor, patient, authorization =>
+        request(app)
+          .post(`/api/appointments/${new Types.ObjectId()}/complete`)
+          .set('Authorization', authorization)
+          .send({ diagnosis: 'Hypertension' }));
+
+      expect(res.status).toBe(403);
+      expect(res.body.message).toBe('Clinical details of this appointment are not open to you');
+      expect(saves.updateOne).not.toHaveBeenCalled();
+    });
+
+    it('lets non-clinical users confirm without seeing clinical fields', async () => {
+      const { res, saves } = await writeAs(frontDesk, loadValidPatient({ primaryDoctor: doctor._id }), authorization =>
+        request(app).post(`/api/appointments/${new Types.ObjectId()}/confirm`).set('Authorization', authorization));
+
+      expect(res.status).toBe(200);
+      expect(res.body.data.status).toBe('confirmed');
+      expect(res.body.data.diagnosis).toBeUndefined();
+      expect(res.body.data.patient.careTeam).toBeUndefined();
+      expect(saves.updateOne).toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,110 @@
+import { afterEach, describe, expect, it, jest } from '@jest/globals';
+import request from 'supertest';
+import InteractionOverride from '../src/models/InteractionOverride.js';
+import Patient from '../src/models/Patient.js';
+import RecordVersion from '../src/models/RecordVersion.js';
+import patientRoutes from '../src/routes/patient.routes.js';
+import { screenMedications, screenPrescribing } from '../src/utils/drugInteractions.js';
+import { buildApp } from './helpers/app.js';
+import { byId, mockAuditLog, signIn } from './helpers/auth.js';
+import { loadPatient, loadStaff } from './helpers/fixtures.js';
+import { mockQueries, mockSaves } from './helpers/queries.js';
+
+const app = buildApp({ '/api/patients': patientRoutes });
+const doctor = loadStaff('doctor', 'doctor');
+
+const medication = (name: string) => ({
+  name,
+  dosage: '5mg',
+  frequency: 'Once daily',
+  startDate: new Date('2026-01-05'),
+  prescribedBy: 'Dr Doctor',
+  isActive: true,
+});
+
+// Takes warfarin and is allergic to penicillin
+const loadAnticoagulatedPatient = () => loadPatient({
+  primaryDoctor: doctor._id,
+  currentMedications: [medication('Warfarin')],
+  allergies: [{ allergen: 'Penicillin', severity: 'severe', reaction: 'Hives' }],
+});
+
+describe('drug interaction screening', () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('finds severe drug-drug interactions through brand names and drug classes', () => {
+    const [warning] = screenMedications(['Advil 400mg'], ['Coumadin'], []);
+
+    expect(warning).toMatchObject({ type: 'drug-drug', severity: 'severe', medication: 'Advil 400mg', conflictsWith: 'Coumadin' });
+  });
+
+  it('finds allergies to the class a drug belongs to', () => {
+    const [warning] = screenMedications(['Augmentin'], [], ['Penicillins']);
+
+    expect(warning).toMatchObject({ type: 'drug-allergy', severity: 'severe', conflictsWith: 'Penicillins' });
+  });
+
+  it('blocks severe findings unless an override reason is given', () => {
+    const patient = loadAnticoagulatedPatient();
+
+    expect(screenPrescribing(patient, ['Ibuprofen'])).toMatchObject({ blocked: true, overridden: false });
+    expect(screenPrescribing(patient, ['Ibuprofen'], 'Short course, INR monitored')).toMatchObject({ blocked: false, overridden: true });
+    expect(screenPrescribing(patient, ['Paracetamol'])).toEqual({ warnings: [], blocked: false, overridden: false });
+  });
+
+  it('leaves out the medication being replaced', () => {
+    const patient = loadAnticoagulatedPatient();
+    const warfarin = patient.currentMedications[0];
+
+    expect(screenPrescribing(patient, ['Ibuprofen'], undefined, warfarin._id.toString()).blocked).toBe(false);
+  });
+
+  describe('POST /api/patients/:id/medications', () => {
+    const prescribe = async (body: Record<string, unknown>) => {
+      const patient = loadAnticoagulatedPatient();
+      const { authorization, handlers } = signIn(doctor);
+      const audit = mockAuditLog();
+      mockQueries({
+        ...handlers,
+        ...audit.handlers,
+        'User.findOne': byId(doctor),
+        'Patient.findOne': () => patient,
+        'RecordVersion.findOne': () => null,
+      });
+      const saves = mockSaves(Patient);
+      jest.spyOn(RecordVersion, 'create').mockResolvedValue({} as never);
+      const override = jest.spyOn(InteractionOverride, 'create').mockResolvedValue({} as never);
+
+      const res = await request(app)
+        .post(`/api/patients/${patient._id}/medications`)
+        .set('Authorization', authorization)
+        .send({ ...medication('Ibuprofen'), dosage: '400mg', ...body });
+      await audit.entry();
+      return { res, saves, override, patient };
+    };
+
+    it('refuses a severe interaction and saves nothing', async () => {
+      const { res, saves, override } = await prescribe({});
+
+      expect(res.status).toBe(409);
+      expect(res.body.warnings).toEqual([expect.objectContaining({ type: 'drug-drug', severity: 'severe', conflictsWith: 'Warfarin' })]);
+      expect(saves.updateOne).not.toHaveBeenCalled();
+      expect(override).not.toHaveBeenCalled();
+    });
+
+    it('prescribes with an override reason and records who overrode what', async () => {
+      const reason = 'Short course for acute gout, INR checked in three days';
+      const { res, saves, override, patient } = await prescribe({ interactionOverrideReason: reason });
+
+      expect(res.status).toBe(201);
+      expect(res.body.warnings).toHaveLength(1);
+      expect(saves.updateOne).toHaveBeenCalled();
+
+      const [recorded] = override.mock.calls[0] as any[];
+      expect(recorded).toMatchObject({ patient: patient._id, medications: ['Ibuprofen'], reason, overriddenBy: doctor._id });
+      expect(recorded.warnings.every((warning: { severity: string }) => warning.severity === 'severe')).toBe(true);
+    });
+  });
+});
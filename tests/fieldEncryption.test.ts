@@ -0,0 +1,154 @@
+import { afterEach, beforeEach, describe, expect, it, jest } from '@jest/globals';
+import { randomBytes } from 'crypto';
+import { Types } from 'mongoose';
+import Patient from '../src/models/Patient.js';
+import RecordVersion from '../src/models/RecordVersion.js';
+import { blindIndex, decryptValue, encryptValue, keyVersionOf, rewrapValue } from '../src/utils/encryption.js';
+import { EncryptedModel } from '../src/utils/fieldEncryption.js';
+import { mockQueries, mockSaves } from './helpers/queries.js';
+
+const newKey = () => randomBytes(32).toString('base64');
+
+const newPatient = () => new Patient({
+  firstName: 'Pat',
+  lastName: 'Patient',
+  email: 'Pat@Example.com',
+  phone: '555-0100',
+  dateOfBirth: new Date('1980-05-01'),
+  gender: 'female',
+  address: { street: '1 Main St', city: 'Springfield', state: 'IL', zipCode: '62701' },
+  emergencyContact: { name: 'Sam Patient', relationship: 'spouse', phone: '555-0101' },
+  allergies: [{ allergen: 'Penicillin', severity: 'severe' }],
+  notes: 'Prefers morning appointments',
+});
+
+describe('field encryption', () => {
+  const originalKeys = { keys: process.env.ENCRYPTION_KEYS, active: process.env.ENCRYPTION_ACTIVE_KEY_VERSION };
+
+  afterEach(() => {
+    process.env.ENCRYPTION_KEYS = originalKeys.keys;
+    process.env.ENCRYPTION_ACTIVE_KEY_VERSION = originalKeys.active;
+    jest.restoreAllMocks();
+  });
+
+  describe('envelope encryption', () => {
+    it('round-trips JSON values under fresh data keys', () => {
+      const value = [{ allergen: 'Penicillin', severity: 'severe' }];
+      const first = encryptValue(value);
+      const second = encryptValue(value);
+
+      expect(first).not.toBe(second);
+      expect(first).not.toContain('Penicillin');
+      expect(decryptValue(first)).toEqual(value);
+      expect(decryptValue(second)).toEqual(value);
+    });
+
+    it('refuses ciphertext that was tampered with', () => {
+      const parts = encryptValue('secret').split(':');
+      const ciphertext = Buffer.from(parts[5], 'base64');
+      ciphertext[0] ^= 1;
+      parts[5] = ciphertext.toString('base64');
+
+      expect(() => decryptValue(parts.join(':'))).toThrow();
+    });
+
+    it('matches blind indexes regardless of case and surrounding spaces', () => {
+      expect(blindIndex(' Pat@Example.com ')).toBe(blindIndex('pat@example.com'));
+      expect(blindIndex('pat@example.com')).not.toBe(blindIndex('pam@example.com'));
+    });
+  });
+
+  describe('key rotation', () => {
+    let oldKey: string;
+    let rotatedKey: string;
+
+    beforeEach(() => {
+      oldKey = `1:${newKey()}`;
+      rotatedKey = `2:${newKey()}`;
+      process.env.ENCRYPTION_KEYS = oldKey;
+      process.env.ENCRYPTION_ACTIVE_KEY_VERSION = '1';
+    });
+
+    it('re-wraps old values under the active key without touching the data', () => {
+      const stored = encryptValue({ insuranceNumber: 'INS-123' });
+
+      process.env.ENCRYPTION_KEYS = `${oldKey},${rotatedKey}`;
+      process.env.ENCRYPTION_ACTIVE_KEY_VERSION = '2';
+      const rewrapped = rewrapValue(stored);
+
+      expect(keyVersionOf(rewrapped)).toBe('2');
+      expect(rewrapped.split(':').slice(3)).toEqual(stored.split(':').slice(3));
+
+      // Once every value is re-wrapped the old key can be retired
+      process.env.ENCRYPTION_KEYS = rotatedKey;
+      expect(decryptValue(rewrapped)).toEqual({ insuranceNumber: 'INS-123' });
+      expect(() => decryptValue(stored)).toThrow(/version "1" is not configured/);
+    });
+
+    it('re-wraps stored documents and encrypts ones written before encryption', async () => {
+      const current = { _id: new Types.ObjectId(), encryptedFields: { notes: encryptValue('Old note') } };
+      const legacy = { _id: new Types.ObjectId(), email: 'legacy@example.com', notes: 'Plain note' };
+
+      process.env.ENCRYPTION_KEYS = `${oldKey},${rotatedKey}`;
+      process.env.ENCRYPTION_ACTIVE_KEY_VERSION = '2';
+
+      jest.spyOn(Patient.collection, 'find').mockReturnValue((async function* () {
+        yield current;
+        yield legacy;
+      })() as never);
+      const updateOne = jest.spyOn(Patient.collection, 'updateOne').mockResolvedValue({} as never);
+
+      const result = await (Patient as unknown as EncryptedModel).rotateEncryptionKeys();
+
+      expect(result).toEqual({ scanned: 2, rewrapped: 1, encrypted: 2 });
+
+      const [[currentFilter, currentUpdate], [legacyFilter, legacyUpdate]] = updateOne.mock.calls as any[];
+      expect(currentFilter).toEqual({ _id: current._id });
+      expect(keyVersionOf(currentUpdate.$set['encryptedFields.notes'])).toBe('2');
+      expect(decryptValue(currentUpdate.$set['encryptedFields.notes'])).toBe('Old note');
+
+      expect(legacyFilter).toEqual({ _id: legacy._id });
+      expect(decryptValue(legacyUpdate.$set['encryptedFields.email'])).toBe('legacy@example.com');
+      expect(legacyUpdate.$set.emailBlindIndex).toBe(blindIndex('legacy@example.com'));
+      expect(legacyUpdate.$unset).toEqual({ email: '', notes: '' });
+    });
+  });
+
+  describe('Patient documents', () => {
+    it('writes only ciphertext and keeps plaintext on the saved document', async () => {
+      mockQueries({ 'RecordVersion.findOne': () => null });
+      jest.spyOn(RecordVersion, 'create').mockResolvedValue({} as never);
+      const { insertOne } = mockSaves(Patient);
+      const patient = newPatient();
+
+      await patient.save();
+
+      const [written] = insertOne.mock.calls[0] as any[];
+      expect(JSON.stringify(written)).not.toMatch(/Penicillin|morning|pat@example/i);
+      expect(written.email).toBeUndefined();
+      expect(decryptValue(written.encryptedFields.allergies)).toEqual([expect.objectContaining({ allergen: 'Penicillin' })]);
+      expect(written.emailBlindIndex).toBe(blindIndex('pat@example.com'));
+
+      expect(patient.email).toBe('pat@example.com');
+      expect(patient.allergies[0].allergen).toBe('Penicillin');
+      expect(patient.isModified()).toBe(false);
+    });
+
+    it('decrypts on load and keeps storage paths out of JSON', () => {
+      const patient = Patient.hydrate({
+        _id: new Types.ObjectId(),
+        firstName: 'Pat',
+        encryptedFields: { email: encryptValue('pat@example.com'), notes: encryptValue('Prefers mornings') },
+        emailBlindIndex: blindIndex('pat@example.com'),
+      });
+
+      expect(patient.email).toBe('pat@example.com');
+      expect(patient.notes).toBe('Prefers mornings');
+
+      const json = patient.toJSON();
+      expect(json.encryptedFields).toBeUndefined();
+      expect(json.emailBlindIndex).toBeUndefined();
+      expect(json.email).toBe('pat@example.com');
+    });
+  });
+});
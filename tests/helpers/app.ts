@@ -0,0 +1,10 @@
+import express, { Router } from 'express';
+
+// The API with just the routers under test; server.ts would connect to MongoDB on import
+export const buildApp = (mounts: Record<string, Router>) => {
+  const app = express();
+  app.use(express.json());
+
+  Object.entries(mounts).forEach(([path, router]) => app.use(path, router));
+  return app;
+};
@@ -0,0 +1,50 @@
+import { randomUUID } from 'crypto';
+import { jest } from '@jest/globals';
+import jwt from 'jsonwebtoken';
+import { Types } from 'mongoose';
+import AuditLog from '../../src/models/AuditLog.js';
+import Session from '../../src/models/Session.js';
+import { IUser } from '../../src/types/index.js';
+import { QueryHandler } from './queries.js';
+
+// A bearer token for the user, and the session lookup authenticate() makes to accept it
+export const signIn = (user: IUser): { authorization: string; handlers: Record<string, QueryHandler> } => {
+  const jti = randomUUID();
+  const token = jwt.sign({ userId: user._id, email: user.email, role: user.role }, process.env.JWT_SECRET as string, {
+    expiresIn: '15m',
+    jwtid: jti,
+  });
+  const session = Session.hydrate({ _id: new Types.ObjectId(), user: user._id, jti, expiresAt: new Date(Date.now() + 15 * 60 * 1000) });
+
+  return {
+    authorization: `Bearer ${token}`,
+    handlers: { 'Session.findOne': () => session },
+  };
+};
+
+// Answer lookups by _id from a fixed set of documents
+export const byId = <T extends { _id: Types.ObjectId }>(...docs: T[]): QueryHandler => {
+  return query => docs.find(doc => doc._id.equals(query.getFilter()._id)) || null;
+};
+
+// Audit entries are appended after the response is sent; entry() waits for the next one
+export const mockAuditLog = () => {
+  const written: Array<Record<string, any>> = [];
+  let notify: () => void = () => undefined;
+
+  jest.spyOn(AuditLog, 'create').mockImplementation((async (record: Record<string, any>) => {
+    written.push(record);
+    notify();
+    return record;
+  }) as never);
+
+  return {
+    handlers: { 'AuditLog.findOne': () => null } as Record<string, QueryHandler>,
+    entry: async (): Promise<Record<string, any>> => {
+      if (written.length === 0) {
+        await new Promise<void>(resolve => { notify = resolve; });
+      }
+      return written.shift()!;
+    },
+  };
+};
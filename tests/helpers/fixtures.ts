@@ -0,0 +1,56 @@
+import { Types } from 'mongoose';
+import Appointment from '../../src/models/Appointment.js';
+import Patient from '../../src/models/Patient.js';
+import User from '../../src/models/User.js';
+
+// Documents as they would be loaded from the database, complete enough to validate and save
+
+export const loadStaff = (role: string, name: string, overrides: Record<string, unknown> = {}) => User.hydrate({
+  _id: new Types.ObjectId(),
+  username: name,
+  email: `${name}@example.com`,
+  firstName: name,
+  lastName: 'Tester',
+  role,
+  isActive: true,
+  failedLoginAttempts: 0,
+  passwordHistory: [],
+  twoFactor: { enabled: false, recoveryCodes: [] },
+  ...overrides,
+});
+
+export const loadPatient = (overrides: Record<string, unknown> = {}) => Patient.hydrate({
+  _id: new Types.ObjectId(),
+  firstName: 'Pat',
+  lastName: 'Patient',
+  email: 'pat@example.com',
+  phone: '555-0100',
+  dateOfBirth: new Date('1980-05-01'),
+  gender: 'female',
+  address: { street: '1 Main St', city: 'Springfield', state: 'IL', zipCode: '62701' },
+  emergencyContact: { name: 'Sam Patient', relationship: 'spouse', phone: '555-0101' },
+  medicalHistory: [],
+  currentMedications: [],
+  allergies: [],
+  careTeam: [],
+  isActive: true,
+  ...overrides,
+});
+
+export const loadAppointment = (overrides: Record<string, unknown> = {}) => Appointment.hydrate({
+  _id: new Types.ObjectId(),
+  patient: new Types.ObjectId(),
+  doctor: new Types.ObjectId(),
+  type: 'consultation',
+  status: 'scheduled',
+  // A Monday, inside the default working hours
+  date: new Date('2026-10-19T00:00:00.000Z'),
+  time: '10:00',
+  duration: 30,
+  reason: 'Persistent cough',
+  symptoms: [],
+  prescriptions: [],
+  statusHistory: [],
+  createdBy: new Types.ObjectId(),
+  ...overrides,
+});
@@ -0,0 +1,26 @@
+import { jest } from '@jest/globals';
+import mongoose, { Model, Query } from 'mongoose';
+
+export type QueryHandler = (query: Query<unknown, unknown>) => unknown;
+
+// Answer model queries without a database. Handlers are keyed by "<Model>.<operation>",
+// e.g. "Appointment.find", and receive the query so they can inspect its filter.
+export const mockQueries = (handlers: Record<string, QueryHandler>) => {
+  return jest.spyOn(mongoose.Query.prototype, 'exec').mockImplementation(async function(this: Query<unknown, unknown>) {
+    // The operation name is set at runtime but missing from the Query typings
+    const { op } = this as unknown as { op: string };
+    const key = `${this.model.modelName}.${op}`;
+    const handler = handlers[key];
+
+    if (!handler) {
+      throw new Error(`Unexpected query ${key}`);
+    }
+    return handler(this);
+  });
+};
+
+// Let documents of a model save without a database; the spies record what would have been written
+export const mockSaves = (model: Model<any>) => ({
+  insertOne: jest.spyOn(model.collection, 'insertOne').mockResolvedValue({ acknowledged: true } as never),
+  updateOne: jest.spyOn(model.collection, 'updateOne').mockResolvedValue({ acknowledged: true, matchedCount: 1, modifiedCount: 1 } as never),
+});
@@ -0,0 +1,71 @@
+import { afterEach, describe, expect, it, jest } from '@jest/globals';
+import request from 'supertest';
+import { Types } from 'mongoose';
+import Immunization from '../src/models/Immunization.js';
+import Patient from '../src/models/Patient.js';
+import immunizationRoutes from '../src/routes/immunization.routes.js';
+import { evaluateImmunizations, nextDueDate } from '../src/utils/immunizations.js';
+import { buildApp } from './helpers/app.js';
+import { byId, mockAuditLog, signIn } from './helpers/auth.js';
+import { loadPatient, loadStaff } from './helpers/fixtures.js';
+import { mockQueries } from './helpers/queries.js';
+
+const app = buildApp({ '/api/patients/:patientId/immunizations': immunizationRoutes });
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const birth = new Date('2026-10-01T00:00:00.000Z');
+const firstHepB = { vaccine: 'HEPB', doseNumber: 1, administeredAt: new Date('2026-10-02T00:00:00.000Z') };
+
+describe('immunization due dates', () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('falls due at birth for a newborn without doses', () => {
+    const newborn = { age: 0, dateOfBirth: birth };
+
+    expect(nextDueDate(evaluateImmunizations(newborn, [], new Date('2026-10-19')))).toEqual(birth);
+  });
+
+  it('moves to the next dose once one is given', () => {
+    const newborn = { age: 0, dateOfBirth: birth };
+
+    expect(nextDueDate(evaluateImmunizations(newborn, [firstHepB], new Date('2026-10-19'))))
+      .toEqual(new Date(firstHepB.administeredAt.getTime() + 28 * DAY_MS));
+  });
+
+  it('is left unset when nothing remains to be given', () => {
+    expect(nextDueDate([{ code: 'MMR', name: 'Measles', status: 'complete', dosesGiven: 2, seriesDoses: 2 }])).toBeUndefined();
+  });
+
+  it('is stored on the patient when a dose is recorded', async () => {
+    const nurse = loadStaff('nurse', 'nurse');
+    const patient = loadPatient({ dateOfBirth: birth, primaryDoctor: nurse._id });
+    const { authorization, handlers } = signIn(nurse);
+    const audit = mockAuditLog();
+    mockQueries({
+      ...handlers,
+      ...audit.handlers,
+      'User.findOne': byId(nurse),
+      'User.find': () => [nurse],
+      'Patient.findOne': () => patient,
+      'Immunization.findOne': () => null,
+      'Immunization.find': () => [{ ...firstHepB, patient: patient._id }],
+    });
+    jest.spyOn(Immunization, 'create').mockImplementation((async (record: Record<string, unknown>) =>
+      Immunization.hydrate({ _id: new Types.ObjectId(), ...record })) as never);
+    const bulkWrite = jest.spyOn(Patient, 'bulkWrite').mockResolvedValue({} as never);
+
+    const res = await request(app)
+      .post(`/api/patients/${patient._id}/immunizations`)
+      .set('Authorization', authorization)
+      .send({ vaccine: 'HEPB', administeredAt: firstHepB.administeredAt.toISOString(), lotNumber: 'HB-1', site: 'left-thigh' });
+    await audit.entry();
+
+    expect(res.status).toBe(201);
+    const [[operation]] = bulkWrite.mock.calls[0] as any[];
+    expect(operation.updateOne.filter).toEqual({ _id: patient._id });
+    expect(operation.updateOne.update.$set.nextImmunizationDueAt)
+      .toEqual(new Date(firstHepB.administeredAt.getTime() + 28 * DAY_MS));
+  });
+});
@@ -0,0 +1,175 @@
+import { afterEach, beforeAll, describe, expect, it, jest } from '@jest/globals';
+import bcrypt from 'bcryptjs';
+import request from 'supertest';
+import { Query, Types } from 'mongoose';
+import LoginAttempt from '../src/models/LoginAttempt.js';
+import User from '../src/models/User.js';
+import authRoutes from '../src/routes/auth.routes.js';
+import userRoutes from '../src/routes/user.routes.js';
+import { registerFailure } from '../src/utils/loginThrottle.js';
+import { buildApp } from './helpers/app.js';
+import { byId, mockAuditLog, signIn } from './helpers/auth.js';
+import { mockQueries, mockSaves } from './helpers/queries.js';
+
+const app = buildApp({ '/api/auth': authRoutes, '/api/users': userRoutes });
+let passwordHash: string;
+
+const loadUser = (overrides: Record<string, unknown> = {}) => User.hydrate({
+  _id: new Types.ObjectId(),
+  username: 'sstaff',
+  email: 'staff@example.com',
+  firstName: 'Rita',
+  lastName: 'Staff',
+  role: 'staff',
+  isActive: true,
+  password: passwordHash,
+  failedLoginAttempts: 0,
+  ...overrides,
+});
+
+const recordedAttempts = () => {
+  const reasons: string[] = [];
+  jest.spyOn(LoginAttempt, 'create').mockImplementation((async (attempt: { reason: string }) => {
+    reasons.push(attempt.reason);
+    return attempt;
+  }) as never);
+  return reasons;
+};
+
+describe('login lockout', () => {
+  beforeAll(async () => {
+    process.env.LOGIN_BASE_DELAY_MS = '1';
+    passwordHash = await bcrypt.hash('Correct-Pass1', 4);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  // Answers the failure increment with the count the database would return
+  const failureQueries = (user: InstanceType<typeof User>, counted: number) => {
+    const increments: Record<string, any>[] = [];
+    const updates: Query<unknown, unknown>[] = [];
+    mockQueries({
+      'User.findOne': () => user,
+      'User.findOneAndUpdate': query => {
+        increments.push(query.getUpdate() as Record<string, any>);
+        return User.hydrate({ _id: user._id, failedLoginAttempts: counted });
+      },
+      'User.updateOne': query => {
+        updates.push(query);
+        return { acknowledged: true, matchedCount: 1, modifiedCount: 1 };
+      },
+    });
+    return { increments, updates };
+  };
+
+  it('locks the account once the attempt limit is reached', async () => {
+    const user = loadUser({ failedLoginAttempts: 4 });
+    const { increments, updates } = failureQueries(user, 5);
+
+    expect(await registerFailure(user)).toBe(5);
+
+    expect(increments[0].$inc).toEqual({ failedLoginAttempts: 1 });
+    expect(updates).toHaveLength(1);
+    const lockUntil = (updates[0].getUpdate() as Record<string, any>).$set.lockUntil as Date;
+    expect(lockUntil.getTime()).toBeGreaterThan(Date.now() + 14 * 60 * 1000);
+  });
+
+  it('locks on the count the database returns, not the one loaded with the user', async () => {
+    // Another failure landed between loading the user and counting this one
+    const user = loadUser({ failedLoginAttempts: 3 });
+    const { updates } = failureQueries(user, 5);
+
+    await registerFailure(user);
+
+    expect(updates).toHaveLength(1);
+    expect((updates[0].getUpdate() as Record<string, any>).$set.lockUntil).toBeInstanceOf(Date);
+  });
+
+  it('leaves the account open below the limit', async () => {
+    const user = loadUser({ failedLoginAttempts: 2 });
+    const { updates } = failureQueries(user, 3);
+
+    expect(await registerFailure(user)).toBe(3);
+    expect(updates).toHaveLength(0);
+  });
+
+  it('starts a fresh round of attempts after the lock expires', async () => {
+    const lockUntil = new Date(Date.now() - 1000);
+    const user = loadUser({ failedLoginAttempts: 5, lockUntil });
+    const { updates } = failureQueries(user, 1);
+
+    expect(await registerFailure(user)).toBe(1);
+
+    expect(updates).toHaveLength(1);
+    expect(updates[0].getFilter()).toEqual({ _id: user._id, lockUntil });
+    expect(updates[0].getUpdate()).toMatchObject({ $set: { failedLoginAttempts: 0 }, $unset: { lockUntil: 1 } });
+  });
+
+  it('counts a wrong password against the account', async () => {
+    const user = loadUser({ failedLoginAttempts: 1 });
+    const { increments } = failureQueries(user, 2);
+    const { updateOne } = mockSaves(User);
+    const reasons = recordedAttempts();
+
+    const res = await request(app).post('/api/auth/login').send({ email: user.email, password: 'Wrong-Pass1' });
+
+    expect(res.status).toBe(401);
+    expect(reasons).toEqual(['invalid-credentials']);
+    expect(increments).toHaveLength(1);
+    expect(updateOne).not.toHaveBeenCalled();
+  });
+
+  it('refuses a locked account even with the right password', async () => {
+    const user = loadUser({ failedLoginAttempts: 5, lockUntil: new Date(Date.now() + 60 * 1000) });
+    mockQueries({ 'User.findOne': () => user });
+    const { updateOne } = mockSaves(User);
+    const reasons = recordedAttempts();
+
+    const res = await request(app).post('/api/auth/login').send({ email: user.email, password: 'Correct-Pass1' });
+
+    expect(res.status).toBe(429);
+    expect(res.body.data).toBeUndefined();
+    expect(reasons).toEqual(['locked']);
+    expect(updateOne).not.toHaveBeenCalled();
+  });
+
+  it('gives unknown emails with recent failures the same locked answer', async () => {
+    mockQueries({
+      'User.findOne': () => null,
+      'LoginAttempt.countDocuments': () => 5,
+    });
+    const reasons = recordedAttempts();
+
+    const res = await request(app).post('/api/auth/login').send({ email: 'nobody@example.com', password: 'Any-Pass1' });
+
+    expect(res.status).toBe(429);
+    expect(reasons).toEqual(['locked']);
+  });
+
+  it('ignores lockout fields sent to PUT /api/users/:id', async () => {
+    const user = loadUser({ failedLoginAttempts: 5, lockUntil: new Date(Date.now() + 60 * 1000) });
+    const { authorization, handlers } = signIn(user);
+    const audit = mockAuditLog();
+    mockQueries({ ...handlers, ...audit.handlers, 'User.findOne': byId(user) });
+    const { updateOne } = mockSaves(User);
+
+    const res = await request(app)
+      .put(`/api/users/${user._id}`)
+      .set('Authorization', authorization)
+      .send({ firstName: 'Rose', failedLoginAttempts: 0, lockUntil: null, role: 'admin' });
+
+    expect(res.status).toBe(200);
+    const [, update] = updateOne.mock.calls[0] as any[];
+    expect(update.$set.firstName).toBe('Rose');
+    expect(update.$set).not.toHaveProperty('failedLoginAttempts');
+    expect(update.$set).not.toHaveProperty('role');
+    expect(update.$unset).toBeUndefined();
+
+    const changed = (await audit.entry()).changes.map((change: { field: string }) => change.field);
+    expect(changed).toContain('firstName');
+    expect(changed).not.toContain('failedLoginAttempts');
+    expect(changed).not.toContain('lockUntil');
+  });
+});
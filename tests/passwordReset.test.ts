@@ -0,0 +1,192 @@
+import { afterEach, beforeAll, describe, expect, it, jest } from '@jest/globals';
+import bcrypt from 'bcryptjs';
+import request from 'supertest';
+import { Types } from 'mongoose';
+import PasswordResetToken from '../src/models/PasswordResetToken.js';
+import User from '../src/models/User.js';
+import authRoutes from '../src/routes/auth.routes.js';
+import { MailMessage, setMailTransport } from '../src/utils/mailer.js';
+import { hashToken } from '../src/utils/tokens.js';
+import { buildApp } from './helpers/app.js';
+import { mockQueries, mockSaves } from './helpers/queries.js';
+
+const app = buildApp({ '/api/auth': authRoutes });
+const userId = new Types.ObjectId();
+const outbox: MailMessage[] = [];
+
+let currentHash: string;
+let previousHash: string;
+
+const loadUser = (overrides: Record<string, unknown> = {}) => User.hydrate({
+  _id: userId,
+  username: 'nnurse',
+  email: 'nurse@example.com',
+  firstName: 'Nora',
+  lastName: 'Nurse',
+  role: 'nurse',
+  isActive: true,
+  password: currentHash,
+  passwordHistory: [{ hash: previousHash, changedAt: new Date('2026-01-01') }],
+  ...overrides,
+});
+
+const claimedToken = () => PasswordResetToken.hydrate({
+  _id: new Types.ObjectId(),
+  user: userId,
+  tokenHash: hashToken('reset-token'),
+  expiresAt: new Date(Date.now() + 60 * 60 * 1000),
+});
+
+describe('password reset', () => {
+  beforeAll(async () => {
+    setMailTransport({ send: async message => { outbox.push(message); } });
+    currentHash = await bcrypt.hash('Current-Pass1', 4);
+    previousHash = await bcrypt.hash('Previous-Pass1', 4);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    outbox.length = 0;
+  });
+
+  it('answers the same way for unknown emails and sends nothing', async () => {
+    mockQueries({ 'User.findOne': () => null });
+
+    const res = await request(app).post('/api/auth/forgot-password').send({ email: 'nobody@example.com' });
+
+    expect(res.status).toBe(200);
+    expect(res.body.message).toMatch(/If an account exists/);
+    expect(outbox).toHaveLength(0);
+  });
+
+  it('mails a link whose token is only stored as a hash, replacing older links', async () => {
+    let cleared: Record<string, any> = {};
+    mockQueries({
+      'User.findOne': () => loadUser(),
+      'PasswordResetToken.deleteMany': query => {
+        cleared = query.getFilter();
+        return { deletedCount: 1 };
+      },
+    });
+    const created = jest.spyOn(PasswordResetToken, 'create').mockResolvedValue({} as never);
+
+    const res = await request(app).post('/api/auth/forgot-password').send({ email: 'nurse@example.com' });
+
+    expect(res.status).toBe(200);
+    expect(cleared).toEqual({ user: userId, usedAt: { $exists: false } });
+
+    const token = outbox[0].text.match(/token=([\w-]+)/)![1];
+    const [stored] = created.mock.calls[0] as any[];
+    expect(stored.tokenHash).toBe(hashToken(token));
+    expect(JSON.stringify(stored)).not.toContain(token);
+  });
+
+  it('claims only unused, unexpired tokens', async () => {
+    let claim: Record<string, any> = {};
+    mockQueries({
+      'PasswordResetToken.findOneAndUpdate': query => {
+        claim = query.getFilter();
+        return null;
+      },
+    });
+
+    const res = await request(app).post('/api/auth/reset-password').send({ token: 'reset-token', newPassword: 'Brand-New-Pass1' });
+
+    expect(res.status).toBe(400);
+    expect(claim.tokenHash).toBe(hashToken('reset-token'));
+    expect(claim.usedAt).toEqual({ $exists: false });
+    expect(claim.expiresAt.$gt).toBeInstanceOf(Date);
+  });
+
+  it('hashes the new password, keeps the old hash in the history and signs out everywhere', async () => {
+    const revoked: string[] = [];
+    mockQueries({
+      'PasswordResetToken.findOneAndUpdate': () => claimedToken(),
+      'User.findOne': () => loadUser(),
+      'Session.updateMany': query => {
+        revoked.push(`sessions of ${query.getFilter().user}`);
+        return { modifiedCount: 2 };
+      },
+      'RefreshToken.updateMany': query => {
+        revoked.push(`refresh tokens of ${query.getFilter().user}`);
+        return { modifiedCount: 2 };
+      },
+    });
+    const { updateOne } = mockSaves(User);
+
+    const res = await request(app).post('/api/auth/reset-password').send({ token: 'reset-token', newPassword: 'Brand-New-Pass1' });
+
+    expect(res.status).toBe(200);
+
+    const [, update] = updateOne.mock.calls[0] as any[];
+    expect(update.$set.password).not.toBe('Brand-New-Pass1');
+    await expect(bcrypt.compare('Brand-New-Pass1', update.$set.password)).resolves.toBe(true);
+    expect(update.$set.passwordHistory.map((entry: { hash: string }) => entry.hash)).toEqual([currentHash, previousHash]);
+    expect(revoked).toEqual([`sessions of ${userId}`, `refresh tokens of ${userId}`]);
+  });
+
+  it('lifts a lockout in the same save as the new password', async () => {
+    mockQueries({
+      'PasswordResetToken.findOneAndUpdate': () => claimedToken(),
+      'User.findOne': () => loadUser({
+        failedLoginAttempts: 5,
+        lastFailedLoginAt: new Date(),
+        lockUntil: new Date(Date.now() + 15 * 60 * 1000),
+      }),
+      'Session.updateMany': () => ({ modifiedCount: 0 }),
+      'RefreshToken.updateMany': () => ({ modifiedCount: 0 }),
+    });
+    const { updateOne } = mockSaves(User);
+
+    const res = await request(app).post('/api/auth/reset-password').send({ token: 'reset-token', newPassword: 'Brand-New-Pass1' });
+
+    expect(res.status).toBe(200);
+    expect(updateOne).toHaveBeenCalledTimes(1);
+    const [, update] = updateOne.mock.calls[0] as any[];
+    expect(update.$set.password).toBeDefined();
+    expect(update.$set.failedLoginAttempts).toBe(0);
+    expect(update.$unset).toMatchObject({ lockUntil: 1, lastFailedLoginAt: 1 });
+  });
+
+  it('refuses a recently used password and releases the token for another try', async () => {
+    const token = claimedToken();
+    let released: { filter?: any; update?: any } = {};
+    mockQueries({
+      'PasswordResetToken.findOneAndUpdate': () => token,
+      'User.findOne': () => loadUser(),
+      'PasswordResetToken.updateOne': query => {
+        released = { filter: query.getFilter(), update: query.getUpdate() };
+        return { modifiedCount: 1 };
+      },
+    });
+    const { updateOne } = mockSaves(User);
+
+    const res = await request(app).post('/api/auth/reset-password').send({ token: 'reset-token', newPassword: 'Previous-Pass1' });
+
+    expect(res.status).toBe(400);
+    expect(res.body.message).toMatch(/recently used/);
+    expect(released.filter).toEqual({ _id: token._id });
+    expect(released.update).toEqual({ $unset: { usedAt: 1 } });
+    expect(updateOne).not.toHaveBeenCalled();
+  });
+
+  it('rejects passwords that do not meet the policy', async () => {
+    const res = await request(app).post('/api/auth/reset-password').send({ token: 'reset-token', newPassword: 'weakpass' });
+
+    expect(res.status).toBe(400);
+    expect(JSON.stringify(res.body)).toMatch(/uppercase letter/);
+  });
+
+  describe('User model', () => {
+    it('checks a changed password against the policy, whatever it looks like', async () => {
+      const user = loadUser();
+      user.setPassword(`$2a$12$${'a'.repeat(53)}`);
+
+      await expect(user.validate()).rejects.toThrow(/Password must contain/);
+    });
+
+    it('does not re-check the stored hash of an unchanged password', async () => {
+      await expect(loadUser().validate()).resolves.toBeUndefined();
+    });
+  });
+});
@@ -0,0 +1,183 @@
+import { afterAll, afterEach, beforeAll, describe, expect, it, jest } from '@jest/globals';
+import { createHash } from 'crypto';
+import { Readable } from 'stream';
+import request from 'supertest';
+import { Query, Types } from 'mongoose';
+import PatientDocument from '../src/models/PatientDocument.js';
+import patientDocumentRoutes from '../src/routes/patientDocument.routes.js';
+import { localDiskStorage, setStorageBackend } from '../src/utils/storage.js';
+import { buildApp } from './helpers/app.js';
+import { byId, mockAuditLog, signIn } from './helpers/auth.js';
+import { loadPatient, loadStaff } from './helpers/fixtures.js';
+import { QueryHandler, mockQueries } from './helpers/queries.js';
+
+const app = buildApp({ '/api/patients/:patientId/documents': patientDocumentRoutes });
+
+const doctor = loadStaff('doctor', 'doctor');
+const otherDoctor = loadStaff('doctor', 'other');
+
+const pdf = Buffer.from('%PDF-1.7\n1 0 obj << /Type /Catalog >> endobj\n%%EOF\n');
+const html = Buffer.from('<html><script>alert(1)</script></html>');
+
+// Files kept in memory instead of under UPLOAD_PATH
+const stored = new Map<string, Buffer>();
+
+describe('patient documents', () => {
+  beforeAll(() => {
+    setStorageBackend({
+      put: async (key, body) => { stored.set(key, body); },
+      get: async key => (stored.has(key) ? Readable.from([stored.get(key)!]) : null),
+      remove: async key => { stored.delete(key); },
+    });
+  });
+
+  afterAll(() => {
+    setStorageBackend(localDiskStorage);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    stored.clear();
+    delete process.env.MAX_FILE_SIZE;
+  });
+
+  const as = async (
+    user: ReturnType<typeof loadStaff>,
+    patient: ReturnType<typeof loadPatient>,
+    send: (authorization: string) => request.Test,
+    handlers: Record<string, QueryHandler> = {}
+  ) => {
+    const { authorization, handlers: sessionHandlers } = signIn(user);
+    const audit = mockAuditLog();
+    mockQueries({
+      ...sessionHandlers,
+      ...audit.handlers,
+      'User.findOne': byId(user),
+      'Patient.findOne': () => patient,
+      'BreakGlassAccess.findOneAndUpdate': () => null,
+      ...handlers,
+    });
+
+    const res = await send(authorization);
+    await audit.entry();
+    return res;
+  };
+
+  describe('upload', () => {
+    const upload = async (user: ReturnType<typeof loadStaff>, file: Buffer, name: string, contentType = 'application/pdf') => {
+      const patient = loadPatient({ primaryDoctor: doctor._id });
+      const create = jest.spyOn(PatientDocument, 'create').mockImplementation((async (record: Record<string, unknown>) =>
+        PatientDocument.hydrate({ _id: new Types.ObjectId(), ...record })) as never);
+
+      const res = await as(user, patient, authorization => request(app)
+        .post(`/api/patients/${patient._id}/documents`)
+        .set('Authorization', authorization)
+        .field('type', 'lab-report')
+        .attach('file', file, { filename: name, contentType }));
+      return { res, create, patient };
+    };
+
+    it('stores an accepted file under the patient with its checksum', async () => {
+      const { res, create, patient } = await upload(doctor, pdf, 'bloods.pdf');
+
+      expect(res.status).toBe(201);
+      const [key] = [...stored.keys()];
+      expect(key).toMatch(new RegExp(`^patients/${patient._id}/documents/[\\w-]+\\.pdf$`));
+      const [record] = create.mock.calls[0] as any[];
+      expect(record.file).toMatchObject({
+        key,
+        mimeType: 'application/pdf',
+        size: pdf.length,
+        checksum: createHash('sha256').update(pdf).digest('hex'),
+        originalName: 'bloods.pdf',
+      });
+    });
+
+    it('judges the type by the file\'s content, not the declared type', async () => {
+      const { res, create } = await upload(doctor, html, 'results.pdf', 'application/pdf');
+
+      expect(res.status).toBe(400);
+      expect(res.body.message).toMatch(/File type not allowed/);
+      expect(stored.size).toBe(0);
+      expect(create).not.toHaveBeenCalled();
+    });
+
+    it('rejects files over MAX_FILE_SIZE', async () => {
+      process.env.MAX_FILE_SIZE = '1024';
+      const large = Buffer.concat([pdf, Buffer.alloc(2048, 0x20)]);
+
+      const { res, create } = await upload(doctor, large, 'scan.pdf');
+
+      expect(res.status).toBe(400);
+      expect(res.body.message).toBe('File cannot exceed 1 KB');
+      expect(stored.size).toBe(0);
+      expect(create).not.toHaveBeenCalled();
+    });
+
+    it('refuses users outside the care team before storing anything', async () => {
+      const { res, create } = await upload(otherDoctor, pdf, 'bloods.pdf');
+
+      expect(res.status).toBe(403);
+      expect(stored.size).toBe(0);
+      expect(create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('download', () => {
+    const download = (user: ReturnType<typeof loadStaff>, patient: ReturnType<typeof loadPatient>, handler: QueryHandler) => {
+      const documentId = new Types.ObjectId();
+      return as(user, patient, authorization => request(app)
+        .get(`/api/patients/${patient._id}/documents/${documentId}/download`)
+        .set('Authorization', authorization), { 'PatientDocument.findOne': handler });
+    };
+
+    const storedDocument = (patient: ReturnType<typeof loadPatient>) => {
+      const key = `patients/${patient._id}/documents/bloods.pdf`;
+      stored.set(key, pdf);
+      return PatientDocument.hydrate({
+        _id: new Types.ObjectId(),
+        patient: patient._id,
+        type: 'lab-report',
+        documentDate: new Date('2026-10-01'),
+        file: { key, mimeType: 'application/pdf', size: pdf.length, checksum: 'x', originalName: 'bloods.pdf' },
+        uploadedBy: doctor._id,
+      });
+    };
+
+    it('sends the file to the care team without caching', async () => {
+      const patient = loadPatient({ primaryDoctor: doctor._id });
+      const document = storedDocument(patient);
+
+      const res = await download(doctor, patient, () => document);
+
+      expect(res.status).toBe(200);
+      expect(res.headers['content-type']).toBe('application/pdf');
+      expect(res.headers['content-disposition']).toBe('attachment; filename="bloods.pdf"');
+      expect(res.headers['cache-control']).toBe('private, no-store');
+      expect(Buffer.from(res.body as Buffer).equals(pdf)).toBe(true);
+    });
+
+    it('only finds live documents of the patient in the URL', async () => {
+      const patient = loadPatient({ primaryDoctor: doctor._id });
+      let filter: Record<string, unknown> = {};
+
+      const res = await download(doctor, patient, (query: Query<unknown, unknown>) => {
+        filter = query.getFilter();
+        return null;
+      });
+
+      expect(res.status).toBe(404);
+      expect(filter).toMatchObject({ patient: patient._id, deletedAt: { $exists: false } });
+    });
+
+    it('is refused to users outside the care team', async () => {
+      const patient = loadPatient({ primaryDoctor: doctor._id });
+      const lookup = jest.fn(() => storedDocument(patient));
+
+      const res = await download(otherDoctor, patient, lookup);
+
+      expect(res.status).toBe(403);
+      expect(lookup).not.toHaveBeenCalled();
+    });
+  });
+});
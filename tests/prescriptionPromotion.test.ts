@@ -0,0 +1,133 @@
+import { afterEach, describe, expect, it, jest } from '@jest/globals';
+import request from 'supertest';
+import Appointment from '../src/models/Appointment.js';
+import InteractionOverride from '../src/models/InteractionOverride.js';
+import Patient from '../src/models/Patient.js';
+import RecordVersion from '../src/models/RecordVersion.js';
+import appointmentRoutes from '../src/routes/appointment.routes.js';
+import { courseEndDate, promotePrescriptions } from '../src/utils/prescriptions.js';
+import { buildApp } from './helpers/app.js';
+import { byId, mockAuditLog, signIn } from './helpers/auth.js';
+import { loadAppointment, loadPatient, loadStaff } from './helpers/fixtures.js';
+import { mockQueries, mockSaves } from './helpers/queries.js';
+
+const app = buildApp({ '/api/appointments': appointmentRoutes });
+const doctor = loadStaff('doctor', 'doctor');
+const completedAt = new Date('2026-10-19T10:30:00.000Z');
+
+const prescription = (medication: string, duration = '7 days') => ({ medication, dosage: '500mg', frequency: 'Three times daily', duration });
+
+const lisinopril = {
+  name: 'Lisinopril',
+  dosage: '5mg',
+  frequency: 'Once daily',
+  startDate: new Date('2026-01-05'),
+  prescribedBy: 'Dr. Earlier',
+  isActive: true,
+};
+
+describe('prescription promotion', () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('reads course lengths from free text', () => {
+    const start = new Date(2026, 0, 31);
+
+    expect(courseEndDate(start, '7 days')).toEqual(new Date(2026, 1, 7));
+    expect(courseEndDate(start, '2 weeks')).toEqual(new Date(2026, 1, 14));
+    expect(courseEndDate(start, '1 month')).toEqual(new Date(2026, 1, 28));
+    expect(courseEndDate(start, 'ongoing')).toBeUndefined();
+  });
+
+  describe('promotePrescriptions', () => {
+    const promote = async (patient: ReturnType<typeof loadPatient>, prescriptions: ReturnType<typeof prescription>[]) => {
+      const appointment = loadAppointment({ patient: patient._id, doctor: doctor._id, status: 'completed', completedAt, prescriptions });
+      mockQueries({ 'User.findOne': byId(doctor) });
+      return { appointment, promoted: await promotePrescriptions(patient, appointment, doctor._id) };
+    };
+
+    it('adds new medications linked to the visit', async () => {
+      const patient = loadPatient();
+
+      const { appointment, promoted } = await promote(patient, [prescription('Amoxicillin')]);
+
+      expect(promoted).toHaveLength(1);
+      expect(patient.currentMedications[0]).toMatchObject({
+        name: 'Amoxicillin',
+        dosage: '500mg',
+        startDate: completedAt,
+        endDate: new Date(completedAt.getTime() + 7 * 24 * 60 * 60 * 1000),
+        prescribedBy: 'Dr. doctor Tester',
+        sourceAppointment: appointment._id,
+        recordedBy: doctor._id,
+      });
+    });
+
+    it('renews an active entry for the same medication instead of duplicating it', async () => {
+      const patient = loadPatient({ currentMedications: [lisinopril] });
+
+      await promote(patient, [{ ...prescription('lisinopril ', 'ongoing'), dosage: '10mg' }]);
+      await promote(patient, [{ ...prescription('lisinopril ', 'ongoing'), dosage: '10mg' }]);
+
+      expect(patient.currentMedications).toHaveLength(1);
+      expect(patient.currentMedications[0]).toMatchObject({ name: 'Lisinopril', dosage: '10mg', startDate: lisinopril.startDate });
+      expect(patient.currentMedications[0].endDate).toBeUndefined();
+    });
+  });
+
+  describe('POST /api/appointments/:id/complete', () => {
+    const complete = async (patient: ReturnType<typeof loadPatient>, body: Record<string, unknown>) => {
+      const appointment = loadAppointment({ patient: patient._id, doctor: doctor._id, status: 'in-progress', checkedInAt: completedAt });
+      const { authorization, handlers } = signIn(doctor);
+      const audit = mockAuditLog();
+      mockQueries({
+        ...handlers,
+        ...audit.handlers,
+        'User.findOne': byId(doctor),
+        'User.find': () => [doctor],
+        'Appointment.findOne': () => appointment,
+        'Patient.findOne': () => patient,
+        'Patient.find': () => [patient],
+        'RecordVersion.findOne': () => null,
+      });
+      const patientSaves = mockSaves(Patient);
+      const appointmentSaves = mockSaves(Appointment);
+      jest.spyOn(RecordVersion, 'create').mockResolvedValue({} as never);
+      jest.spyOn(InteractionOverride, 'create').mockResolvedValue({} as never);
+
+      const res = await request(app)
+        .post(`/api/appointments/${appointment._id}/complete`)
+        .set('Authorization', authorization)
+        .send({ diagnosis: 'Acute otitis media', ...body });
+      await audit.entry();
+      return { res, patientSaves, appointmentSaves };
+    };
+
+    it('adds the visit\'s prescriptions to the patient\'s medications', async () => {
+      const patient = loadPatient({ primaryDoctor: doctor._id });
+
+      const { res, patientSaves, appointmentSaves } = await complete(patient, { prescriptions: [prescription('Amoxicillin')] });
+
+      expect(res.status).toBe(200);
+      expect(res.body.data.status).toBe('completed');
+      expect(patientSaves.updateOne).toHaveBeenCalled();
+      expect(appointmentSaves.updateOne).toHaveBeenCalled();
+      expect(patient.currentMedications.map(med => med.name)).toEqual(['Amoxicillin']);
+    });
+
+    it('completes nothing when a prescription conflicts with an allergy', async () => {
+      const patient = loadPatient({
+        primaryDoctor: doctor._id,
+        allergies: [{ allergen: 'Penicillin', severity: 'severe', reaction: 'Anaphylaxis' }],
+      });
+
+      const { res, patientSaves, appointmentSaves } = await complete(patient, { prescriptions: [prescription('Amoxicillin')] });
+
+      expect(res.status).toBe(409);
+      expect(patientSaves.updateOne).not.toHaveBeenCalled();
+      expect(appointmentSaves.updateOne).not.toHaveBeenCalled();
+      expect(patient.currentMedications).toHaveLength(0);
+    });
+  });
+});
@@ -0,0 +1,129 @@
+import { afterEach, describe, expect, it, jest } from '@jest/globals';
+import request from 'supertest';
+import { Types } from 'mongoose';
+import Patient from '../src/models/Patient.js';
+import RecordVersion from '../src/models/RecordVersion.js';
+import Referral from '../src/models/Referral.js';
+import referralRoutes from '../src/routes/referral.routes.js';
+import { ReferralAction, mayTakeAction } from '../src/utils/referrals.js';
+import { buildApp } from './helpers/app.js';
+import { byId, mockAuditLog, signIn } from './helpers/auth.js';
+import { loadPatient, loadStaff } from './helpers/fixtures.js';
+import { mockQueries, mockSaves } from './helpers/queries.js';
+
+const app = buildApp({ '/api/referrals': referralRoutes });
+
+const gp = loadStaff('doctor', 'gp');
+const cardiologist = loadStaff('doctor', 'cardiologist');
+const colleague = loadStaff('doctor', 'colleague');
+
+const loadReferral = (overrides: Record<string, unknown> = {}) => Referral.hydrate({
+  _id: new Types.ObjectId(),
+  patient: new Types.ObjectId(),
+  referredBy: gp._id,
+  toDoctor: cardiologist._id,
+  specialty: 'Cardiology',
+  reason: 'Exertional chest pain with an abnormal ECG',
+  urgency: 'urgent',
+  status: 'sent',
+  statusHistory: [],
+  documents: [],
+  ...overrides,
+});
+
+const externalReferral = () => loadReferral({
+  toDoctor: undefined,
+  externalProvider: { name: 'Dr Outside', specialty: 'Cardiology', organisation: 'City Heart Clinic' },
+});
+
+describe('referral actors', () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it.each<[ReferralAction, string, boolean]>([
+    ['accept', 'receiving doctor', true],
+    ['decline', 'receiving doctor', true],
+    ['complete', 'receiving doctor', true],
+    ['cancel', 'receiving doctor', false],
+    ['accept', 'referring doctor', false],
+    ['cancel', 'referring doctor', true],
+  ])('allows %s of an internal referral by its %s: %s', (action, actor, allowed) => {
+    const userId = actor === 'receiving doctor' ? cardiologist._id : gp._id;
+
+    expect(mayTakeAction(loadReferral(), action, userId)).toBe(allowed);
+  });
+
+  it('has the referring doctor record an external provider\'s replies', () => {
+    const referral = externalReferral();
+
+    (['accept', 'decline', 'complete', 'cancel'] as ReferralAction[]).forEach(action => {
+      expect(mayTakeAction(referral, action, gp._id)).toBe(true);
+      expect(mayTakeAction(referral, action, cardiologist._id)).toBe(false);
+    });
+  });
+
+  describe('transition endpoints', () => {
+    const actAs = async (
+      user: ReturnType<typeof loadStaff>,
+      referral: ReturnType<typeof loadReferral>,
+      action: ReferralAction,
+      body: Record<string, unknown> = {}
+    ) => {
+      const patient = loadPatient({ _id: referral.patient, primaryDoctor: gp._id, careTeam: [{ user: colleague._id, role: 'doctor' }] });
+      const { authorization, handlers } = signIn(user);
+      const audit = mockAuditLog();
+      mockQueries({
+        ...handlers,
+        ...audit.handlers,
+        'User.findOne': byId(user),
+        'User.find': () => [gp, cardiologist],
+        'Referral.findOne': () => referral,
+        'Patient.findOne': () => patient,
+        'Patient.find': () => [patient],
+        'PatientDocument.find': () => [],
+        'RecordVersion.findOne': () => null,
+      });
+      const referralSaves = mockSaves(Referral);
+      const patientSaves = mockSaves(Patient);
+      jest.spyOn(RecordVersion, 'create').mockResolvedValue({} as never);
+
+      const res = await request(app).post(`/api/referrals/${referral._id}/${action}`).set('Authorization', authorization).send(body);
+      await audit.entry();
+      return { res, referralSaves, patientSaves, patient };
+    };
+
+    it('refuses a response from the referring doctor of an internal referral', async () => {
+      const { res, referralSaves } = await actAs(gp, loadReferral(), 'accept');
+
+      expect(res.status).toBe(403);
+      expect(res.body.message).toBe('Only the receiving doctor can respond to this referral');
+      expect(referralSaves.updateOne).not.toHaveBeenCalled();
+    });
+
+    it('refuses a cancellation from anyone but the referring doctor, care team included', async () => {
+      const { res, referralSaves } = await actAs(colleague, loadReferral(), 'cancel', { reason: 'No longer needed' });
+
+      expect(res.status).toBe(403);
+      expect(res.body.message).toBe('Only the referring doctor can cancel this referral');
+      expect(referralSaves.updateOne).not.toHaveBeenCalled();
+    });
+
+    it('adds the receiving doctor to the care team on acceptance', async () => {
+      const { res, referralSaves, patientSaves, patient } = await actAs(cardiologist, loadReferral(), 'accept', { note: 'Clinic next week' });
+
+      expect(res.status).toBe(200);
+      expect(res.body.data.status).toBe('accepted');
+      expect(referralSaves.updateOne).toHaveBeenCalled();
+      expect(patientSaves.updateOne).toHaveBeenCalled();
+      expect(patient.careTeam.map(member => member.user)).toContainEqual(cardiologist._id);
+    });
+
+    it('lets the referring doctor record an external provider\'s acceptance without changing the care team', async () => {
+      const { res, patientSaves } = await actAs(gp, externalReferral(), 'accept');
+
+      expect(res.status).toBe(200);
+      expect(patientSaves.updateOne).not.toHaveBeenCalled();
+    });
+  });
+});
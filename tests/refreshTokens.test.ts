@@ -0,0 +1,146 @@
+import { afterEach, describe, expect, it, jest } from '@jest/globals';
+import request from 'supertest';
+import { Types } from 'mongoose';
+import RefreshToken from '../src/models/RefreshToken.js';
+import Session from '../src/models/Session.js';
+import User from '../src/models/User.js';
+import authRoutes from '../src/routes/auth.routes.js';
+import { consumeRefreshToken, hashToken, readRefreshToken } from '../src/utils/tokens.js';
+import { buildApp } from './helpers/app.js';
+import { mockQueries } from './helpers/queries.js';
+
+const userId = new Types.ObjectId();
+
+const storedToken = (overrides: Record<string, unknown> = {}) => RefreshToken.hydrate({
+  _id: new Types.ObjectId(),
+  user: userId,
+  tokenHash: hashToken('raw-token'),
+  family: 'family-1',
+  sessionJti: 'jti-1',
+  expiresAt: new Date(Date.now() + 60 * 60 * 1000),
+  ...overrides,
+});
+
+describe('refresh tokens', () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('consumes a live token only if it is neither used nor revoked', async () => {
+    const token = storedToken();
+    let filter: Record<string, any> = {};
+    mockQueries({
+      'RefreshToken.findOneAndUpdate': query => {
+        filter = query.getFilter();
+        return token;
+      },
+    });
+
+    await expect(consumeRefreshToken('raw-token')).resolves.toEqual({ token });
+    expect(filter).toEqual({
+      tokenHash: hashToken('raw-token'),
+      usedAt: { $exists: false },
+      revokedAt: { $exists: false },
+    });
+  });
+
+  it('rejects an expired token', async () => {
+    mockQueries({ 'RefreshToken.findOneAndUpdate': () => storedToken({ expiresAt: new Date(Date.now() - 1000) }) });
+
+    await expect(consumeRefreshToken('raw-token')).resolves.toEqual({ error: 'expired' });
+  });
+
+  it('rejects an unknown token without revoking anything', async () => {
+    const revoke = jest.fn(() => ({ modifiedCount: 0 }));
+    mockQueries({
+      'RefreshToken.findOneAndUpdate': () => null,
+      'RefreshToken.findOne': () => null,
+      'RefreshToken.updateMany': revoke,
+      'Session.updateMany': revoke,
+    });
+
+    await expect(consumeRefreshToken('raw-token')).resolves.toEqual({ error: 'invalid' });
+    expect(revoke).not.toHaveBeenCalled();
+  });
+
+  it('revokes the whole family when a spent token is replayed', async () => {
+    const revoked: Record<string, { filter: any; update: any }> = {};
+    mockQueries({
+      'RefreshToken.findOneAndUpdate': () => null,
+      'RefreshToken.findOne': () => storedToken({ usedAt: new Date() }),
+      'RefreshToken.updateMany': query => {
+        revoked.refreshTokens = { filter: query.getFilter(), update: query.getUpdate() };
+        return { modifiedCount: 2 };
+      },
+      'Session.updateMany': query => {
+        revoked.sessions = { filter: query.getFilter(), update: query.getUpdate() };
+        return { modifiedCount: 2 };
+      },
+    });
+
+    await expect(consumeRefreshToken('raw-token')).resolves.toEqual({ error: 'reused' });
+
+    ['refreshTokens', 'sessions'].forEach(collection => {
+      expect(revoked[collection].filter).toEqual({ family: 'family-1', revokedAt: { $exists: false } });
+      expect(revoked[collection].update.$set.revokedReason).toBe('reuse-detected');
+    });
+  });
+
+  it('reads the token from the body before the cookie', () => {
+    const fromCookie = { body: {}, headers: { cookie: 'theme=dark; refreshToken=abc%2F123' } };
+    const fromBody = { body: { refreshToken: 'from-body' }, headers: { cookie: 'refreshToken=abc' } };
+
+    expect(readRefreshToken(fromCookie as any)).toBe('abc/123');
+    expect(readRefreshToken(fromBody as any)).toBe('from-body');
+  });
+
+  describe('POST /api/auth/refresh', () => {
+    const app = buildApp({ '/api/auth': authRoutes });
+
+    it('answers a replayed token with 401 and clears the cookie', async () => {
+      mockQueries({
+        'RefreshToken.findOneAndUpdate': () => null,
+        'RefreshToken.findOne': () => storedToken({ usedAt: new Date() }),
+        'RefreshToken.updateMany': () => ({ modifiedCount: 1 }),
+        'Session.updateMany': () => ({ modifiedCount: 1 }),
+      });
+
+      const res = await request(app).post('/api/auth/refresh').set('Cookie', 'refreshToken=raw-token');
+
+      expect(res.status).toBe(401);
+      expect(res.body.message).toMatch(/reuse detected/);
+      expect(res.headers['set-cookie'][0]).toMatch(/^refreshToken=;/);
+    });
+
+    it('rotates within the family and retires the previous access token', async () => {
+      const user = User.hydrate({ _id: userId, email: 'doctor@example.com', role: 'doctor', isActive: true });
+      let retired: Record<string, any> = {};
+      mockQueries({
+        'RefreshToken.findOneAndUpdate': () => storedToken(),
+        'User.findOne': () => user,
+        'Session.updateOne': query => {
+          retired = query.getFilter();
+          return { modifiedCount: 1 };
+        },
+      });
+      const createdSession = jest.spyOn(Session, 'create').mockResolvedValue({} as never);
+      const createdToken = jest.spyOn(RefreshToken, 'create').mockResolvedValue({} as never);
+
+      const res = await request(app)
+        .post('/api/auth/refresh')
+        .set('X-Client-Platform', 'mobile')
+        .send({ refreshToken: 'raw-token' });
+
+      expect(res.status).toBe(200);
+      expect(retired.jti).toBe('jti-1');
+      expect(res.body.data.refreshToken).toEqual(expect.any(String));
+      expect(res.body.data.refreshToken).not.toBe('raw-token');
+
+      const [session] = createdSession.mock.calls[0] as any[];
+      const [newToken] = createdToken.mock.calls[0] as any[];
+      expect(session.family).toBe('family-1');
+      expect(newToken.family).toBe('family-1');
+      expect(newToken.tokenHash).toBe(hashToken(res.body.data.refreshToken));
+    });
+  });
+});
@@ -0,0 +1,12 @@
+import { randomBytes } from 'crypto';
+import mongoose from 'mongoose';
+
+// Tests answer model queries themselves; nothing may wait for a database connection
+mongoose.set('bufferCommands', false);
+mongoose.set('autoCreate', false);
+mongoose.set('autoIndex', false);
+
+process.env.JWT_SECRET = 'test-jwt-secret';
+process.env.ENCRYPTION_KEYS = `1:${randomBytes(32).toString('base64')}`;
+process.env.ENCRYPTION_ACTIVE_KEY_VERSION = '1';
+process.env.BLIND_INDEX_KEY = randomBytes(32).toString('base64');
@@ -0,0 +1,171 @@
+import { afterEach, beforeAll, describe, expect, it, jest } from '@jest/globals';
+import bcrypt from 'bcryptjs';
+import request from 'supertest';
+import { Query, Types } from 'mongoose';
+import LoginAttempt from '../src/models/LoginAttempt.js';
+import RefreshToken from '../src/models/RefreshToken.js';
+import Session from '../src/models/Session.js';
+import User from '../src/models/User.js';
+import authRoutes from '../src/routes/auth.routes.js';
+import userRoutes from '../src/routes/user.routes.js';
+import { hashToken } from '../src/utils/tokens.js';
+import { base32Encode, currentStep, generateHotp, verifyTotp } from '../src/utils/totp.js';
+import { consumeSecondFactor, signChallengeToken } from '../src/utils/twoFactor.js';
+import { buildApp } from './helpers/app.js';
+import { byId, mockAuditLog, signIn } from './helpers/auth.js';
+import { mockQueries, mockSaves } from './helpers/queries.js';
+
+const app = buildApp({ '/api/auth': authRoutes, '/api/users': userRoutes });
+
+// RFC 4226 appendix D test secret
+const rfcSecret = base32Encode(Buffer.from('12345678901234567890'));
+const secret = base32Encode(Buffer.from('a-doctors-totp-secret'));
+let passwordHash: string;
+
+const loadDoctor = (twoFactor: Record<string, unknown> = {}) => User.hydrate({
+  _id: new Types.ObjectId(),
+  username: 'ddoctor',
+  email: 'doctor@example.com',
+  firstName: 'Dana',
+  lastName: 'Doctor',
+  role: 'doctor',
+  isActive: true,
+  password: passwordHash,
+  failedLoginAttempts: 0,
+  passwordHistory: [],
+  twoFactor: {
+    enabled: true,
+    secret,
+    recoveryCodes: [hashToken('abcd-1234')],
+    lastUsedStep: currentStep() - 5,
+    ...twoFactor,
+  },
+});
+
+describe('two-factor authentication', () => {
+  beforeAll(async () => {
+    process.env.LOGIN_BASE_DELAY_MS = '1';
+    passwordHash = await bcrypt.hash('Correct-Pass1', 4);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('TOTP', () => {
+    it('matches the RFC 4226 test vectors', () => {
+      expect(generateHotp(rfcSecret, 0)).toBe('755224');
+      expect(generateHotp(rfcSecret, 1)).toBe('287082');
+      expect(generateHotp(rfcSecret, 9)).toBe('520489');
+    });
+
+    it('accepts the neighbouring steps for clock drift but nothing further', () => {
+      const step = currentStep();
+
+      expect(verifyTotp(secret, generateHotp(secret, step - 1))).toBe(step - 1);
+      expect(verifyTotp(secret, generateHotp(secret, step + 1))).toBe(step + 1);
+      expect(verifyTotp(secret, generateHotp(secret, step - 2))).toBeNull();
+    });
+
+    it('rejects a code from a step that was already used', () => {
+      const step = currentStep();
+
+      expect(verifyTotp(secret, generateHotp(secret, step), step)).toBeNull();
+    });
+
+    it('consumes recovery codes once', () => {
+      const user = loadDoctor();
+
+      expect(consumeSecondFactor(user, undefined, ' ABCD-1234 ')).toBe(true);
+      expect(user.twoFactor.recoveryCodes).toHaveLength(0);
+      expect(consumeSecondFactor(user, undefined, 'abcd-1234')).toBe(false);
+    });
+  });
+
+  describe('login', () => {
+    it('answers a correct password with a challenge instead of tokens', async () => {
+      mockQueries({ 'User.findOne': () => loadDoctor() });
+      const createdSession = jest.spyOn(Session, 'create');
+
+      const res = await request(app).post('/api/auth/login').send({ email: 'doctor@example.com', password: 'Correct-Pass1' });
+
+      expect(res.status).toBe(200);
+      expect(res.body.data).toEqual({ twoFactorRequired: true, challengeToken: expect.any(String) });
+      expect(createdSession).not.toHaveBeenCalled();
+    });
+
+    it('issues tokens for a valid code and remembers its step', async () => {
+      const doctor = loadDoctor();
+      mockQueries({ 'User.findOne': () => doctor });
+      const { updateOne } = mockSaves(User);
+      jest.spyOn(LoginAttempt, 'create').mockResolvedValue({} as never);
+      jest.spyOn(Session, 'create').mockResolvedValue({} as never);
+      jest.spyOn(RefreshToken, 'create').mockResolvedValue({} as never);
+
+      const step = currentStep();
+
+      const res = await request(app).post('/api/auth/login/2fa').send({
+        challengeToken: signChallengeToken(doctor, '2fa-login'),
+        code: generateHotp(secret, step),
+      });
+
+      expect(res.status).toBe(200);
+      expect(res.body.data.token).toEqual(expect.any(String));
+      const [, update] = updateOne.mock.calls[0] as any[];
+      expect(update.$set['twoFactor.lastUsedStep']).toBe(step);
+    });
+
+    it('counts a replayed code as a failed attempt', async () => {
+      const doctor = loadDoctor({ lastUsedStep: currentStep() });
+      const failure = jest.fn((_query: Query<unknown, unknown>) => User.hydrate({ _id: doctor._id, failedLoginAttempts: 1 }));
+      mockQueries({ 'User.findOne': () => doctor, 'User.findOneAndUpdate': failure });
+      jest.spyOn(LoginAttempt, 'create').mockResolvedValue({} as never);
+      const createdSession = jest.spyOn(Session, 'create');
+
+      const res = await request(app).post('/api/auth/login/2fa').send({
+        challengeToken: signChallengeToken(doctor, '2fa-login'),
+        code: generateHotp(secret, currentStep()),
+      });
+
+      expect(res.status).toBe(401);
+      expect(createdSession).not.toHaveBeenCalled();
+      expect(failure.mock.calls[0][0].getUpdate()).toMatchObject({ $inc: { failedLoginAttempts: 1 } });
+    });
+
+    it('does not accept an enrolment challenge in place of a login challenge', async () => {
+      const doctor = loadDoctor();
+      const lookup = jest.fn(() => doctor);
+      mockQueries({ 'User.findOne': lookup });
+
+      const res = await request(app).post('/api/auth/login/2fa').send({
+        challengeToken: signChallengeToken(doctor, '2fa-enrol'),
+        code: generateHotp(secret, currentStep()),
+      });
+
+      expect(res.status).toBe(401);
+      expect(lookup).not.toHaveBeenCalled();
+    });
+  });
+
+  it('ignores two-factor settings sent to PUT /api/users/:id', async () => {
+    const doctor = loadDoctor();
+    const { authorization, handlers } = signIn(doctor);
+    const audit = mockAuditLog();
+    mockQueries({ ...handlers, ...audit.handlers, 'User.findOne': byId(doctor) });
+    const { updateOne } = mockSaves(User);
+
+    const res = await request(app)
+      .put(`/api/users/${doctor._id}`)
+      .set('Authorization', authorization)
+      .send({ lastName: 'Doe', twoFactor: { enabled: false, recoveryCodes: [] } });
+
+    expect(res.status).toBe(200);
+    const [, update] = updateOne.mock.calls[0] as any[];
+    expect(update.$set.lastName).toBe('Doe');
+    expect(Object.keys(update.$set).filter(path => path.startsWith('twoFactor'))).toEqual([]);
+    expect(update.$unset).toBeUndefined();
+
+    // Let the audit entry be written before the mocks are restored
+    await audit.entry();
+  });
+});